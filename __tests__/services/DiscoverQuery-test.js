@@ -0,0 +1,57 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { buildDiscoverQuery } from '../../app/services/TMDBService';
+
+describe('buildDiscoverQuery', () => {
+  it('defaults to popularity and the first page', () => {
+    expect(buildDiscoverQuery({})).toBe('page=1&sort_by=popularity.desc');
+  });
+
+  it('builds the same query regardless of selection order', () => {
+    expect(buildDiscoverQuery({ withGenres: [80, 18] })).toBe(buildDiscoverQuery({ withGenres: [18, 80] }));
+  });
+
+  it('ORs included values and ANDs excluded genres', () => {
+    const query = buildDiscoverQuery(
+      {
+        withGenres: [18, 80],
+        withoutGenres: [16, 10762],
+        withNetworks: [213, 49],
+        statuses: ['Returning Series', 'Ended'],
+        sortBy: 'vote_average.desc',
+      },
+      3
+    );
+
+    expect(query).toContain('with_genres=18%7C80');
+    expect(query).toContain('without_genres=10762%2C16');
+    expect(query).toContain('with_networks=213%7C49');
+    expect(query).toContain('with_status=0%7C3');
+    expect(query).toContain('sort_by=vote_average.desc');
+    expect(query).toContain('page=3');
+  });
+
+  it('maps ranges onto the TMDB parameter names', () => {
+    const params = new URLSearchParams(
+      buildDiscoverQuery({
+        firstAirDateFrom: '2010-01-01',
+        firstAirDateTo: '2015-12-31',
+        minRating: 7,
+        minVoteCount: 200,
+        originalLanguage: 'ko',
+        minRuntime: 30,
+        maxRuntime: 60,
+      })
+    );
+
+    expect(params.get('first_air_date.gte')).toBe('2010-01-01');
+    expect(params.get('first_air_date.lte')).toBe('2015-12-31');
+    expect(params.get('vote_average.gte')).toBe('7');
+    expect(params.get('vote_count.gte')).toBe('200');
+    expect(params.get('with_original_language')).toBe('ko');
+    expect(params.get('with_runtime.gte')).toBe('30');
+    expect(params.get('with_runtime.lte')).toBe('60');
+  });
+});
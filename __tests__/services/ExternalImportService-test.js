@@ -0,0 +1,123 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { TraktImporter } from '../../app/services/importers/TraktImporter';
+import { TVTimeImporter } from '../../app/services/importers/TVTimeImporter';
+import { IMDbImporter } from '../../app/services/importers/IMDbImporter';
+import { BackupFormatError } from '../../app/services/WatchlistBackupService';
+import { toWatchlistEntry } from '../../app/services/ExternalImportService';
+
+const traktShow = { title: 'Severance', year: 2022, ids: { trakt: 1, tmdb: 95396, imdb: 'tt11280740', tvdb: 371980 } };
+
+describe('TraktImporter', () => {
+  it('folds watched shows, history and the watchlist into one show per id', () => {
+    const text = JSON.stringify([
+      {
+        show: traktShow,
+        last_watched_at: '2024-03-01T00:00:00.000Z',
+        seasons: [{ number: 1, episodes: [{ number: 1, last_watched_at: '2024-02-01T00:00:00.000Z' }] }],
+      },
+      { type: 'episode', watched_at: '2024-01-15T00:00:00.000Z', episode: { season: 1, number: 1 }, show: traktShow },
+      { type: 'episode', watched_at: '2024-01-16T00:00:00.000Z', episode: { season: 1, number: 2 }, show: traktShow },
+      { type: 'show', listed_at: '2023-12-01T00:00:00.000Z', show: { title: 'Dark', ids: { imdb: 'tt5753856', tmdb: null } } },
+      { type: 'movie', movie: { title: 'Heat' } },
+    ]);
+
+    const shows = TraktImporter.parse(text);
+
+    expect(shows).toHaveLength(2);
+    expect(shows[0]).toMatchObject({ title: 'Severance', ids: { tmdb: 95396, imdb: 'tt11280740', tvdb: 371980 } });
+    // The earliest time an episode was watched is kept
+    expect(shows[0].watched).toEqual([
+      { season: 1, episode: 1, watchedAt: '2024-01-15T00:00:00.000Z' },
+      { season: 1, episode: 2, watchedAt: '2024-01-16T00:00:00.000Z' },
+    ]);
+    expect(shows[1]).toMatchObject({
+      title: 'Dark',
+      ids: { imdb: 'tt5753856', tmdb: undefined },
+      addedAt: '2023-12-01T00:00:00.000Z',
+      status: 'plan_to_watch',
+    });
+  });
+
+  it('rejects files that are not JSON', () => {
+    expect(() => TraktImporter.parse('title,tmdb_id')).toThrow(BackupFormatError);
+  });
+});
+
+describe('TVTimeImporter', () => {
+  it('reads followed shows and seen episodes by their TheTVDB ids', () => {
+    const text = [
+      'tv_show_id,tv_show_name,episode_season_number,episode_number,created_at',
+      '121361,Game of Thrones,,,2019-05-01 10:00:00',
+      '121361,Game of Thrones,1,1,2019-05-02 21:00:00',
+      ',Unknown Show,2,3,',
+    ].join('\n');
+
+    const shows = TVTimeImporter.parse(text);
+
+    expect(shows).toHaveLength(2);
+    expect(shows[0]).toMatchObject({ title: 'Game of Thrones', ids: { tvdb: 121361 } });
+    expect(shows[0].addedAt).toBe(new Date('2019-05-01 10:00:00').toISOString());
+    expect(shows[0].watched).toEqual([{ season: 1, episode: 1, watchedAt: new Date('2019-05-02 21:00:00').toISOString() }]);
+    expect(shows[1]).toMatchObject({ title: 'Unknown Show', ids: { tvdb: undefined } });
+    expect(shows[1].watched).toEqual([{ season: 2, episode: 3, watchedAt: expect.any(String) }]);
+  });
+
+  it('needs a show column', () => {
+    expect(() => TVTimeImporter.parse('foo,bar\n1,2')).toThrow(BackupFormatError);
+  });
+});
+
+describe('IMDbImporter', () => {
+  it('keeps only series from a list export', () => {
+    const text = [
+      'Position,Const,Created,Modified,Description,Title,URL,Title Type,IMDb Rating,Year',
+      '1,tt0903747,2024-01-05,2024-01-05,,Breaking Bad,https://www.imdb.com/title/tt0903747/,TV Series,9.5,2008',
+      '2,tt0113277,2024-01-06,2024-01-06,,Heat,https://www.imdb.com/title/tt0113277/,Movie,8.3,1995',
+      '3,tt7366338,2024-01-07,2024-01-07,,"Chernobyl",https://www.imdb.com/title/tt7366338/,TV Mini Series,9.3,2019',
+    ].join('\n');
+
+    expect(IMDbImporter.parse(text)).toEqual([
+      {
+        title: 'Breaking Bad',
+        year: 2008,
+        ids: { imdb: 'tt0903747' },
+        addedAt: '2024-01-05T00:00:00.000Z',
+        status: 'plan_to_watch',
+        watched: [],
+      },
+      expect.objectContaining({ title: 'Chernobyl', ids: { imdb: 'tt7366338' } }),
+    ]);
+  });
+
+  it('needs the Const column', () => {
+    expect(() => IMDbImporter.parse('Title,Year\nBreaking Bad,2008')).toThrow('missing the const column');
+  });
+});
+
+describe('toWatchlistEntry', () => {
+  it('dates the entry from the first watched episode when the source has no added date', () => {
+    const entry = toWatchlistEntry({
+      show: { id: 1, name: 'Show' },
+      external: {
+        title: 'Show',
+        ids: { tvdb: 1 },
+        watched: [
+          { season: 1, episode: 2, watchedAt: '2024-02-01T00:00:00.000Z' },
+          { season: 1, episode: 1, watchedAt: '2024-01-01T00:00:00.000Z' },
+        ],
+      },
+    }, '2025-01-01T00:00:00.000Z');
+
+    expect(entry).toEqual({
+      show: { id: 1, name: 'Show' },
+      addedAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      source: 'import',
+      user: { status: 'watching', tags: [] },
+      listIds: [],
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { FixtureMetadataProvider } from '../../app/services/providers/FixtureMetadataProvider';
+import { TMDBAbortError, TMDBNotFoundError } from '../../app/services/TMDBError';
+
+const show = (id, name) => ({ id, name, overview: '', poster_path: `/${id}.jpg` });
+
+const createProvider = () =>
+  new FixtureMetadataProvider({
+    lists: { popular: [2, 1, 99], top_rated: [1], airing_today: [] },
+    shows: [show(1, 'Breaking Bad'), show(2, 'Better Call Saul')],
+    seasons: [{ show_id: 1, season_number: 1, name: 'Season 1', episodes: [] }],
+  });
+
+describe('FixtureMetadataProvider', () => {
+  it('resolves lists in order and skips unknown ids', async () => {
+    const response = await createProvider().getPopularTVShows();
+
+    expect(response.results.map(item => item.id)).toEqual([2, 1]);
+    expect(response).toMatchObject({ page: 1, total_pages: 1, total_results: 2 });
+  });
+
+  it('searches show names case-insensitively', async () => {
+    const response = await createProvider().searchTVShows('  BREAKING ');
+
+    expect(response.results.map(item => item.name)).toEqual(['Breaking Bad']);
+  });
+
+  it('returns seasons without the fixture show id', async () => {
+    const season = await createProvider().getSeasonDetails(1, 1);
+
+    expect(season).toEqual({ season_number: 1, name: 'Season 1', episodes: [] });
+  });
+
+  it('serves episode details from the season fixtures', async () => {
+    const provider = new FixtureMetadataProvider({
+      lists: { popular: [], top_rated: [], airing_today: [] },
+      shows: [show(1, 'Breaking Bad')],
+      seasons: [{
+        show_id: 1,
+        season_number: 1,
+        name: 'Season 1',
+        episodes: [{ id: 62085, name: 'Pilot', episode_number: 1, season_number: 1, still_path: '/pilot.jpg' }],
+      }],
+    });
+
+    await expect(provider.getEpisodeDetails(1, 1, 1)).resolves.toMatchObject({ name: 'Pilot', guest_stars: [], crew: [] });
+    await expect(provider.getEpisodeImages(1, 1, 1)).resolves.toEqual([expect.objectContaining({ file_path: '/pilot.jpg' })]);
+    await expect(provider.getEpisodeDetails(1, 1, 2)).rejects.toBeInstanceOf(TMDBNotFoundError);
+  });
+
+  it('throws TMDB-style not found errors for unknown shows and seasons', async () => {
+    const provider = createProvider();
+
+    await expect(provider.getTVShowDetails(42)).rejects.toBeInstanceOf(TMDBNotFoundError);
+    await expect(provider.getSeasonDetails(1, 5)).rejects.toBeInstanceOf(TMDBNotFoundError);
+  });
+
+  it('rejects requests whose signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      createProvider().getTVShowDetails(1, { signal: controller.signal })
+    ).rejects.toBeInstanceOf(TMDBAbortError);
+  });
+
+  it('serves show creators as crew and person credits', async () => {
+    const creator = { id: 66633, name: 'Vince Gilligan', profile_path: '/vince.jpg' };
+    const provider = new FixtureMetadataProvider({
+      lists: { popular: [], top_rated: [], airing_today: [] },
+      shows: [
+        { ...show(1, 'Breaking Bad'), first_air_date: '2008-01-20', created_by: [creator] },
+        { ...show(2, 'Better Call Saul'), first_air_date: '2015-02-08', created_by: [creator] },
+      ],
+      seasons: [],
+    });
+
+    const credits = await provider.getAggregateCredits(1);
+    expect(credits.cast).toEqual([]);
+    expect(credits.crew).toEqual([expect.objectContaining({ id: 66633, department: 'Creator' })]);
+
+    await expect(provider.getPersonDetails(66633)).resolves.toMatchObject({ name: 'Vince Gilligan' });
+    const tvCredits = await provider.getPersonTVCredits(66633);
+    expect(tvCredits.crew.map(credit => credit.name)).toEqual(['Breaking Bad', 'Better Call Saul']);
+    await expect(provider.getPersonDetails(1)).rejects.toBeInstanceOf(TMDBNotFoundError);
+  });
+
+  it('loads the bundled fixtures by default', async () => {
+    const provider = new FixtureMetadataProvider();
+    const popular = await provider.getPopularTVShows();
+    const details = await provider.getTVShowDetails(popular.results[0].id);
+
+    expect(popular.results.length).toBeGreaterThan(0);
+    expect(details.number_of_seasons).toBeGreaterThan(0);
+    await expect(provider.getSeasonDetails(details.id, 1)).resolves.toHaveProperty('episodes');
+  });
+});
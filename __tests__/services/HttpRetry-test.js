@@ -0,0 +1,138 @@
+import { fetchWithRetry, getBackoffDelay, parseRetryAfter, TokenBucket } from '../../app/services/HttpRetry';
+
+const fakeResponse = (status, headers = {}) => ({
+  status,
+  ok: status >= 200 && status < 300,
+  headers: { get: (name) => headers[name] ?? null },
+});
+
+const createFakeFetch = (outcomes) => {
+  const calls = [];
+  const doFetch = jest.fn(async () => {
+    calls.push(calls.length);
+    const outcome = outcomes[Math.min(calls.length - 1, outcomes.length - 1)];
+    if (outcome instanceof Error) throw outcome;
+    return typeof outcome === 'number' ? fakeResponse(outcome) : outcome;
+  });
+  return doFetch;
+};
+
+describe('fetchWithRetry', () => {
+  const sleep = jest.fn(async () => {});
+
+  beforeEach(() => {
+    sleep.mockClear();
+  });
+
+  it('returns the first successful response without retrying', async () => {
+    const doFetch = createFakeFetch([200]);
+    const response = await fetchWithRetry(doFetch, { sleep });
+
+    expect(response.status).toBe(200);
+    expect(doFetch).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('retries server errors and network failures with backoff', async () => {
+    const events = [];
+    const doFetch = createFakeFetch([503, new TypeError('Network request failed'), 200]);
+
+    const response = await fetchWithRetry(doFetch, {
+      sleep,
+      random: () => 0.5,
+      baseDelay: 100,
+      onRetry: (event) => events.push(event),
+    });
+
+    expect(response.status).toBe(200);
+    expect(doFetch).toHaveBeenCalledTimes(3);
+    expect(events).toEqual([
+      { attempt: 1, delay: 50, reason: 'server', status: 503 },
+      { attempt: 2, delay: 100, reason: 'network' },
+    ]);
+    expect(sleep.mock.calls.map(call => call[0])).toEqual([50, 100]);
+  });
+
+  it('honors Retry-After on 429 responses', async () => {
+    const events = [];
+    const doFetch = createFakeFetch([fakeResponse(429, { 'Retry-After': '2' }), 200]);
+
+    await fetchWithRetry(doFetch, { sleep, onRetry: (event) => events.push(event) });
+
+    expect(events).toEqual([{ attempt: 1, delay: 2000, reason: 'rate-limit', status: 429 }]);
+    expect(sleep).toHaveBeenCalledWith(2000, undefined);
+  });
+
+  it('gives up instead of waiting out a Retry-After longer than the maximum delay', async () => {
+    const doFetch = createFakeFetch([fakeResponse(429, { 'Retry-After': '3600' }), 200]);
+    const response = await fetchWithRetry(doFetch, { sleep, maxDelay: 8000 });
+
+    expect(response.status).toBe(429);
+    expect(doFetch).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('does not retry client errors', async () => {
+    const doFetch = createFakeFetch([404]);
+    const response = await fetchWithRetry(doFetch, { sleep });
+
+    expect(response.status).toBe(404);
+    expect(doFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the maximum number of retries', async () => {
+    const doFetch = createFakeFetch([500]);
+    const response = await fetchWithRetry(doFetch, { sleep, maxRetries: 2 });
+
+    expect(response.status).toBe(500);
+    expect(doFetch).toHaveBeenCalledTimes(3);
+
+    const failingFetch = createFakeFetch([new TypeError('offline')]);
+    await expect(fetchWithRetry(failingFetch, { sleep, maxRetries: 1 })).rejects.toThrow('offline');
+    expect(failingFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('grows exponentially and is capped', () => {
+    expect(getBackoffDelay(0, 100, 1000, () => 0.999)).toBe(99);
+    expect(getBackoffDelay(3, 100, 1000, () => 0.999)).toBe(799);
+    expect(getBackoffDelay(10, 100, 1000, () => 0.999)).toBe(999);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('TokenBucket', () => {
+  it('allows a burst and then throttles to the refill rate', async () => {
+    let time = 0;
+    const waits = [];
+    const bucket = new TokenBucket(2, 4, () => time, async (ms) => {
+      waits.push(ms);
+    });
+
+    expect(await bucket.take()).toBe(0);
+    expect(await bucket.take()).toBe(0);
+    expect(await bucket.take()).toBe(250);
+    expect(await bucket.take()).toBe(500);
+
+    time = 1000;
+    expect(bucket.getAvailableTokens()).toBe(2);
+    expect(waits).toEqual([250, 500]);
+  });
+
+  it('holds callers back after a penalty', async () => {
+    const bucket = new TokenBucket(5, 10, () => 0, async () => {});
+    bucket.penalize(1000);
+
+    expect(await bucket.take()).toBe(1100);
+  });
+});
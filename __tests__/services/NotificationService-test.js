@@ -0,0 +1,102 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-device', () => ({ isDevice: true }));
+jest.mock('expo-notifications', () => ({
+  setNotificationHandler: jest.fn(),
+  getPermissionsAsync: jest.fn(async () => ({ status: 'granted' })),
+  requestPermissionsAsync: jest.fn(async () => ({ status: 'granted' })),
+  setNotificationChannelAsync: jest.fn(),
+  scheduleNotificationAsync: jest.fn(),
+  cancelScheduledNotificationAsync: jest.fn(),
+  cancelAllScheduledNotificationsAsync: jest.fn(),
+  AndroidImportance: { MAX: 5 },
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+
+const SCHEDULE_KEY = '@EpisodeAlerts:notificationSchedule';
+
+const show = (id) => ({
+  id,
+  name: `Show ${id}`,
+  next_episode_to_air: {
+    id: id * 100,
+    name: 'Pilot',
+    air_date: '2099-01-01',
+    season_number: 1,
+    episode_number: 1,
+  },
+});
+
+// Fresh singletons per test so the enabled flag and migrations start over
+const loadServices = async () => {
+  let services;
+  jest.isolateModules(() => {
+    services = {
+      notifications: require('../../app/services/NotificationService').default,
+      watchlist: require('../../app/services/WatchlistService').default,
+    };
+  });
+  await services.notifications.setEnabled(true);
+  return services;
+};
+
+const scheduledShowIds = async () =>
+  JSON.parse((await AsyncStorage.getItem(SCHEDULE_KEY)) ?? '[]').map(notification => notification.showId);
+
+describe('NotificationService.syncMutedShows', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('cancels alerts for a show moved into lists that are all muted', async () => {
+    const { notifications, watchlist } = await loadServices();
+    const muted = await watchlist.createList('Muted');
+    await watchlist.setListMuted(muted.id, true);
+    await watchlist.addToWatchlist(show(1));
+    await notifications.scheduleEpisodeNotification(show(1));
+
+    await watchlist.setShowLists(show(1), [muted.id]);
+    await notifications.syncMutedShows([show(1)]);
+
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('1-S1-E1');
+    expect(await scheduledShowIds()).toEqual([]);
+  });
+
+  it('schedules alerts again for shows in a list that is unmuted', async () => {
+    const { notifications, watchlist } = await loadServices();
+    const first = await watchlist.createList('First');
+    const second = await watchlist.createList('Second');
+    await watchlist.setShowLists(show(1), [first.id]);
+    await watchlist.setShowLists(show(2), [first.id, second.id]);
+    await watchlist.setListMuted(first.id, true);
+    await watchlist.setListMuted(second.id, true);
+
+    await watchlist.setListMuted(first.id, false);
+    await notifications.syncMutedShows([show(1), show(2)]);
+
+    expect(await scheduledShowIds()).toEqual([1, 2]);
+  });
+
+  it('keeps alerts off for shows still only in muted lists', async () => {
+    const { notifications, watchlist } = await loadServices();
+    const first = await watchlist.createList('First');
+    const second = await watchlist.createList('Second');
+    await watchlist.setShowLists(show(1), [first.id]);
+    await watchlist.setShowLists(show(2), [second.id]);
+    await watchlist.setListMuted(second.id, true);
+
+    await notifications.syncMutedShows([show(1), show(2)]);
+
+    expect(await scheduledShowIds()).toEqual([1]);
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(1);
+  });
+});
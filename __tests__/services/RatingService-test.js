@@ -0,0 +1,137 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { formatStars, getEpisodeRatings, sortRatings } from '../../app/services/RatingService';
+
+const loadService = () => {
+  let service;
+  jest.isolateModules(() => {
+    service = require('../../app/services/RatingService').default;
+  });
+  return service;
+};
+
+const rating = (overrides) => ({
+  type: 'episode',
+  showId: 1,
+  showName: 'Show',
+  score: 5,
+  ratedAt: '2024-01-01T00:00:00.000Z',
+  history: [],
+  ...overrides,
+});
+
+describe('formatStars', () => {
+  it('shows half stars for odd scores', () => {
+    expect(formatStars(10)).toBe('★★★★★');
+    expect(formatStars(7)).toBe('★★★½');
+    expect(formatStars(1)).toBe('½');
+  });
+});
+
+describe('sortRatings', () => {
+  const ratings = [
+    rating({ episodeNumber: 1, score: 6, ratedAt: '2024-01-03T00:00:00.000Z' }),
+    rating({ episodeNumber: 2, score: 9, ratedAt: '2024-01-01T00:00:00.000Z' }),
+    rating({ episodeNumber: 3, score: 6, ratedAt: '2024-01-05T00:00:00.000Z' }),
+  ];
+
+  it('sorts by score with the most recent first on ties', () => {
+    expect(sortRatings(ratings, 'score_desc').map(r => r.episodeNumber)).toEqual([2, 3, 1]);
+    expect(sortRatings(ratings, 'score_asc').map(r => r.episodeNumber)).toEqual([3, 1, 2]);
+  });
+
+  it('sorts by when the rating was made', () => {
+    expect(sortRatings(ratings, 'recent').map(r => r.episodeNumber)).toEqual([3, 1, 2]);
+  });
+});
+
+describe('getEpisodeRatings', () => {
+  it('returns one show\'s episode ratings in airing order', () => {
+    const ratings = [
+      rating({ seasonNumber: 2, episodeNumber: 1 }),
+      rating({ type: 'season', seasonNumber: 1 }),
+      rating({ seasonNumber: 1, episodeNumber: 3 }),
+      rating({ showId: 2, seasonNumber: 1, episodeNumber: 1 }),
+      rating({ seasonNumber: 1, episodeNumber: 1 }),
+    ];
+
+    expect(getEpisodeRatings(ratings, 1).map(r => `${r.seasonNumber}x${r.episodeNumber}`))
+      .toEqual(['1x1', '1x3', '2x1']);
+  });
+});
+
+describe('RatingService', () => {
+  const target = { type: 'episode', showId: 1, seasonNumber: 1, episodeNumber: 2 };
+  const labels = { showName: 'Show', name: 'Pilot' };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('keeps earlier scores in the history when a rating changes', async () => {
+    const service = loadService();
+
+    await service.setRating(target, 6, labels);
+    await service.setRating(target, 6, labels);
+    await service.setRating(target, 8, labels);
+
+    const saved = await loadService().getRating(target);
+    expect(saved).toMatchObject({ ...target, ...labels, score: 8 });
+    expect(saved.history.map(change => change.score)).toEqual([6]);
+  });
+
+  it('clamps scores to the rating scale', async () => {
+    const service = loadService();
+
+    await service.setRating({ type: 'show', showId: 1 }, 14, labels);
+    await service.setRating({ type: 'show', showId: 2 }, 0, labels);
+
+    expect((await service.getRating({ type: 'show', showId: 1 })).score).toBe(10);
+    expect((await service.getRating({ type: 'show', showId: 2 })).score).toBe(1);
+  });
+
+  it('keeps every rating when several are made at once', async () => {
+    const service = loadService();
+
+    await Promise.all([
+      service.setRating({ ...target, episodeNumber: 1 }, 7, labels),
+      service.setRating({ ...target, episodeNumber: 2 }, 8, labels),
+      service.setRating({ ...target, episodeNumber: 3 }, 9, labels),
+    ]);
+
+    const saved = await loadService().getRatingsForShow(1);
+    expect(saved.map(rating => rating.score).sort()).toEqual([7, 8, 9]);
+  });
+
+  it('imports ratings without overwriting more recent ones', async () => {
+    const service = loadService();
+    await service.setRating(target, 9, labels);
+    const saved = await service.getRating(target);
+
+    const imported = [
+      { ...saved, score: 3, ratedAt: '2000-01-01T00:00:00.000Z', history: [] },
+      { ...target, ...labels, episodeNumber: 5, score: 6, ratedAt: '2000-01-01T00:00:00.000Z', history: [] },
+    ];
+    expect(await service.importRatings(imported)).toBe(true);
+
+    const ratings = await loadService().getRatingsForShow(1);
+    expect(ratings.map(item => [item.episodeNumber, item.score])).toEqual([[2, 9], [5, 6]]);
+  });
+
+  it('notifies subscribers and removes ratings', async () => {
+    const service = loadService();
+    const listener = jest.fn();
+    service.subscribe(listener);
+
+    await service.setRating(target, 4, labels);
+    await service.removeRating(target);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledWith(target);
+    expect(await service.getRating(target)).toBeNull();
+    expect(await service.getRatingsForShow(1)).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../../app/services/MetadataService', () => ({
+  __esModule: true,
+  default: {
+    getRecommendations: jest.fn(),
+    getSimilarTVShows: jest.fn(),
+  },
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import MetadataService from '../../app/services/MetadataService';
+import RecommendationService from '../../app/services/RecommendationService';
+
+const page = (...ids) => ({ page: 1, results: ids.map(id => ({ id, name: `Show ${id}` })), total_pages: 1 });
+
+describe('RecommendationService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  it('lists recommendations before similar shows without duplicates or the show itself', async () => {
+    MetadataService.getRecommendations.mockResolvedValue(page(2, 3, 1));
+    MetadataService.getSimilarTVShows.mockResolvedValue(page(3, 4));
+
+    const shows = await RecommendationService.getMoreLikeThis(1);
+
+    expect(shows.map(show => show.id)).toEqual([2, 3, 4]);
+  });
+
+  it('leaves out dismissed shows', async () => {
+    MetadataService.getRecommendations.mockResolvedValue(page(2, 3));
+    MetadataService.getSimilarTVShows.mockResolvedValue(page(4));
+
+    await RecommendationService.dismiss(3);
+    await RecommendationService.dismiss(3);
+
+    expect(await RecommendationService.getDismissedIds()).toEqual([3]);
+    expect((await RecommendationService.getMoreLikeThis(1)).map(show => show.id)).toEqual([2, 4]);
+
+    await RecommendationService.clearDismissed();
+    expect((await RecommendationService.getMoreLikeThis(1)).map(show => show.id)).toEqual([2, 3, 4]);
+  });
+
+  it('keeps every show dismissed in quick succession', async () => {
+    await Promise.all([
+      RecommendationService.dismiss(5),
+      RecommendationService.dismiss(6),
+      RecommendationService.dismiss(7),
+    ]);
+
+    expect(await RecommendationService.getDismissedIds()).toEqual([5, 6, 7]);
+  });
+
+  it('uses similar shows when recommendations fail and throws when both do', async () => {
+    const error = new Error('Network request failed');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    MetadataService.getRecommendations.mockRejectedValue(error);
+    MetadataService.getSimilarTVShows.mockResolvedValueOnce(page(5));
+
+    expect((await RecommendationService.getMoreLikeThis(1)).map(show => show.id)).toEqual([5]);
+
+    MetadataService.getSimilarTVShows.mockRejectedValue(new Error('Timeout'));
+    await expect(RecommendationService.getMoreLikeThis(1)).rejects.toBe(error);
+    console.error.mockRestore();
+  });
+});
@@ -0,0 +1,94 @@
+import { RequestCoalescer } from '../../app/services/RequestCoalescer';
+
+const deferred = () => {
+  let resolve;
+  let reject;
+  const promise = new Promise((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const createCoalescer = () => new RequestCoalescer((key) => new Error(`aborted ${key}`));
+
+describe('RequestCoalescer', () => {
+  it('shares one request between identical callers', async () => {
+    const coalescer = createCoalescer();
+    const pending = deferred();
+    const start = jest.fn(() => pending.promise);
+
+    const first = coalescer.run('/tv/1', start);
+    const second = coalescer.run('/tv/1', start);
+    pending.resolve('show');
+
+    await expect(first).resolves.toBe('show');
+    await expect(second).resolves.toBe('show');
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(coalescer.getInflightCount()).toBe(0);
+  });
+
+  it('starts a new request once the previous one has settled', async () => {
+    const coalescer = createCoalescer();
+    const start = jest.fn(async () => 'show');
+
+    await coalescer.run('/tv/1', start);
+    await coalescer.run('/tv/1', start);
+
+    expect(start).toHaveBeenCalledTimes(2);
+  });
+
+  it('only rejects the caller that aborted while others keep waiting', async () => {
+    const coalescer = createCoalescer();
+    const pending = deferred();
+    let sharedSignal;
+    const start = jest.fn((signal) => {
+      sharedSignal = signal;
+      return pending.promise;
+    });
+    const controller = new AbortController();
+
+    const cancelled = coalescer.run('/tv/1', start, controller.signal);
+    const kept = coalescer.run('/tv/1', start);
+    controller.abort();
+
+    await expect(cancelled).rejects.toThrow('aborted /tv/1');
+    expect(sharedSignal.aborted).toBe(false);
+
+    pending.resolve('show');
+    await expect(kept).resolves.toBe('show');
+  });
+
+  it('aborts the shared request once every caller has cancelled', async () => {
+    const coalescer = createCoalescer();
+    const pending = deferred();
+    let sharedSignal;
+    const start = jest.fn((signal) => {
+      sharedSignal = signal;
+      return pending.promise;
+    });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = coalescer.run('/search/tv?query=ab', start, first.signal);
+    const b = coalescer.run('/search/tv?query=ab', start, second.signal);
+    first.abort();
+    second.abort();
+
+    await expect(a).rejects.toThrow();
+    await expect(b).rejects.toThrow();
+    expect(sharedSignal.aborted).toBe(true);
+    expect(coalescer.getInflightCount()).toBe(0);
+    pending.resolve('ignored');
+  });
+
+  it('rejects immediately when the signal is already aborted', async () => {
+    const coalescer = createCoalescer();
+    const controller = new AbortController();
+    controller.abort();
+    const start = jest.fn();
+
+    await expect(coalescer.run('/tv/1', start, controller.signal)).rejects.toThrow('aborted /tv/1');
+    expect(start).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CACHE_CONFIG } from '../../constants/Config';
+
+const PREFIX = '@EpisodeAlerts:apiCache:';
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const jsonResponse = (body) => ({ ok: true, status: 200, json: async () => body });
+
+// Fresh singletons per test so the memory cache doesn't carry over
+const loadServices = () => {
+  let services;
+  jest.isolateModules(() => {
+    services = {
+      cache: require('../../app/services/ResponseCacheService').default,
+      tmdb: require('../../app/services/TMDBService').default,
+    };
+  });
+  return services;
+};
+
+const setNow = (time) => jest.spyOn(Date, 'now').mockReturnValue(time);
+
+const storeEntry = (key, data, storedAt, ttl = HOUR) =>
+  AsyncStorage.setItem(PREFIX + key, JSON.stringify({ data, storedAt, expiresAt: storedAt + ttl }));
+
+describe('ResponseCacheService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    // The storage mock's functions keep their calls between tests
+    jest.clearAllMocks();
+    setNow(NOW);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete global.fetch;
+  });
+
+  it('marks entries expired once their TTL has passed', async () => {
+    const { cache } = loadServices();
+    await cache.set('/tv/1', { id: 1 }, HOUR);
+
+    expect(cache.isExpired(await cache.get('/tv/1'))).toBe(false);
+
+    setNow(NOW + HOUR);
+    const entry = await cache.get('/tv/1');
+    expect(entry.data).toEqual({ id: 1 });
+    expect(cache.isExpired(entry)).toBe(true);
+  });
+
+  it('drops entries older than the stale limit from memory and storage', async () => {
+    const { cache } = loadServices();
+    await cache.set('/tv/1', { id: 1 }, HOUR);
+
+    setNow(NOW + CACHE_CONFIG.MAX_STALE_AGE + 1);
+
+    expect(await cache.get('/tv/1')).toBeNull();
+    expect(await AsyncStorage.getItem(PREFIX + '/tv/1')).toBeNull();
+  });
+
+  it('keeps only the most recently used entries in memory', async () => {
+    const { cache } = loadServices();
+    const max = CACHE_CONFIG.MAX_MEMORY_ENTRIES;
+
+    for (let id = 0; id < max; id++) {
+      await cache.set(`/tv/${id}`, { id }, HOUR);
+    }
+    // Reading the oldest entry makes it the most recent, so the next one is evicted instead
+    await cache.get('/tv/0');
+    await cache.set(`/tv/${max}`, { id: max }, HOUR);
+
+    const getItem = jest.spyOn(AsyncStorage, 'getItem');
+    await cache.get('/tv/0');
+    expect(getItem).not.toHaveBeenCalled();
+
+    await cache.get('/tv/1');
+    expect(getItem).toHaveBeenCalledWith(PREFIX + '/tv/1');
+  });
+
+  it('sweeps persisted entries older than the stale limit', async () => {
+    await storeEntry('/tv/1', { id: 1 }, NOW - CACHE_CONFIG.MAX_STALE_AGE - 1);
+    await storeEntry('/tv/2', { id: 2 }, NOW - HOUR);
+    await AsyncStorage.setItem(PREFIX + '/tv/3', 'not json');
+    await AsyncStorage.setItem('@EpisodeAlerts:watchlist', '[]');
+
+    const { cache } = loadServices();
+    await cache.sweepTooOld();
+
+    expect(await AsyncStorage.getAllKeys()).toEqual(
+      expect.arrayContaining([PREFIX + '/tv/2', '@EpisodeAlerts:watchlist'])
+    );
+    expect(await AsyncStorage.getItem(PREFIX + '/tv/1')).toBeNull();
+    expect(await AsyncStorage.getItem(PREFIX + '/tv/3')).toBeNull();
+  });
+
+  it('only sweeps once per launch', async () => {
+    const { cache } = loadServices();
+    const getAllKeys = jest.spyOn(AsyncStorage, 'getAllKeys');
+
+    await cache.get('/tv/1');
+    await cache.get('/tv/2');
+    await cache.sweepTooOld();
+
+    expect(getAllKeys).toHaveBeenCalledTimes(1);
+  });
+
+  describe('through TMDBService', () => {
+    it('returns a stale response right away and revalidates it in the background', async () => {
+      const { tmdb } = loadServices();
+      global.fetch = jest.fn(async () => jsonResponse({ id: 1, name: 'Stale' }));
+      await tmdb.getPersonDetails(1);
+
+      global.fetch = jest.fn(async () => jsonResponse({ id: 1, name: 'Fresh' }));
+      setNow(NOW + CACHE_CONFIG.TTL.PEOPLE);
+
+      const onRevalidate = jest.fn();
+      const person = await tmdb.getPersonDetails(1, { onRevalidate });
+
+      expect(person.name).toBe('Stale');
+      await new Promise(resolve => setTimeout(resolve, 0));
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(onRevalidate).toHaveBeenCalledWith({ id: 1, name: 'Fresh' });
+      expect((await tmdb.getPersonDetails(1)).name).toBe('Fresh');
+    });
+
+    it('serves a fresh response without touching the network', async () => {
+      const { tmdb } = loadServices();
+      global.fetch = jest.fn(async () => jsonResponse({ id: 1, name: 'Cached' }));
+      await tmdb.getPersonDetails(1);
+
+      setNow(NOW + CACHE_CONFIG.TTL.PEOPLE - 1);
+
+      expect((await tmdb.getPersonDetails(1)).name).toBe('Cached');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws a cache miss for cache-only requests with nothing cached', async () => {
+      const { tmdb } = loadServices();
+      global.fetch = jest.fn();
+
+      await expect(tmdb.getPersonDetails(1, { cachePolicy: 'cache-only' })).rejects.toMatchObject({ name: 'TMDBCacheMissError' });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+});
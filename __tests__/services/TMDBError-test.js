@@ -0,0 +1,131 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const headers = (values = {}) => ({ get: name => values[name] ?? null });
+
+const response = (status, body, headerValues) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: headers(headerValues),
+  json: async () => body,
+});
+
+// Fresh singleton per test so nothing is served from the memory cache
+const loadService = () => {
+  let service;
+  jest.isolateModules(() => {
+    service = require('../../app/services/TMDBService').default;
+  });
+  return service;
+};
+
+const fetchPerson = (options) => loadService().getPersonDetails(1, { cachePolicy: 'network-only', ...options });
+
+describe('TMDB request errors', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    // No backoff between retries
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete global.fetch;
+  });
+
+  it.each([401, 403])('reports %i as an auth error', async (status) => {
+    global.fetch = jest.fn(async () => response(status, { status_code: 7, status_message: 'Invalid API key' }));
+
+    await expect(fetchPerson()).rejects.toMatchObject({
+      name: 'TMDBAuthError',
+      kind: 'auth',
+      message: 'Invalid API key',
+      statusCode: status,
+      tmdbStatusCode: 7,
+      endpoint: expect.stringMatching(/^\/person\/1\?/),
+    });
+  });
+
+  it('reports 404 as not found', async () => {
+    global.fetch = jest.fn(async () => response(404, { status_code: 34, status_message: 'Not found' }));
+
+    await expect(fetchPerson()).rejects.toMatchObject({
+      name: 'TMDBNotFoundError',
+      statusCode: 404,
+      tmdbStatusCode: 34,
+      endpoint: expect.stringMatching(/^\/person\/1\?/),
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports 429 as rate limited with the Retry-After from the response', async () => {
+    global.fetch = jest.fn(async () => response(429, { status_code: 25 }, { 'Retry-After': '30' }));
+
+    await expect(fetchPerson()).rejects.toMatchObject({
+      name: 'TMDBRateLimitError',
+      retryAfter: 30000,
+      statusCode: 429,
+      tmdbStatusCode: 25,
+      endpoint: expect.stringMatching(/^\/person\/1\?/),
+    });
+  });
+
+  it('reports 5xx as a server error once retries run out', async () => {
+    global.fetch = jest.fn(async () => response(503, { status_code: 11, status_message: 'Internal error' }));
+
+    await expect(fetchPerson()).rejects.toMatchObject({
+      name: 'TMDBServerError',
+      statusCode: 503,
+      tmdbStatusCode: 11,
+      endpoint: expect.stringMatching(/^\/person\/1\?/),
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('reports a failed fetch as a network error', async () => {
+    const cause = new TypeError('Network request failed');
+    global.fetch = jest.fn(async () => {
+      throw cause;
+    });
+
+    await expect(fetchPerson()).rejects.toMatchObject({
+      name: 'TMDBNetworkError',
+      cause,
+      endpoint: expect.stringMatching(/^\/person\/1\?/),
+    });
+  });
+
+  it('reports a body that is not JSON as a parse error', async () => {
+    global.fetch = jest.fn(async () => ({
+      ...response(200),
+      json: async () => {
+        throw new SyntaxError('Unexpected token < in JSON');
+      },
+    }));
+
+    await expect(fetchPerson()).rejects.toMatchObject({
+      name: 'TMDBParseError',
+      statusCode: 200,
+      endpoint: expect.stringMatching(/^\/person\/1\?/),
+    });
+  });
+
+  it('reports a cancelled request as aborted', async () => {
+    const controller = new AbortController();
+    global.fetch = jest.fn(async () => {
+      controller.abort();
+      throw new Error('Aborted');
+    });
+
+    await expect(fetchPerson({ signal: controller.signal })).rejects.toMatchObject({
+      name: 'TMDBAbortError',
+      kind: 'aborted',
+      endpoint: expect.stringMatching(/^\/person\/1\?/),
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,48 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import TMDBService from '../../app/services/TMDBService';
+
+const jsonResponse = (body) => ({ ok: true, status: 200, json: async () => body });
+
+const show = {
+  id: 1,
+  name: 'La casa de papel',
+  original_name: 'La casa de papel',
+  original_language: 'es',
+  overview: '',
+};
+
+describe('TMDBService locale', () => {
+  beforeAll(async () => {
+    await AsyncStorage.setItem('@EpisodeAlerts:language', 'de-DE');
+    await AsyncStorage.setItem('@EpisodeAlerts:region', 'DE');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete global.fetch;
+  });
+
+  it('sends the preferred language and region and falls back to the original language', async () => {
+    global.fetch = jest.fn(async (url) => {
+      if (url.includes('/translations')) {
+        return jsonResponse({
+          id: 1,
+          translations: [
+            { iso_3166_1: 'US', iso_639_1: 'en', english_name: 'English', data: { name: 'Money Heist', overview: 'A heist.' } },
+            { iso_3166_1: 'ES', iso_639_1: 'es', english_name: 'Spanish', data: { name: 'La casa de papel', overview: 'Un atraco.' } },
+          ],
+        });
+      }
+      return jsonResponse(show);
+    });
+
+    const details = await TMDBService.getTVShowDetails(1, { cachePolicy: 'network-only' });
+
+    expect(global.fetch.mock.calls[0][0]).toMatch(/\/tv\/1\?language=de-DE&region=DE$/);
+    expect(details.overview).toBe('Un atraco.');
+  });
+});
@@ -0,0 +1,163 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CACHE_CONFIG } from '../../constants/Config';
+import ResponseCacheService from '../../app/services/ResponseCacheService';
+import { TVmazeMetadataProvider } from '../../app/services/providers/TVmazeMetadataProvider';
+
+const BASE_URL = 'http://localhost:4010';
+
+const episode = (id, season, number, airstamp) => ({
+  id,
+  name: `Episode ${number}`,
+  season,
+  number,
+  airdate: airstamp ? airstamp.slice(0, 10) : '',
+  airstamp,
+  runtime: 60,
+  rating: { average: 8.1 },
+  image: null,
+  summary: '<p>An <b>episode</b>.</p>',
+});
+
+const tvmazeShow = {
+  id: 169,
+  name: 'Breaking Bad',
+  summary: '<p>A chemistry teacher turns to crime.</p>',
+  status: 'Ended',
+  premiered: '2008-01-20',
+  genres: ['Drama', 'Crime', 'Thriller'],
+  rating: { average: 9.2 },
+  network: { id: 20, name: 'AMC', country: { timezone: 'America/New_York' } },
+  webChannel: null,
+  image: { medium: 'https://static.tvmaze.com/medium.jpg', original: 'https://static.tvmaze.com/original.jpg' },
+  externals: { thetvdb: 81189, imdb: 'tt0903747' },
+  _embedded: {
+    seasons: [{ id: 1, number: 1 }, { id: 2, number: 2 }],
+    previousepisode: episode(2, 2, 13, '2009-05-31T02:00:00+00:00'),
+  },
+};
+
+// Stands in for a local TVmaze stub server
+const createStubFetch = (routes) =>
+  jest.fn(async (url) => {
+    const path = url.replace(BASE_URL, '');
+    const body = routes[path];
+    return {
+      ok: body !== undefined,
+      status: body !== undefined ? 200 : 404,
+      headers: { get: () => null },
+      json: async () => body ?? { name: 'Not Found', message: 'Page not found.', status: 404 },
+    };
+  });
+
+const createProvider = (routes, externalIds = { imdb_id: 'tt0903747', tvdb_id: 81189 }) => {
+  const fallback = {
+    getTVShowDetails: jest.fn(async (id) => ({ id, name: 'From TMDB' })),
+    getSeasonDetails: jest.fn(),
+  };
+  const externalIdSource = {
+    getExternalIds: jest.fn(async () => externalIds),
+    findByExternalId: jest.fn(async () => ({ tv_results: [{ id: 1396 }] })),
+  };
+  const fetchStub = createStubFetch(routes);
+  const provider = new TVmazeMetadataProvider({
+    fallback,
+    externalIds: externalIdSource,
+    baseURL: BASE_URL,
+    fetch: fetchStub,
+  });
+  return { provider, fallback, externalIdSource, fetchStub };
+};
+
+describe('TVmazeMetadataProvider', () => {
+  beforeEach(async () => {
+    await ResponseCacheService.clear();
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps TVmaze shows onto TVShow while keeping the TMDB id', async () => {
+    const { provider } = createProvider({
+      '/lookup/shows?thetvdb=81189': tvmazeShow,
+      '/shows/169?embed[]=seasons&embed[]=nextepisode&embed[]=previousepisode': tvmazeShow,
+    });
+
+    const show = await provider.getTVShowDetails(1396, { cachePolicy: 'network-only' });
+
+    expect(show).toMatchObject({
+      id: 1396,
+      overview: 'A chemistry teacher turns to crime.',
+      poster_path: 'https://static.tvmaze.com/original.jpg',
+      backdrop_path: '',
+      number_of_seasons: 2,
+      status: 'Ended',
+      timezone: 'America/New_York',
+      genres: [{ id: 18, name: 'Drama' }, { id: 80, name: 'Crime' }],
+      networks: [{ id: 20, name: 'AMC', logo_path: '' }],
+    });
+    expect(show.last_episode_to_air).toMatchObject({
+      season_number: 2,
+      episode_number: 13,
+      air_date: '2009-05-31',
+      airstamp: '2009-05-31T02:00:00+00:00',
+    });
+  });
+
+  it('maps season episodes with exact air times and skips specials', async () => {
+    const { provider } = createProvider({
+      '/lookup/shows?thetvdb=81189': tvmazeShow,
+      '/shows/169/seasons': [{ id: 10, number: 1, name: '', episodeOrder: null, premiereDate: '2008-01-20', summary: null, image: null }],
+      '/seasons/10/episodes': [episode(1, 1, 1, '2008-01-21T03:00:00+00:00'), episode(5, 1, null, null)],
+    });
+
+    const season = await provider.getSeasonDetails(1396, 1, { cachePolicy: 'network-only' });
+
+    expect(season).toMatchObject({ id: 10, name: 'Season 1', season_number: 1, episode_count: 1 });
+    expect(season.episodes).toEqual([
+      expect.objectContaining({ id: 1, overview: 'An episode.', airstamp: '2008-01-21T03:00:00+00:00' }),
+    ]);
+  });
+
+  it('falls back to IMDb lookups and then to the fallback provider', async () => {
+    const { provider, fallback, fetchStub } = createProvider({}, { imdb_id: 'tt0000001', tvdb_id: 1 });
+
+    const show = await provider.getTVShowDetails(42, { cachePolicy: 'network-only' });
+
+    expect(fetchStub.mock.calls.map(([url]) => url)).toEqual([
+      `${BASE_URL}/lookup/shows?thetvdb=1`,
+      `${BASE_URL}/lookup/shows?imdb=tt0000001`,
+    ]);
+    expect(fallback.getTVShowDetails).toHaveBeenCalledWith(42, { cachePolicy: 'network-only' });
+    expect(show.name).toBe('From TMDB');
+  });
+
+  it('remembers shows TVmaze does not have until the miss expires', async () => {
+    const { provider, externalIdSource, fetchStub } = createProvider({}, { imdb_id: null, tvdb_id: 1 });
+
+    await expect(provider.resolveTVmazeId(42)).resolves.toBeNull();
+    await expect(provider.resolveTVmazeId(42)).resolves.toBeNull();
+    expect(externalIdSource.getExternalIds).toHaveBeenCalledTimes(1);
+    expect(fetchStub).toHaveBeenCalledTimes(1);
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + CACHE_CONFIG.TTL.MISSING_IDS);
+    await expect(provider.resolveTVmazeId(42)).resolves.toBeNull();
+    expect(externalIdSource.getExternalIds).toHaveBeenCalledTimes(2);
+  });
+
+  it('resolves TMDB ids from TVmaze externals and remembers the mapping', async () => {
+    const { provider, externalIdSource, fetchStub } = createProvider({ '/shows/169': tvmazeShow });
+
+    await expect(provider.resolveTMDBId(169)).resolves.toBe(1396);
+    await expect(provider.resolveTVmazeId(1396)).resolves.toBe(169);
+
+    expect(externalIdSource.findByExternalId).toHaveBeenCalledWith('81189', 'tvdb_id');
+    expect(externalIdSource.getExternalIds).not.toHaveBeenCalled();
+    expect(fetchStub).toHaveBeenCalledTimes(1);
+  });
+});
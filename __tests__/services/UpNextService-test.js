@@ -0,0 +1,75 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import MetadataService from '../../app/services/MetadataService';
+import WatchProgressService from '../../app/services/WatchProgressService';
+import UpNextService, { sortUpNext } from '../../app/services/UpNextService';
+import { TMDBNotFoundError } from '../../app/services/TMDBError';
+
+const episode = (season, number, airDate = '2020-01-01') => ({
+  id: season * 1000 + number,
+  name: `Episode ${number}`,
+  season_number: season,
+  episode_number: number,
+  air_date: airDate,
+});
+
+const SEASONS = {
+  1: [episode(1, 1), episode(1, 2)],
+  2: [episode(2, 1), episode(2, 2, '2099-01-01')],
+};
+
+describe('UpNextService', () => {
+  beforeEach(() => {
+    AsyncStorage.clear();
+    jest.spyOn(MetadataService, 'getSeasonDetails').mockImplementation(async (showId, seasonNumber) => {
+      if (!SEASONS[seasonNumber]) {
+        throw new TMDBNotFoundError('Not found', { endpoint: `/tv/${showId}/season/${seasonNumber}` });
+      }
+      return { season_number: seasonNumber, episodes: SEASONS[seasonNumber] };
+    });
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it('starts unstarted shows at the first episode', async () => {
+    const item = await UpNextService.getUpNext({ id: 1, name: 'Show' });
+
+    expect(item.episode).toMatchObject({ season_number: 1, episode_number: 1 });
+    expect(item.lastWatchedAt).toBeNull();
+  });
+
+  it('crosses into the next season after a finale', async () => {
+    await WatchProgressService.markEpisode(2, 1, 2);
+
+    const item = await UpNextService.getUpNext({ id: 2, name: 'Show' });
+
+    expect(item.episode).toMatchObject({ season_number: 2, episode_number: 1 });
+  });
+
+  it('leaves out shows whose next episode has not aired', async () => {
+    await WatchProgressService.markEpisode(3, 2, 1);
+    await WatchProgressService.markEpisode(4, 2, 2);
+
+    const queue = await UpNextService.getQueue([{ id: 3, name: 'Waiting' }, { id: 4, name: 'Finished' }]);
+
+    expect(queue).toEqual([]);
+  });
+});
+
+describe('sortUpNext', () => {
+  const items = [
+    { show: { id: 1 }, episode: episode(1, 1, '2021-01-01'), lastWatchedAt: null },
+    { show: { id: 2 }, episode: episode(1, 1, '2019-01-01'), lastWatchedAt: '2024-01-01T00:00:00.000Z' },
+    { show: { id: 3 }, episode: episode(1, 1, '2020-01-01'), lastWatchedAt: '2024-06-01T00:00:00.000Z' },
+  ];
+
+  it('sorts by recently watched, with unstarted shows last', () => {
+    expect(sortUpNext(items, 'recently_watched').map(item => item.show.id)).toEqual([3, 2, 1]);
+  });
+
+  it('sorts by the oldest waiting episode', () => {
+    expect(sortUpNext(items, 'oldest_backlog').map(item => item.show.id)).toEqual([2, 3, 1]);
+  });
+});
@@ -0,0 +1,50 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { groupVideos, pickTrailer } from '../../app/services/VideoService';
+
+const video = (id, type, overrides = {}) => ({
+  id,
+  key: `key-${id}`,
+  name: `${type} ${id}`,
+  site: 'YouTube',
+  type,
+  official: true,
+  published_at: '2024-01-01T00:00:00.000Z',
+  size: 1080,
+  iso_639_1: 'en',
+  ...overrides,
+});
+
+describe('groupVideos', () => {
+  it('groups playable videos by type in display order', () => {
+    const groups = groupVideos([
+      video('a', 'Featurette'),
+      video('b', 'Trailer'),
+      video('c', 'Bloopers'),
+      video('d', 'Clip', { site: 'Dailymotion' }),
+      video('e', 'Teaser'),
+    ]);
+
+    expect(groups.map(group => group.type)).toEqual(['Trailer', 'Teaser', 'Featurette']);
+  });
+
+  it('puts official and newer videos first', () => {
+    const [trailers] = groupVideos([
+      video('old', 'Trailer', { published_at: '2020-01-01T00:00:00.000Z' }),
+      video('fan', 'Trailer', { official: false, published_at: '2025-01-01T00:00:00.000Z' }),
+      video('new', 'Trailer', { published_at: '2024-06-01T00:00:00.000Z' }),
+    ]);
+
+    expect(trailers.videos.map(item => item.id)).toEqual(['new', 'old', 'fan']);
+  });
+});
+
+describe('pickTrailer', () => {
+  it('prefers trailers and falls back to teasers', () => {
+    expect(pickTrailer([video('t', 'Teaser'), video('tr', 'Trailer')]).id).toBe('tr');
+    expect(pickTrailer([video('c', 'Clip'), video('t', 'Teaser')]).id).toBe('t');
+    expect(pickTrailer([video('c', 'Clip')])).toBeNull();
+  });
+});
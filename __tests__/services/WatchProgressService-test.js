@@ -0,0 +1,88 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import MetadataService from '../../app/services/MetadataService';
+import WatchProgressService, { formatProgress, summarizeProgress } from '../../app/services/WatchProgressService';
+
+const episode = (season, number, airDate = '2020-01-01') => ({
+  id: season * 1000 + number,
+  name: `Episode ${number}`,
+  season_number: season,
+  episode_number: number,
+  air_date: airDate,
+});
+
+describe('summarizeProgress', () => {
+  it('counts the main run and reports the furthest episode watched', () => {
+    const progress = summarizeProgress(
+      {
+        0: { 1: '2024-01-01T00:00:00.000Z' },
+        1: { 1: '2024-01-02T00:00:00.000Z', 2: '2024-01-03T00:00:00.000Z' },
+        2: { 5: '2024-01-01T00:00:00.000Z' },
+      },
+      5
+    );
+
+    expect(progress).toMatchObject({ watchedCount: 3, percentComplete: 60, lastWatched: { season: 2, episode: 5 } });
+    expect(formatProgress(progress)).toBe('S2E5 · 60% complete');
+  });
+});
+
+describe('WatchProgressService', () => {
+  beforeEach(() => AsyncStorage.clear());
+  afterEach(() => jest.restoreAllMocks());
+
+  it('marks and unmarks single episodes', async () => {
+    await WatchProgressService.markEpisode(10, 1, 3);
+    expect(await WatchProgressService.isWatched(10, 1, 3)).toBe(true);
+
+    await WatchProgressService.markEpisode(10, 1, 3, false);
+    expect(await WatchProgressService.getWatchedEpisodes(10)).toEqual({});
+  });
+
+  it('keeps every mark when several are made at once', async () => {
+    await Promise.all([
+      WatchProgressService.markEpisode(30, 1, 1),
+      WatchProgressService.markEpisode(30, 1, 2),
+      WatchProgressService.markEpisodes(30, [{ season: 2, episode: 1 }]),
+    ]);
+
+    const stored = JSON.parse(await AsyncStorage.getItem('@EpisodeAlerts:progress:30'));
+    expect(Object.keys(stored[1])).toEqual(['1', '2']);
+    expect(Object.keys(stored[2])).toEqual(['1']);
+  });
+
+  it('skips earlier seasons that fail to load when marking up to an episode', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(MetadataService, 'getSeasonDetails').mockImplementation(async (showId, seasonNumber) => {
+      if (seasonNumber === 1) throw new Error('Season not found');
+      return { season_number: seasonNumber, episodes: [episode(2, 1), episode(2, 2)] };
+    });
+
+    expect(await WatchProgressService.markUpTo(40, 2, 2)).toBe(true);
+    expect(await WatchProgressService.getWatchedEpisodes(40)).toEqual({
+      2: { 1: expect.any(String), 2: expect.any(String) },
+    });
+  });
+
+  it('marks everything up to an episode, skipping other unaired ones, in a single write', async () => {
+    jest.spyOn(MetadataService, 'getSeasonDetails').mockImplementation(async (showId, seasonNumber) => ({
+      season_number: seasonNumber,
+      episodes: seasonNumber === 1
+        ? Array.from({ length: 300 }, (_, index) => episode(1, index + 1))
+        : [episode(2, 1), episode(2, 2), episode(2, 3, '2099-01-01')],
+    }));
+    const setItem = jest.spyOn(AsyncStorage, 'setItem');
+    setItem.mockClear();
+
+    await WatchProgressService.markUpTo(20, 2, 3);
+
+    const progress = await WatchProgressService.getProgress({ id: 20, number_of_episodes: 303 });
+    expect(progress.watchedCount).toBe(303);
+    expect(progress.lastWatched).toMatchObject({ season: 2, episode: 3 });
+    const progressWrites = setItem.mock.calls.filter(([key]) => key.startsWith('@EpisodeAlerts:progress:'));
+    expect(progressWrites).toHaveLength(1);
+  });
+});
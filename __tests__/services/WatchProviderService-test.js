@@ -0,0 +1,65 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import MetadataService from '../../app/services/MetadataService';
+import WatchProviderService, {
+  groupWatchOptions,
+  isAvailableOnProviders,
+} from '../../app/services/WatchProviderService';
+
+const provider = (id, priority = id) => ({
+  provider_id: id,
+  provider_name: `Provider ${id}`,
+  logo_path: `/${id}.png`,
+  display_priority: priority,
+});
+
+describe('groupWatchOptions', () => {
+  it('splits options by type, merges ad-supported into free and sorts by priority', () => {
+    const groups = groupWatchOptions({
+      link: 'https://www.themoviedb.org/tv/1/watch',
+      flatrate: [provider(8, 2), provider(337, 1)],
+      ads: [provider(300)],
+      free: [provider(300), provider(73)],
+      buy: [provider(2)],
+    });
+
+    expect(groups.map(group => group.type)).toEqual(['stream', 'free', 'buy']);
+    expect(groups[0].providers.map(item => item.provider_id)).toEqual([337, 8]);
+    expect(groups[1].providers.map(item => item.provider_id)).toEqual([73, 300]);
+  });
+
+  it('returns nothing for regions without availability', () => {
+    expect(groupWatchOptions(null)).toEqual([]);
+  });
+});
+
+describe('isAvailableOnProviders', () => {
+  it('only counts options included with a subscription', () => {
+    const availability = { link: '', rent: [provider(2)], flatrate: [provider(8)] };
+
+    expect(isAvailableOnProviders(availability, [8])).toBe(true);
+    expect(isAvailableOnProviders(availability, [2])).toBe(false);
+    expect(isAvailableOnProviders(availability, [])).toBe(false);
+  });
+});
+
+describe('WatchProviderService.getAvailableShowIds', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('keeps shows streaming on a subscribed service in the chosen region', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(MetadataService, 'getWatchProviders').mockImplementation(async (id) => {
+      if (id === 3) throw new Error('Network error');
+      return {
+        US: { link: '', flatrate: [provider(id === 1 ? 8 : 15)] },
+        GB: { link: '', flatrate: [provider(8)] },
+      };
+    });
+
+    const ids = await WatchProviderService.getAvailableShowIds([1, 2, 3], 'US', [8]);
+
+    expect([...ids]).toEqual([1]);
+  });
+});
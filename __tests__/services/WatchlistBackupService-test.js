@@ -0,0 +1,169 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import {
+  BACKUP_FORMAT,
+  BackupFormatError,
+  buildBackup,
+  diffImport,
+  parseCsv,
+  parseImport,
+  toCsv,
+} from '../../app/services/WatchlistBackupService';
+import { WATCHLIST_VERSION } from '../../app/services/WatchlistService';
+
+const entry = (id, overrides = {}) => ({
+  show: { id, name: `Show ${id}` },
+  addedAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  source: 'home',
+  user: { status: 'watching', tags: [] },
+  listIds: [],
+  ...overrides,
+});
+
+const watchlist = (entries, lists = []) => ({ version: WATCHLIST_VERSION, entries, lists });
+
+const contents = (list, progress = {}, ratings = []) => ({ watchlist: list, progress, ratings });
+
+const rating = (overrides = {}) => ({
+  type: 'show',
+  showId: 1,
+  showName: 'Show 1',
+  score: 8,
+  ratedAt: '2024-01-01T00:00:00.000Z',
+  history: [],
+  ...overrides,
+});
+
+describe('CSV', () => {
+  it('round-trips titles with commas and quotes', () => {
+    const csv = toCsv([entry(1, { show: { id: 1, name: 'Law & Order, "SVU"' }, user: { status: 'on_hold', tags: [] } })]);
+
+    expect(parseCsv(csv)).toEqual({
+      rows: [{ showId: 1, title: 'Law & Order, "SVU"', addedAt: '2024-01-01T00:00:00.000Z', status: 'on_hold' }],
+      skipped: 0,
+    });
+  });
+
+  it('reads status labels and skips rows without a valid id', () => {
+    const csv = 'Title,TMDB_ID,Status\nFirst,10,Plan to Watch\nBroken,abc,watching\nFirst again,10,completed\n\n';
+
+    expect(parseCsv(csv)).toEqual({
+      rows: [{ showId: 10, title: 'First', addedAt: undefined, status: 'plan_to_watch' }],
+      skipped: 2,
+    });
+  });
+
+  it('needs a tmdb_id column', () => {
+    expect(() => parseCsv('title,status\nFirst,watching')).toThrow(BackupFormatError);
+  });
+});
+
+describe('parseImport', () => {
+  it('reads a JSON backup and upgrades older watchlists inside it', () => {
+    const backup = buildBackup(contents({ version: 2, entries: [entry(1, { user: {} })] }));
+
+    const parsed = parseImport(JSON.stringify(backup));
+
+    expect(parsed.type).toBe('json');
+    expect(parsed.watchlist.version).toBe(WATCHLIST_VERSION);
+    expect(parsed.watchlist.entries[0].user).toEqual({ status: 'watching', tags: [], notes: undefined });
+  });
+
+  it('drops invalid and duplicate shows and unknown list ids', () => {
+    const backup = buildBackup(contents(watchlist(
+      [entry(1, { listIds: ['a', 'missing'] }), entry(1), { show: { name: 'No id' } }],
+      [{ id: 'a', name: 'Weekend', muted: false, createdAt: '2024-01-01T00:00:00.000Z' }]
+    )));
+
+    const parsed = parseImport(JSON.stringify(backup));
+
+    expect(parsed.watchlist.entries.map(item => item.listIds)).toEqual([['a']]);
+    expect(parsed.skipped).toBe(2);
+  });
+
+  it('restores watched episodes and ratings, dropping malformed ones', () => {
+    const backup = buildBackup(contents(
+      watchlist([entry(1)]),
+      { 1: { 1: { 1: '2024-01-02T00:00:00.000Z', 2: 'never' } }, abc: { 1: { 1: '2024-01-02T00:00:00.000Z' } } },
+      [rating({ score: 14 }), rating({ type: 'episode', seasonNumber: 1 }), { type: 'show', showId: 2 }]
+    ));
+
+    const parsed = parseImport(JSON.stringify(backup));
+
+    expect(parsed.progress).toEqual({ 1: { 1: { 1: '2024-01-02T00:00:00.000Z' } } });
+    expect(parsed.ratings).toEqual([expect.objectContaining({ type: 'show', showId: 1, score: 10 })]);
+  });
+
+  it('still reads version 1 backups, which have no watch history', () => {
+    const backup = { format: BACKUP_FORMAT, version: 1, exportedAt: 'x', watchlist: watchlist([entry(1)]) };
+
+    const parsed = parseImport(JSON.stringify(backup));
+
+    expect(parsed.watchlist.entries).toHaveLength(1);
+    expect(parsed.progress).toEqual({});
+    expect(parsed.ratings).toEqual([]);
+  });
+
+  it('rejects other JSON and backups from newer versions', () => {
+    expect(() => parseImport('{"entries": []}')).toThrow("This isn't an Episode Alerts watchlist backup");
+    expect(() => parseImport(JSON.stringify({ ...buildBackup(contents(watchlist([]))), version: 99 })))
+      .toThrow('newer version');
+    expect(() => parseImport('{ nope')).toThrow(BackupFormatError);
+  });
+});
+
+describe('diffImport', () => {
+  const current = watchlist(
+    [
+      entry(1, { user: { status: 'watching', tags: ['comfy'] }, listIds: ['a'] }),
+      entry(2),
+    ],
+    [{ id: 'a', name: 'Weekend', muted: false, createdAt: 'x' }]
+  );
+  const imported = watchlist(
+    [
+      entry(1, { updatedAt: '2024-02-01T00:00:00.000Z', user: { status: 'completed', tags: ['Comfy', 'drama'] }, listIds: ['b'] }),
+      entry(3),
+    ],
+    [{ id: 'b', name: 'weekend', muted: false, createdAt: 'y' }]
+  );
+
+  it('merges into the current watchlist without removing anything', () => {
+    const diff = diffImport(contents(current), contents(imported), 'merge');
+
+    expect(diff.added.map(item => item.show.id)).toEqual([3]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.addedLists).toEqual([]);
+    // Lists are matched by name and tags are combined regardless of case
+    expect(diff.updated).toEqual([
+      expect.objectContaining({ user: { status: 'completed', tags: ['comfy', 'drama'], notes: undefined }, listIds: ['a'] }),
+    ]);
+  });
+
+  it('lists what a replace would remove', () => {
+    const diff = diffImport(contents(current), contents(imported), 'replace');
+
+    expect(diff.added.map(item => item.show.id)).toEqual([3]);
+    expect(diff.removed.map(item => item.show.id)).toEqual([2]);
+    expect(diff.addedLists.map(list => list.id)).toEqual(['b']);
+    expect(diff.removedLists.map(list => list.id)).toEqual(['a']);
+  });
+
+  it('counts episodes not yet watched and ratings newer than the saved ones', () => {
+    const saved = contents(current, { 1: { 1: { 1: 'a' } } }, [rating({ ratedAt: '2024-03-01T00:00:00.000Z' })]);
+    const fromFile = contents(
+      imported,
+      { 1: { 1: { 1: 'b', 2: 'b' } }, 3: { 1: { 1: 'b' } } },
+      [rating(), rating({ type: 'season', seasonNumber: 1 })]
+    );
+
+    const diff = diffImport(saved, fromFile, 'replace');
+
+    expect(diff.watchedEpisodes).toBe(2);
+    expect(diff.ratings).toBe(1);
+  });
+});
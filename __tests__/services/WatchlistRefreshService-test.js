@@ -0,0 +1,147 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import MetadataService from '../../app/services/MetadataService';
+import WatchlistService from '../../app/services/WatchlistService';
+import WatchlistRefreshService, {
+  diffShow,
+  getChangedSeasonNumbers,
+  getRefreshInterval,
+} from '../../app/services/WatchlistRefreshService';
+import { WATCHLIST_REFRESH_CONFIG } from '../../constants/Config';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2024-03-01T12:00:00Z');
+
+const show = (id, overrides = {}) => ({
+  id,
+  name: `Show ${id}`,
+  status: 'Returning Series',
+  number_of_seasons: 1,
+  ...overrides,
+});
+
+describe('getRefreshInterval', () => {
+  const { INTERVAL } = WATCHLIST_REFRESH_CONFIG;
+
+  it('refreshes shows airing soon more often than ended ones', () => {
+    expect(getRefreshInterval(show(1, { next_episode_to_air: { air_date: '2024-03-02' } }), NOW)).toBe(INTERVAL.AIRING_SOON);
+    expect(getRefreshInterval(show(1, { next_episode_to_air: { air_date: '2024-03-06' } }), NOW)).toBe(INTERVAL.AIRING_THIS_WEEK);
+    expect(getRefreshInterval(show(1), NOW)).toBe(INTERVAL.RETURNING);
+    expect(getRefreshInterval(show(1, { status: 'Ended' }), NOW)).toBe(INTERVAL.ENDED);
+  });
+});
+
+describe('diffShow', () => {
+  it('reports a new next episode, a status change and a new season', () => {
+    const previous = show(1, { next_episode_to_air: { id: 10 } });
+    const current = show(1, { next_episode_to_air: { id: 11 }, status: 'Ended', number_of_seasons: 2 });
+
+    expect(diffShow(previous, current).map(change => change.type)).toEqual(['new_next_episode', 'status', 'new_season']);
+    expect(diffShow(previous, previous)).toEqual([]);
+  });
+});
+
+describe('getChangedSeasonNumbers', () => {
+  it('reads season numbers from the season change group', () => {
+    const changes = [
+      { key: 'name', items: [{ id: 'a', action: 'updated', value: 'New Name' }] },
+      {
+        key: 'season',
+        items: [
+          { id: 'b', action: 'updated', value: { season_id: 30, season_number: 3 } },
+          { id: 'c', action: 'added', value: { season_id: 10, season_number: 1 } },
+          { id: 'd', action: 'updated', value: { season_id: 30, season_number: 3 } },
+        ],
+      },
+    ];
+
+    expect(getChangedSeasonNumbers(changes)).toEqual([1, 3]);
+  });
+});
+
+describe('WatchlistRefreshService', () => {
+  const CHECKPOINT_KEY = '@EpisodeAlerts:changesCheckpoint';
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    await WatchlistService.addToWatchlist(show(1));
+    await WatchlistService.addToWatchlist(show(2, { status: 'Ended' }));
+    // Both were just added; age the snapshots past the returning show's interval
+    const stored = JSON.parse(await AsyncStorage.getItem('@EpisodeAlerts:watchlist'));
+    await AsyncStorage.setItem('@EpisodeAlerts:watchlist', JSON.stringify({
+      ...stored,
+      entries: stored.entries.map(entry => ({
+        ...entry,
+        addedAt: new Date(NOW - 2 * 24 * HOUR).toISOString(),
+      })),
+    }));
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it('falls back to refresh intervals when the change feed is unavailable', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(MetadataService, 'getChangedShows').mockRejectedValue(new Error('offline'));
+    const getDetails = jest.spyOn(MetadataService, 'getTVShowDetails')
+      .mockImplementation(async (id) => show(id, { number_of_seasons: 2 }));
+    const listener = jest.fn();
+    const unsubscribe = WatchlistRefreshService.subscribe(listener);
+
+    const result = await WatchlistRefreshService.refresh();
+    unsubscribe();
+
+    expect(getDetails).toHaveBeenCalledTimes(1);
+    expect(getDetails).toHaveBeenCalledWith(1, expect.objectContaining({ cachePolicy: 'network-only' }));
+    expect(result).toMatchObject({ checked: 1, refreshed: 1, failed: 0, incremental: false });
+    expect(result.changes.map(change => change.type)).toEqual(['new_season']);
+    expect(listener).toHaveBeenCalledWith(result);
+
+    const entry = await WatchlistService.getEntry(1);
+    expect(entry.show.number_of_seasons).toBe(2);
+    expect(entry.refreshedAt).toBeDefined();
+    expect(await AsyncStorage.getItem(CHECKPOINT_KEY)).toBeNull();
+  });
+
+  it('skips unchanged shows and re-fetches only the seasons that changed', async () => {
+    const getChangedShows = jest.spyOn(MetadataService, 'getChangedShows')
+      .mockResolvedValue({ page: 1, results: [{ id: 2, adult: false }, { id: 99, adult: false }], total_pages: 1 });
+    jest.spyOn(MetadataService, 'getShowChanges').mockResolvedValue([
+      { key: 'season', items: [{ id: 'a', action: 'updated', value: { season_id: 20, season_number: 2 } }] },
+    ]);
+    const getSeason = jest.spyOn(MetadataService, 'getSeasonDetails').mockResolvedValue({ episodes: [] });
+    const getDetails = jest.spyOn(MetadataService, 'getTVShowDetails')
+      .mockImplementation(async (id) => show(id, { status: 'Ended' }));
+
+    const result = await WatchlistRefreshService.refresh();
+
+    expect(getChangedShows).toHaveBeenCalledWith(
+      { startDate: '2024-02-28', endDate: '2024-03-01' },
+      1,
+      expect.objectContaining({ cachePolicy: 'network-only' })
+    );
+    expect(getDetails).toHaveBeenCalledTimes(1);
+    expect(getDetails).toHaveBeenCalledWith(2, expect.anything());
+    expect(getSeason).toHaveBeenCalledWith(2, 2, expect.objectContaining({ cachePolicy: 'network-only' }));
+    expect(result).toMatchObject({ checked: 1, skipped: 1, seasonsRefreshed: 1, incremental: true });
+    expect(await AsyncStorage.getItem(CHECKPOINT_KEY)).toBe(new Date(NOW).toISOString());
+  });
+
+  it('keeps the checkpoint when a changed season fails to load', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(MetadataService, 'getChangedShows')
+      .mockResolvedValue({ page: 1, results: [{ id: 2, adult: false }], total_pages: 1 });
+    jest.spyOn(MetadataService, 'getShowChanges').mockResolvedValue([
+      { key: 'season', items: [{ id: 'a', action: 'updated', value: { season_id: 20, season_number: 2 } }] },
+    ]);
+    jest.spyOn(MetadataService, 'getSeasonDetails').mockRejectedValue(new Error('Server error'));
+    jest.spyOn(MetadataService, 'getTVShowDetails').mockImplementation(async (id) => show(id, { status: 'Ended' }));
+
+    const result = await WatchlistRefreshService.refresh();
+
+    expect(result).toMatchObject({ checked: 1, refreshed: 1, seasonsRefreshed: 0, incremental: true });
+    expect(await AsyncStorage.getItem(CHECKPOINT_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { migrateWatchlist, shouldSuggestCompleted, suggestTags, WATCHLIST_VERSION } from '../../app/services/WatchlistService';
+
+const WATCHLIST_KEY = '@EpisodeAlerts:watchlist';
+
+// Each test gets a fresh singleton so the once-per-launch migration runs again
+const loadService = () => {
+  let service;
+  jest.isolateModules(() => {
+    service = require('../../app/services/WatchlistService').default;
+  });
+  return service;
+};
+
+describe('migrateWatchlist', () => {
+  it('wraps legacy shows in entries that keep their saved order', () => {
+    const migrated = migrateWatchlist([{ id: 3, name: 'First' }, { id: 1, name: 'Second' }], Date.parse('2024-01-01'));
+
+    expect(migrated.version).toBe(WATCHLIST_VERSION);
+    expect(migrated.entries.map(entry => entry.show.id)).toEqual([3, 1]);
+    expect(migrated.entries[0].addedAt < migrated.entries[1].addedAt).toBe(true);
+    expect(migrated.entries[0]).toMatchObject({ source: 'legacy', user: { status: 'watching', tags: [] }, listIds: [] });
+    expect(migrated.lists).toEqual([]);
+  });
+
+  it('fills in lists, status and tags for version 2 entries', () => {
+    const entry = { show: { id: 1 }, addedAt: 'a', updatedAt: 'a', source: 'home', user: { notes: 'Hi' } };
+
+    const migrated = migrateWatchlist({ version: 2, entries: [entry] });
+
+    expect(migrated).toEqual({
+      version: WATCHLIST_VERSION,
+      entries: [{ ...entry, user: { status: 'watching', tags: [], notes: 'Hi' }, listIds: [] }],
+      lists: [],
+    });
+  });
+
+  it('starts from the stored version and ignores data that is not a watchlist', () => {
+    const list = { id: 'l1', name: 'Weekend', muted: false, createdAt: 'a' };
+    const entry = { show: { id: 1 }, addedAt: 'a', updatedAt: 'a', source: 'home', user: { status: 'dropped' }, listIds: ['l1'] };
+
+    expect(migrateWatchlist({ version: 4, entries: [entry], lists: [list] })).toEqual({
+      version: WATCHLIST_VERSION,
+      entries: [{ ...entry, user: { status: 'dropped', tags: [] } }],
+      lists: [list],
+    });
+    expect(migrateWatchlist({ version: 2, shows: [] })).toEqual({ version: WATCHLIST_VERSION, entries: [], lists: [] });
+    expect(migrateWatchlist(null).entries).toEqual([]);
+  });
+});
+
+describe('shouldSuggestCompleted', () => {
+  const ended = { id: 1, status: 'Ended' };
+  const caughtUp = { watchedCount: 10, totalCount: 10 };
+
+  it('suggests ended shows the user has caught up on', () => {
+    expect(shouldSuggestCompleted(ended, 'watching', caughtUp)).toBe(true);
+    expect(shouldSuggestCompleted(ended, 'watching', { watchedCount: 9, totalCount: 10 })).toBe(false);
+    expect(shouldSuggestCompleted({ id: 1, status: 'Returning Series' }, 'watching', caughtUp)).toBe(false);
+  });
+
+  it('leaves completed and dropped shows alone', () => {
+    expect(shouldSuggestCompleted(ended, 'completed', caughtUp)).toBe(false);
+    expect(shouldSuggestCompleted(ended, 'dropped', caughtUp)).toBe(false);
+  });
+});
+
+describe('suggestTags', () => {
+  const tags = ['comfort', 'sci-fi-comfort', 'Sci-Fi', 'drama'];
+
+  it('puts tags starting with the query before ones containing it', () => {
+    expect(suggestTags(tags, 'SCI')).toEqual(['sci-fi-comfort', 'Sci-Fi']);
+    expect(suggestTags(tags, 'comf')).toEqual(['comfort', 'sci-fi-comfort']);
+  });
+
+  it('skips tags the show already has, whatever their case', () => {
+    expect(suggestTags(tags, 'sci', ['sci-fi'])).toEqual(['sci-fi-comfort']);
+  });
+});
+
+describe('WatchlistService', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('upgrades a legacy watchlist in place on first read', async () => {
+    await AsyncStorage.setItem(WATCHLIST_KEY, JSON.stringify([{ id: 7, name: 'Legacy' }]));
+
+    const shows = await loadService().getWatchlist();
+
+    expect(shows).toEqual([{ id: 7, name: 'Legacy' }]);
+    const stored = JSON.parse(await AsyncStorage.getItem(WATCHLIST_KEY));
+    expect(stored.version).toBe(WATCHLIST_VERSION);
+    expect(stored.entries[0].show.id).toBe(7);
+  });
+
+  it('keeps user fields and the date added when the show snapshot is refreshed', async () => {
+    const service = loadService();
+    await service.addToWatchlist({ id: 9, name: 'Old Name' }, 'recommendation');
+    await service.updateUserFields(9, { notes: 'Finish before the finale' });
+    const { addedAt } = await service.getEntry(9);
+
+    await service.updateShow({ id: 9, name: 'New Name' });
+
+    const entry = await service.getEntry(9);
+    expect(entry).toMatchObject({
+      show: { name: 'New Name' },
+      source: 'recommendation',
+      addedAt,
+      user: { notes: 'Finish before the finale' },
+    });
+  });
+
+  it('lets newer edits from a backup win over a later snapshot refresh', async () => {
+    jest.useFakeTimers({ now: Date.parse('2024-01-01') });
+    const service = loadService();
+    await service.addToWatchlist({ id: 9, name: 'Old Name' });
+    jest.setSystemTime(Date.parse('2024-03-01'));
+    await service.updateShow({ id: 9, name: 'New Name' });
+    jest.useRealTimers();
+    const backup = {
+      version: WATCHLIST_VERSION,
+      entries: [{
+        show: { id: 9, name: 'Old Name' },
+        addedAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-02-01T00:00:00.000Z',
+        source: 'home',
+        user: { status: 'completed', tags: [], notes: 'Loved it' },
+        listIds: [],
+      }],
+      lists: [],
+    };
+
+    await service.importWatchlist(backup, 'merge');
+
+    expect(await service.getEntry(9)).toMatchObject({
+      show: { name: 'New Name' },
+      updatedAt: '2024-02-01T00:00:00.000Z',
+      refreshedAt: '2024-03-01T00:00:00.000Z',
+      user: { status: 'completed', notes: 'Loved it' },
+    });
+  });
+
+  it('keeps every change when several are made at once', async () => {
+    const service = loadService();
+    await service.addToWatchlist({ id: 1, name: 'One' });
+
+    const results = await Promise.all([
+      service.addToWatchlist({ id: 2, name: 'Two' }),
+      service.addToWatchlist({ id: 3, name: 'Three' }),
+      service.setStatus(1, 'on_hold'),
+      service.updateShow({ id: 1, name: 'One, refreshed' }),
+    ]);
+
+    expect(results).toEqual([true, true, true, true]);
+    const stored = JSON.parse(await AsyncStorage.getItem(WATCHLIST_KEY));
+    expect(stored.entries.map(entry => entry.show.id)).toEqual([1, 2, 3]);
+    expect(stored.entries[0]).toMatchObject({ show: { name: 'One, refreshed' }, user: { status: 'on_hold' } });
+  });
+
+  it('mutes notifications only for shows whose lists are all muted', async () => {
+    const service = loadService();
+    const binge = await service.createList('Weekend binge');
+    const kids = await service.createList('Kids');
+    await service.setShowLists({ id: 1, name: 'Only Kids' }, [kids.id], 'search');
+    await service.setShowLists({ id: 2, name: 'Both' }, [kids.id, binge.id]);
+    await service.addToWatchlist({ id: 3, name: 'No Lists' });
+
+    await service.setListMuted(kids.id, true);
+
+    expect(await service.isNotificationMuted(1)).toBe(true);
+    expect(await service.isNotificationMuted(2)).toBe(false);
+    expect(await service.getMutedShowIds()).toEqual([1]);
+    expect((await service.getEntry(1)).source).toBe('search');
+  });
+
+  it('keeps shows in the watchlist when their list is deleted', async () => {
+    const service = loadService();
+    const list = await service.createList('  Weekend binge  ');
+    await service.setShowLists({ id: 1, name: 'Show' }, [list.id, 'list_missing']);
+    expect((await service.getEntry(1)).listIds).toEqual([list.id]);
+
+    await service.deleteList(list.id);
+
+    expect(await service.getLists()).toEqual([]);
+    expect(await service.getEntry(1)).toMatchObject({ show: { id: 1 }, listIds: [] });
+  });
+
+  it('merges a renamed tag into an existing one on every show', async () => {
+    const service = loadService();
+    await service.addToWatchlist({ id: 1, name: 'One' });
+    await service.addToWatchlist({ id: 2, name: 'Two' });
+    await service.setTags(1, [' sci-fi ', 'comfort', 'Comfort']);
+    await service.setTags(2, ['scifi', 'Sci-Fi']);
+    expect((await service.getEntry(1)).user.tags).toEqual(['sci-fi', 'comfort']);
+
+    await service.renameTag('scifi', 'Sci-Fi');
+
+    expect((await service.getEntry(1)).user.tags).toEqual(['sci-fi', 'comfort']);
+    expect((await service.getEntry(2)).user.tags).toEqual(['Sci-Fi']);
+    expect(await service.getTags()).toEqual([
+      { tag: 'sci-fi', count: 2 },
+      { tag: 'comfort', count: 1 },
+    ]);
+  });
+});
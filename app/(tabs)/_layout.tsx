@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useEffect } from 'react';
+import { AppState } from 'react-native';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { Tabs } from 'expo-router';
 import { useTheme } from '@/app/context/ThemeContext';
+import WatchlistRefreshService from '@/app/services/WatchlistRefreshService';
 
 // You can explore the built-in icon families and icons on the web at https://icons.expo.fyi/
 function TabBarIcon(props: {
@@ -14,6 +16,18 @@ function TabBarIcon(props: {
 export default function TabLayout() {
   const { theme } = useTheme();
 
+  // Brings stale watchlist snapshots up to date at launch and whenever the app returns to the foreground
+  useEffect(() => {
+    WatchlistRefreshService.refresh();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        WatchlistRefreshService.refresh();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
   return (
     <Tabs
       screenOptions={{
@@ -46,6 +60,13 @@ export default function TabLayout() {
           tabBarIcon: ({ color }) => <TabBarIcon name="search" color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="up-next"
+        options={{
+          title: 'Up Next',
+          tabBarIcon: ({ color }) => <TabBarIcon name="play-circle" color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="watchlist"
         options={{
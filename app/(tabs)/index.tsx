@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import {
   StyleSheet,
   ScrollView,
@@ -10,7 +10,10 @@ import {
   StatusBar,
   ImageBackground,
 } from 'react-native';
-import TMDBService, { TVShow } from '@/app/services/TMDBService';
+import MetadataService from '@/app/services/MetadataService';
+import { TVShow, Video } from '@/app/services/TMDBService';
+import { CachePolicy } from '@/app/services/ResponseCacheService';
+import { isAbortError } from '@/app/services/TMDBError';
 import { useTheme } from '@/app/context/ThemeContext';
 import WatchlistService from '@/app/services/WatchlistService';
 import Animated, { FadeInDown, FadeIn, SlideInRight } from 'react-native-reanimated';
@@ -22,6 +25,10 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Link, Stack, useFocusEffect } from 'expo-router';
 import CachedImage from '@/components/CachedImage';
 import EpisodeCountdown from '@/app/components/EpisodeCountdown';
+import ErrorState from '@/app/components/ErrorState';
+import ListPickerModal from '@/app/components/ListPickerModal';
+import VideoService from '@/app/services/VideoService';
+import type { ShowListCategory } from '@/app/show-list';
 
 const { width, height } = Dimensions.get('window');
 const CARD_WIDTH = width * 0.42;
@@ -33,12 +40,17 @@ export default function HomeScreen() {
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [featuredShow, setFeaturedShow] = useState<TVShow | null>(null);
+  const [featuredTrailer, setFeaturedTrailer] = useState<Video | null>(null);
   const [popularShows, setPopularShows] = useState<TVShow[]>([]);
   const [topRatedShows, setTopRatedShows] = useState<TVShow[]>([]);
   const [airingTodayShows, setAiringTodayShows] = useState<TVShow[]>([]);
   const [watchlist, setWatchlist] = useState<number[]>([]);
+  // Long-pressing a show opens the list picker for it
+  const [listPickerShow, setListPickerShow] = useState<TVShow | null>(null);
   const [recentlyViewedShows, setRecentlyViewedShows] = useState<TVShow[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  // Cancels in-flight requests when the screen unmounts
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   useFocusEffect(
     useCallback(() => {
@@ -47,9 +59,20 @@ export default function HomeScreen() {
   );
 
   useEffect(() => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     loadData();
     loadWatchlist();
     AnalyticsService.trackScreenView('home');
+
+    // Switching demo mode in settings swaps every list on this screen
+    const unsubscribe = MetadataService.subscribe(() => loadData());
+
+    return () => {
+      unsubscribe();
+      controller.abort();
+    };
   }, []);
 
   const loadWatchlist = async () => {
@@ -67,12 +90,16 @@ export default function HomeScreen() {
     }
   };
 
-  const loadData = async () => {
+  const loadData = async (cachePolicy: CachePolicy = 'stale-while-revalidate') => {
     try {
       setIsLoading(true);
       setError(null);
 
-      const popularResponse = await TMDBService.getPopularTVShows();
+      const popularResponse = await MetadataService.getPopularTVShows(1, {
+        cachePolicy,
+        onRevalidate: (response) => setPopularShows(response.results),
+        signal: abortControllerRef.current?.signal,
+      });
       if (popularResponse.results.length === 0) {
         throw new Error('No popular shows found');
       }
@@ -82,27 +109,77 @@ export default function HomeScreen() {
       const randomIndex = Math.floor(Math.random() * topFiveShows.length);
       const selectedShow = topFiveShows[randomIndex];
       
-      const detailedShow = await TMDBService.getTVShowDetails(selectedShow.id);
+      const detailedShow = await MetadataService.getTVShowDetails(selectedShow.id, {
+        cachePolicy,
+        onRevalidate: setFeaturedShow,
+        signal: abortControllerRef.current?.signal,
+      });
       setFeaturedShow(detailedShow);
+      loadFeaturedTrailer(detailedShow.id, cachePolicy);
 
-      const topRatedResponse = await TMDBService.getTopRatedTVShows();
+      const topRatedResponse = await MetadataService.getTopRatedTVShows(1, {
+        cachePolicy,
+        onRevalidate: (response) => setTopRatedShows(response.results),
+        signal: abortControllerRef.current?.signal,
+      });
       setTopRatedShows(topRatedResponse.results);
 
-      const airingTodayResponse = await TMDBService.getTVShowsAiringToday();
+      const airingTodayResponse = await MetadataService.getTVShowsAiringToday(1, {
+        cachePolicy,
+        onRevalidate: (response) => setAiringTodayShows(response.results),
+        signal: abortControllerRef.current?.signal,
+      });
       setAiringTodayShows(airingTodayResponse.results);
 
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Error loading data:', err);
-      setError('Failed to load TV show data. Please try again.');
+      setError(err);
     } finally {
       setIsLoading(false);
       setIsRefreshing(false);
     }
   };
 
+  const loadFeaturedTrailer = async (showId: number, cachePolicy: CachePolicy) => {
+    setFeaturedTrailer(null);
+
+    try {
+      setFeaturedTrailer(await VideoService.getTrailer(showId, {
+        cachePolicy,
+        signal: abortControllerRef.current?.signal,
+      }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading trailer:', err);
+    }
+  };
+
+  const handlePlayTrailer = async () => {
+    if (!featuredShow || !featuredTrailer) return;
+
+    const opened = await VideoService.play(featuredTrailer);
+    if (!opened) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not open the trailer',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    await AnalyticsService.trackEvent(EventType.PLAY_VIDEO, {
+      showId: featuredShow.id,
+      videoType: featuredTrailer.type,
+      site: featuredTrailer.site,
+      source: 'featured',
+    });
+  };
+
   const handleRefresh = () => {
     setIsRefreshing(true);
-    loadData();
+    loadData('network-only');
     loadWatchlist();
   };
 
@@ -125,7 +202,7 @@ export default function HomeScreen() {
         });
         await AnalyticsService.trackEvent(EventType.REMOVE_FROM_WATCHLIST, { showId: show.id, showName: show.name });
       } else {
-        await WatchlistService.addToWatchlist(show);
+        await WatchlistService.addToWatchlist(show, 'home');
         setWatchlist(prev => [...prev, show.id]);
         
         const updatedRecentlyViewed = [show, ...recentlyViewedShows.filter(s => s.id !== show.id)].slice(0, 3);
@@ -174,7 +251,7 @@ export default function HomeScreen() {
     return (
       <View style={styles.heroContainer}>
         <ImageBackground
-          source={{ uri: `https://image.tmdb.org/t/p/original${featuredShow.backdrop_path}` }}
+          source={{ uri: MetadataService.getImageUrl(featuredShow.backdrop_path, 'original') }}
           style={styles.heroBanner}
         >
           <LinearGradient
@@ -237,11 +314,21 @@ export default function HomeScreen() {
                         Next Episode: {formatDate(featuredShow.next_episode_to_air.air_date)}
                       </Text>
                     </View>
-                    <EpisodeCountdown airDate={featuredShow.next_episode_to_air.air_date} />
+                    <EpisodeCountdown
+                      airDate={featuredShow.next_episode_to_air.air_date}
+                      airstamp={featuredShow.next_episode_to_air.airstamp}
+                    />
                   </View>
                 )}
                 
                 <View style={styles.heroActions}>
+                  {featuredTrailer && (
+                    <Pressable style={styles.watchButton} onPress={handlePlayTrailer}>
+                      <Ionicons name="play" size={20} color="#FFF" />
+                      <Text style={styles.watchButtonText}>Play Trailer</Text>
+                    </Pressable>
+                  )}
+
                   <Link href={{ pathname: '/show-details', params: { id: featuredShow.id.toString() } }} asChild>
                     <Pressable style={styles.watchButton}>
                       <Ionicons name="information-circle-outline" size={20} color="#FFF" />
@@ -255,6 +342,7 @@ export default function HomeScreen() {
                       isInWatchlist ? styles.watchlistButtonActive : null
                     ]}
                     onPress={() => handleToggleWatchlist(featuredShow)}
+                    onLongPress={() => setListPickerShow(featuredShow)}
                   >
                     <Ionicons 
                       name={isInWatchlist ? "bookmark" : "bookmark-outline"} 
@@ -283,10 +371,10 @@ export default function HomeScreen() {
         style={styles.showCard}
       >
         <Link href={{ pathname: '/show-details', params: { id: item.id.toString() } }} asChild>
-          <Pressable style={styles.showCardContent}>
+          <Pressable style={styles.showCardContent} onLongPress={() => setListPickerShow(item)}>
             <View style={styles.posterContainer}>
               <CachedImage
-                uri={`https://image.tmdb.org/t/p/w342${item.poster_path}`}
+                uri={MetadataService.getImageUrl(item.poster_path, 'w342')}
                 style={styles.posterImage}
                 showLoader={true}
               />
@@ -327,15 +415,20 @@ export default function HomeScreen() {
     );
   };
 
-  const renderShowSection = (title: string, shows: TVShow[]) => {
+  const renderShowSection = (title: string, shows: TVShow[], category: ShowListCategory) => {
     if (!shows || shows.length === 0) return null;
 
     return (
       <Animated.View entering={FadeInDown.duration(400)} style={styles.section}>
-        <View style={styles.sectionHeader}>
-          <Text style={styles.sectionTitle}>{title}</Text>
-          <Feather name="chevron-right" size={20} color="#fff" />
-        </View>
+        <Link href={{ pathname: '/show-list', params: { category } }} asChild>
+          <Pressable style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>{title}</Text>
+            <View style={styles.seeAllButton}>
+              <Text style={styles.seeAllText}>See all</Text>
+              <Feather name="chevron-right" size={20} color="#fff" />
+            </View>
+          </Pressable>
+        </Link>
         
         <ScrollView 
           horizontal 
@@ -355,13 +448,13 @@ export default function HomeScreen() {
   const renderContent = () => {
     if (error) {
       return (
-        <View style={styles.errorContainer}>
-          <Ionicons name="alert-circle-outline" size={64} color="#e74c3c" />
-          <Text style={styles.errorText}>{error}</Text>
-          <Pressable style={styles.retryButton} onPress={loadData}>
-            <Text style={styles.retryButtonText}>Try Again</Text>
-          </Pressable>
-        </View>
+        <ErrorState
+          error={error}
+          fallbackMessage="Failed to load TV show data. Please try again."
+          onRetry={() => loadData()}
+          onWorkOffline={() => loadData('cache-only')}
+          style={styles.errorContainer}
+        />
       );
     }
 
@@ -381,9 +474,9 @@ export default function HomeScreen() {
         {renderFeaturedShow()}
         
         <View style={styles.content}>
-          {renderShowSection('Airing Today', airingTodayShows)}
-          {renderShowSection('Popular Shows', popularShows)}
-          {renderShowSection('Top Rated', topRatedShows)}
+          {renderShowSection('Airing Today', airingTodayShows, 'airing_today')}
+          {renderShowSection('Popular Shows', popularShows, 'popular')}
+          {renderShowSection('Top Rated', topRatedShows, 'top_rated')}
           
           {recentlyViewedShows.length > 0 && (
             <Link href="/watchlist" asChild>
@@ -424,6 +517,13 @@ export default function HomeScreen() {
           {renderContent()}
         </ScrollView>
         
+        <ListPickerModal
+          show={listPickerShow}
+          source="home"
+          onClose={() => setListPickerShow(null)}
+          onAddedToWatchlist={(show) => setWatchlist(prev => [...prev, show.id])}
+        />
+
         <Toast />
       </View>
     </>
@@ -575,6 +675,8 @@ const styles = StyleSheet.create({
   },
   heroActions: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 8,
   },
   watchButton: {
     backgroundColor: '#3d85c6',
@@ -625,6 +727,14 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  seeAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  seeAllText: {
+    color: '#ccc',
+    fontSize: 14,
+  },
   showsScrollContainer: {
     paddingHorizontal: 16,
   },
@@ -706,28 +816,6 @@ const styles = StyleSheet.create({
     marginLeft: 3,
   },
   errorContainer: {
-    flex: 1,
-    alignItems: 'center',
-    justifyContent: 'center',
-    padding: 20,
     marginTop: 100,
   },
-  errorText: {
-    color: '#fff',
-    fontSize: 16,
-    textAlign: 'center',
-    marginTop: 16,
-    marginBottom: 24,
-  },
-  retryButton: {
-    backgroundColor: '#3d85c6',
-    paddingVertical: 10,
-    paddingHorizontal: 20,
-    borderRadius: 4,
-  },
-  retryButtonText: {
-    color: '#fff',
-    fontSize: 14,
-    fontWeight: 'bold',
-  },
 });
\ No newline at end of file
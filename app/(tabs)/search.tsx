@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -10,39 +10,41 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { Link } from 'expo-router';
-import TMDBService, { TVShow } from '@/app/services/TMDBService';
+import { Ionicons } from '@expo/vector-icons';
+import MetadataService from '@/app/services/MetadataService';
+import { TVShow } from '@/app/services/TMDBService';
+import ErrorState from '@/app/components/ErrorState';
+import ListPickerModal from '@/app/components/ListPickerModal';
+import PaginatedListFooter from '@/components/PaginatedListFooter';
+import { usePaginatedList, PageFetcher } from '@/components/usePaginatedList';
 import { TMDB_CONFIG } from '@/constants/Config';
 
 export default function SearchScreen() {
   const [searchQuery, setSearchQuery] = useState('');
-  const [results, setResults] = useState<TVShow[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [listPickerShow, setListPickerShow] = useState<TVShow | null>(null);
 
-  const handleSearch = async (query: string) => {
-    setSearchQuery(query);
-    
-    if (query.length > 2) {
-      setIsLoading(true);
-      setError(null);
-      
-      try {
-        const response = await TMDBService.searchTVShows(query);
-        setResults(response.results);
-      } catch (err) {
-        console.error('Search error:', err);
-        setError('Failed to search. Please try again.');
-      } finally {
-        setIsLoading(false);
-      }
-    } else {
-      setResults([]);
-    }
-  };
+  // Changing the query swaps the fetcher, which cancels the previous keystroke's
+  // search so its results can't overwrite newer ones
+  const fetchResults = useMemo<PageFetcher<TVShow> | null>(() => {
+    if (searchQuery.length <= 2) return null;
+    return (page, request) => MetadataService.searchTVShows(searchQuery, page, request);
+  }, [searchQuery]);
+
+  const {
+    items: results,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMoreError,
+    hasMore,
+    loadMore,
+    retryLoadMore,
+    reload,
+  } = usePaginatedList(fetchResults);
 
   const getPosterUrl = (path: string | null) => {
     if (!path) return undefined;
-    return `${TMDB_CONFIG.IMAGE_BASE_URL}/${TMDB_CONFIG.POSTER_SIZES.SMALL}${path}`;
+    return MetadataService.getImageUrl(path, TMDB_CONFIG.POSTER_SIZES.SMALL);
   };
 
   const renderItem = ({ item }: { item: TVShow }) => (
@@ -70,6 +72,9 @@ export default function SearchScreen() {
             <Text style={styles.rating}>★ {item.vote_average?.toFixed(1)}</Text>
           </View>
         </View>
+        <TouchableOpacity style={styles.listButton} onPress={() => setListPickerShow(item)}>
+          <Ionicons name="add-circle-outline" size={26} color="#e50914" />
+        </TouchableOpacity>
       </TouchableOpacity>
     </Link>
   );
@@ -82,8 +87,13 @@ export default function SearchScreen() {
           placeholder="Search TV shows..."
           placeholderTextColor="#666666"
           value={searchQuery}
-          onChangeText={handleSearch}
+          onChangeText={setSearchQuery}
         />
+        <Link href="/discover" asChild>
+          <TouchableOpacity style={styles.discoverButton}>
+            <Ionicons name="options-outline" size={22} color="#ffffff" />
+          </TouchableOpacity>
+        </Link>
       </View>
 
       {isLoading ? (
@@ -91,13 +101,29 @@ export default function SearchScreen() {
           <ActivityIndicator size="large" color="#e50914" />
         </View>
       ) : error ? (
-        <Text style={styles.errorText}>{error}</Text>
+        <ErrorState
+          error={error}
+          fallbackMessage="Failed to search. Please try again."
+          onRetry={() => reload()}
+          onWorkOffline={() => reload('cache-only')}
+        />
       ) : (
         <FlatList
           data={results}
           keyExtractor={(item) => item.id.toString()}
           renderItem={renderItem}
           contentContainerStyle={styles.resultsList}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            <PaginatedListFooter
+              isLoadingMore={isLoadingMore}
+              hasMore={hasMore}
+              loadMoreError={loadMoreError}
+              onRetry={retryLoadMore}
+              itemCount={results.length}
+            />
+          }
           ListEmptyComponent={
             <Text style={styles.emptyText}>
               {searchQuery.length > 0
@@ -107,6 +133,12 @@ export default function SearchScreen() {
           }
         />
       )}
+
+      <ListPickerModal
+        show={listPickerShow}
+        source="search"
+        onClose={() => setListPickerShow(null)}
+      />
     </View>
   );
 }
@@ -117,16 +149,25 @@ const styles = StyleSheet.create({
     backgroundColor: '#121212',
   },
   searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
     padding: 16,
     backgroundColor: '#1a1a1a',
   },
   searchInput: {
+    flex: 1,
     backgroundColor: '#2a2a2a',
     borderRadius: 8,
     padding: 12,
     color: '#ffffff',
     fontSize: 16,
   },
+  discoverButton: {
+    marginLeft: 12,
+    padding: 10,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -162,6 +203,10 @@ const styles = StyleSheet.create({
     padding: 12,
     justifyContent: 'center',
   },
+  listButton: {
+    paddingHorizontal: 12,
+    justifyContent: 'center',
+  },
   title: {
     color: '#ffffff',
     fontSize: 16,
@@ -188,11 +233,4 @@ const styles = StyleSheet.create({
     marginTop: 24,
     fontSize: 16,
   },
-  errorText: {
-    color: '#e50914',
-    textAlign: 'center',
-    marginTop: 24,
-    fontSize: 16,
-    padding: 16,
-  },
 }); 
\ No newline at end of file
@@ -9,13 +9,29 @@ import {
   Alert,
   ActivityIndicator,
   SectionList,
+  Modal,
+  TextInput,
+  FlatList,
+  Share,
+  Platform,
 } from 'react-native';
-import { Stack } from 'expo-router';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
 import UserPreferencesService, { ThemeType } from '@/app/services/UserPreferencesService';
 import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
 import ImageCacheService from '@/app/services/ImageCacheService';
 import NotificationService from '@/app/services/NotificationService';
+import TMDBService from '@/app/services/TMDBService';
+import MetadataService from '@/app/services/MetadataService';
+import RecommendationService from '@/app/services/RecommendationService';
+import WatchProviderService from '@/app/services/WatchProviderService';
+import WatchlistBackupService, { BackupFileType } from '@/app/services/WatchlistBackupService';
+import ImportWatchlistModal from '@/app/components/ImportWatchlistModal';
+import type { WatchProvider } from '@/app/services/TMDBService';
+import type { MetadataProviderId } from '@/app/services/providers/MetadataProvider';
 import { useTheme } from '@/app/context/ThemeContext';
+import { LOCALE_CONFIG, WATCH_PROVIDER_CONFIG } from '@/constants/Config';
+import CachedImage from '@/components/CachedImage';
+import { Ionicons } from '@expo/vector-icons';
 
 interface SettingOption {
   id: string;
@@ -24,6 +40,7 @@ interface SettingOption {
   type: 'toggle' | 'select' | 'button';
   value?: boolean | string;
   options?: { label: string; value: string }[];
+  buttonLabel?: string;
   onPress?: () => void;
   onValueChange?: (value: boolean | string) => void;
 }
@@ -35,17 +52,40 @@ interface SettingSection {
 
 export default function SettingsScreen() {
   const { theme, setTheme } = useTheme();
+  const { focus } = useLocalSearchParams<{ focus?: string }>();
   const [isLoading, setIsLoading] = useState(true);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const [analyticsEnabled, setAnalyticsEnabled] = useState(true);
   const [imageCacheEnabled, setImageCacheEnabled] = useState(true);
   const [cacheSizeText, setCacheSizeText] = useState('Calculating...');
   const [refreshing, setRefreshing] = useState(false);
+  const [hasCustomApiKey, setHasCustomApiKey] = useState(false);
+  const [demoModeEnabled, setDemoModeEnabled] = useState(false);
+  // The online provider to return to when demo mode is switched off
+  const [onlineProviderId, setOnlineProviderId] = useState<MetadataProviderId>('tmdb');
+  const [isApiKeyModalVisible, setIsApiKeyModalVisible] = useState(false);
+  const [apiKeyInput, setApiKeyInput] = useState('');
+  const [language, setLanguage] = useState('en-US');
+  const [region, setRegion] = useState('US');
+  const [showOriginalTitles, setShowOriginalTitles] = useState(false);
+  const [localePicker, setLocalePicker] = useState<'language' | 'region' | null>(null);
+  const [subscribedProviders, setSubscribedProviders] = useState<number[]>([]);
+  const [isServicesModalVisible, setIsServicesModalVisible] = useState(false);
+  const [regionProviders, setRegionProviders] = useState<WatchProvider[]>([]);
+  const [isLoadingProviders, setIsLoadingProviders] = useState(false);
+  const [providerQuery, setProviderQuery] = useState('');
+  const [isImportModalVisible, setIsImportModalVisible] = useState(false);
 
   useEffect(() => {
     loadSettings();
   }, []);
 
+  useEffect(() => {
+    if (focus === 'apiKey') {
+      setIsApiKeyModalVisible(true);
+    }
+  }, [focus]);
+
   const loadSettings = async () => {
     try {
       setIsLoading(true);
@@ -56,6 +96,18 @@ export default function SettingsScreen() {
       const userPrefs = UserPreferencesService.getPreferences();
       setNotificationsEnabled(userPrefs.notificationsEnabled);
       setAnalyticsEnabled(userPrefs.analyticsEnabled);
+      setLanguage(userPrefs.language);
+      setRegion(userPrefs.region);
+      setShowOriginalTitles(userPrefs.showOriginalTitles);
+      setSubscribedProviders(userPrefs.subscribedProviders);
+      
+      setHasCustomApiKey(await TMDBService.hasCustomApiKey());
+      
+      const providerId = await MetadataService.getProviderId();
+      setDemoModeEnabled(providerId === 'fixtures');
+      if (providerId !== 'fixtures') {
+        setOnlineProviderId(providerId);
+      }
       
       // Load image cache settings
       setImageCacheEnabled(ImageCacheService.isImageCacheEnabled());
@@ -182,6 +234,185 @@ export default function SettingsScreen() {
     }
   };
 
+  const clearResponseCache = async () => {
+    try {
+      await TMDBService.clearCache();
+      
+      await AnalyticsService.trackEvent(
+        EventType.CHANGE_SETTINGS, 
+        { action: 'clearResponseCache' }
+      );
+      
+      Alert.alert('Success', 'Cached show data cleared');
+    } catch (error) {
+      console.error('Error clearing response cache:', error);
+      Alert.alert('Error', 'Failed to clear cached show data');
+    }
+  };
+
+  const restoreHiddenRecommendations = async () => {
+    const success = await RecommendationService.clearDismissed();
+    if (!success) {
+      Alert.alert('Error', 'Failed to restore hidden recommendations');
+      return;
+    }
+
+    await AnalyticsService.trackEvent(
+      EventType.CHANGE_SETTINGS, 
+      { action: 'clearDismissedRecommendations' }
+    );
+
+    Alert.alert('Success', 'Hidden recommendations will show up again');
+  };
+
+  const saveApiKey = async (key: string) => {
+    try {
+      await TMDBService.setApiKey(key);
+      setHasCustomApiKey(!!key.trim());
+      setApiKeyInput('');
+      setIsApiKeyModalVisible(false);
+      
+      await AnalyticsService.trackEvent(
+        EventType.CHANGE_SETTINGS, 
+        { setting: 'apiKey', custom: !!key.trim() }
+      );
+      
+      Alert.alert('Success', key.trim() ? 'API key saved' : 'Using the API key from the app configuration');
+    } catch (error) {
+      console.error('Error saving API key:', error);
+      Alert.alert('Error', 'Failed to save API key');
+    }
+  };
+
+  const handleDemoModeToggle = async (value: boolean) => {
+    try {
+      await MetadataService.setProvider(value ? 'fixtures' : onlineProviderId);
+      setDemoModeEnabled(value);
+      
+      await AnalyticsService.trackEvent(
+        EventType.CHANGE_SETTINGS, 
+        { setting: 'demoMode', value }
+      );
+    } catch (error) {
+      console.error('Error toggling demo mode:', error);
+      Alert.alert('Error', 'Failed to update data source');
+      setDemoModeEnabled(await MetadataService.isDemoMode());
+    }
+  };
+
+  const handleProviderChange = async (providerId: MetadataProviderId) => {
+    try {
+      await MetadataService.setProvider(providerId);
+      setOnlineProviderId(providerId);
+      setDemoModeEnabled(false);
+      
+      await AnalyticsService.trackEvent(
+        EventType.CHANGE_SETTINGS, 
+        { setting: 'metadataProvider', value: providerId }
+      );
+    } catch (error) {
+      console.error('Error changing metadata provider:', error);
+      Alert.alert('Error', 'Failed to update data source');
+    }
+  };
+
+  const handleLocaleChange = async (picker: 'language' | 'region', value: string) => {
+    try {
+      if (picker === 'language') {
+        await UserPreferencesService.setLanguage(value);
+        setLanguage(value);
+      } else {
+        await UserPreferencesService.setRegion(value);
+        setRegion(value);
+      }
+      setLocalePicker(null);
+      
+      await AnalyticsService.trackEvent(
+        EventType.CHANGE_SETTINGS, 
+        { setting: picker, value }
+      );
+    } catch (error) {
+      console.error(`Error changing ${picker}:`, error);
+      Alert.alert('Error', `Failed to update ${picker}`);
+    }
+  };
+
+  const handleOriginalTitlesToggle = async (value: boolean) => {
+    try {
+      await UserPreferencesService.setShowOriginalTitles(value);
+      setShowOriginalTitles(value);
+      
+      await AnalyticsService.trackEvent(
+        EventType.CHANGE_SETTINGS, 
+        { setting: 'showOriginalTitles', value }
+      );
+    } catch (error) {
+      console.error('Error toggling original titles:', error);
+      Alert.alert('Error', 'Failed to update title settings');
+    }
+  };
+
+  const openServicesModal = async () => {
+    setProviderQuery('');
+    setIsServicesModalVisible(true);
+
+    try {
+      setIsLoadingProviders(true);
+      setRegionProviders(await WatchProviderService.getRegionProviders(region));
+    } catch (error) {
+      console.error('Error loading streaming services:', error);
+      Alert.alert('Error', 'Failed to load streaming services for your region');
+      setIsServicesModalVisible(false);
+    } finally {
+      setIsLoadingProviders(false);
+    }
+  };
+
+  const toggleSubscribedProvider = async (providerId: number) => {
+    const updated = subscribedProviders.includes(providerId)
+      ? subscribedProviders.filter(id => id !== providerId)
+      : [...subscribedProviders, providerId];
+
+    try {
+      await UserPreferencesService.setSubscribedProviders(updated);
+      setSubscribedProviders(updated);
+    } catch (error) {
+      console.error('Error updating streaming services:', error);
+      Alert.alert('Error', 'Failed to update your services');
+    }
+  };
+
+  const closeServicesModal = async () => {
+    setIsServicesModalVisible(false);
+
+    await AnalyticsService.trackEvent(
+      EventType.CHANGE_SETTINGS, 
+      { setting: 'subscribedProviders', count: subscribedProviders.length }
+    );
+  };
+
+  const exportWatchlist = async (type: BackupFileType) => {
+    const uri = await WatchlistBackupService.exportWatchlist(type);
+    if (!uri) {
+      Alert.alert('Error', 'Failed to export your watchlist');
+      return;
+    }
+
+    try {
+      // Android's share sheet takes text rather than file urls, so it gets the contents
+      await Share.share(
+        Platform.OS === 'android'
+          ? { title: 'Episode Alerts watchlist', message: await WatchlistBackupService.readBackup(uri) }
+          : { title: 'Episode Alerts watchlist', url: uri }
+      );
+
+      await AnalyticsService.trackEvent(EventType.EXPORT_WATCHLIST, { type });
+    } catch (error) {
+      console.error('Error sharing watchlist export:', error);
+      Alert.alert('Error', 'Your watchlist was saved but could not be shared');
+    }
+  };
+
   const resetPreferences = async () => {
     Alert.alert(
       'Reset Preferences',
@@ -236,6 +467,89 @@ export default function SettingsScreen() {
         },
       ],
     },
+    {
+      title: 'Data Source',
+      data: [
+        {
+          id: 'apiKey',
+          title: 'API Key',
+          description: hasCustomApiKey 
+            ? 'Using your own API read access token' 
+            : 'Using the API key from the app configuration',
+          type: 'button',
+          buttonLabel: 'Edit',
+          onPress: () => setIsApiKeyModalVisible(true),
+        },
+        {
+          id: 'metadataProvider',
+          title: 'Show Data Provider',
+          description: 'TVmaze adds exact air times; lists and search always come from TMDB',
+          type: 'select',
+          value: demoModeEnabled ? undefined : onlineProviderId,
+          options: [
+            { label: 'TMDB', value: 'tmdb' },
+            { label: 'TVmaze', value: 'tvmaze' },
+          ],
+          onValueChange: (value) => handleProviderChange(value as MetadataProviderId),
+        },
+        {
+          id: 'demoMode',
+          title: 'Demo Mode',
+          description: 'Browse bundled sample shows without a network connection or API key',
+          type: 'toggle',
+          value: demoModeEnabled,
+          onValueChange: (value) => handleDemoModeToggle(value as boolean),
+        },
+      ],
+    },
+    {
+      title: 'Language & Region',
+      data: [
+        {
+          id: 'language',
+          title: 'Language',
+          description: `Show titles and overviews in ${
+            LOCALE_CONFIG.LANGUAGES.find(option => option.code === language)?.name ?? language
+          } when available`,
+          type: 'button',
+          buttonLabel: 'Change',
+          onPress: () => setLocalePicker('language'),
+        },
+        {
+          id: 'region',
+          title: 'Region',
+          description: `${
+            LOCALE_CONFIG.REGIONS.find(option => option.code === region)?.name ?? region
+          }; used for what's airing and where to watch`,
+          type: 'button',
+          buttonLabel: 'Change',
+          onPress: () => setLocalePicker('region'),
+        },
+        {
+          id: 'showOriginalTitles',
+          title: 'Original Titles',
+          description: 'Show the original title next to the translated one',
+          type: 'toggle',
+          value: showOriginalTitles,
+          onValueChange: (value) => handleOriginalTitlesToggle(value as boolean),
+        },
+      ],
+    },
+    {
+      title: 'Streaming',
+      data: [
+        {
+          id: 'subscribedProviders',
+          title: 'My Services',
+          description: subscribedProviders.length > 0
+            ? `${subscribedProviders.length} selected; used by the watchlist's "On My Services" filter`
+            : 'Pick the streaming services you subscribe to',
+          type: 'button',
+          buttonLabel: 'Edit',
+          onPress: openServicesModal,
+        },
+      ],
+    },
     {
       title: 'Notifications',
       data: [
@@ -267,6 +581,59 @@ export default function SettingsScreen() {
           type: 'button',
           onPress: clearImageCache,
         },
+        {
+          id: 'responseCache',
+          title: 'Show Data Cache',
+          description: 'Saved show, season and list data used when offline',
+          type: 'button',
+          buttonLabel: 'Clear',
+          onPress: clearResponseCache,
+        },
+        {
+          id: 'hiddenRecommendations',
+          title: 'Hidden Recommendations',
+          description: 'Shows you dismissed from "More Like This"',
+          type: 'button',
+          buttonLabel: 'Restore',
+          onPress: restoreHiddenRecommendations,
+        },
+      ],
+    },
+    {
+      title: 'Your Data',
+      data: [
+        {
+          id: 'exportJson',
+          title: 'Export Backup',
+          description: 'Your watchlist, lists, statuses, tags, notes, watched episodes and ratings as a JSON file',
+          type: 'button',
+          buttonLabel: 'Export',
+          onPress: () => exportWatchlist('json'),
+        },
+        {
+          id: 'exportCsv',
+          title: 'Export CSV',
+          description: 'Title, TMDB id, date added and status for each show, for spreadsheets',
+          type: 'button',
+          buttonLabel: 'Export',
+          onPress: () => exportWatchlist('csv'),
+        },
+        {
+          id: 'import',
+          title: 'Import Watchlist',
+          description: 'Preview a JSON or CSV export, then merge it with or replace your watchlist',
+          type: 'button',
+          buttonLabel: 'Import',
+          onPress: () => setIsImportModalVisible(true),
+        },
+        {
+          id: 'importExternal',
+          title: 'Import From Another App',
+          description: 'Bring in shows and watch history from Trakt, TV Time or an IMDb list',
+          type: 'button',
+          buttonLabel: 'Start',
+          onPress: () => router.push('/import-shows'),
+        },
       ],
     },
     {
@@ -332,7 +699,7 @@ export default function SettingsScreen() {
               { color: theme.colors.text },
               item.id === 'cacheSize' && !imageCacheEnabled && styles.buttonTextDisabled
             ]}>
-              {item.id === 'cacheSize' ? 'Clear' : 'Select'}
+              {item.buttonLabel || (item.id === 'cacheSize' ? 'Clear' : 'Select')}
             </Text>
           </TouchableOpacity>
         )}
@@ -404,6 +771,166 @@ export default function SettingsScreen() {
           refreshing={refreshing}
         />
       </View>
+      
+      <Modal
+        visible={isApiKeyModalVisible}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setIsApiKeyModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.colors.card }]}>
+            <Text style={[styles.modalTitle, { color: theme.colors.text }]}>TMDB API Key</Text>
+            <Text style={[styles.settingDescription, { color: theme.colors.textSecondary }]}>
+              Paste the API read access token from your TMDB account settings.
+            </Text>
+            <TextInput
+              style={[
+                styles.modalInput, 
+                { color: theme.colors.text, backgroundColor: theme.colors.secondary }
+              ]}
+              value={apiKeyInput}
+              onChangeText={setApiKeyInput}
+              placeholder="API read access token"
+              placeholderTextColor={theme.colors.textDisabled}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+            <View style={styles.modalActions}>
+              {hasCustomApiKey && (
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.colors.secondary }]}
+                  onPress={() => saveApiKey('')}
+                >
+                  <Text style={[styles.buttonText, { color: theme.colors.text }]}>Use Default</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.button, styles.modalButton, { backgroundColor: theme.colors.secondary }]}
+                onPress={() => setIsApiKeyModalVisible(false)}
+              >
+                <Text style={[styles.buttonText, { color: theme.colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.modalButton, { backgroundColor: theme.colors.primary }]}
+                onPress={() => saveApiKey(apiKeyInput)}
+                disabled={!apiKeyInput.trim()}
+              >
+                <Text style={[styles.buttonText, { color: '#ffffff' }]}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={localePicker !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setLocalePicker(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, styles.listModalContent, { backgroundColor: theme.colors.card }]}>
+            <Text style={[styles.modalTitle, { color: theme.colors.text }]}>
+              {localePicker === 'language' ? 'Language' : 'Region'}
+            </Text>
+            <FlatList
+              data={localePicker === 'language' ? LOCALE_CONFIG.LANGUAGES : LOCALE_CONFIG.REGIONS}
+              keyExtractor={(item) => item.code}
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={styles.listOption}
+                  onPress={() => localePicker && handleLocaleChange(localePicker, item.code)}
+                >
+                  <Text style={[styles.listOptionText, { color: theme.colors.text }]}>{item.name}</Text>
+                  {item.code === (localePicker === 'language' ? language : region) && (
+                    <Ionicons name="checkmark" size={20} color={theme.colors.primary} />
+                  )}
+                </TouchableOpacity>
+              )}
+            />
+            <View style={[styles.modalActions, styles.listModalActions]}>
+              <TouchableOpacity
+                style={[styles.button, styles.modalButton, { backgroundColor: theme.colors.secondary }]}
+                onPress={() => setLocalePicker(null)}
+              >
+                <Text style={[styles.buttonText, { color: theme.colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={isServicesModalVisible}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={closeServicesModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, styles.listModalContent, { backgroundColor: theme.colors.card }]}>
+            <Text style={[styles.modalTitle, { color: theme.colors.text }]}>My Services</Text>
+            <TextInput
+              style={[
+                styles.modalInput, 
+                styles.listModalInput,
+                { color: theme.colors.text, backgroundColor: theme.colors.secondary }
+              ]}
+              value={providerQuery}
+              onChangeText={setProviderQuery}
+              placeholder="Search services"
+              placeholderTextColor={theme.colors.textDisabled}
+              autoCorrect={false}
+            />
+            {isLoadingProviders ? (
+              <ActivityIndicator size="large" color={theme.colors.primary} style={styles.listModalLoading} />
+            ) : (
+              <FlatList
+                data={regionProviders.filter(provider =>
+                  provider.provider_name.toLowerCase().includes(providerQuery.trim().toLowerCase())
+                )}
+                keyExtractor={(item) => item.provider_id.toString()}
+                keyboardShouldPersistTaps="handled"
+                renderItem={({ item }) => (
+                  <TouchableOpacity style={styles.listOption} onPress={() => toggleSubscribedProvider(item.provider_id)}>
+                    {item.logo_path ? (
+                      <CachedImage
+                        uri={MetadataService.getImageUrl(item.logo_path, WATCH_PROVIDER_CONFIG.LOGO_SIZE)}
+                        style={styles.providerLogo}
+                        resizeMode="cover"
+                      />
+                    ) : (
+                      <View style={[styles.providerLogo, { backgroundColor: theme.colors.secondary }]} />
+                    )}
+                    <Text style={[styles.listOptionText, { color: theme.colors.text }]}>{item.provider_name}</Text>
+                    <Ionicons
+                      name={subscribedProviders.includes(item.provider_id) ? 'checkbox' : 'square-outline'}
+                      size={22}
+                      color={subscribedProviders.includes(item.provider_id) ? theme.colors.primary : theme.colors.textSecondary}
+                    />
+                  </TouchableOpacity>
+                )}
+                ListEmptyComponent={
+                  <Text style={[styles.settingDescription, { color: theme.colors.textSecondary }]}>
+                    No streaming services found
+                  </Text>
+                }
+              />
+            )}
+            <View style={[styles.modalActions, styles.listModalActions]}>
+              <TouchableOpacity
+                style={[styles.button, styles.modalButton, { backgroundColor: theme.colors.primary }]}
+                onPress={closeServicesModal}
+              >
+                <Text style={[styles.buttonText, { color: '#ffffff' }]}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <ImportWatchlistModal visible={isImportModalVisible} onClose={() => setIsImportModalVisible(false)} />
     </>
   );
 }
@@ -475,4 +1002,61 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: 'bold',
   },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+  },
+  modalContent: {
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  modalInput: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    marginTop: 16,
+    marginBottom: 16,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  modalButton: {
+    marginLeft: 8,
+  },
+  listModalContent: {
+    maxHeight: '80%',
+  },
+  listModalInput: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  listModalLoading: {
+    marginVertical: 24,
+  },
+  listModalActions: {
+    marginTop: 12,
+  },
+  listOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  listOptionText: {
+    flex: 1,
+    fontSize: 16,
+  },
+  providerLogo: {
+    width: 32,
+    height: 32,
+    borderRadius: 6,
+    marginRight: 12,
+  },
 }); 
\ No newline at end of file
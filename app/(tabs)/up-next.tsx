@@ -0,0 +1,376 @@
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Link, useFocusEffect, Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import MetadataService from '@/app/services/MetadataService';
+import WatchlistService from '@/app/services/WatchlistService';
+import WatchProgressService from '@/app/services/WatchProgressService';
+import WatchlistRefreshService from '@/app/services/WatchlistRefreshService';
+import UpNextService, { UpNextItem, UpNextSort, sortUpNext } from '@/app/services/UpNextService';
+import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
+import { isAbortError } from '@/app/services/TMDBError';
+import { useTheme } from '@/app/context/ThemeContext';
+import CachedImage from '@/components/CachedImage';
+
+const SORT_LABELS: Record<UpNextSort, string> = {
+  recently_watched: 'Recently Watched',
+  oldest_backlog: 'Oldest Backlog',
+};
+
+export default function UpNextScreen() {
+  const { theme } = useTheme();
+  const [items, setItems] = useState<UpNextItem[]>([]);
+  const [watchlistCount, setWatchlistCount] = useState(0);
+  const [sort, setSort] = useState<UpNextSort>('recently_watched');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  // Shows whose episode is being marked, so a double tap doesn't skip two episodes
+  const [markingIds, setMarkingIds] = useState<number[]>([]);
+  // Cancels in-flight requests when the screen unmounts
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    AnalyticsService.trackScreenView('up-next');
+  }, []);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const watchlist = await WatchlistService.getWatchlist();
+      setWatchlistCount(watchlist.length);
+      setItems(await UpNextService.getQueue(watchlist, { signal: abortControllerRef.current?.signal }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading up next:', err);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadQueue();
+    }, [loadQueue])
+  );
+
+  // Refreshed snapshots can add seasons or change whether the next episode has aired
+  useEffect(() => {
+    return WatchlistRefreshService.subscribe(() => loadQueue());
+  }, [loadQueue]);
+
+  // Only the show that changed is looked up again, whichever screen marked it
+  useEffect(() => {
+    return WatchProgressService.subscribe(async (showId) => {
+      const current = items.find(item => item.show.id === showId);
+      if (!current) return;
+
+      try {
+        const next = await UpNextService.getUpNext(current.show, { signal: abortControllerRef.current?.signal });
+        setItems(prev => next
+          ? prev.map(item => (item.show.id === showId ? next : item))
+          : prev.filter(item => item.show.id !== showId));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Error loading next episode:', err);
+      }
+    });
+  }, [items]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadQueue();
+  };
+
+  const handleMarkWatched = async (item: UpNextItem) => {
+    const { show, episode } = item;
+    setMarkingIds(prev => [...prev, show.id]);
+
+    const success = await WatchProgressService.markEpisode(show.id, episode.season_number, episode.episode_number);
+    setMarkingIds(prev => prev.filter(id => id !== show.id));
+
+    if (!success) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not update watched episodes',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    AnalyticsService.trackEvent(EventType.MARK_WATCHED, {
+      showId: show.id,
+      seasonNumber: episode.season_number,
+      episodeNumber: episode.episode_number,
+      scope: 'episode',
+      source: 'up_next',
+      watched: true,
+    });
+  };
+
+  const renderItem = ({ item }: { item: UpNextItem }) => {
+    const { show, episode } = item;
+    const isMarking = markingIds.includes(show.id);
+
+    return (
+      <Link
+        href={{
+          pathname: '/episode-details',
+          params: {
+            id: show.id.toString(),
+            season: episode.season_number.toString(),
+            episode: episode.episode_number.toString(),
+          },
+        }}
+        asChild
+      >
+        <TouchableOpacity style={[styles.item, { backgroundColor: theme.colors.card }]}>
+          <CachedImage
+            uri={MetadataService.getImageUrl(episode.still_path || show.backdrop_path, 'w300')}
+            style={styles.still}
+            resizeMode="cover"
+          />
+
+          <View style={styles.itemInfo}>
+            <Text style={[styles.showName, { color: theme.colors.text }]} numberOfLines={1}>
+              {show.name}
+            </Text>
+            <Text style={[styles.episodeCode, { color: theme.colors.primary }]}>
+              S{episode.season_number}E{episode.episode_number}
+            </Text>
+            <Text style={[styles.episodeName, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+              {episode.name || 'Untitled Episode'}
+            </Text>
+            <Text style={[styles.airDate, { color: theme.colors.textSecondary }]}>
+              Aired {episode.air_date}
+            </Text>
+          </View>
+
+          <TouchableOpacity
+            style={styles.watchedButton}
+            onPress={() => handleMarkWatched(item)}
+            disabled={isMarking}
+          >
+            {isMarking ? (
+              <ActivityIndicator size="small" color={theme.colors.primary} />
+            ) : (
+              <Ionicons name="checkmark-circle-outline" size={32} color={theme.colors.primary} />
+            )}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Link>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <Stack.Screen
+        options={{
+          headerShown: false,
+        }}
+      />
+
+      <FlatList
+        data={sortUpNext(items, sort)}
+        keyExtractor={(item) => `up-next-${item.show.id}`}
+        renderItem={renderItem}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={[theme.colors.primary]}
+            tintColor={theme.colors.primary}
+          />
+        }
+        ListHeaderComponent={
+          <View>
+            <View style={styles.header}>
+              <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Up Next</Text>
+              <Text style={[styles.episodeCount, { color: theme.colors.textSecondary }]}>
+                {items.length} {items.length === 1 ? 'episode' : 'episodes'} to watch
+              </Text>
+            </View>
+
+            {items.length > 1 && (
+              <View style={styles.sortOptions}>
+                {(Object.keys(SORT_LABELS) as UpNextSort[]).map(option => {
+                  const isSelected = option === sort;
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      style={[
+                        styles.sortOption,
+                        { backgroundColor: isSelected ? theme.colors.primary : theme.colors.secondary },
+                      ]}
+                      onPress={() => setSort(option)}
+                    >
+                      <Text style={[styles.sortOptionText, { color: isSelected ? '#FFFFFF' : theme.colors.text }]}>
+                        {SORT_LABELS[option]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons
+              name={watchlistCount > 0 ? 'checkmark-done-circle-outline' : 'tv-outline'}
+              size={64}
+              color={theme.colors.textSecondary}
+            />
+            <Text style={[styles.emptyStateText, { color: theme.colors.text }]}>
+              {watchlistCount > 0 ? "You're all caught up" : 'Nothing to watch yet'}
+            </Text>
+            <Text style={[styles.emptyStateSubtext, { color: theme.colors.textSecondary }]}>
+              {watchlistCount > 0
+                ? 'New episodes of the shows you follow will show up here once they air'
+                : 'Add shows to your watchlist to build your queue'}
+            </Text>
+            {watchlistCount === 0 && (
+              <Link href="/search" asChild>
+                <TouchableOpacity style={[styles.emptyStateButton, { backgroundColor: theme.colors.primary }]}>
+                  <Text style={styles.emptyStateButtonText}>Discover Shows</Text>
+                </TouchableOpacity>
+              </Link>
+            )}
+          </View>
+        }
+      />
+
+      <Toast />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  header: {
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  episodeCount: {
+    fontSize: 16,
+  },
+  sortOptions: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  sortOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+  },
+  sortOptionText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  still: {
+    width: 120,
+    height: 80,
+  },
+  itemInfo: {
+    flex: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  showName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  episodeCode: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+  episodeName: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  airDate: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  watchedButton: {
+    paddingHorizontal: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    minWidth: 56,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+  },
+  emptyStateText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateSubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  emptyStateButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 24,
+  },
+  emptyStateButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
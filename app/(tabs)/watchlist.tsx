@@ -11,10 +11,25 @@ import {
   Modal,
   ScrollView,
   Dimensions,
+  RefreshControl,
 } from 'react-native';
 import { Link, useFocusEffect, Stack } from 'expo-router';
 import { TVShow, Genre } from '@/app/services/TMDBService';
-import WatchlistService from '@/app/services/WatchlistService';
+import MetadataService from '@/app/services/MetadataService';
+import WatchlistService, {
+  CustomList,
+  WatchStatus,
+  WATCH_STATUSES,
+  WATCH_STATUS_LABELS,
+  collectTags,
+  countByStatus,
+  isSameTag,
+  shouldSuggestCompleted,
+} from '@/app/services/WatchlistService';
+import WatchProviderService from '@/app/services/WatchProviderService';
+import WatchProgressService, { ShowProgress, formatProgress } from '@/app/services/WatchProgressService';
+import WatchlistRefreshService, { describeChange, describeRefresh } from '@/app/services/WatchlistRefreshService';
+import UserPreferencesService from '@/app/services/UserPreferencesService';
 import { TMDB_CONFIG } from '@/constants/Config';
 import { useTheme } from '@/app/context/ThemeContext';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
@@ -25,6 +40,9 @@ import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
 import Animated, { FadeIn, SlideInRight, SlideOutRight, FadeInDown } from 'react-native-reanimated';
 import EpisodeCountdown from '@/app/components/EpisodeCountdown';
 import CachedImage from '@/components/CachedImage';
+import ListPickerModal from '@/app/components/ListPickerModal';
+import ManageListsModal from '@/app/components/ManageListsModal';
+import ManageTagsModal from '@/app/components/ManageTagsModal';
 
 const { width } = Dimensions.get('window');
 const CARD_WIDTH = (width - 48) / 2;
@@ -39,23 +57,47 @@ interface SortConfig {
 
 interface FilterOptions {
   genres: number[];
+  tags: string[];
   status: string[];
+  onMyServices: boolean;
 }
 
+const DEFAULT_FILTERS: FilterOptions = { genres: [], tags: [], status: [], onMyServices: false };
+
 export default function WatchlistScreen() {
   const { theme } = useTheme();
   const [watchlist, setWatchlist] = useState<TVShow[]>([]);
   const [filteredWatchlist, setFilteredWatchlist] = useState<TVShow[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sortConfig, setSortConfig] = useState<SortConfig>({ by: 'name', ascending: true });
-  const [filterOptions, setFilterOptions] = useState<FilterOptions>({ genres: [], status: [] });
+  const [filterOptions, setFilterOptions] = useState<FilterOptions>(DEFAULT_FILTERS);
   const [availableGenres, setAvailableGenres] = useState<Genre[]>([]);
   const [availableStatuses, setAvailableStatuses] = useState<string[]>([]);
   const [isFilterModalVisible, setIsFilterModalVisible] = useState(false);
   const [isSortModalVisible, setIsSortModalVisible] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [upcomingShows, setUpcomingShows] = useState<TVShow[]>([]);
+  // Ids of shows streamable on the user's services; null until checked
+  const [availableOnMyServices, setAvailableOnMyServices] = useState<Set<number> | null>(null);
+  const [isCheckingServices, setIsCheckingServices] = useState(false);
+  const [progressByShow, setProgressByShow] = useState<Record<number, ShowProgress>>({});
+  const [addedAtByShow, setAddedAtByShow] = useState<Record<number, string>>({});
+  const [lists, setLists] = useState<CustomList[]>([]);
+  const [listIdsByShow, setListIdsByShow] = useState<Record<number, string[]>>({});
+  // null shows the whole watchlist
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [isManageListsVisible, setIsManageListsVisible] = useState(false);
+  const [listPickerShow, setListPickerShow] = useState<TVShow | null>(null);
+  const [statusByShow, setStatusByShow] = useState<Record<number, WatchStatus>>({});
+  // null shows every status
+  const [selectedStatus, setSelectedStatus] = useState<WatchStatus | null>(null);
+  // The show whose long-press menu is open
+  const [statusMenuShow, setStatusMenuShow] = useState<TVShow | null>(null);
+  const [tagsByShow, setTagsByShow] = useState<Record<number, string[]>>({});
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [isManageTagsVisible, setIsManageTagsVisible] = useState(false);
 
   useFocusEffect(
     useCallback(() => {
@@ -67,9 +109,27 @@ export default function WatchlistScreen() {
     AnalyticsService.trackScreenView('watchlist');
   }, []);
 
+  // Background refreshes save newer snapshots, so reload and say what changed
+  useEffect(() => {
+    return WatchlistRefreshService.subscribe(({ changes }) => {
+      loadWatchlist(false);
+
+      if (changes.length > 0) {
+        Toast.show({
+          type: 'info',
+          text1: changes.length === 1 ? 'Show Updated' : `${changes.length} Show Updates`,
+          text2: changes.length === 1
+            ? describeChange(changes[0])
+            : changes.slice(0, 2).map(describeChange).join('\n'),
+          position: 'bottom',
+        });
+      }
+    });
+  }, []);
+
   useEffect(() => {
     applyFiltersAndSort();
-  }, [watchlist, filterOptions, sortConfig]);
+  }, [watchlist, filterOptions, sortConfig, availableOnMyServices, addedAtByShow, selectedListId, listIdsByShow, selectedStatus, statusByShow, tagsByShow]);
 
   useEffect(() => {
     if (watchlist.length > 0) {
@@ -97,12 +157,50 @@ export default function WatchlistScreen() {
     setUpcomingShows(shows);
   }, [watchlist]);
 
-  const loadWatchlist = async () => {
+  useEffect(() => {
+    if (!filterOptions.onMyServices) return;
+
+    let isCancelled = false;
+    const { region, subscribedProviders } = UserPreferencesService.getPreferences();
+
+    setIsCheckingServices(true);
+    WatchProviderService.getAvailableShowIds(watchlist.map(show => show.id), region, subscribedProviders)
+      .then(ids => {
+        if (!isCancelled) setAvailableOnMyServices(ids);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsCheckingServices(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [watchlist, filterOptions.onMyServices]);
+
+  const loadWatchlist = async (showLoading = true) => {
     try {
-      setIsLoading(true);
+      if (showLoading) {
+        setIsLoading(true);
+      }
       setError(null);
-      const shows = await WatchlistService.getWatchlist();
+      const [entries, savedLists] = await Promise.all([WatchlistService.getEntries(), WatchlistService.getLists()]);
+      const shows = entries.map(entry => entry.show);
+      setAddedAtByShow(Object.fromEntries(entries.map(entry => [entry.show.id, entry.addedAt])));
+      setListIdsByShow(Object.fromEntries(entries.map(entry => [entry.show.id, entry.listIds])));
+      setStatusByShow(Object.fromEntries(entries.map(entry => [entry.show.id, entry.user.status])));
+      setTagsByShow(Object.fromEntries(entries.map(entry => [entry.show.id, entry.user.tags])));
+      const tags = collectTags(entries).map(item => item.tag);
+      setAvailableTags(tags);
+      // Tags can be renamed or merged away while selected
+      setFilterOptions(prev => ({
+        ...prev,
+        tags: prev.tags.filter(selected => tags.some(tag => isSameTag(tag, selected))),
+      }));
+      setLists(savedLists);
+      // Fall back to the whole watchlist if the selected list was deleted
+      setSelectedListId(prev => (prev && savedLists.some(list => list.id === prev) ? prev : null));
       setWatchlist(shows);
+      setProgressByShow(await WatchProgressService.getProgressForShows(shows));
     } catch (err) {
       console.error('Error loading watchlist:', err);
       setError('Failed to load your watchlist. Please try again.');
@@ -111,6 +209,25 @@ export default function WatchlistScreen() {
     }
   };
 
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      // Pulling to refresh checks every show, not just the stale ones
+      const result = await WatchlistRefreshService.refresh({ force: true });
+      // Changes get their own toast from the refresh listener, but failures still need reporting
+      if (result.changes.length === 0 || result.failed > 0) {
+        Toast.show({
+          type: result.failed > 0 ? 'error' : 'success',
+          text1: result.failed > 0 ? 'Sync Incomplete' : 'Watchlist Synced',
+          text2: describeRefresh(result),
+          position: 'bottom',
+        });
+      }
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
   const removeFromWatchlist = async (id: number) => {
     try {
       const show = watchlist.find(s => s.id === id);
@@ -195,8 +312,45 @@ export default function WatchlistScreen() {
     );
   };
 
+  const handleSetStatus = async (show: TVShow, status: WatchStatus) => {
+    setStatusMenuShow(null);
+    if (statusByShow[show.id] === status) return;
+
+    const success = await WatchlistService.setStatus(show.id, status);
+    if (!success) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not update the show status',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    setStatusByShow(prev => ({ ...prev, [show.id]: status }));
+    Toast.show({
+      type: 'success',
+      text1: WATCH_STATUS_LABELS[status],
+      text2: `${show.name} moved to ${WATCH_STATUS_LABELS[status]}`,
+      position: 'bottom',
+    });
+    AnalyticsService.trackEvent(EventType.CHANGE_WATCH_STATUS, {
+      showId: show.id,
+      from: statusByShow[show.id],
+      to: status,
+    });
+  };
+
   const applyFiltersAndSort = useCallback(() => {
     let filtered = [...watchlist];
+
+    if (selectedListId) {
+      filtered = filtered.filter(show => listIdsByShow[show.id]?.includes(selectedListId));
+    }
+
+    if (selectedStatus) {
+      filtered = filtered.filter(show => statusByShow[show.id] === selectedStatus);
+    }
     
     if (filterOptions.genres.length > 0) {
       filtered = filtered.filter(show => 
@@ -204,11 +358,21 @@ export default function WatchlistScreen() {
       );
     }
     
+    if (filterOptions.tags.length > 0) {
+      filtered = filtered.filter(show =>
+        tagsByShow[show.id]?.some(tag => filterOptions.tags.some(selected => isSameTag(selected, tag)))
+      );
+    }
+
     if (filterOptions.status.length > 0) {
       filtered = filtered.filter(show => 
         filterOptions.status.includes(show.status)
       );
     }
+
+    if (filterOptions.onMyServices && availableOnMyServices) {
+      filtered = filtered.filter(show => availableOnMyServices.has(show.id));
+    }
     
     filtered.sort((a, b) => {
       let comparison = 0;
@@ -219,7 +383,7 @@ export default function WatchlistScreen() {
           break;
           
         case 'date_added':
-          comparison = b.id - a.id;
+          comparison = (addedAtByShow[a.id] || '').localeCompare(addedAtByShow[b.id] || '');
           break;
           
         case 'next_episode':
@@ -241,7 +405,7 @@ export default function WatchlistScreen() {
     });
     
     setFilteredWatchlist(filtered);
-  }, [watchlist, filterOptions, sortConfig]);
+  }, [watchlist, filterOptions, sortConfig, availableOnMyServices, addedAtByShow, selectedListId, listIdsByShow, selectedStatus, statusByShow, tagsByShow]);
 
   const toggleGenreFilter = (genreId: number) => {
     setFilterOptions(prev => {
@@ -254,6 +418,13 @@ export default function WatchlistScreen() {
     });
   };
 
+  const toggleTagFilter = (tag: string) => {
+    setFilterOptions(prev => ({
+      ...prev,
+      tags: prev.tags.includes(tag) ? prev.tags.filter(t => t !== tag) : [...prev.tags, tag],
+    }));
+  };
+
   const toggleStatusFilter = (status: string) => {
     setFilterOptions(prev => {
       const isSelected = prev.status.includes(status);
@@ -265,10 +436,32 @@ export default function WatchlistScreen() {
     });
   };
 
+  const toggleMyServicesFilter = () => {
+    if (!filterOptions.onMyServices && UserPreferencesService.getPreferences().subscribedProviders.length === 0) {
+      Toast.show({
+        type: 'info',
+        text1: 'No Services Selected',
+        text2: 'Pick the streaming services you subscribe to in Settings',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    setFilterOptions(prev => ({ ...prev, onMyServices: !prev.onMyServices }));
+  };
+
   const clearFilters = () => {
-    setFilterOptions({ genres: [], status: [] });
+    setFilterOptions(DEFAULT_FILTERS);
   };
 
+  const activeFilterCount =
+    filterOptions.genres.length +
+    filterOptions.tags.length +
+    filterOptions.status.length +
+    (filterOptions.onMyServices ? 1 : 0);
+
+  const statusCounts = countByStatus(watchlist.map(show => statusByShow[show.id] ?? 'watching'));
+
   const handleSort = (by: SortOption) => {
     setSortConfig(prev => ({
       by,
@@ -300,7 +493,7 @@ export default function WatchlistScreen() {
       >
         <View style={styles.upcomingItemContent}>
           <CachedImage
-            uri={`https://image.tmdb.org/t/p/w185${item.poster_path}`}
+            uri={MetadataService.getImageUrl(item.poster_path, 'w185')}
             style={styles.upcomingImage}
             resizeMode="cover"
           />
@@ -324,6 +517,9 @@ export default function WatchlistScreen() {
 
   const renderWatchlistItem = ({ item, index }: { item: TVShow, index: number }) => {
     const hasNextEpisode = !!item.next_episode_to_air;
+    const progress = progressByShow[item.id];
+    const progressLabel = progress ? formatProgress(progress) : '';
+    const status = statusByShow[item.id] ?? 'watching';
     
     return (
       <Animated.View 
@@ -332,14 +528,14 @@ export default function WatchlistScreen() {
       >
         <TouchableOpacity
           activeOpacity={0.8}
-          onLongPress={() => removeFromWatchlist(item.id)}
+          onLongPress={() => setStatusMenuShow(item)}
           style={[styles.card, { backgroundColor: theme.colors.card }]}
         >
           <Link href={{ pathname: '/show-details', params: { id: item.id.toString() } }} asChild>
             <TouchableOpacity activeOpacity={0.9} style={styles.cardContent}>
               <View style={styles.cardImageContainer}>
                 <CachedImage
-                  uri={`https://image.tmdb.org/t/p/w342${item.poster_path}`}
+                  uri={MetadataService.getImageUrl(item.poster_path, 'w342')}
                   style={styles.cardImage}
                   resizeMode="cover"
                 />
@@ -351,10 +547,36 @@ export default function WatchlistScreen() {
                   </Text>
                 </View>
                 
-                <View style={styles.bookmarkIcon}>
+                <TouchableOpacity style={styles.bookmarkIcon} onPress={() => setListPickerShow(item)}>
                   <Ionicons name="bookmark" size={20} color={theme.colors.primary} />
-                </View>
+                </TouchableOpacity>
+
+                {progressLabel ? (
+                  <View style={styles.progressOverlay}>
+                    <Text style={styles.progressText}>{progressLabel}</Text>
+                    {progress.totalCount > 0 && (
+                      <View style={styles.progressTrack}>
+                        <View
+                          style={[
+                            styles.progressFill,
+                            { width: `${progress.percentComplete}%`, backgroundColor: theme.colors.primary },
+                          ]}
+                        />
+                      </View>
+                    )}
+                  </View>
+                ) : null}
               </View>
+
+              {shouldSuggestCompleted(item, status, progress) && (
+                <TouchableOpacity
+                  style={[styles.suggestionButton, { backgroundColor: theme.colors.primary }]}
+                  onPress={() => handleSetStatus(item, 'completed')}
+                >
+                  <Ionicons name="checkmark-done" size={14} color="#FFFFFF" />
+                  <Text style={styles.suggestionText}>All caught up · Mark completed</Text>
+                </TouchableOpacity>
+              )}
               
               {hasNextEpisode && item.next_episode_to_air && (
                 <View style={styles.episodeInfo}>
@@ -444,6 +666,39 @@ export default function WatchlistScreen() {
           </View>
           
           <ScrollView style={styles.modalScrollContent}>
+            <View style={styles.filterSection}>
+              <Text style={[styles.filterTitle, { color: theme.colors.text }]}>Availability</Text>
+              <View style={styles.filterOptionsContainer}>
+                <TouchableOpacity
+                  style={[
+                    styles.filterChip,
+                    styles.filterChipWithIcon,
+                    {
+                      backgroundColor: filterOptions.onMyServices
+                        ? theme.colors.primary
+                        : theme.colors.secondary
+                    }
+                  ]}
+                  onPress={toggleMyServicesFilter}
+                >
+                  <Ionicons
+                    name="play-circle-outline"
+                    size={16}
+                    color={filterOptions.onMyServices ? '#FFF' : theme.colors.text}
+                  />
+                  <Text
+                    style={[
+                      styles.filterChipText,
+                      styles.filterChipIconText,
+                      { color: filterOptions.onMyServices ? '#FFF' : theme.colors.text }
+                    ]}
+                  >
+                    On My Services
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
             {availableGenres.length > 0 && (
               <View style={styles.filterSection}>
                 <Text style={[styles.filterTitle, { color: theme.colors.text }]}>Genres</Text>
@@ -479,9 +734,44 @@ export default function WatchlistScreen() {
               </View>
             )}
             
+            {availableTags.length > 0 && (
+              <View style={styles.filterSection}>
+                <View style={styles.filterTitleRow}>
+                  <Text style={[styles.filterTitle, { color: theme.colors.text }]}>My Tags</Text>
+                  <TouchableOpacity
+                    onPress={() => {
+                      setIsFilterModalVisible(false);
+                      setIsManageTagsVisible(true);
+                    }}
+                  >
+                    <Text style={[styles.filterTitleAction, { color: theme.colors.primary }]}>Rename or Merge</Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.filterOptionsContainer}>
+                  {availableTags.map(tag => {
+                    const isSelected = filterOptions.tags.includes(tag);
+                    return (
+                      <TouchableOpacity
+                        key={tag}
+                        style={[
+                          styles.filterChip,
+                          { backgroundColor: isSelected ? theme.colors.primary : theme.colors.secondary }
+                        ]}
+                        onPress={() => toggleTagFilter(tag)}
+                      >
+                        <Text style={[styles.filterChipText, { color: isSelected ? '#FFF' : theme.colors.text }]}>
+                          {tag}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
             {availableStatuses.length > 0 && (
               <View style={styles.filterSection}>
-                <Text style={[styles.filterTitle, { color: theme.colors.text }]}>Status</Text>
+                <Text style={[styles.filterTitle, { color: theme.colors.text }]}>Show Status</Text>
                 <View style={styles.filterOptionsContainer}>
                   {availableStatuses.map(status => (
                     <TouchableOpacity
@@ -534,6 +824,91 @@ export default function WatchlistScreen() {
     </Modal>
   );
 
+  // Filters are checked first since clearing them is what brings shows back
+  const renderFilteredEmptyState = () => {
+    let title = 'No shows match your filters';
+    let subtitle = filterOptions.onMyServices
+      ? 'None of your shows are streaming on your services right now'
+      : 'Try removing a filter to see more shows';
+    let action = { label: 'Clear Filters', onPress: clearFilters };
+
+    if (activeFilterCount === 0 && selectedStatus) {
+      title = `No shows in ${WATCH_STATUS_LABELS[selectedStatus]}`;
+      subtitle = 'Long-press a show to change its status';
+      action = { label: 'Show All', onPress: () => setSelectedStatus(null) };
+    } else if (activeFilterCount === 0 && selectedListId) {
+      title = 'This list is empty';
+      subtitle = 'Tap the bookmark on a show to add it to this list';
+      action = { label: 'Show All', onPress: () => setSelectedListId(null) };
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="filter-outline" size={48} color={theme.colors.textSecondary} />
+        <Text style={[styles.emptyStateText, { color: theme.colors.text }]}>{title}</Text>
+        <Text style={[styles.emptyStateSubtext, { color: theme.colors.textSecondary }]}>{subtitle}</Text>
+        <TouchableOpacity
+          style={[styles.emptyStateButton, { backgroundColor: theme.colors.primary }]}
+          onPress={action.onPress}
+        >
+          <Text style={styles.emptyStateButtonText}>{action.label}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderStatusMenu = () => (
+    <Modal
+      visible={!!statusMenuShow}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={() => setStatusMenuShow(null)}
+    >
+      <View style={[styles.modalOverlay, { backgroundColor: 'rgba(0,0,0,0.7)' }]}>
+        <View style={[styles.modalContent, styles.sortModalContent, { backgroundColor: theme.colors.card }]}>
+          <View style={styles.modalHeader}>
+            <Text style={[styles.modalTitle, { color: theme.colors.text }]} numberOfLines={1}>
+              {statusMenuShow?.name}
+            </Text>
+            <TouchableOpacity onPress={() => setStatusMenuShow(null)}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.sortOptions}>
+            {WATCH_STATUSES.map(status => (
+              <TouchableOpacity
+                key={status}
+                style={styles.sortOption}
+                onPress={() => statusMenuShow && handleSetStatus(statusMenuShow, status)}
+              >
+                <Text style={[styles.sortOptionText, { color: theme.colors.text }]}>
+                  {WATCH_STATUS_LABELS[status]}
+                </Text>
+                {statusMenuShow && statusByShow[statusMenuShow.id] === status && (
+                  <Ionicons name="checkmark" size={18} color={theme.colors.primary} />
+                )}
+              </TouchableOpacity>
+            ))}
+
+            <TouchableOpacity
+              style={styles.sortOption}
+              onPress={() => {
+                if (!statusMenuShow) return;
+                const showId = statusMenuShow.id;
+                setStatusMenuShow(null);
+                removeFromWatchlist(showId);
+              }}
+            >
+              <Text style={[styles.sortOptionText, { color: theme.colors.error }]}>Remove from Watchlist</Text>
+              <Ionicons name="trash-outline" size={18} color={theme.colors.error} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
   const renderSortModal = () => (
     <Modal
       visible={isSortModalVisible}
@@ -628,7 +1003,17 @@ export default function WatchlistScreen() {
         }}
       />
       
-      <ScrollView showsVerticalScrollIndicator={false}>
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={[theme.colors.primary]}
+            tintColor={theme.colors.primary}
+          />
+        }
+      >
         <View style={styles.header}>
           <View style={styles.headerLeft}>
             <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
@@ -636,9 +1021,16 @@ export default function WatchlistScreen() {
             </Text>
             <Text style={[styles.showCount, { color: theme.colors.textSecondary }]}>
               {watchlist.length} {watchlist.length === 1 ? 'show' : 'shows'}
+              {statusCounts.watching > 0 ? ` · ${statusCounts.watching} watching` : ''}
+              {statusCounts.completed > 0 ? ` · ${statusCounts.completed} completed` : ''}
             </Text>
           </View>
           
+          <Link href="/my-ratings" asChild>
+            <TouchableOpacity style={[styles.ratingsButton, { backgroundColor: theme.colors.card }]}>
+              <Ionicons name="star-outline" size={20} color={theme.colors.text} />
+            </TouchableOpacity>
+          </Link>
           <TouchableOpacity 
             style={[styles.addButton, { backgroundColor: theme.colors.card }]}
             onPress={() => {
@@ -655,6 +1047,48 @@ export default function WatchlistScreen() {
           </TouchableOpacity>
         </View>
         
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.listSwitcher}
+        >
+          {[null, ...lists].map(list => {
+            const listId = list?.id ?? null;
+            const isSelected = listId === selectedListId;
+            return (
+              <TouchableOpacity
+                key={listId ?? 'all'}
+                style={[
+                  styles.listChip,
+                  { backgroundColor: isSelected ? theme.colors.primary : theme.colors.card },
+                ]}
+                onPress={() => setSelectedListId(listId)}
+              >
+                {list?.muted && (
+                  <Ionicons
+                    name="notifications-off-outline"
+                    size={14}
+                    color={isSelected ? '#FFFFFF' : theme.colors.textSecondary}
+                    style={styles.listChipIcon}
+                  />
+                )}
+                <Text style={[styles.listChipText, { color: isSelected ? '#FFFFFF' : theme.colors.text }]}>
+                  {list ? list.name : 'All'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity
+            style={[styles.listChip, { backgroundColor: theme.colors.card }]}
+            onPress={() => setIsManageListsVisible(true)}
+          >
+            <Ionicons name="create-outline" size={14} color={theme.colors.text} style={styles.listChipIcon} />
+            <Text style={[styles.listChipText, { color: theme.colors.text }]}>
+              {lists.length > 0 ? 'Manage' : 'New List'}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+
         {upcomingShows.length > 0 && (
           <View style={styles.upcomingSection}>
             <View style={styles.sectionHeader}>
@@ -674,9 +1108,69 @@ export default function WatchlistScreen() {
         )}
         
         <View style={styles.showsSection}>
-          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-            My Shows
-          </Text>
+          <View style={styles.showsHeader}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              My Shows
+            </Text>
+            {watchlist.length > 0 && (
+              <View style={styles.toolbar}>
+                {isCheckingServices && (
+                  <ActivityIndicator size="small" color={theme.colors.primary} style={styles.toolbarButton} />
+                )}
+                <TouchableOpacity
+                  style={[styles.toolbarButton, { backgroundColor: theme.colors.card }]}
+                  onPress={() => setIsFilterModalVisible(true)}
+                >
+                  <Ionicons
+                    name="filter"
+                    size={18}
+                    color={activeFilterCount > 0 ? theme.colors.primary : theme.colors.text}
+                  />
+                  {activeFilterCount > 0 && (
+                    <Text style={[styles.toolbarBadge, { color: theme.colors.primary }]}>{activeFilterCount}</Text>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.toolbarButton, { backgroundColor: theme.colors.card }]}
+                  onPress={() => setIsSortModalVisible(true)}
+                >
+                  <MaterialIcons name="sort" size={18} color={theme.colors.text} />
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+
+          {watchlist.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.statusTabs}
+            >
+              {[null, ...WATCH_STATUSES].map(status => {
+                const isSelected = status === selectedStatus;
+                const count = status ? statusCounts[status] : watchlist.length;
+                return (
+                  <TouchableOpacity
+                    key={status ?? 'all'}
+                    style={[
+                      styles.statusTab,
+                      { borderBottomColor: isSelected ? theme.colors.primary : 'transparent' },
+                    ]}
+                    onPress={() => setSelectedStatus(status)}
+                  >
+                    <Text
+                      style={[
+                        styles.statusTabText,
+                        { color: isSelected ? theme.colors.primary : theme.colors.textSecondary },
+                      ]}
+                    >
+                      {status ? WATCH_STATUS_LABELS[status] : 'All'} ({count})
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
           
           {watchlist.length === 0 ? (
             <View style={styles.emptyState}>
@@ -697,12 +1191,13 @@ export default function WatchlistScreen() {
             </View>
           ) : (
             <FlatList
-              data={watchlist}
+              data={filteredWatchlist}
               keyExtractor={(item) => `show-${item.id}`}
               renderItem={renderWatchlistItem}
               numColumns={2}
               scrollEnabled={false}
               columnWrapperStyle={styles.columnWrapper}
+              ListEmptyComponent={renderFilteredEmptyState()}
             />
           )}
         </View>
@@ -712,6 +1207,26 @@ export default function WatchlistScreen() {
       
       {renderFilterModal()}
       {renderSortModal()}
+      {renderStatusMenu()}
+
+      <ManageTagsModal
+        visible={isManageTagsVisible}
+        onClose={() => setIsManageTagsVisible(false)}
+        onChange={() => loadWatchlist(false)}
+      />
+      <ManageListsModal
+        visible={isManageListsVisible}
+        onClose={() => setIsManageListsVisible(false)}
+        onChange={() => loadWatchlist(false)}
+      />
+      <ListPickerModal
+        show={listPickerShow}
+        source="show_details"
+        onClose={() => {
+          setListPickerShow(null);
+          loadWatchlist(false);
+        }}
+      />
     </View>
   );
 }
@@ -744,6 +1259,11 @@ const styles = StyleSheet.create({
   showCount: {
     fontSize: 16,
   },
+  ratingsButton: {
+    padding: 8,
+    borderRadius: 20,
+    marginRight: 8,
+  },
   addButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -766,6 +1286,50 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginLeft: 8,
   },
+  statusTabs: {
+    marginBottom: 16,
+  },
+  statusTab: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderBottomWidth: 2,
+  },
+  statusTabText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  suggestionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+  },
+  suggestionText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
+  listSwitcher: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  listChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+  },
+  listChipIcon: {
+    marginRight: 4,
+  },
+  listChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
   upcomingSection: {
     paddingHorizontal: 16,
     marginBottom: 24,
@@ -808,6 +1372,28 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     marginBottom: 30,
   },
+  showsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  toolbarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+    borderRadius: 16,
+    marginLeft: 8,
+  },
+  toolbarBadge: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
   columnWrapper: {
     justifyContent: 'space-between',
   },
@@ -853,6 +1439,31 @@ const styles = StyleSheet.create({
     top: 8,
     left: 8,
   },
+  progressOverlay: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    paddingHorizontal: 8,
+    paddingTop: 4,
+    paddingBottom: 6,
+  },
+  progressText: {
+    color: '#FFF',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  progressTrack: {
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.3)',
+    marginTop: 4,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+  },
   episodeInfo: {
     padding: 10,
     height: '40%',
@@ -959,6 +1570,15 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 12,
   },
+  filterTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  filterTitleAction: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   filterOptionsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -973,6 +1593,13 @@ const styles = StyleSheet.create({
   filterChipText: {
     fontSize: 14,
   },
+  filterChipWithIcon: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  filterChipIconText: {
+    marginLeft: 4,
+  },
   modalFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
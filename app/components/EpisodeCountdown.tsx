@@ -4,16 +4,18 @@ import { useTheme } from '@/app/context/ThemeContext';
 
 interface EpisodeCountdownProps {
   airDate: string;
+  // Exact air time when the provider knows it; otherwise counts down to the air date
+  airstamp?: string;
 }
 
-export default function EpisodeCountdown({ airDate }: EpisodeCountdownProps) {
+export default function EpisodeCountdown({ airDate, airstamp }: EpisodeCountdownProps) {
   const { theme } = useTheme();
   const [timeLeft, setTimeLeft] = useState<string>('');
 
   useEffect(() => {
     const calculateTimeLeft = () => {
       const now = new Date().getTime();
-      const airDateTime = new Date(airDate).getTime();
+      const airDateTime = new Date(airstamp || airDate).getTime();
       const difference = airDateTime - now;
 
       if (difference <= 0) {
@@ -38,7 +40,7 @@ export default function EpisodeCountdown({ airDate }: EpisodeCountdownProps) {
     const timer = setInterval(calculateTimeLeft, 60000); // Update every minute
 
     return () => clearInterval(timer);
-  }, [airDate]);
+  }, [airDate, airstamp]);
 
   return (
     <View style={styles.container}>
@@ -0,0 +1,111 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, ViewStyle } from 'react-native';
+import { useTheme } from '@/app/context/ThemeContext';
+import { MAX_SCORE, Rating } from '@/app/services/RatingService';
+
+interface EpisodeRatingsChartProps {
+  // Episode ratings in airing order
+  ratings: Rating[];
+  style?: ViewStyle;
+}
+
+const CHART_HEIGHT = 120;
+const BAR_WIDTH = 18;
+
+// A bar per rated episode, with a gap marking the start of each new season
+const EpisodeRatingsChart: React.FC<EpisodeRatingsChartProps> = ({ ratings, style }) => {
+  const { theme } = useTheme();
+
+  if (ratings.length === 0) return null;
+
+  const average = ratings.reduce((sum, rating) => sum + rating.score, 0) / ratings.length;
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.card }, style]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.colors.text }]}>My Episode Ratings</Text>
+        <Text style={[styles.average, { color: theme.colors.textSecondary }]}>
+          Avg {average.toFixed(1)} · {ratings.length} rated
+        </Text>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.bars}>
+          {ratings.map((rating, index) => {
+            const isNewSeason = index > 0 && rating.seasonNumber !== ratings[index - 1].seasonNumber;
+            return (
+              <View
+                key={`${rating.seasonNumber}-${rating.episodeNumber}`}
+                style={[styles.barColumn, isNewSeason && styles.seasonGap]}
+              >
+                <Text style={[styles.barScore, { color: theme.colors.textSecondary }]}>{rating.score}</Text>
+                <View
+                  style={[
+                    styles.bar,
+                    {
+                      height: (rating.score / MAX_SCORE) * CHART_HEIGHT,
+                      backgroundColor: rating.score >= average ? theme.colors.primary : theme.colors.textDisabled,
+                    },
+                  ]}
+                />
+                <Text style={[styles.barLabel, { color: theme.colors.textSecondary }]}>
+                  {index === 0 || isNewSeason ? `S${rating.seasonNumber}` : ''}
+                </Text>
+                <Text style={[styles.barLabel, { color: theme.colors.textSecondary }]}>E{rating.episodeNumber}</Text>
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    marginBottom: 24,
+    padding: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  average: {
+    fontSize: 13,
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  barColumn: {
+    width: BAR_WIDTH + 6,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  seasonGap: {
+    marginLeft: 12,
+  },
+  bar: {
+    width: BAR_WIDTH,
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+  },
+  barScore: {
+    fontSize: 10,
+    marginBottom: 2,
+  },
+  barLabel: {
+    fontSize: 10,
+    height: 14,
+    marginTop: 2,
+  },
+});
+
+export default EpisodeRatingsChart;
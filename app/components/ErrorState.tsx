@@ -0,0 +1,200 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/app/context/ThemeContext';
+import { isTMDBError, TMDBErrorKind } from '@/app/services/TMDBError';
+
+interface ErrorStateProps {
+  error: unknown;
+  fallbackMessage?: string;
+  onRetry?: () => void;
+  onGoBack?: () => void;
+  onWorkOffline?: () => void;
+  style?: ViewStyle;
+}
+
+interface ErrorPresentation {
+  icon: React.ComponentProps<typeof Ionicons>['name'];
+  title: string;
+  message: string;
+  canRetry: boolean;
+  canWorkOffline: boolean;
+  needsApiKey: boolean;
+}
+
+const getPresentation = (kind: TMDBErrorKind | undefined, fallbackMessage: string): ErrorPresentation => {
+  switch (kind) {
+    case 'auth':
+      return {
+        icon: 'key-outline',
+        title: 'API key rejected',
+        message: 'TMDB did not accept the API key. Enter a valid key in Settings to continue.',
+        canRetry: true,
+        canWorkOffline: false,
+        needsApiKey: true,
+      };
+    case 'not-found':
+      return {
+        icon: 'search-outline',
+        title: 'Not found',
+        message: 'This show or season is no longer available on TMDB.',
+        canRetry: false,
+        canWorkOffline: false,
+        needsApiKey: false,
+      };
+    case 'rate-limited':
+      return {
+        icon: 'hourglass-outline',
+        title: 'Too many requests',
+        message: 'TMDB is limiting requests right now. Wait a moment and try again.',
+        canRetry: true,
+        canWorkOffline: true,
+        needsApiKey: false,
+      };
+    case 'server':
+      return {
+        icon: 'cloud-offline-outline',
+        title: 'TMDB is unavailable',
+        message: 'TMDB is having problems. Try again later or use the data saved on this device.',
+        canRetry: true,
+        canWorkOffline: true,
+        needsApiKey: false,
+      };
+    case 'network':
+      return {
+        icon: 'wifi-outline',
+        title: 'You are offline',
+        message: 'Check your internet connection, or keep browsing the data saved on this device.',
+        canRetry: true,
+        canWorkOffline: true,
+        needsApiKey: false,
+      };
+    case 'parse':
+      return {
+        icon: 'warning-outline',
+        title: 'Unexpected response',
+        message: 'TMDB sent a response the app could not read. Please try again.',
+        canRetry: true,
+        canWorkOffline: true,
+        needsApiKey: false,
+      };
+    case 'cache-miss':
+      return {
+        icon: 'cloud-download-outline',
+        title: 'Not available offline',
+        message: 'This content has not been saved on this device yet. Connect to the internet and try again.',
+        canRetry: true,
+        canWorkOffline: false,
+        needsApiKey: false,
+      };
+    default:
+      return {
+        icon: 'alert-circle-outline',
+        title: 'Something went wrong',
+        message: fallbackMessage,
+        canRetry: true,
+        canWorkOffline: false,
+        needsApiKey: false,
+      };
+  }
+};
+
+export default function ErrorState({
+  error,
+  fallbackMessage = 'Failed to load data. Please try again.',
+  onRetry,
+  onGoBack,
+  onWorkOffline,
+  style,
+}: ErrorStateProps) {
+  const { theme } = useTheme();
+  const kind = isTMDBError(error) ? error.kind : undefined;
+  const presentation = getPresentation(kind, fallbackMessage);
+
+  const handleEnterApiKey = () => {
+    router.push({ pathname: '/settings', params: { focus: 'apiKey' } });
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <Ionicons name={presentation.icon} size={64} color={theme.colors.error} />
+      <Text style={[styles.title, { color: theme.colors.text }]}>{presentation.title}</Text>
+      <Text style={[styles.message, { color: theme.colors.textSecondary }]}>{presentation.message}</Text>
+
+      {presentation.needsApiKey && (
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: theme.colors.primary }]}
+          onPress={handleEnterApiKey}
+        >
+          <Text style={[styles.buttonText, { color: '#FFFFFF' }]}>Enter API Key</Text>
+        </TouchableOpacity>
+      )}
+
+      {presentation.canRetry && onRetry && (
+        <TouchableOpacity
+          style={[
+            styles.button,
+            { backgroundColor: presentation.needsApiKey ? theme.colors.secondary : theme.colors.primary },
+          ]}
+          onPress={onRetry}
+        >
+          <Text style={[styles.buttonText, { color: presentation.needsApiKey ? theme.colors.text : '#FFFFFF' }]}>
+            Try Again
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {presentation.canWorkOffline && onWorkOffline && (
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: theme.colors.secondary }]}
+          onPress={onWorkOffline}
+        >
+          <Text style={[styles.buttonText, { color: theme.colors.text }]}>Work Offline</Text>
+        </TouchableOpacity>
+      )}
+
+      {onGoBack && (
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: theme.colors.secondary }]}
+          onPress={onGoBack}
+        >
+          <Text style={[styles.buttonText, { color: theme.colors.text }]}>Go Back</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  button: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginVertical: 6,
+    minWidth: 150,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -3,6 +3,7 @@ import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-nati
 import { LinearGradient } from 'expo-linear-gradient';
 import { Link } from 'expo-router';
 import { TVShow } from '@/app/services/TMDBService';
+import MetadataService from '@/app/services/MetadataService';
 import CachedImage from '@/components/CachedImage';
 import { useTheme } from '@/app/context/ThemeContext';
 import EpisodeCountdown from './EpisodeCountdown';
@@ -35,7 +36,7 @@ export default function FeaturedShowBanner({
         <TouchableOpacity activeOpacity={0.9} style={styles.touchable}>
           <View style={styles.bannerContainer}>
             <CachedImage
-              uri={`https://image.tmdb.org/t/p/w780${show.backdrop_path}`}
+              uri={MetadataService.getImageUrl(show.backdrop_path, 'w780')}
               style={styles.backdropImage}
               resizeMode="cover"
             />
@@ -82,7 +83,10 @@ export default function FeaturedShowBanner({
                   <Text style={styles.nextEpisodeLabel}>
                     Next Episode
                   </Text>
-                  <EpisodeCountdown airDate={show.next_episode_to_air.air_date} />
+                  <EpisodeCountdown
+                    airDate={show.next_episode_to_air.air_date}
+                    airstamp={show.next_episode_to_air.airstamp}
+                  />
                 </View>
               )}
             </View>
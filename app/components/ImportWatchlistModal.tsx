@@ -0,0 +1,406 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import { useTheme } from '@/app/context/ThemeContext';
+import WatchlistBackupService, {
+  BackupFile,
+  BackupFormatError,
+  ImportDiff,
+  PreparedImport,
+} from '@/app/services/WatchlistBackupService';
+import { ImportMode, WatchlistEntry } from '@/app/services/WatchlistService';
+import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
+
+interface ImportWatchlistModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const MODE_DESCRIPTIONS: Record<ImportMode, string> = {
+  merge: 'Add new shows and combine tags, notes and lists with the ones you have',
+  replace: 'Swap your watchlist and lists for the ones in the file. Watched episodes and ratings are still added to yours.',
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// How many show names to list under each part of the preview
+const PREVIEW_NAMES = 5;
+
+const ImportWatchlistModal: React.FC<ImportWatchlistModalProps> = ({ visible, onClose }) => {
+  const { theme } = useTheme();
+  const [backups, setBackups] = useState<BackupFile[]>([]);
+  const [pastedText, setPastedText] = useState('');
+  const [prepared, setPrepared] = useState<PreparedImport | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [diff, setDiff] = useState<ImportDiff | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setPastedText('');
+    setPrepared(null);
+    setDiff(null);
+    setMode('merge');
+    setError(null);
+    WatchlistBackupService.getBackups().then(setBackups);
+  }, [visible]);
+
+  useEffect(() => {
+    if (!prepared) return;
+
+    let isCancelled = false;
+    WatchlistBackupService.previewImport(prepared, mode).then(result => {
+      if (!isCancelled) {
+        setDiff(result);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [prepared, mode]);
+
+  const prepare = async (readText: () => Promise<string>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      setPrepared(await WatchlistBackupService.prepareImport(await readText()));
+    } catch (prepareError) {
+      console.error('Error reading import:', prepareError);
+      setError(prepareError instanceof BackupFormatError ? prepareError.message : "Couldn't read that file");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!prepared || !diff) return;
+
+    setIsWorking(true);
+    const success = await WatchlistBackupService.applyImport(prepared, mode);
+    setIsWorking(false);
+
+    if (!success) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not import your watchlist',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    AnalyticsService.trackEvent(EventType.IMPORT_WATCHLIST, {
+      type: prepared.type,
+      mode,
+      added: diff.added.length,
+      updated: diff.updated.length,
+      removed: diff.removed.length,
+      watchedEpisodes: diff.watchedEpisodes,
+      ratings: diff.ratings,
+    });
+    Toast.show({
+      type: 'success',
+      text1: 'Watchlist imported',
+      text2: `${diff.added.length} added, ${diff.updated.length} updated` +
+        (diff.removed.length > 0 ? `, ${diff.removed.length} removed` : ''),
+      position: 'bottom',
+    });
+    onClose();
+  };
+
+  const handleImport = () => {
+    if (mode !== 'replace' || !diff || diff.removed.length === 0) {
+      runImport();
+      return;
+    }
+
+    Alert.alert(
+      'Replace Watchlist',
+      `${diff.removed.length} ${diff.removed.length === 1 ? 'show' : 'shows'} not in the file will be removed. Continue?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: runImport },
+      ]
+    );
+  };
+
+  const renderDiffSection = (title: string, entries: WatchlistEntry[], color: string) => {
+    if (entries.length === 0) return null;
+
+    const names = entries.slice(0, PREVIEW_NAMES).map(entry => entry.show.name).join(', ');
+    const more = entries.length > PREVIEW_NAMES ? ` and ${entries.length - PREVIEW_NAMES} more` : '';
+    return (
+      <View style={styles.diffSection}>
+        <Text style={[styles.diffTitle, { color }]}>
+          {title} ({entries.length})
+        </Text>
+        <Text style={[styles.diffNames, { color: theme.colors.textSecondary }]}>
+          {names}{more}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderSource = () => (
+    <>
+      <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+        Pick a backup saved on this device, or paste the contents of a JSON or CSV export.
+      </Text>
+
+      {backups.map(backup => (
+        <TouchableOpacity
+          key={backup.uri}
+          style={[styles.row, { borderBottomColor: theme.colors.border }]}
+          onPress={() => prepare(() => WatchlistBackupService.readBackup(backup.uri))}
+          disabled={isWorking}
+        >
+          <Ionicons
+            name={backup.type === 'json' ? 'document-text-outline' : 'grid-outline'}
+            size={20}
+            color={theme.colors.textSecondary}
+          />
+          <View style={styles.rowText}>
+            <Text style={[styles.rowTitle, { color: theme.colors.text }]} numberOfLines={1}>
+              {backup.name}
+            </Text>
+            <Text style={[styles.rowSubtitle, { color: theme.colors.textSecondary }]}>
+              {new Date(backup.modifiedAt).toLocaleString()}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+
+      <TextInput
+        style={[styles.pasteInput, { color: theme.colors.text, backgroundColor: theme.colors.secondary }]}
+        value={pastedText}
+        onChangeText={setPastedText}
+        placeholder="Paste JSON or CSV here"
+        placeholderTextColor={theme.colors.textSecondary}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+    </>
+  );
+
+  const renderPreview = () => {
+    if (!prepared || !diff) {
+      return <ActivityIndicator size="large" color={theme.colors.primary} style={styles.loading} />;
+    }
+
+    return (
+      <>
+        <View style={styles.modes}>
+          {(['merge', 'replace'] as ImportMode[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.mode,
+                { backgroundColor: mode === option ? theme.colors.primary : theme.colors.secondary },
+              ]}
+              onPress={() => setMode(option)}
+            >
+              <Text style={[styles.modeText, { color: mode === option ? '#FFFFFF' : theme.colors.text }]}>
+                {option === 'merge' ? 'Merge' : 'Replace'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>{MODE_DESCRIPTIONS[mode]}</Text>
+
+        {renderDiffSection('New shows', diff.added, theme.colors.text)}
+        {renderDiffSection('Updated', diff.updated, theme.colors.text)}
+        {renderDiffSection('Removed', diff.removed, theme.colors.error)}
+
+        {(diff.watchedEpisodes > 0 || diff.ratings > 0) && (
+          <View style={styles.diffSection}>
+            <Text style={[styles.diffTitle, { color: theme.colors.text }]}>Watch history</Text>
+            <Text style={[styles.diffNames, { color: theme.colors.textSecondary }]}>
+              {[
+                diff.watchedEpisodes > 0 ? `${plural(diff.watchedEpisodes, 'episode')} marked watched` : '',
+                diff.ratings > 0 ? `${plural(diff.ratings, 'rating')} restored` : '',
+              ].filter(Boolean).join(' · ')}
+            </Text>
+          </View>
+        )}
+
+        <Text style={[styles.summary, { color: theme.colors.textSecondary }]}>
+          {diff.unchanged} unchanged
+          {diff.addedLists.length > 0 ? ` · ${diff.addedLists.length} new lists` : ''}
+          {diff.removedLists.length > 0 ? ` · ${diff.removedLists.length} lists removed` : ''}
+          {prepared.skipped > 0 ? ` · ${prepared.skipped} skipped` : ''}
+        </Text>
+      </>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.colors.card }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: theme.colors.text }]}>Import Watchlist</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {prepared ? renderPreview() : renderSource()}
+            {error && <Text style={[styles.error, { color: theme.colors.error }]}>{error}</Text>}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            {isWorking && <ActivityIndicator color={theme.colors.primary} />}
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: theme.colors.secondary }]}
+              onPress={prepared ? () => {
+                setPrepared(null);
+                setDiff(null);
+              } : onClose}
+            >
+              <Text style={[styles.buttonText, { color: theme.colors.text }]}>{prepared ? 'Back' : 'Cancel'}</Text>
+            </TouchableOpacity>
+            {prepared ? (
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: theme.colors.primary }]}
+                onPress={handleImport}
+                disabled={isWorking || !diff}
+              >
+                <Text style={[styles.buttonText, { color: '#FFFFFF' }]}>Import</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: theme.colors.primary }]}
+                onPress={() => prepare(async () => pastedText)}
+                disabled={isWorking || !pastedText.trim()}
+              >
+                <Text style={[styles.buttonText, { color: '#FFFFFF' }]}>Preview</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+  },
+  content: {
+    borderRadius: 12,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowTitle: {
+    fontSize: 14,
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  pasteInput: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    minHeight: 100,
+    marginTop: 12,
+    textAlignVertical: 'top',
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  modes: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  mode: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    marginRight: 8,
+  },
+  modeText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  diffSection: {
+    marginBottom: 12,
+  },
+  diffTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  diffNames: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  summary: {
+    fontSize: 13,
+  },
+  error: {
+    fontSize: 13,
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
+
+export default ImportWatchlistModal;
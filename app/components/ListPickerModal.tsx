@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import { useTheme } from '@/app/context/ThemeContext';
+import { TVShow } from '@/app/services/TMDBService';
+import WatchlistService, { CustomList, WatchlistSource } from '@/app/services/WatchlistService';
+import NotificationService from '@/app/services/NotificationService';
+import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
+
+interface ListPickerModalProps {
+  // The modal is open while a show is set
+  show: TVShow | null;
+  source: WatchlistSource;
+  onClose: () => void;
+  // Putting a show in a list also adds it to the watchlist
+  onAddedToWatchlist?: (show: TVShow) => void;
+}
+
+const ListPickerModal: React.FC<ListPickerModalProps> = ({ show, source, onClose, onAddedToWatchlist }) => {
+  const { theme } = useTheme();
+  const [lists, setLists] = useState<CustomList[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isInWatchlist, setIsInWatchlist] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newListName, setNewListName] = useState('');
+
+  useEffect(() => {
+    if (!show) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+    setNewListName('');
+
+    Promise.all([WatchlistService.getLists(), WatchlistService.getEntry(show.id)]).then(([savedLists, entry]) => {
+      if (isCancelled) return;
+      setLists(savedLists);
+      setSelectedIds(entry?.listIds ?? []);
+      setIsInWatchlist(!!entry);
+      setIsLoading(false);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [show]);
+
+  const saveSelection = async (listIds: string[]) => {
+    if (!show) return;
+
+    const previousIds = selectedIds;
+    setSelectedIds(listIds);
+
+    const success = await WatchlistService.setShowLists(show, listIds, source);
+    if (!success) {
+      setSelectedIds(previousIds);
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not update your lists',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    // Moving a saved show into only muted lists silences it, and out of them brings its alerts back
+    if (isInWatchlist) {
+      await NotificationService.syncMutedShows([show]);
+    }
+
+    AnalyticsService.trackEvent(EventType.UPDATE_LISTS, { showId: show.id, listCount: listIds.length });
+
+    if (!isInWatchlist) {
+      setIsInWatchlist(true);
+      onAddedToWatchlist?.(show);
+      AnalyticsService.trackEvent(EventType.ADD_TO_WATCHLIST, { showId: show.id, showName: show.name, source });
+    }
+  };
+
+  const toggleList = (listId: string) => {
+    saveSelection(selectedIds.includes(listId)
+      ? selectedIds.filter(id => id !== listId)
+      : [...selectedIds, listId]);
+  };
+
+  const handleCreateList = async () => {
+    if (!newListName.trim()) return;
+
+    const list = await WatchlistService.createList(newListName);
+    if (!list) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not create the list',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    setLists(prev => [...prev, list]);
+    setNewListName('');
+    // A list created from here is meant for this show
+    saveSelection([...selectedIds, list.id]);
+  };
+
+  return (
+    <Modal visible={!!show} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.colors.card }]}>
+          <Text style={[styles.title, { color: theme.colors.text }]}>Save to Lists</Text>
+          <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+            {show?.name}
+            {isInWatchlist ? ' · in your watchlist' : ''}
+          </Text>
+
+          {isLoading ? (
+            <ActivityIndicator size="large" color={theme.colors.primary} style={styles.loading} />
+          ) : (
+            <FlatList
+              data={lists}
+              keyExtractor={(item) => item.id}
+              keyboardShouldPersistTaps="handled"
+              renderItem={({ item }) => {
+                const isSelected = selectedIds.includes(item.id);
+                return (
+                  <TouchableOpacity style={styles.option} onPress={() => toggleList(item.id)}>
+                    <Text style={[styles.optionText, { color: theme.colors.text }]} numberOfLines={1}>
+                      {item.name}
+                    </Text>
+                    {item.muted && (
+                      <Ionicons
+                        name="notifications-off-outline"
+                        size={16}
+                        color={theme.colors.textSecondary}
+                        style={styles.mutedIcon}
+                      />
+                    )}
+                    <Ionicons
+                      name={isSelected ? 'checkbox' : 'square-outline'}
+                      size={22}
+                      color={isSelected ? theme.colors.primary : theme.colors.textSecondary}
+                    />
+                  </TouchableOpacity>
+                );
+              }}
+              ListEmptyComponent={
+                <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+                  No lists yet. Create one below.
+                </Text>
+              }
+            />
+          )}
+
+          <View style={styles.newListRow}>
+            <TextInput
+              style={[styles.input, { color: theme.colors.text, backgroundColor: theme.colors.secondary }]}
+              value={newListName}
+              onChangeText={setNewListName}
+              placeholder="New list, e.g. Weekend binge"
+              placeholderTextColor={theme.colors.textDisabled}
+              onSubmitEditing={handleCreateList}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.addButton, { backgroundColor: theme.colors.primary }]}
+              onPress={handleCreateList}
+              disabled={!newListName.trim()}
+            >
+              <Ionicons name="add" size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.doneButton, { backgroundColor: theme.colors.primary }]}
+            onPress={onClose}
+          >
+            <Text style={styles.doneButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+  },
+  content: {
+    borderRadius: 12,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+  },
+  mutedIcon: {
+    marginRight: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    paddingVertical: 12,
+  },
+  newListRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  input: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+  },
+  addButton: {
+    marginLeft: 8,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  doneButton: {
+    marginTop: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  doneButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
+
+export default ListPickerModal;
@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import { useTheme } from '@/app/context/ThemeContext';
+import WatchlistService, { CustomList } from '@/app/services/WatchlistService';
+import NotificationService from '@/app/services/NotificationService';
+import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
+
+interface ManageListsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called after any change so the screen can reload its lists
+  onChange: () => void;
+}
+
+const ManageListsModal: React.FC<ManageListsModalProps> = ({ visible, onClose, onChange }) => {
+  const { theme } = useTheme();
+  const [lists, setLists] = useState<CustomList[]>([]);
+  const [newListName, setNewListName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const loadLists = async () => {
+    setLists(await WatchlistService.getLists());
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadLists();
+      setEditingId(null);
+      setNewListName('');
+    }
+  }, [visible]);
+
+  const applyChange = async (success: unknown, action: string, errorMessage: string) => {
+    if (!success) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: errorMessage,
+        position: 'bottom',
+      });
+      return;
+    }
+
+    AnalyticsService.trackEvent(EventType.UPDATE_LISTS, { action });
+    await loadLists();
+    onChange();
+  };
+
+  const handleCreate = async () => {
+    if (!newListName.trim()) return;
+    const list = await WatchlistService.createList(newListName);
+    setNewListName('');
+    await applyChange(list, 'create', 'Could not create the list');
+  };
+
+  const handleRename = async () => {
+    if (!editingId) return;
+    const listId = editingId;
+    setEditingId(null);
+    if (!editingName.trim()) return;
+
+    await applyChange(await WatchlistService.renameList(listId, editingName), 'rename', 'Could not rename the list');
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const ids = lists.map(list => list.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    // Show the new order straight away rather than after the write
+    setLists(ids.map(id => lists.find(list => list.id === id)!));
+    await applyChange(await WatchlistService.reorderLists(ids), 'reorder', 'Could not reorder your lists');
+  };
+
+  const handleToggleMuted = async (list: CustomList) => {
+    const success = await WatchlistService.setListMuted(list.id, !list.muted);
+    if (success) {
+      // Only the list's own shows can gain or lose their alerts
+      const entries = await WatchlistService.getEntries();
+      await NotificationService.syncMutedShows(
+        entries.filter(entry => entry.listIds.includes(list.id)).map(entry => entry.show)
+      );
+    }
+    await applyChange(success, list.muted ? 'unmute' : 'mute', 'Could not update notifications for the list');
+  };
+
+  const handleDelete = (list: CustomList) => {
+    Alert.alert(
+      'Delete List',
+      `Delete "${list.name}"? Its shows stay in your watchlist.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await applyChange(await WatchlistService.deleteList(list.id), 'delete', 'Could not delete the list');
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.colors.card }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: theme.colors.text }]}>Manage Lists</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+          </View>
+          <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+            Muted lists don't send episode alerts, unless a show is also in a list that isn't muted.
+          </Text>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {lists.length === 0 && (
+              <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+                You haven't created any lists yet.
+              </Text>
+            )}
+
+            {lists.map((list, index) => (
+              <View key={list.id} style={[styles.row, { borderBottomColor: theme.colors.border }]}>
+                {editingId === list.id ? (
+                  <TextInput
+                    style={[styles.rowInput, { color: theme.colors.text, backgroundColor: theme.colors.secondary }]}
+                    value={editingName}
+                    onChangeText={setEditingName}
+                    onSubmitEditing={handleRename}
+                    onBlur={handleRename}
+                    autoFocus
+                    returnKeyType="done"
+                  />
+                ) : (
+                  <TouchableOpacity
+                    style={styles.rowName}
+                    onPress={() => {
+                      setEditingId(list.id);
+                      setEditingName(list.name);
+                    }}
+                  >
+                    <Text style={[styles.rowText, { color: theme.colors.text }]} numberOfLines={1}>
+                      {list.name}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleMove(index, -1)} disabled={index === 0}>
+                  <Ionicons
+                    name="chevron-up"
+                    size={20}
+                    color={index === 0 ? theme.colors.textDisabled : theme.colors.text}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => handleMove(index, 1)}
+                  disabled={index === lists.length - 1}
+                >
+                  <Ionicons
+                    name="chevron-down"
+                    size={20}
+                    color={index === lists.length - 1 ? theme.colors.textDisabled : theme.colors.text}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleToggleMuted(list)}>
+                  <Ionicons
+                    name={list.muted ? 'notifications-off' : 'notifications-outline'}
+                    size={20}
+                    color={list.muted ? theme.colors.error : theme.colors.text}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(list)}>
+                  <Ionicons name="trash-outline" size={20} color={theme.colors.error} />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.newListRow}>
+            <TextInput
+              style={[styles.input, { color: theme.colors.text, backgroundColor: theme.colors.secondary }]}
+              value={newListName}
+              onChangeText={setNewListName}
+              placeholder="New list name"
+              placeholderTextColor={theme.colors.textDisabled}
+              onSubmitEditing={handleCreate}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.addButton, { backgroundColor: theme.colors.primary }]}
+              onPress={handleCreate}
+              disabled={!newListName.trim()}
+            >
+              <Ionicons name="add" size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+  },
+  content: {
+    borderRadius: 12,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    paddingVertical: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowName: {
+    flex: 1,
+    paddingVertical: 6,
+  },
+  rowText: {
+    fontSize: 16,
+  },
+  rowInput: {
+    flex: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 16,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  newListRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  input: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+  },
+  addButton: {
+    marginLeft: 8,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default ManageListsModal;
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import { useTheme } from '@/app/context/ThemeContext';
+import WatchlistService, { isSameTag, normalizeTag } from '@/app/services/WatchlistService';
+import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
+
+interface ManageTagsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called after a rename or merge so the screen can reload its tags
+  onChange: () => void;
+}
+
+const ManageTagsModal: React.FC<ManageTagsModalProps> = ({ visible, onClose, onChange }) => {
+  const { theme } = useTheme();
+  const [tags, setTags] = useState<{ tag: string; count: number }[]>([]);
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const loadTags = async () => {
+    setTags(await WatchlistService.getTags());
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadTags();
+      setEditingTag(null);
+    }
+  }, [visible]);
+
+  const renameTag = async (from: string, to: string, isMerge: boolean) => {
+    if (!(await WatchlistService.renameTag(from, to))) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: isMerge ? 'Could not merge the tags' : 'Could not rename the tag',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    AnalyticsService.trackEvent(EventType.EDIT_SHOW_NOTES, { field: 'tags', action: isMerge ? 'merge' : 'rename' });
+    await loadTags();
+    onChange();
+  };
+
+  const handleRename = () => {
+    if (!editingTag) return;
+    const from = editingTag;
+    const to = normalizeTag(editingName);
+    setEditingTag(null);
+    if (!to || to === from) return;
+
+    const target = tags.find(item => isSameTag(item.tag, to) && item.tag !== from);
+    if (!target) {
+      renameTag(from, to, false);
+      return;
+    }
+
+    Alert.alert(
+      'Merge Tags',
+      `"${target.tag}" already exists. Merge "${from}" into it on every show?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => renameTag(from, target.tag, true) },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.colors.card }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: theme.colors.text }]}>Manage Tags</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+          </View>
+          <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+            Tap a tag to rename it on every show. Renaming it to another tag's name merges the two.
+          </Text>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {tags.length === 0 && (
+              <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+                Add tags to shows from their details page.
+              </Text>
+            )}
+
+            {tags.map(({ tag, count }) => (
+              <View key={tag} style={[styles.row, { borderBottomColor: theme.colors.border }]}>
+                {editingTag === tag ? (
+                  <TextInput
+                    style={[styles.rowInput, { color: theme.colors.text, backgroundColor: theme.colors.secondary }]}
+                    value={editingName}
+                    onChangeText={setEditingName}
+                    onSubmitEditing={handleRename}
+                    onBlur={handleRename}
+                    autoFocus
+                    autoCapitalize="none"
+                    returnKeyType="done"
+                  />
+                ) : (
+                  <TouchableOpacity
+                    style={styles.rowName}
+                    onPress={() => {
+                      setEditingTag(tag);
+                      setEditingName(tag);
+                    }}
+                  >
+                    <Text style={[styles.rowText, { color: theme.colors.text }]} numberOfLines={1}>
+                      {tag}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                <Text style={[styles.count, { color: theme.colors.textSecondary }]}>
+                  {count} {count === 1 ? 'show' : 'shows'}
+                </Text>
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+  },
+  content: {
+    borderRadius: 12,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    paddingVertical: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowName: {
+    flex: 1,
+    paddingVertical: 6,
+  },
+  rowText: {
+    fontSize: 16,
+  },
+  rowInput: {
+    flex: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 16,
+  },
+  count: {
+    fontSize: 13,
+    marginLeft: 12,
+  },
+});
+
+export default ManageTagsModal;
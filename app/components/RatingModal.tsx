@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import { useTheme } from '@/app/context/ThemeContext';
+import RatingService, { MAX_SCORE, RatingLabels, RatingTarget, ratingKey } from '@/app/services/RatingService';
+import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
+
+interface RatingModalProps {
+  // The modal is open while a target is set
+  target: RatingTarget | null;
+  labels: RatingLabels;
+  title: string;
+  onClose: () => void;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+const RatingModal: React.FC<RatingModalProps> = ({ target, labels, title, onClose }) => {
+  const { theme } = useTheme();
+  const [score, setScore] = useState<number | null>(null);
+  // Callers build the target inline, so compare it by key rather than identity
+  const targetKey = target ? ratingKey(target) : null;
+
+  useEffect(() => {
+    if (!target) return;
+
+    let isCancelled = false;
+    RatingService.getRating(target).then(rating => {
+      if (!isCancelled) {
+        setScore(rating?.score ?? null);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [targetKey]);
+
+  const saveScore = async (next: number | null) => {
+    if (!target) return;
+
+    const previous = score;
+    setScore(next);
+
+    const success = next === null
+      ? await RatingService.removeRating(target)
+      : await RatingService.setRating(target, next, labels);
+
+    if (!success) {
+      setScore(previous);
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not save your rating',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    AnalyticsService.trackEvent(EventType.RATE, { ...target, score: next });
+  };
+
+  // Tapping a star gives it a full star; tapping a full star again halves it
+  const handleStarPress = (star: number) => {
+    saveScore(score === star * 2 ? star * 2 - 1 : star * 2);
+  };
+
+  const getStarIcon = (star: number) => {
+    if (score === null || score < star * 2 - 1) return 'star-outline';
+    return score === star * 2 - 1 ? 'star-half' : 'star';
+  };
+
+  return (
+    <Modal visible={!!target} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.colors.card }]}>
+          <Text style={[styles.title, { color: theme.colors.text }]} numberOfLines={2}>
+            {title}
+          </Text>
+
+          <View style={styles.stars}>
+            {STARS.map(star => (
+              <TouchableOpacity key={star} onPress={() => handleStarPress(star)} hitSlop={4}>
+                <Ionicons name={getStarIcon(star)} size={36} color="#FFD700" />
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={[styles.score, { color: theme.colors.textSecondary }]}>
+            {score === null ? 'Tap a star to rate · tap again for a half star' : `${score}/${MAX_SCORE}`}
+          </Text>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: theme.colors.secondary }]}
+              onPress={() => saveScore(null)}
+              disabled={score === null}
+            >
+              <Text style={[styles.buttonText, { color: score === null ? theme.colors.textDisabled : theme.colors.text }]}>
+                Clear
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, { backgroundColor: theme.colors.primary }]} onPress={onClose}>
+              <Text style={[styles.buttonText, { color: '#FFFFFF' }]}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+  },
+  content: {
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  stars: {
+    flexDirection: 'row',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  score: {
+    fontSize: 14,
+    marginBottom: 20,
+  },
+  buttons: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    justifyContent: 'flex-end',
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
+
+export default RatingModal;
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import { useTheme } from '@/app/context/ThemeContext';
+import WatchlistService, { isSameTag, normalizeTag, suggestTags } from '@/app/services/WatchlistService';
+import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
+
+interface ShowNotesEditorProps {
+  // Must already be in the watchlist, since tags and notes live on its entry
+  showId: number;
+  style?: ViewStyle;
+}
+
+const ShowNotesEditor: React.FC<ShowNotesEditorProps> = ({ showId, style }) => {
+  const { theme } = useTheme();
+  const [tags, setTags] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [savedNotes, setSavedNotes] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    Promise.all([WatchlistService.getEntry(showId), WatchlistService.getTags()]).then(([entry, allTags]) => {
+      if (isCancelled || !entry) return;
+      setTags(entry.user.tags);
+      setNotes(entry.user.notes ?? '');
+      setSavedNotes(entry.user.notes ?? '');
+      setKnownTags(allTags.map(item => item.tag));
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [showId]);
+
+  const showError = () => {
+    Toast.show({
+      type: 'error',
+      text1: 'Error',
+      text2: 'Could not save your changes',
+      position: 'bottom',
+    });
+  };
+
+  const saveTags = async (next: string[]) => {
+    const previous = tags;
+    setTags(next);
+
+    if (!(await WatchlistService.setTags(showId, next))) {
+      setTags(previous);
+      showError();
+      return;
+    }
+    AnalyticsService.trackEvent(EventType.EDIT_SHOW_NOTES, { showId, field: 'tags', tagCount: next.length });
+  };
+
+  const handleAddTag = (value: string) => {
+    const tag = normalizeTag(value);
+    setTagInput('');
+    if (!tag || tags.some(existing => isSameTag(existing, tag))) return;
+
+    // Reuse the existing spelling so autocomplete and typing produce the same tag
+    const existing = knownTags.find(known => isSameTag(known, tag));
+    if (!existing) {
+      setKnownTags(prev => [...prev, tag]);
+    }
+    saveTags([...tags, existing ?? tag]);
+  };
+
+  const handleSaveNotes = async () => {
+    if (notes.trim() === savedNotes.trim()) return;
+
+    if (!(await WatchlistService.setNotes(showId, notes))) {
+      showError();
+      return;
+    }
+    setSavedNotes(notes);
+    AnalyticsService.trackEvent(EventType.EDIT_SHOW_NOTES, { showId, field: 'notes' });
+  };
+
+  const suggestions = tagInput.trim() ? suggestTags(knownTags, tagInput, tags) : [];
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.card }, style]}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>My Tags & Notes</Text>
+
+      <View style={styles.tags}>
+        {tags.map(tag => (
+          <TouchableOpacity
+            key={tag}
+            style={[styles.tag, { backgroundColor: theme.colors.secondary }]}
+            onPress={() => saveTags(tags.filter(existing => existing !== tag))}
+          >
+            <Text style={[styles.tagText, { color: theme.colors.text }]}>{tag}</Text>
+            <Ionicons name="close" size={14} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TextInput
+        style={[styles.input, { color: theme.colors.text, backgroundColor: theme.colors.secondary }]}
+        value={tagInput}
+        onChangeText={setTagInput}
+        onSubmitEditing={() => handleAddTag(tagInput)}
+        placeholder="Add a tag, e.g. sci-fi-comfort"
+        placeholderTextColor={theme.colors.textDisabled}
+        autoCapitalize="none"
+        returnKeyType="done"
+        blurOnSubmit={false}
+      />
+
+      {suggestions.length > 0 && (
+        <View style={styles.tags}>
+          {suggestions.map(tag => (
+            <TouchableOpacity
+              key={tag}
+              style={[styles.tag, { borderColor: theme.colors.border, borderWidth: 1 }]}
+              onPress={() => handleAddTag(tag)}
+            >
+              <Ionicons name="add" size={14} color={theme.colors.textSecondary} />
+              <Text style={[styles.tagText, { color: theme.colors.textSecondary }]}>{tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        style={[styles.input, styles.notesInput, { color: theme.colors.text, backgroundColor: theme.colors.secondary }]}
+        value={notes}
+        onChangeText={setNotes}
+        onBlur={handleSaveNotes}
+        placeholder="Notes, e.g. recommended by Sam, skip season 2"
+        placeholderTextColor={theme.colors.textDisabled}
+        multiline
+        textAlignVertical="top"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    marginBottom: 24,
+    padding: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  tag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 14,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  tagText: {
+    fontSize: 13,
+    marginHorizontal: 2,
+  },
+  input: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  notesInput: {
+    minHeight: 80,
+    marginTop: 4,
+    marginBottom: 0,
+  },
+});
+
+export default ShowNotesEditor;
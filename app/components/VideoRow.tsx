@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import { useTheme } from '@/app/context/ThemeContext';
+import { Video } from '@/app/services/TMDBService';
+import VideoService, { VideoGroup } from '@/app/services/VideoService';
+import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
+import CachedImage from '@/components/CachedImage';
+
+interface VideoRowProps {
+  groups: VideoGroup[];
+  showId: number;
+  seasonNumber?: number;
+  style?: ViewStyle;
+}
+
+const THUMBNAIL_WIDTH = 220;
+const THUMBNAIL_HEIGHT = THUMBNAIL_WIDTH * 9 / 16;
+
+const GROUP_LABELS: Record<string, string> = {
+  Trailer: 'Trailers',
+  Teaser: 'Teasers',
+  Clip: 'Clips',
+  Featurette: 'Featurettes',
+};
+
+const VideoRow: React.FC<VideoRowProps> = ({ groups, showId, seasonNumber, style }) => {
+  const { theme } = useTheme();
+  const [selectedType, setSelectedType] = useState(groups[0]?.type);
+
+  if (groups.length === 0) return null;
+
+  const selectedGroup = groups.find(group => group.type === selectedType) ?? groups[0];
+
+  const handlePlay = async (video: Video) => {
+    const opened = await VideoService.play(video);
+    if (!opened) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not open this video',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    AnalyticsService.trackEvent(EventType.PLAY_VIDEO, {
+      showId,
+      seasonNumber,
+      videoType: video.type,
+      site: video.site,
+    });
+  };
+
+  const renderVideo = ({ item }: { item: Video }) => {
+    const thumbnailUrl = VideoService.getThumbnailUrl(item);
+
+    return (
+      <TouchableOpacity style={styles.videoItem} onPress={() => handlePlay(item)}>
+        <View style={[styles.thumbnail, { backgroundColor: theme.colors.card }]}>
+          {thumbnailUrl && (
+            <CachedImage uri={thumbnailUrl} style={styles.thumbnail} resizeMode="cover" />
+          )}
+          <View style={styles.playOverlay}>
+            <Ionicons name="play-circle" size={44} color="#FFFFFF" />
+          </View>
+        </View>
+        <Text style={[styles.videoName, { color: theme.colors.text }]} numberOfLines={2}>
+          {item.name}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={style}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>Videos</Text>
+
+      {groups.length > 1 && (
+        <View style={styles.tabs}>
+          {groups.map(group => {
+            const isSelected = group.type === selectedGroup.type;
+            return (
+              <TouchableOpacity
+                key={group.type}
+                style={[styles.tab, { backgroundColor: isSelected ? theme.colors.primary : theme.colors.secondary }]}
+                onPress={() => setSelectedType(group.type)}
+              >
+                <Text style={[styles.tabText, { color: isSelected ? '#FFFFFF' : theme.colors.text }]}>
+                  {GROUP_LABELS[group.type] ?? group.type} ({group.videos.length})
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <FlatList
+        horizontal
+        data={selectedGroup.videos}
+        keyExtractor={(item) => item.id}
+        renderItem={renderVideo}
+        showsHorizontalScrollIndicator={false}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  tabs: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  tab: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  tabText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  videoItem: {
+    width: THUMBNAIL_WIDTH,
+    marginRight: 12,
+  },
+  thumbnail: {
+    width: THUMBNAIL_WIDTH,
+    height: THUMBNAIL_HEIGHT,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  playOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.25)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  videoName: {
+    fontSize: 14,
+    marginTop: 6,
+  },
+});
+
+export default VideoRow;
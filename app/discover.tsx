@@ -0,0 +1,620 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import MetadataService from '@/app/services/MetadataService';
+import {
+  TVShow,
+  Genre,
+  DiscoverFilters,
+  DiscoverSortOption,
+  DiscoverStatus,
+  DISCOVER_STATUSES,
+} from '@/app/services/TMDBService';
+import DiscoverPresetService, { DiscoverPreset } from '@/app/services/DiscoverPresetService';
+import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
+import { useTheme } from '@/app/context/ThemeContext';
+import ErrorState from '@/app/components/ErrorState';
+import ShowCard from '@/components/ShowCard';
+import PaginatedListFooter from '@/components/PaginatedListFooter';
+import { usePaginatedList, PageFetcher } from '@/components/usePaginatedList';
+import { DISCOVER_CONFIG } from '@/constants/Config';
+
+const SORT_OPTIONS: { label: string; value: DiscoverSortOption }[] = [
+  { label: 'Popular', value: 'popularity.desc' },
+  { label: 'Top Rated', value: 'vote_average.desc' },
+  { label: 'Newest', value: 'first_air_date.desc' },
+  { label: 'Oldest', value: 'first_air_date.asc' },
+  { label: 'A-Z', value: 'name.asc' },
+];
+
+const RATING_OPTIONS = [undefined, 5, 6, 7, 8];
+const VOTE_COUNT_OPTIONS = [undefined, 50, 200, 1000];
+
+const RUNTIME_OPTIONS: { label: string; min?: number; max?: number }[] = [
+  { label: 'Any' },
+  { label: 'Under 30m', max: 30 },
+  { label: '30-60m', min: 30, max: 60 },
+  { label: 'Over 60m', min: 60 },
+];
+
+const DEFAULT_FILTERS: DiscoverFilters = { sortBy: 'popularity.desc' };
+
+const toggleValue = <T,>(values: T[] | undefined, value: T): T[] => {
+  const current = values || [];
+  return current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+};
+
+const countActiveFilters = (filters: DiscoverFilters): number => {
+  return [
+    filters.withGenres?.length,
+    filters.withoutGenres?.length,
+    filters.withNetworks?.length,
+    filters.firstAirDateFrom || filters.firstAirDateTo,
+    filters.minRating,
+    filters.minVoteCount,
+    filters.originalLanguage,
+    filters.minRuntime || filters.maxRuntime,
+    filters.statuses?.length,
+  ].filter(Boolean).length;
+};
+
+export default function DiscoverScreen() {
+  const { theme } = useTheme();
+  const [filters, setFilters] = useState<DiscoverFilters>(DEFAULT_FILTERS);
+  const [draftFilters, setDraftFilters] = useState<DiscoverFilters>(DEFAULT_FILTERS);
+  const [genres, setGenres] = useState<Genre[]>([]);
+  const [presets, setPresets] = useState<DiscoverPreset[]>([]);
+  const [isFilterModalVisible, setIsFilterModalVisible] = useState(false);
+  const [presetName, setPresetName] = useState('');
+
+  const fetchResults = useMemo<PageFetcher<TVShow>>(
+    () => (page, request) => MetadataService.discoverTVShows(filters, page, request),
+    [filters]
+  );
+  const {
+    items: results,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMoreError,
+    hasMore,
+    loadMore,
+    retryLoadMore,
+    reload,
+  } = usePaginatedList(fetchResults);
+
+  useEffect(() => {
+    loadGenres();
+    loadPresets();
+    AnalyticsService.trackScreenView('discover');
+  }, []);
+
+  const loadGenres = async () => {
+    try {
+      setGenres(await MetadataService.getTVGenres());
+    } catch (err) {
+      console.error('Error loading genres:', err);
+    }
+  };
+
+  const loadPresets = async () => {
+    setPresets(await DiscoverPresetService.getPresets());
+  };
+
+  const applyFilters = (nextFilters: DiscoverFilters) => {
+    setFilters(nextFilters);
+    AnalyticsService.trackEvent(EventType.DISCOVER_QUERY, {
+      sortBy: nextFilters.sortBy,
+      activeFilters: countActiveFilters(nextFilters),
+    });
+  };
+
+  const openFilters = () => {
+    setDraftFilters(filters);
+    setPresetName('');
+    setIsFilterModalVisible(true);
+  };
+
+  const handleApplyDraft = () => {
+    setIsFilterModalVisible(false);
+    applyFilters(draftFilters);
+  };
+
+  const handleSavePreset = async () => {
+    if (!presetName.trim()) return;
+
+    const preset = await DiscoverPresetService.savePreset(presetName, draftFilters);
+    if (!preset) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not save preset',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    await loadPresets();
+    setPresetName('');
+    setIsFilterModalVisible(false);
+    applyFilters(draftFilters);
+
+    Toast.show({
+      type: 'success',
+      text1: 'Preset saved',
+      text2: `"${preset.name}" is now in your presets`,
+      position: 'bottom',
+    });
+  };
+
+  const handleDeletePreset = (preset: DiscoverPreset) => {
+    Alert.alert('Delete Preset', `Delete "${preset.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await DiscoverPresetService.deletePreset(preset.id);
+          await loadPresets();
+        },
+      },
+    ]);
+  };
+
+  // Tapping a genre cycles between include, exclude and no filter
+  const cycleGenre = (genreId: number) => {
+    setDraftFilters(current => {
+      const isIncluded = current.withGenres?.includes(genreId);
+      const isExcluded = current.withoutGenres?.includes(genreId);
+
+      if (isIncluded) {
+        return {
+          ...current,
+          withGenres: current.withGenres?.filter(id => id !== genreId),
+          withoutGenres: [...(current.withoutGenres || []), genreId],
+        };
+      }
+      if (isExcluded) {
+        return { ...current, withoutGenres: current.withoutGenres?.filter(id => id !== genreId) };
+      }
+      return { ...current, withGenres: [...(current.withGenres || []), genreId] };
+    });
+  };
+
+  const setYear = (field: 'firstAirDateFrom' | 'firstAirDateTo', year: string) => {
+    const digits = year.replace(/[^0-9]/g, '').slice(0, 4);
+    const suffix = field === 'firstAirDateFrom' ? '-01-01' : '-12-31';
+    setDraftFilters(current => ({
+      ...current,
+      [field]: digits.length === 4 ? `${digits}${suffix}` : digits || undefined,
+    }));
+  };
+
+  const renderChip = (
+    label: string,
+    isSelected: boolean,
+    onPress: () => void,
+    selectedColor: string = theme.colors.primary
+  ) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, { backgroundColor: isSelected ? selectedColor : theme.colors.secondary }]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? '#FFFFFF' : theme.colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderFilterSection = (title: string, children: React.ReactNode, hint?: string) => (
+    <View style={styles.filterSection}>
+      <Text style={[styles.filterTitle, { color: theme.colors.text }]}>{title}</Text>
+      {hint && <Text style={[styles.filterHint, { color: theme.colors.textSecondary }]}>{hint}</Text>}
+      <View style={styles.chipRow}>{children}</View>
+    </View>
+  );
+
+  const renderHeader = () => (
+    <View>
+      {presets.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.presetRow}
+        >
+          {presets.map(preset => (
+            <TouchableOpacity
+              key={preset.id}
+              style={[styles.chip, { backgroundColor: theme.colors.card }]}
+              onPress={() => applyFilters(preset.filters)}
+              onLongPress={() => handleDeletePreset(preset)}
+            >
+              <Ionicons name="bookmark-outline" size={14} color={theme.colors.primary} />
+              <Text style={[styles.chipText, styles.presetText, { color: theme.colors.text }]}>{preset.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.presetRow}
+      >
+        {SORT_OPTIONS.map(option =>
+          renderChip(option.label, (filters.sortBy ?? 'popularity.desc') === option.value, () =>
+            applyFilters({ ...filters, sortBy: option.value })
+          )
+        )}
+      </ScrollView>
+    </View>
+  );
+
+  const renderFilterModal = () => {
+    const activeRuntime = RUNTIME_OPTIONS.find(
+      option => option.min === draftFilters.minRuntime && option.max === draftFilters.maxRuntime
+    );
+
+    return (
+      <Modal
+        visible={isFilterModalVisible}
+        animationType="slide"
+        onRequestClose={() => setIsFilterModalVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.colors.background }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: theme.colors.border }]}>
+            <TouchableOpacity onPress={() => setIsFilterModalVisible(false)}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+            <Text style={[styles.modalTitle, { color: theme.colors.text }]}>Filters</Text>
+            <TouchableOpacity onPress={() => setDraftFilters({ sortBy: draftFilters.sortBy })}>
+              <Text style={[styles.resetText, { color: theme.colors.primary }]}>Reset</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.modalContent}>
+            {renderFilterSection(
+              'Genres',
+              genres.map(genre => {
+                const isExcluded = !!draftFilters.withoutGenres?.includes(genre.id);
+                const isIncluded = !!draftFilters.withGenres?.includes(genre.id);
+                return renderChip(
+                  isExcluded ? `- ${genre.name}` : genre.name,
+                  isIncluded || isExcluded,
+                  () => cycleGenre(genre.id),
+                  isExcluded ? theme.colors.error : theme.colors.primary
+                );
+              }),
+              'Tap once to include, twice to exclude'
+            )}
+
+            {renderFilterSection(
+              'Networks',
+              DISCOVER_CONFIG.NETWORKS.map(network =>
+                renderChip(network.name, !!draftFilters.withNetworks?.includes(network.id), () =>
+                  setDraftFilters(current => ({ ...current, withNetworks: toggleValue(current.withNetworks, network.id) }))
+                )
+              )
+            )}
+
+            <View style={styles.filterSection}>
+              <Text style={[styles.filterTitle, { color: theme.colors.text }]}>First Aired</Text>
+              <View style={styles.yearRow}>
+                <TextInput
+                  style={[styles.yearInput, { color: theme.colors.text, backgroundColor: theme.colors.secondary }]}
+                  placeholder="From year"
+                  placeholderTextColor={theme.colors.textDisabled}
+                  keyboardType="number-pad"
+                  maxLength={4}
+                  value={draftFilters.firstAirDateFrom?.slice(0, 4) ?? ''}
+                  onChangeText={(text) => setYear('firstAirDateFrom', text)}
+                />
+                <Text style={[styles.yearSeparator, { color: theme.colors.textSecondary }]}>to</Text>
+                <TextInput
+                  style={[styles.yearInput, { color: theme.colors.text, backgroundColor: theme.colors.secondary }]}
+                  placeholder="To year"
+                  placeholderTextColor={theme.colors.textDisabled}
+                  keyboardType="number-pad"
+                  maxLength={4}
+                  value={draftFilters.firstAirDateTo?.slice(0, 4) ?? ''}
+                  onChangeText={(text) => setYear('firstAirDateTo', text)}
+                />
+              </View>
+            </View>
+
+            {renderFilterSection(
+              'Minimum Rating',
+              RATING_OPTIONS.map(rating =>
+                renderChip(rating ? `${rating}+` : 'Any', draftFilters.minRating === rating, () =>
+                  setDraftFilters(current => ({ ...current, minRating: rating }))
+                )
+              )
+            )}
+
+            {renderFilterSection(
+              'Minimum Votes',
+              VOTE_COUNT_OPTIONS.map(count =>
+                renderChip(count ? `${count}+` : 'Any', draftFilters.minVoteCount === count, () =>
+                  setDraftFilters(current => ({ ...current, minVoteCount: count }))
+                )
+              )
+            )}
+
+            {renderFilterSection(
+              'Original Language',
+              [
+                renderChip('Any', !draftFilters.originalLanguage, () =>
+                  setDraftFilters(current => ({ ...current, originalLanguage: undefined }))
+                ),
+                ...DISCOVER_CONFIG.LANGUAGES.map(language =>
+                  renderChip(language.name, draftFilters.originalLanguage === language.code, () =>
+                    setDraftFilters(current => ({ ...current, originalLanguage: language.code }))
+                  )
+                ),
+              ]
+            )}
+
+            {renderFilterSection(
+              'Episode Runtime',
+              RUNTIME_OPTIONS.map(option =>
+                renderChip(option.label, activeRuntime === option, () =>
+                  setDraftFilters(current => ({ ...current, minRuntime: option.min, maxRuntime: option.max }))
+                )
+              )
+            )}
+
+            {renderFilterSection(
+              'Status',
+              (Object.keys(DISCOVER_STATUSES) as DiscoverStatus[]).map(status =>
+                renderChip(status, !!draftFilters.statuses?.includes(status), () =>
+                  setDraftFilters(current => ({ ...current, statuses: toggleValue(current.statuses, status) }))
+                )
+              )
+            )}
+
+            <View style={styles.filterSection}>
+              <Text style={[styles.filterTitle, { color: theme.colors.text }]}>Save as Preset</Text>
+              <View style={styles.yearRow}>
+                <TextInput
+                  style={[styles.presetInput, { color: theme.colors.text, backgroundColor: theme.colors.secondary }]}
+                  placeholder="Preset name"
+                  placeholderTextColor={theme.colors.textDisabled}
+                  value={presetName}
+                  onChangeText={setPresetName}
+                />
+                <TouchableOpacity
+                  style={[styles.saveButton, { backgroundColor: theme.colors.secondary }]}
+                  onPress={handleSavePreset}
+                  disabled={!presetName.trim()}
+                >
+                  <Text style={[styles.buttonText, { color: theme.colors.text }]}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.applyButton, { backgroundColor: theme.colors.primary }]}
+            onPress={handleApplyDraft}
+          >
+            <Text style={[styles.buttonText, { color: '#FFFFFF' }]}>Show Results</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    );
+  };
+
+  const activeFilterCount = countActiveFilters(filters);
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Discover',
+          headerStyle: {
+            backgroundColor: theme.colors.card,
+          },
+          headerTintColor: theme.colors.text,
+          headerRight: () => (
+            <TouchableOpacity style={styles.headerButton} onPress={openFilters}>
+              <Ionicons name="options-outline" size={24} color={theme.colors.text} />
+              {activeFilterCount > 0 && (
+                <View style={[styles.filterBadge, { backgroundColor: theme.colors.primary }]}>
+                  <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          ),
+        }}
+      />
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {error ? (
+          <ErrorState
+            error={error}
+            fallbackMessage="Failed to load shows. Please try again."
+            onRetry={() => reload()}
+            onWorkOffline={() => reload('cache-only')}
+          />
+        ) : (
+          <FlatList
+            data={isLoading ? [] : results}
+            keyExtractor={(item) => item.id.toString()}
+            numColumns={2}
+            columnWrapperStyle={styles.column}
+            renderItem={({ item }) => <ShowCard show={item} />}
+            ListHeaderComponent={renderHeader}
+            ListEmptyComponent={
+              isLoading ? (
+                <ActivityIndicator size="large" color={theme.colors.primary} style={styles.loader} />
+              ) : (
+                <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+                  No shows match these filters
+                </Text>
+              )
+            }
+            ListFooterComponent={
+              <PaginatedListFooter
+                isLoadingMore={isLoadingMore}
+                hasMore={hasMore}
+                loadMoreError={loadMoreError}
+                onRetry={retryLoadMore}
+                itemCount={results.length}
+              />
+            }
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            contentContainerStyle={styles.listContent}
+          />
+        )}
+      </View>
+      {renderFilterModal()}
+      <Toast />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: 24,
+  },
+  column: {
+    justifyContent: 'space-around',
+    paddingHorizontal: 8,
+  },
+  presetRow: {
+    paddingHorizontal: 12,
+    paddingTop: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  presetText: {
+    marginLeft: 4,
+  },
+  headerButton: {
+    paddingHorizontal: 8,
+  },
+  filterBadge: {
+    position: 'absolute',
+    top: -4,
+    right: 2,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  filterBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  loader: {
+    marginTop: 48,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 48,
+    fontSize: 16,
+  },
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 48,
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  resetText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  modalContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  filterSection: {
+    marginBottom: 20,
+  },
+  filterTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  filterHint: {
+    fontSize: 12,
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  yearRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  yearInput: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+  },
+  yearSeparator: {
+    marginHorizontal: 12,
+  },
+  presetInput: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    marginRight: 8,
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  applyButton: {
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,618 @@
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  Modal,
+  Dimensions,
+} from 'react-native';
+import { useLocalSearchParams, Stack, Link, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import MetadataService from '@/app/services/MetadataService';
+import {
+  Episode,
+  EpisodeCrewMember,
+  EpisodeDetails,
+  EpisodeGuestStar,
+  ImageFile,
+} from '@/app/services/TMDBService';
+import { CachePolicy } from '@/app/services/ResponseCacheService';
+import { isAbortError } from '@/app/services/TMDBError';
+import AnalyticsService from '@/app/services/AnalyticsService';
+import { useTheme } from '@/app/context/ThemeContext';
+import CachedImage from '@/components/CachedImage';
+import { SkeletonDetails } from '@/app/components/SkeletonLoader';
+import ErrorState from '@/app/components/ErrorState';
+
+const { width } = Dimensions.get('window');
+const STILL_WIDTH = 240;
+const STILL_HEIGHT = STILL_WIDTH * 9 / 16;
+
+interface EpisodeRef {
+  season: number;
+  episode: number;
+}
+
+// Writing credits come as Writer, Teleplay, Story and so on, so people are deduplicated
+const uniqueCrew = (crew: EpisodeCrewMember[], matches: (member: EpisodeCrewMember) => boolean) => {
+  return crew
+    .filter(matches)
+    .filter((member, index, all) => all.findIndex(other => other.id === member.id) === index);
+};
+
+export default function EpisodeDetailsScreen() {
+  const { theme } = useTheme();
+  const { id, season, episode } = useLocalSearchParams<{ id: string; season: string; episode: string }>();
+  const [details, setDetails] = useState<EpisodeDetails | null>(null);
+  const [showName, setShowName] = useState('');
+  const [seasonCount, setSeasonCount] = useState(0);
+  const [seasonEpisodes, setSeasonEpisodes] = useState<Episode[]>([]);
+  const [previousSeasonFinale, setPreviousSeasonFinale] = useState<number | null>(null);
+  const [guestStars, setGuestStars] = useState<EpisodeGuestStar[]>([]);
+  const [crew, setCrew] = useState<EpisodeCrewMember[]>([]);
+  const [stills, setStills] = useState<ImageFile[]>([]);
+  const [selectedStill, setSelectedStill] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  // Cancels in-flight requests when the screen unmounts
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  const loadData = useCallback(async (cachePolicy: CachePolicy = 'stale-while-revalidate') => {
+    if (!id || !season || !episode) {
+      setError(new Error('Missing required parameters. Please go back and try again.'));
+      setIsLoading(false);
+      setIsRefreshing(false);
+      return;
+    }
+
+    try {
+      const showId = parseInt(id);
+      const seasonNumber = parseInt(season);
+      const episodeNumber = parseInt(episode);
+
+      if (isNaN(showId) || isNaN(seasonNumber) || isNaN(episodeNumber)) {
+        throw new Error('Invalid show ID, season or episode number');
+      }
+
+      setError(null);
+
+      const episodeDetails = await MetadataService.getEpisodeDetails(showId, seasonNumber, episodeNumber, {
+        cachePolicy,
+        onRevalidate: setDetails,
+        signal: abortControllerRef.current?.signal,
+      });
+      setDetails(episodeDetails);
+      setGuestStars(episodeDetails.guest_stars);
+      setCrew(episodeDetails.crew);
+
+      AnalyticsService.trackScreenView('episode-details', {
+        showId: showId.toString(),
+        seasonNumber: seasonNumber.toString(),
+        episodeNumber: episodeNumber.toString(),
+      });
+
+      // Credits, stills and neighbouring episodes load without holding up the screen
+      loadCredits(showId, seasonNumber, episodeNumber, cachePolicy);
+      loadStills(showId, seasonNumber, episodeNumber, cachePolicy);
+      loadNavigation(showId, seasonNumber, episodeNumber, cachePolicy);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading episode details:', err);
+      setError(err);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [id, season, episode]);
+
+  // The credits endpoint lists guest stars and crew more completely than the episode itself
+  const loadCredits = async (showId: number, seasonNumber: number, episodeNumber: number, cachePolicy: CachePolicy) => {
+    try {
+      const credits = await MetadataService.getEpisodeCredits(showId, seasonNumber, episodeNumber, {
+        cachePolicy,
+        signal: abortControllerRef.current?.signal,
+      });
+      if (credits.guest_stars.length > 0) setGuestStars(credits.guest_stars);
+      if (credits.crew.length > 0) setCrew(credits.crew);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading episode credits:', err);
+    }
+  };
+
+  const loadStills = async (showId: number, seasonNumber: number, episodeNumber: number, cachePolicy: CachePolicy) => {
+    try {
+      setStills(await MetadataService.getEpisodeImages(showId, seasonNumber, episodeNumber, {
+        cachePolicy,
+        signal: abortControllerRef.current?.signal,
+      }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading episode stills:', err);
+      setStills([]);
+    }
+  };
+
+  const loadNavigation = async (showId: number, seasonNumber: number, episodeNumber: number, cachePolicy: CachePolicy) => {
+    const signal = abortControllerRef.current?.signal;
+
+    try {
+      const [show, currentSeason] = await Promise.all([
+        MetadataService.getTVShowDetails(showId, { cachePolicy, signal }),
+        MetadataService.getSeasonDetails(showId, seasonNumber, { cachePolicy, signal }),
+      ]);
+      setShowName(show.name);
+      setSeasonCount(show.number_of_seasons);
+      setSeasonEpisodes(currentSeason.episodes || []);
+
+      // Going back from a premiere lands on the previous season's finale
+      const isPremiere = (currentSeason.episodes || [])[0]?.episode_number === episodeNumber;
+      if (isPremiere && seasonNumber > 1) {
+        const previousSeason = await MetadataService.getSeasonDetails(showId, seasonNumber - 1, { cachePolicy, signal });
+        const finale = previousSeason.episodes?.[previousSeason.episodes.length - 1];
+        setPreviousSeasonFinale(finale ? finale.episode_number : null);
+      }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading episode navigation:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadData('network-only');
+  };
+
+  const getAdjacentEpisodes = (): { previous: EpisodeRef | null; next: EpisodeRef | null } => {
+    if (!details) return { previous: null, next: null };
+
+    const seasonNumber = details.season_number;
+    const index = seasonEpisodes.findIndex(item => item.episode_number === details.episode_number);
+    if (index === -1) return { previous: null, next: null };
+
+    const previous = index > 0
+      ? { season: seasonNumber, episode: seasonEpisodes[index - 1].episode_number }
+      : previousSeasonFinale !== null
+        ? { season: seasonNumber - 1, episode: previousSeasonFinale }
+        : null;
+
+    const next = index < seasonEpisodes.length - 1
+      ? { season: seasonNumber, episode: seasonEpisodes[index + 1].episode_number }
+      : seasonNumber < seasonCount
+        ? { season: seasonNumber + 1, episode: 1 }
+        : null;
+
+    return { previous, next };
+  };
+
+  // Replaces the screen so paging through a season doesn't pile up the back stack
+  const goToEpisode = (target: EpisodeRef) => {
+    router.replace({
+      pathname: '/episode-details',
+      params: { id, season: target.season.toString(), episode: target.episode.toString() },
+    });
+  };
+
+  const formatDate = (dateString: string) => {
+    if (!dateString) return 'TBA';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const formatRuntime = (minutes?: number) => {
+    if (!minutes) return '';
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+  };
+
+  const formatEpisodeCode = (ref: EpisodeRef) => {
+    return `S${ref.season.toString().padStart(2, '0')}E${ref.episode.toString().padStart(2, '0')}`;
+  };
+
+  const renderPeople = (title: string, people: EpisodeCrewMember[]) => {
+    if (people.length === 0) return null;
+
+    return (
+      <View style={styles.creditRow}>
+        <Text style={[styles.creditLabel, { color: theme.colors.textSecondary }]}>{title}</Text>
+        <View style={styles.creditNames}>
+          {people.map((person, index) => (
+            <Link
+              key={person.id}
+              href={{ pathname: '/person-details', params: { id: person.id.toString() } }}
+              asChild
+            >
+              <TouchableOpacity>
+                <Text style={[styles.creditName, { color: theme.colors.primary }]}>
+                  {person.name}{index < people.length - 1 ? ', ' : ''}
+                </Text>
+              </TouchableOpacity>
+            </Link>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderGuestStars = () => {
+    if (guestStars.length === 0) return null;
+
+    const sortedGuestStars = [...guestStars].sort((a, b) => a.order - b.order);
+
+    return (
+      <Animated.View style={styles.section} entering={FadeInDown.duration(500).delay(300)}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Guest Stars</Text>
+        <FlatList
+          horizontal
+          data={sortedGuestStars}
+          keyExtractor={(item) => item.credit_id}
+          showsHorizontalScrollIndicator={false}
+          renderItem={({ item }) => (
+            <Link href={{ pathname: '/person-details', params: { id: item.id.toString() } }} asChild>
+              <TouchableOpacity style={styles.personItem}>
+                {item.profile_path ? (
+                  <CachedImage
+                    uri={MetadataService.getImageUrl(item.profile_path, 'w185')}
+                    style={styles.personImage}
+                    resizeMode="cover"
+                  />
+                ) : (
+                  <View style={[styles.personImage, styles.placeholder, { backgroundColor: theme.colors.card }]}>
+                    <Ionicons name="person" size={32} color={theme.colors.textSecondary} />
+                  </View>
+                )}
+                <Text style={[styles.personName, { color: theme.colors.text }]} numberOfLines={2}>
+                  {item.name}
+                </Text>
+                {item.character ? (
+                  <Text style={[styles.personCharacter, { color: theme.colors.textSecondary }]} numberOfLines={2}>
+                    {item.character}
+                  </Text>
+                ) : null}
+              </TouchableOpacity>
+            </Link>
+          )}
+        />
+      </Animated.View>
+    );
+  };
+
+  const renderStills = () => {
+    if (stills.length === 0) return null;
+
+    return (
+      <Animated.View style={styles.section} entering={FadeInDown.duration(500).delay(400)}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Stills ({stills.length})</Text>
+        <FlatList
+          horizontal
+          data={stills}
+          keyExtractor={(item) => item.file_path}
+          showsHorizontalScrollIndicator={false}
+          renderItem={({ item, index }) => (
+            <TouchableOpacity onPress={() => setSelectedStill(index)}>
+              <CachedImage
+                uri={MetadataService.getImageUrl(item.file_path, 'w300')}
+                style={styles.still}
+                resizeMode="cover"
+              />
+            </TouchableOpacity>
+          )}
+        />
+      </Animated.View>
+    );
+  };
+
+  const renderStillViewer = () => (
+    <Modal
+      visible={selectedStill !== null}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={() => setSelectedStill(null)}
+    >
+      <View style={styles.viewerOverlay}>
+        <TouchableOpacity style={styles.viewerClose} onPress={() => setSelectedStill(null)}>
+          <Ionicons name="close" size={28} color="#FFFFFF" />
+        </TouchableOpacity>
+        {selectedStill !== null && (
+          <FlatList
+            horizontal
+            pagingEnabled
+            data={stills}
+            keyExtractor={(item) => item.file_path}
+            initialScrollIndex={selectedStill}
+            getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+            showsHorizontalScrollIndicator={false}
+            renderItem={({ item }) => (
+              <View style={styles.viewerPage}>
+                <CachedImage
+                  uri={MetadataService.getImageUrl(item.file_path, 'original')}
+                  style={{ width, height: width / (item.aspect_ratio || 16 / 9) }}
+                  resizeMode="contain"
+                />
+              </View>
+            )}
+          />
+        )}
+      </View>
+    </Modal>
+  );
+
+  const renderNavigation = () => {
+    const { previous, next } = getAdjacentEpisodes();
+    if (!previous && !next) return null;
+
+    return (
+      <View style={styles.navigation}>
+        {previous ? (
+          <TouchableOpacity
+            style={[styles.navButton, { backgroundColor: theme.colors.card }]}
+            onPress={() => goToEpisode(previous)}
+          >
+            <Ionicons name="chevron-back" size={20} color={theme.colors.text} />
+            <Text style={[styles.navText, { color: theme.colors.text }]}>{formatEpisodeCode(previous)}</Text>
+          </TouchableOpacity>
+        ) : <View />}
+        {next ? (
+          <TouchableOpacity
+            style={[styles.navButton, { backgroundColor: theme.colors.card }]}
+            onPress={() => goToEpisode(next)}
+          >
+            <Text style={[styles.navText, { color: theme.colors.text }]}>{formatEpisodeCode(next)}</Text>
+            <Ionicons name="chevron-forward" size={20} color={theme.colors.text} />
+          </TouchableOpacity>
+        ) : <View />}
+      </View>
+    );
+  };
+
+  if (isLoading && !isRefreshing) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <SkeletonDetails />
+      </View>
+    );
+  }
+
+  if (error || !details) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <ErrorState
+          error={error}
+          fallbackMessage={error instanceof Error ? error.message : 'Episode not found'}
+          onRetry={() => loadData()}
+          onGoBack={() => router.back()}
+          onWorkOffline={() => loadData('cache-only')}
+        />
+      </View>
+    );
+  }
+
+  const heroPath = details.still_path || stills[0]?.file_path;
+  const directors = uniqueCrew(crew, member => member.job === 'Director');
+  const writers = uniqueCrew(crew, member => member.department === 'Writing');
+  const episodeCode = formatEpisodeCode({ season: details.season_number, episode: details.episode_number });
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: showName ? `${showName} · ${episodeCode}` : episodeCode,
+          headerStyle: {
+            backgroundColor: theme.colors.card,
+          },
+          headerTintColor: theme.colors.text,
+        }}
+      />
+      <ScrollView
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={theme.colors.primary}
+          />
+        }
+      >
+        <Animated.View entering={FadeIn.duration(600)}>
+          {heroPath ? (
+            <CachedImage
+              uri={MetadataService.getImageUrl(heroPath, 'w780')}
+              style={styles.hero}
+              resizeMode="cover"
+            />
+          ) : (
+            <View style={[styles.hero, styles.placeholder, { backgroundColor: theme.colors.card }]}>
+              <Ionicons name="film-outline" size={48} color={theme.colors.textSecondary} />
+            </View>
+          )}
+        </Animated.View>
+
+        <View style={styles.body}>
+          <Text style={[styles.episodeCode, { color: theme.colors.primary }]}>{episodeCode}</Text>
+          <Text style={[styles.title, { color: theme.colors.text }]}>{details.name || 'Untitled Episode'}</Text>
+
+          <View style={styles.metaRow}>
+            <Text style={[styles.metaText, { color: theme.colors.textSecondary }]}>
+              {formatDate(details.air_date)}
+            </Text>
+            {details.runtime ? (
+              <Text style={[styles.metaText, { color: theme.colors.textSecondary }]}>
+                {' · '}{formatRuntime(details.runtime)}
+              </Text>
+            ) : null}
+            {details.vote_count > 0 && (
+              <Text style={[styles.metaText, { color: theme.colors.textSecondary }]}>
+                {' · '}★ {details.vote_average.toFixed(1)} ({details.vote_count} vote{details.vote_count === 1 ? '' : 's'})
+              </Text>
+            )}
+          </View>
+
+          <Animated.View style={styles.section} entering={FadeInDown.duration(500).delay(200)}>
+            <Text style={[styles.overview, { color: details.overview ? theme.colors.text : theme.colors.textSecondary }]}>
+              {details.overview || 'No overview available'}
+            </Text>
+          </Animated.View>
+
+          {(directors.length > 0 || writers.length > 0) && (
+            <View style={styles.section}>
+              {renderPeople(directors.length === 1 ? 'Director' : 'Directors', directors)}
+              {renderPeople(writers.length === 1 ? 'Writer' : 'Writers', writers)}
+            </View>
+          )}
+
+          {renderGuestStars()}
+          {renderStills()}
+          {renderNavigation()}
+        </View>
+      </ScrollView>
+      {renderStillViewer()}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingBottom: 40,
+  },
+  hero: {
+    width,
+    height: width * 9 / 16,
+  },
+  placeholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  body: {
+    padding: 16,
+  },
+  episodeCode: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  metaText: {
+    fontSize: 14,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  overview: {
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  creditRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  creditLabel: {
+    width: 80,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  creditNames: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  creditName: {
+    fontSize: 14,
+  },
+  personItem: {
+    width: 100,
+    marginRight: 12,
+    alignItems: 'center',
+  },
+  personImage: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    marginBottom: 8,
+  },
+  personName: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  personCharacter: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  still: {
+    width: STILL_WIDTH,
+    height: STILL_HEIGHT,
+    borderRadius: 8,
+    marginRight: 12,
+  },
+  viewerOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.95)',
+  },
+  viewerClose: {
+    position: 'absolute',
+    top: 48,
+    right: 16,
+    zIndex: 1,
+    padding: 8,
+  },
+  viewerPage: {
+    width,
+    justifyContent: 'center',
+  },
+  navigation: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  navButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+  },
+  navText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginHorizontal: 4,
+  },
+});
@@ -0,0 +1,477 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  SectionList,
+  ActivityIndicator,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import ExternalImportService, {
+  EXTERNAL_IMPORTERS,
+  ShowMatch,
+  getImporter,
+} from '@/app/services/ExternalImportService';
+import { ExternalImporterId, ExternalShow } from '@/app/services/importers/ExternalImporter';
+import { BackupFormatError } from '@/app/services/WatchlistBackupService';
+import MetadataService from '@/app/services/MetadataService';
+import { TVShow } from '@/app/services/TMDBService';
+import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
+import { useTheme } from '@/app/context/ThemeContext';
+
+type Step = 'source' | 'matching' | 'review';
+
+// How many search results to offer for a show that needs review
+const SEARCH_RESULTS = 5;
+
+const describeShow = (show: ExternalShow) => (show.year ? `${show.title} (${show.year})` : show.title);
+
+const describeIds = (show: ExternalShow) =>
+  [
+    show.ids.imdb && `IMDb ${show.ids.imdb}`,
+    show.ids.tvdb && `TheTVDB ${show.ids.tvdb}`,
+    show.ids.tmdb && `TMDB ${show.ids.tmdb}`,
+  ].filter(Boolean).join(' · ') || 'No ids in the file';
+
+interface ReviewRowProps {
+  external: ExternalShow;
+  onChoose: (show: TVShow) => void;
+  onSkip: () => void;
+}
+
+// A show the importer couldn't match, with a search to pick the right one by hand
+function ReviewRow({ external, onChoose, onSkip }: ReviewRowProps) {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState(external.title);
+  const [results, setResults] = useState<TVShow[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const search = async () => {
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    try {
+      const response = await MetadataService.searchTVShows(query.trim());
+      setResults(response.results.slice(0, SEARCH_RESULTS));
+    } catch (error) {
+      console.error('Error searching for imported show:', error);
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Search failed. Please try again.',
+        position: 'bottom',
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.colors.card }]}>
+      <View style={styles.cardHeader}>
+        <View style={styles.cardInfo}>
+          <Text style={[styles.cardTitle, { color: theme.colors.text }]} numberOfLines={2}>
+            {describeShow(external)}
+          </Text>
+          <Text style={[styles.cardSubtitle, { color: theme.colors.textSecondary }]}>{describeIds(external)}</Text>
+        </View>
+        <TouchableOpacity onPress={onSkip} hitSlop={8}>
+          <Text style={[styles.linkText, { color: theme.colors.textSecondary }]}>Skip</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchRow}>
+        <TextInput
+          style={[styles.searchInput, { color: theme.colors.text, backgroundColor: theme.colors.secondary }]}
+          value={query}
+          onChangeText={setQuery}
+          onSubmitEditing={search}
+          placeholder="Search TMDB"
+          placeholderTextColor={theme.colors.textSecondary}
+          returnKeyType="search"
+        />
+        <TouchableOpacity style={styles.searchButton} onPress={search} disabled={isSearching}>
+          {isSearching ? (
+            <ActivityIndicator size="small" color={theme.colors.primary} />
+          ) : (
+            <Ionicons name="search" size={20} color={theme.colors.primary} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {results?.length === 0 && (
+        <Text style={[styles.cardSubtitle, { color: theme.colors.textSecondary }]}>No shows found</Text>
+      )}
+      {results?.map(show => (
+        <TouchableOpacity
+          key={show.id}
+          style={[styles.result, { borderTopColor: theme.colors.border }]}
+          onPress={() => onChoose(show)}
+        >
+          <Text style={[styles.resultText, { color: theme.colors.text }]} numberOfLines={1}>
+            {show.name}
+            {show.first_air_date ? ` (${show.first_air_date.slice(0, 4)})` : ''}
+          </Text>
+          <Ionicons name="add-circle-outline" size={20} color={theme.colors.primary} />
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+export default function ImportShowsScreen() {
+  const { theme } = useTheme();
+  const [importerId, setImporterId] = useState<ExternalImporterId>('trakt');
+  const [text, setText] = useState('');
+  const [step, setStep] = useState<Step>('source');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [matched, setMatched] = useState<ShowMatch[]>([]);
+  const [unmatched, setUnmatched] = useState<ExternalShow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importer = getImporter(importerId);
+
+  useEffect(() => {
+    AnalyticsService.trackScreenView('import-shows');
+  }, []);
+
+  const handleFindShows = async () => {
+    setError(null);
+
+    let shows: ExternalShow[];
+    try {
+      shows = importer.parse(text.trim());
+    } catch (parseError) {
+      console.error('Error reading import:', parseError);
+      setError(parseError instanceof BackupFormatError ? parseError.message : "Couldn't read that file");
+      return;
+    }
+
+    if (shows.length === 0) {
+      setError(`No shows found. ${importer.name} exports to use: ${importer.fileHint}`);
+      return;
+    }
+
+    setStep('matching');
+    setProgress({ done: 0, total: shows.length });
+    try {
+      const result = await ExternalImportService.matchShows(shows, (done, total) => setProgress({ done, total }));
+      setMatched(result.matched);
+      setUnmatched(result.unmatched);
+      setStep('review');
+    } catch (matchError) {
+      console.error('Error matching imported shows:', matchError);
+      setError("Couldn't reach TMDB to match your shows. Check your connection and try again.");
+      setStep('source');
+    }
+  };
+
+  const chooseMatch = (external: ExternalShow, show: TVShow) => {
+    setUnmatched(current => current.filter(item => item !== external));
+    setMatched(current => [{ external, show }, ...current]);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    const result = await ExternalImportService.importMatches(matched);
+    setIsImporting(false);
+
+    if (!result) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not import your shows',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    AnalyticsService.trackEvent(EventType.IMPORT_WATCHLIST, {
+      type: importerId,
+      added: result.added,
+      updated: result.updated,
+      episodes: result.episodes,
+      skipped: unmatched.length,
+    });
+    Toast.show({
+      type: 'success',
+      text1: `Imported from ${importer.name}`,
+      text2: `${result.added} added, ${result.updated} updated` +
+        (result.episodes > 0 ? ` · ${result.episodes} episodes marked watched` : ''),
+      position: 'bottom',
+    });
+    router.back();
+  };
+
+  const renderSource = () => (
+    <View style={styles.content}>
+      <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Import From</Text>
+      <View style={styles.chips}>
+        {EXTERNAL_IMPORTERS.map(option => {
+          const isSelected = option.id === importerId;
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, { backgroundColor: isSelected ? theme.colors.primary : theme.colors.secondary }]}
+              onPress={() => setImporterId(option.id)}
+            >
+              <Text style={[styles.chipText, { color: isSelected ? '#FFFFFF' : theme.colors.text }]}>{option.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+        Paste the contents of {importer.fileHint}. Shows are matched to TMDB by their ids; any that can't be matched
+        can be searched for by hand before importing.
+      </Text>
+
+      <TextInput
+        style={[styles.pasteInput, { color: theme.colors.text, backgroundColor: theme.colors.card }]}
+        value={text}
+        onChangeText={setText}
+        placeholder={`Paste your ${importer.name} export here`}
+        placeholderTextColor={theme.colors.textSecondary}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {error && <Text style={[styles.error, { color: theme.colors.error }]}>{error}</Text>}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, { backgroundColor: theme.colors.primary }, !text.trim() && styles.disabled]}
+        onPress={handleFindShows}
+        disabled={!text.trim()}
+      >
+        <Text style={styles.primaryButtonText}>Find Shows</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderReview = () => (
+    <SectionList<ShowMatch | ExternalShow>
+      sections={[
+        { key: 'review', title: `Needs Review (${unmatched.length})`, data: unmatched },
+        { key: 'matched', title: `Matched (${matched.length})`, data: matched },
+      ]}
+      // Review rows hold their own search state, so they need keys that survive rows being removed
+      keyExtractor={(item, index) =>
+        'show' in item ? `match-${item.show.id}-${index}` : `review-${item.title}-${describeIds(item)}`
+      }
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+      stickySectionHeadersEnabled={false}
+      renderSectionHeader={({ section }) =>
+        section.data.length > 0 ? (
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>{section.title}</Text>
+        ) : null
+      }
+      renderItem={({ item }) => {
+        if (!('show' in item)) {
+          return (
+            <ReviewRow
+              external={item}
+              onChoose={show => chooseMatch(item, show)}
+              onSkip={() => setUnmatched(current => current.filter(external => external !== item))}
+            />
+          );
+        }
+
+        return (
+          <View style={[styles.card, styles.cardHeader, { backgroundColor: theme.colors.card }]}>
+            <View style={styles.cardInfo}>
+              <Text style={[styles.cardTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                {item.show.name}
+              </Text>
+              <Text style={[styles.cardSubtitle, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                {describeShow(item.external)}
+                {item.external.watched.length > 0 ? ` · ${item.external.watched.length} episodes watched` : ''}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => setMatched(current => current.filter(match => match !== item))}
+              hitSlop={8}
+            >
+              <Ionicons name="close" size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+        );
+      }}
+      ListFooterComponent={
+        <>
+          {unmatched.length > 0 && (
+            <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+              Shows still needing review are skipped when you import.
+            </Text>
+          )}
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              { backgroundColor: theme.colors.primary },
+              (matched.length === 0 || isImporting) && styles.disabled,
+            ]}
+            onPress={handleImport}
+            disabled={matched.length === 0 || isImporting}
+          >
+            {isImporting ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                Import {matched.length} {matched.length === 1 ? 'Show' : 'Shows'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </>
+      }
+    />
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Import Shows',
+          headerStyle: {
+            backgroundColor: theme.colors.card,
+          },
+          headerTintColor: theme.colors.text,
+        }}
+      />
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {step === 'source' && renderSource()}
+        {step === 'matching' && (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+            <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+              Matching {progress.done} of {progress.total} shows...
+            </Text>
+          </View>
+        )}
+        {step === 'review' && renderReview()}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  pasteInput: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    minHeight: 160,
+    maxHeight: 300,
+    textAlignVertical: 'top',
+  },
+  error: {
+    fontSize: 13,
+    marginTop: 12,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  searchInput: {
+    flex: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  searchButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  result: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    marginTop: 4,
+  },
+  resultText: {
+    flex: 1,
+    fontSize: 14,
+    marginRight: 8,
+  },
+});
@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { StyleSheet, View, Text, FlatList, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Link, Stack, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import RatingService, {
+  Rating,
+  RatingSort,
+  RatingTargetType,
+  formatStars,
+  sortRatings,
+} from '@/app/services/RatingService';
+import MetadataService from '@/app/services/MetadataService';
+import AnalyticsService from '@/app/services/AnalyticsService';
+import { useTheme } from '@/app/context/ThemeContext';
+import CachedImage from '@/components/CachedImage';
+
+const SORT_LABELS: Record<RatingSort, string> = {
+  score_desc: 'Highest',
+  score_asc: 'Lowest',
+  recent: 'Recent',
+};
+
+const TYPE_LABELS: Record<RatingTargetType | 'all', string> = {
+  all: 'All',
+  show: 'Shows',
+  season: 'Seasons',
+  episode: 'Episodes',
+};
+
+const describeTarget = (rating: Rating): string => {
+  switch (rating.type) {
+    case 'show':
+      return 'Show';
+    case 'season':
+      return rating.name || `Season ${rating.seasonNumber}`;
+    case 'episode':
+      return `S${rating.seasonNumber}E${rating.episodeNumber}${rating.name ? ` · ${rating.name}` : ''}`;
+  }
+};
+
+const getHref = (rating: Rating) => {
+  switch (rating.type) {
+    case 'show':
+      return { pathname: '/show-details' as const, params: { id: rating.showId.toString() } };
+    case 'season':
+      return {
+        pathname: '/season-details' as const,
+        params: { id: rating.showId.toString(), season: rating.seasonNumber!.toString() },
+      };
+    case 'episode':
+      return {
+        pathname: '/episode-details' as const,
+        params: {
+          id: rating.showId.toString(),
+          season: rating.seasonNumber!.toString(),
+          episode: rating.episodeNumber!.toString(),
+        },
+      };
+  }
+};
+
+export default function MyRatingsScreen() {
+  const { theme } = useTheme();
+  const [ratings, setRatings] = useState<Rating[]>([]);
+  const [sort, setSort] = useState<RatingSort>('score_desc');
+  const [type, setType] = useState<RatingTargetType | 'all'>('all');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    AnalyticsService.trackScreenView('my-ratings');
+  }, []);
+
+  const loadRatings = useCallback(async () => {
+    setRatings(await RatingService.getRatings());
+    setIsLoading(false);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRatings();
+    }, [loadRatings])
+  );
+
+  useEffect(() => {
+    return RatingService.subscribe(() => loadRatings());
+  }, [loadRatings]);
+
+  const visibleRatings = sortRatings(type === 'all' ? ratings : ratings.filter(rating => rating.type === type), sort);
+
+  const renderChips = <T extends string>(labels: Record<T, string>, selected: T, onSelect: (option: T) => void) => (
+    <View style={styles.chips}>
+      {(Object.keys(labels) as T[]).map(option => {
+        const isSelected = option === selected;
+        return (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, { backgroundColor: isSelected ? theme.colors.primary : theme.colors.secondary }]}
+            onPress={() => onSelect(option)}
+          >
+            <Text style={[styles.chipText, { color: isSelected ? '#FFFFFF' : theme.colors.text }]}>
+              {labels[option]}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: Rating }) => (
+    <Link href={getHref(item)} asChild>
+      <TouchableOpacity style={[styles.item, { backgroundColor: theme.colors.card }]}>
+        <CachedImage
+          uri={item.posterPath ? MetadataService.getImageUrl(item.posterPath, 'w154') : ''}
+          style={styles.poster}
+          resizeMode="cover"
+        />
+        <View style={styles.itemInfo}>
+          <Text style={[styles.showName, { color: theme.colors.text }]} numberOfLines={1}>
+            {item.showName}
+          </Text>
+          <Text style={[styles.target, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+            {describeTarget(item)}
+          </Text>
+          <Text style={[styles.ratedAt, { color: theme.colors.textSecondary }]}>
+            Rated {new Date(item.ratedAt).toLocaleDateString()}
+            {item.history.length > 0
+              ? ` · was ${item.history[item.history.length - 1].score}/10`
+              : ''}
+          </Text>
+        </View>
+        <View style={styles.scoreContainer}>
+          <Text style={[styles.score, { color: theme.colors.text }]}>{item.score}</Text>
+          <Text style={styles.stars}>{formatStars(item.score)}</Text>
+        </View>
+      </TouchableOpacity>
+    </Link>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'My Ratings',
+          headerStyle: {
+            backgroundColor: theme.colors.card,
+          },
+          headerTintColor: theme.colors.text,
+        }}
+      />
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {isLoading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={visibleRatings}
+            keyExtractor={(item) => `${item.type}-${item.showId}-${item.seasonNumber}-${item.episodeNumber}`}
+            renderItem={renderItem}
+            contentContainerStyle={styles.list}
+            ListHeaderComponent={
+              ratings.length > 0 ? (
+                <View style={styles.header}>
+                  {renderChips(TYPE_LABELS, type, setType)}
+                  {renderChips(SORT_LABELS, sort, setSort)}
+                </View>
+              ) : null
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <Ionicons name="star-outline" size={64} color={theme.colors.textSecondary} />
+                <Text style={[styles.emptyStateText, { color: theme.colors.text }]}>
+                  {ratings.length > 0 ? `No rated ${TYPE_LABELS[type].toLowerCase()} yet` : 'No ratings yet'}
+                </Text>
+                <Text style={[styles.emptyStateSubtext, { color: theme.colors.textSecondary }]}>
+                  Rate shows, seasons and episodes from their details pages
+                </Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    padding: 16,
+  },
+  header: {
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  poster: {
+    width: 60,
+    height: 90,
+  },
+  itemInfo: {
+    flex: 1,
+    paddingHorizontal: 12,
+  },
+  showName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  target: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  ratedAt: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  scoreContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 16,
+  },
+  score: {
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  stars: {
+    color: '#FFD700',
+    fontSize: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+  },
+  emptyStateText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateSubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,378 @@
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { useLocalSearchParams, Stack, Link, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import MetadataService from '@/app/services/MetadataService';
+import { Person, PersonTVCredit, PersonTVCredits } from '@/app/services/TMDBService';
+import { CachePolicy } from '@/app/services/ResponseCacheService';
+import { isAbortError } from '@/app/services/TMDBError';
+import AnalyticsService from '@/app/services/AnalyticsService';
+import { TMDB_CONFIG } from '@/constants/Config';
+import { useTheme } from '@/app/context/ThemeContext';
+import CachedImage from '@/components/CachedImage';
+import { SkeletonDetails } from '@/app/components/SkeletonLoader';
+import ErrorState from '@/app/components/ErrorState';
+
+const BIOGRAPHY_PREVIEW_LINES = 6;
+
+interface CombinedCredit {
+  show: PersonTVCredit;
+  roles: string[];
+  episodeCount: number;
+}
+
+// A person can act in and produce the same show, so credits are merged per show
+const combineCredits = (credits: PersonTVCredits): CombinedCredit[] => {
+  const byShow = new Map<number, CombinedCredit>();
+
+  for (const credit of [...credits.cast, ...credits.crew]) {
+    const role = credit.character ? `as ${credit.character}` : credit.job;
+    const existing = byShow.get(credit.id);
+
+    if (existing) {
+      if (role && !existing.roles.includes(role)) existing.roles.push(role);
+      existing.episodeCount = Math.max(existing.episodeCount, credit.episode_count);
+    } else {
+      byShow.set(credit.id, { show: credit, roles: role ? [role] : [], episodeCount: credit.episode_count });
+    }
+  }
+
+  // Newest first; shows without a premiere date are usually unannounced, so they go last
+  return [...byShow.values()].sort((a, b) => {
+    const dateA = a.show.first_air_date || '';
+    const dateB = b.show.first_air_date || '';
+    if (!dateA || !dateB) return dateA ? -1 : dateB ? 1 : 0;
+    return dateB.localeCompare(dateA);
+  });
+};
+
+export default function PersonDetailsScreen() {
+  const { theme } = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [person, setPerson] = useState<Person | null>(null);
+  const [credits, setCredits] = useState<CombinedCredit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [isBiographyExpanded, setIsBiographyExpanded] = useState(false);
+  // Cancels in-flight requests when the screen unmounts
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  const loadData = useCallback(async (cachePolicy: CachePolicy = 'stale-while-revalidate') => {
+    if (!id) {
+      setError(new Error('Person ID is missing. Please go back and try again.'));
+      setIsLoading(false);
+      setIsRefreshing(false);
+      return;
+    }
+
+    try {
+      const personId = parseInt(id);
+      if (isNaN(personId)) {
+        throw new Error('Invalid person ID');
+      }
+
+      setError(null);
+
+      const [details, tvCredits] = await Promise.all([
+        MetadataService.getPersonDetails(personId, {
+          cachePolicy,
+          onRevalidate: setPerson,
+          signal: abortControllerRef.current?.signal,
+        }),
+        MetadataService.getPersonTVCredits(personId, {
+          cachePolicy,
+          onRevalidate: (data) => setCredits(combineCredits(data)),
+          signal: abortControllerRef.current?.signal,
+        }),
+      ]);
+      setPerson(details);
+      setCredits(combineCredits(tvCredits));
+
+      AnalyticsService.trackScreenView('person-details', {
+        personId: personId.toString(),
+        personName: details.name,
+      });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading person details:', err);
+      setError(err);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadData('network-only');
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const renderFacts = () => {
+    if (!person) return null;
+
+    const facts = [
+      { icon: 'briefcase-outline' as const, text: person.known_for_department },
+      { icon: 'calendar-outline' as const, text: person.birthday ? `Born ${formatDate(person.birthday)}` : '' },
+      { icon: 'flower-outline' as const, text: person.deathday ? `Died ${formatDate(person.deathday)}` : '' },
+      { icon: 'location-outline' as const, text: person.place_of_birth || '' },
+    ].filter(fact => fact.text);
+
+    return facts.map(fact => (
+      <View key={fact.icon} style={styles.factRow}>
+        <Ionicons name={fact.icon} size={16} color={theme.colors.textSecondary} />
+        <Text style={[styles.factText, { color: theme.colors.textSecondary }]}>{fact.text}</Text>
+      </View>
+    ));
+  };
+
+  const renderBiography = () => {
+    if (!person?.biography) return null;
+
+    return (
+      <Animated.View style={styles.section} entering={FadeInDown.duration(500).delay(200)}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Biography</Text>
+        <Text
+          style={[styles.biography, { color: theme.colors.text }]}
+          numberOfLines={isBiographyExpanded ? undefined : BIOGRAPHY_PREVIEW_LINES}
+        >
+          {person.biography}
+        </Text>
+        <TouchableOpacity onPress={() => setIsBiographyExpanded(!isBiographyExpanded)}>
+          <Text style={[styles.readMore, { color: theme.colors.primary }]}>
+            {isBiographyExpanded ? 'Show less' : 'Read more'}
+          </Text>
+        </TouchableOpacity>
+      </Animated.View>
+    );
+  };
+
+  const renderCredit = (credit: CombinedCredit) => (
+    <Link
+      key={credit.show.id}
+      href={{ pathname: '/show-details', params: { id: credit.show.id.toString() } }}
+      asChild
+    >
+      <TouchableOpacity style={[styles.creditItem, { backgroundColor: theme.colors.card }]}>
+        {credit.show.poster_path ? (
+          <CachedImage
+            uri={MetadataService.getImageUrl(credit.show.poster_path, TMDB_CONFIG.POSTER_SIZES.SMALL)}
+            style={styles.creditPoster}
+            resizeMode="cover"
+          />
+        ) : (
+          <View style={[styles.creditPoster, styles.creditPlaceholder, { backgroundColor: theme.colors.secondary }]}>
+            <Ionicons name="tv-outline" size={24} color={theme.colors.textSecondary} />
+          </View>
+        )}
+        <View style={styles.creditInfo}>
+          <Text style={[styles.creditTitle, { color: theme.colors.text }]} numberOfLines={1}>
+            {credit.show.name}
+          </Text>
+          {credit.roles.length > 0 && (
+            <Text style={[styles.creditRole, { color: theme.colors.textSecondary }]} numberOfLines={2}>
+              {credit.roles.join(', ')}
+            </Text>
+          )}
+          <Text style={[styles.creditMeta, { color: theme.colors.textDisabled }]}>
+            {[
+              credit.show.first_air_date ? new Date(credit.show.first_air_date).getFullYear() : '',
+              credit.episodeCount > 0 ? `${credit.episodeCount} episode${credit.episodeCount === 1 ? '' : 's'}` : '',
+            ].filter(Boolean).join(' • ')}
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={theme.colors.textSecondary} />
+      </TouchableOpacity>
+    </Link>
+  );
+
+  if (isLoading && !isRefreshing) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <SkeletonDetails />
+      </View>
+    );
+  }
+
+  if (error || !person) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <ErrorState
+          error={error}
+          fallbackMessage={error instanceof Error ? error.message : 'Person not found'}
+          onRetry={() => loadData()}
+          onGoBack={() => router.back()}
+          onWorkOffline={() => loadData('cache-only')}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: person.name,
+          headerStyle: {
+            backgroundColor: theme.colors.card,
+          },
+          headerTintColor: theme.colors.text,
+        }}
+      />
+      <ScrollView
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={theme.colors.primary}
+          />
+        }
+      >
+        <Animated.View style={styles.header} entering={FadeIn.duration(600)}>
+          {person.profile_path ? (
+            <CachedImage
+              uri={MetadataService.getImageUrl(person.profile_path, 'h632')}
+              style={styles.profileImage}
+              resizeMode="cover"
+            />
+          ) : (
+            <View style={[styles.profileImage, styles.creditPlaceholder, { backgroundColor: theme.colors.card }]}>
+              <Ionicons name="person" size={48} color={theme.colors.textSecondary} />
+            </View>
+          )}
+          <View style={styles.headerInfo}>
+            <Text style={[styles.name, { color: theme.colors.text }]}>{person.name}</Text>
+            {renderFacts()}
+          </View>
+        </Animated.View>
+
+        {renderBiography()}
+
+        {credits.length > 0 && (
+          <Animated.View style={styles.section} entering={FadeInDown.duration(500).delay(400)}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              TV Credits ({credits.length})
+            </Text>
+            {credits.map(renderCredit)}
+          </Animated.View>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    marginBottom: 24,
+  },
+  profileImage: {
+    width: 120,
+    height: 180,
+    borderRadius: 8,
+  },
+  headerInfo: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  factRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  factText: {
+    fontSize: 14,
+    marginLeft: 8,
+    flexShrink: 1,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  biography: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  readMore: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  creditItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  creditPoster: {
+    width: 50,
+    height: 75,
+    borderRadius: 4,
+  },
+  creditPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  creditInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  creditTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 2,
+  },
+  creditRole: {
+    fontSize: 13,
+    marginBottom: 2,
+  },
+  creditMeta: {
+    fontSize: 12,
+  },
+});
@@ -8,7 +8,8 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import TMDBService, { TVShow } from '../services/TMDBService';
+import MetadataService from '../services/MetadataService';
+import { TVShow } from '../services/TMDBService';
 
 const SearchScreen = () => {
   const [searchQuery, setSearchQuery] = useState('');
@@ -20,7 +21,7 @@ const SearchScreen = () => {
     if (query.length > 2) {
       setIsLoading(true);
       try {
-        const response = await TMDBService.searchTVShows(query);
+        const response = await MetadataService.searchTVShows(query);
         setResults(response.results);
       } catch (error) {
         console.error('Search error:', error);
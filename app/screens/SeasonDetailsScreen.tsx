@@ -9,7 +9,8 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/types';
-import TMDBService, { Season, Episode } from '../services/TMDBService';
+import MetadataService from '../services/MetadataService';
+import { Season, Episode } from '../services/TMDBService';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'SeasonDetails'>;
 
@@ -24,7 +25,7 @@ const SeasonDetailsScreen = ({ route }: Props) => {
 
   const loadSeasonDetails = async () => {
     try {
-      const details = await TMDBService.getSeasonDetails(tvId, seasonNumber);
+      const details = await MetadataService.getSeasonDetails(tvId, seasonNumber);
       setSeason(details);
     } catch (error) {
       console.error('Failed to load season details:', error);
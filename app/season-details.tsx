@@ -1,29 +1,64 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import {
   StyleSheet,
   View,
   Text,
   FlatList,
-  TouchableOpacity,
   ActivityIndicator,
   RefreshControl,
+  TouchableOpacity,
 } from 'react-native';
 import { useLocalSearchParams, Stack, Link, router } from 'expo-router';
-import TMDBService, { Season, Episode } from '@/app/services/TMDBService';
+import { Ionicons } from '@expo/vector-icons';
+import Toast from 'react-native-toast-message';
+import MetadataService from '@/app/services/MetadataService';
+import { Season, Episode } from '@/app/services/TMDBService';
+import { CachePolicy } from '@/app/services/ResponseCacheService';
+import { isAbortError } from '@/app/services/TMDBError';
 import { TMDB_CONFIG } from '@/constants/Config';
 import CachedImage from '@/components/CachedImage';
+import ErrorState from '@/app/components/ErrorState';
+import VideoRow from '@/app/components/VideoRow';
+import VideoService, { VideoGroup } from '@/app/services/VideoService';
+import WatchProgressService, { WatchedEpisodes } from '@/app/services/WatchProgressService';
+import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
+import { RatingTarget } from '@/app/services/RatingService';
+import RatingModal from '@/app/components/RatingModal';
+import { useShowRatings } from '@/components/useShowRatings';
 
 export default function SeasonDetailsScreen() {
   const { id, season } = useLocalSearchParams<{ id: string; season: string }>();
   const [seasonDetails, setSeasonDetails] = useState<Season | null>(null);
   const [showName, setShowName] = useState<string>('');
+  const [videoGroups, setVideoGroups] = useState<VideoGroup[]>([]);
+  const [watchedEpisodes, setWatchedEpisodes] = useState<WatchedEpisodes>({});
+  // The season or episode being rated, with the name shown in the rating dialog
+  const [ratingTarget, setRatingTarget] = useState<{ target: RatingTarget; name: string } | null>(null);
+  const { getScore } = useShowRatings(id ? parseInt(id) : null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  // Cancels in-flight requests when the screen unmounts
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
 
-  const loadData = useCallback(async () => {
+  useEffect(() => {
+    const showId = parseInt(id);
+    return WatchProgressService.subscribe(async (changedShowId) => {
+      if (changedShowId === showId) {
+        setWatchedEpisodes(await WatchProgressService.getWatchedEpisodes(showId));
+      }
+    });
+  }, [id]);
+
+  const loadData = useCallback(async (cachePolicy: CachePolicy = 'stale-while-revalidate') => {
     if (!id || !season) {
-      setError('Missing required parameters. Please go back and try again.');
+      setError(new Error('Missing required parameters. Please go back and try again.'));
       setIsLoading(false);
       setIsRefreshing(false);
       return;
@@ -44,33 +79,56 @@ export default function SeasonDetailsScreen() {
       }
 
       // Load season details
-      const details = await TMDBService.getSeasonDetails(showId, seasonNumber);
+      const details = await MetadataService.getSeasonDetails(showId, seasonNumber, {
+        cachePolicy,
+        onRevalidate: setSeasonDetails,
+        signal: abortControllerRef.current?.signal,
+      });
       setSeasonDetails(details);
+      loadVideos(showId, seasonNumber, cachePolicy);
+      setWatchedEpisodes(await WatchProgressService.getWatchedEpisodes(showId));
 
       // Load show name
-      const showDetails = await TMDBService.getTVShowDetails(showId);
+      const showDetails = await MetadataService.getTVShowDetails(showId, {
+        cachePolicy,
+        signal: abortControllerRef.current?.signal,
+      });
       setShowName(showDetails.name);
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Error loading season details:', err);
-      setError('Failed to load season details. Please try again.');
+      setError(err);
     } finally {
       setIsLoading(false);
       setIsRefreshing(false);
     }
   }, [id, season]);
 
+  const loadVideos = async (showId: number, seasonNumber: number, cachePolicy: CachePolicy) => {
+    try {
+      setVideoGroups(await VideoService.getSeasonVideoGroups(showId, seasonNumber, {
+        cachePolicy,
+        signal: abortControllerRef.current?.signal,
+      }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading season videos:', err);
+      setVideoGroups([]);
+    }
+  };
+
   useEffect(() => {
     loadData();
   }, [loadData]);
 
   const handleRefresh = () => {
     setIsRefreshing(true);
-    loadData();
+    loadData('network-only');
   };
 
   const getImageUrl = (path: string | null) => {
     if (!path) return '';
-    return `${TMDB_CONFIG.IMAGE_BASE_URL}/${TMDB_CONFIG.POSTER_SIZES.MEDIUM}${path}`;
+    return MetadataService.getImageUrl(path, TMDB_CONFIG.POSTER_SIZES.MEDIUM);
   };
 
   const handleImageError = () => {
@@ -86,41 +144,123 @@ export default function SeasonDetailsScreen() {
     }
   };
 
-  const renderEpisode = ({ item }: { item: Episode }) => (
-    <View style={styles.episodeCard}>
-      {item.still_path ? (
-        <CachedImage
-          uri={getImageUrl(item.still_path)}
-          style={styles.episodeImage}
-          resizeMode="cover"
-          onError={handleImageError}
-        />
-      ) : (
-        <View style={styles.noImage}>
-          <Text style={styles.noImageText}>No Image</Text>
-        </View>
-      )}
+  const seasonWatched = watchedEpisodes[parseInt(season)] || {};
+  const isSeasonWatched = !!seasonDetails?.episodes?.length &&
+    seasonDetails.episodes.every(episode => !!seasonWatched[episode.episode_number]);
 
-      <View style={styles.episodeInfo}>
-        <Text style={styles.episodeNumber}>
-          Episode {item.episode_number}
-        </Text>
-        <Text style={styles.episodeName}>{item.name || 'Untitled Episode'}</Text>
-        <Text style={styles.episodeDate}>
-          {item.air_date || 'Air date unknown'}
+  const showWatchedError = () => {
+    Toast.show({
+      type: 'error',
+      text1: 'Error',
+      text2: 'Could not update watched episodes',
+      position: 'bottom',
+    });
+  };
+
+  const handleToggleWatched = async (episode: Episode) => {
+    const showId = parseInt(id);
+    const watched = !seasonWatched[episode.episode_number];
+    const success = await WatchProgressService.markEpisode(showId, episode.season_number, episode.episode_number, watched);
+    if (!success) {
+      showWatchedError();
+      return;
+    }
+
+    AnalyticsService.trackEvent(EventType.MARK_WATCHED, {
+      showId,
+      seasonNumber: episode.season_number,
+      episodeNumber: episode.episode_number,
+      scope: 'episode',
+      watched,
+    });
+  };
+
+  const handleToggleSeasonWatched = async () => {
+    const showId = parseInt(id);
+    const seasonNumber = parseInt(season);
+    const watched = !isSeasonWatched;
+    const success = await WatchProgressService.markSeason(showId, seasonNumber, watched, {
+      signal: abortControllerRef.current?.signal,
+    });
+    if (!success) {
+      showWatchedError();
+      return;
+    }
+
+    AnalyticsService.trackEvent(EventType.MARK_WATCHED, {
+      showId,
+      seasonNumber,
+      scope: 'season',
+      watched,
+    });
+  };
+
+  const renderUserRating = (target: RatingTarget, name: string) => {
+    const score = getScore(target);
+    return (
+      <TouchableOpacity style={styles.userRatingButton} onPress={() => setRatingTarget({ target, name })} hitSlop={8}>
+        <Text style={[styles.userRating, score === null && styles.userRatingEmpty]}>
+          {score === null ? 'Rate' : `You ${score}`}
         </Text>
-        {item.overview ? (
-          <Text style={styles.episodeOverview} numberOfLines={2}>
-            {item.overview}
-          </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEpisode = ({ item }: { item: Episode }) => (
+    <Link
+      href={{
+        pathname: '/episode-details',
+        params: { id, season: item.season_number.toString(), episode: item.episode_number.toString() },
+      }}
+      asChild
+    >
+      <TouchableOpacity style={styles.episodeCard}>
+        {item.still_path ? (
+          <CachedImage
+            uri={getImageUrl(item.still_path)}
+            style={styles.episodeImage}
+            resizeMode="cover"
+            onError={handleImageError}
+          />
         ) : (
-          <Text style={styles.noOverview}>No overview available</Text>
+          <View style={styles.noImage}>
+            <Text style={styles.noImageText}>No Image</Text>
+          </View>
         )}
-        <View style={styles.ratingContainer}>
-          <Text style={styles.rating}>★ {item.vote_average?.toFixed(1) || 'N/A'}</Text>
+
+        <View style={styles.episodeInfo}>
+          <Text style={styles.episodeNumber}>
+            Episode {item.episode_number}
+          </Text>
+          <Text style={styles.episodeName}>{item.name || 'Untitled Episode'}</Text>
+          <Text style={styles.episodeDate}>
+            {item.air_date || 'Air date unknown'}
+          </Text>
+          {item.overview ? (
+            <Text style={styles.episodeOverview} numberOfLines={2}>
+              {item.overview}
+            </Text>
+          ) : (
+            <Text style={styles.noOverview}>No overview available</Text>
+          )}
+          <View style={styles.ratingContainer}>
+            <Text style={styles.rating}>★ {item.vote_average?.toFixed(1) || 'N/A'}</Text>
+            {renderUserRating(
+              { type: 'episode', showId: parseInt(id), seasonNumber: item.season_number, episodeNumber: item.episode_number },
+              item.name
+            )}
+          </View>
         </View>
-      </View>
-    </View>
+
+        <TouchableOpacity style={styles.watchedButton} onPress={() => handleToggleWatched(item)}>
+          <Ionicons
+            name={seasonWatched[item.episode_number] ? 'checkmark-circle' : 'ellipse-outline'}
+            size={26}
+            color={seasonWatched[item.episode_number] ? '#e50914' : '#999999'}
+          />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Link>
   );
 
   if (isLoading && !isRefreshing) {
@@ -134,13 +274,13 @@ export default function SeasonDetailsScreen() {
   if (error || !seasonDetails) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error || 'Season details not found'}</Text>
-        <TouchableOpacity style={styles.backButton} onPress={handleBackPress}>
-          <Text style={styles.backButtonText}>Back to Show</Text>
-        </TouchableOpacity>
-        <TouchableOpacity style={styles.retryButton} onPress={loadData}>
-          <Text style={styles.retryButtonText}>Retry</Text>
-        </TouchableOpacity>
+        <ErrorState
+          error={error}
+          fallbackMessage={error instanceof Error ? error.message : 'Season details not found'}
+          onRetry={() => loadData()}
+          onGoBack={handleBackPress}
+          onWorkOffline={() => loadData('cache-only')}
+        />
       </View>
     );
   }
@@ -175,6 +315,12 @@ export default function SeasonDetailsScreen() {
               <Text style={styles.airDate}>
                 {seasonDetails.air_date ? `First aired: ${seasonDetails.air_date}` : ''}
               </Text>
+              <View style={styles.ratingContainer}>
+                {renderUserRating(
+                  { type: 'season', showId: parseInt(id), seasonNumber: seasonDetails.season_number },
+                  seasonDetails.name
+                )}
+              </View>
             </View>
           </View>
 
@@ -186,11 +332,33 @@ export default function SeasonDetailsScreen() {
           ) : null}
         </View>
 
-        <Text style={styles.episodesTitle}>Episodes</Text>
         <FlatList
           data={seasonDetails.episodes}
           keyExtractor={(item) => item.id.toString()}
           renderItem={renderEpisode}
+          ListHeaderComponent={
+            <>
+              <VideoRow
+                groups={videoGroups}
+                showId={parseInt(id)}
+                seasonNumber={seasonDetails.season_number}
+                style={styles.videosContainer}
+              />
+              <View style={styles.episodesHeader}>
+                <Text style={styles.episodesTitle}>Episodes</Text>
+                <TouchableOpacity style={styles.markSeasonButton} onPress={handleToggleSeasonWatched}>
+                  <Ionicons
+                    name={isSeasonWatched ? 'checkmark-done-circle' : 'checkmark-done-circle-outline'}
+                    size={20}
+                    color={isSeasonWatched ? '#e50914' : '#cccccc'}
+                  />
+                  <Text style={styles.markSeasonText}>
+                    {isSeasonWatched ? 'Mark season unwatched' : 'Mark season watched'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          }
           contentContainerStyle={styles.episodesList}
           ItemSeparatorComponent={() => <View style={styles.separator} />}
           refreshControl={
@@ -208,6 +376,12 @@ export default function SeasonDetailsScreen() {
           }
         />
       </View>
+      <RatingModal
+        target={ratingTarget?.target ?? null}
+        labels={{ showName, posterPath: seasonDetails.poster_path, name: ratingTarget?.name }}
+        title={`Rate ${ratingTarget?.name || 'this'}`}
+        onClose={() => setRatingTarget(null)}
+      />
     </>
   );
 }
@@ -225,39 +399,7 @@ const styles = StyleSheet.create({
   },
   errorContainer: {
     flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
     backgroundColor: '#121212',
-    padding: 16,
-  },
-  errorText: {
-    color: '#e50914',
-    fontSize: 16,
-    textAlign: 'center',
-    marginBottom: 20,
-  },
-  backButton: {
-    backgroundColor: '#333333',
-    paddingVertical: 12,
-    paddingHorizontal: 20,
-    borderRadius: 4,
-    marginBottom: 12,
-  },
-  backButtonText: {
-    color: '#ffffff',
-    fontSize: 16,
-    fontWeight: 'bold',
-  },
-  retryButton: {
-    backgroundColor: '#e50914',
-    paddingVertical: 12,
-    paddingHorizontal: 20,
-    borderRadius: 4,
-  },
-  retryButtonText: {
-    color: '#ffffff',
-    fontSize: 16,
-    fontWeight: 'bold',
   },
   header: {
     padding: 16,
@@ -295,6 +437,9 @@ const styles = StyleSheet.create({
   overviewContainer: {
     marginTop: 8,
   },
+  videosContainer: {
+    marginTop: 16,
+  },
   overviewTitle: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -306,11 +451,29 @@ const styles = StyleSheet.create({
     color: '#cccccc',
     lineHeight: 20,
   },
+  episodesHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   episodesTitle: {
     fontSize: 18,
     fontWeight: 'bold',
     color: '#ffffff',
-    margin: 16,
+    marginVertical: 16,
+  },
+  markSeasonButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  markSeasonText: {
+    color: '#cccccc',
+    fontSize: 14,
+    marginLeft: 6,
+  },
+  watchedButton: {
+    justifyContent: 'center',
+    paddingHorizontal: 12,
   },
   episodesList: {
     paddingHorizontal: 16,
@@ -369,8 +532,21 @@ const styles = StyleSheet.create({
     marginBottom: 4,
   },
   ratingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
     marginTop: 4,
   },
+  userRatingButton: {
+    marginLeft: 12,
+  },
+  userRating: {
+    fontSize: 12,
+    color: '#ffffff',
+    fontWeight: 'bold',
+  },
+  userRatingEmpty: {
+    color: '#999999',
+  },
   rating: {
     fontSize: 12,
     color: '#e50914',
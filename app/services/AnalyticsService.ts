@@ -12,11 +12,28 @@ export enum EventType {
   VIEW_SHOW_DETAILS = 'view_show_details',
   VIEW_SEASON_DETAILS = 'view_season_details',
   VIEW_SETTINGS = 'view_settings',
+  VIEW_DISCOVER = 'view_discover',
+  VIEW_SHOW_LIST = 'view_show_list',
+  VIEW_PERSON_DETAILS = 'view_person_details',
+  VIEW_EPISODE_DETAILS = 'view_episode_details',
+  VIEW_UP_NEXT = 'view_up_next',
+  VIEW_MY_RATINGS = 'view_my_ratings',
+  VIEW_IMPORT_SHOWS = 'view_import_shows',
   
   // User actions
   ADD_TO_WATCHLIST = 'add_to_watchlist',
   REMOVE_FROM_WATCHLIST = 'remove_from_watchlist',
   SEARCH_QUERY = 'search_query',
+  DISCOVER_QUERY = 'discover_query',
+  DISMISS_RECOMMENDATION = 'dismiss_recommendation',
+  PLAY_VIDEO = 'play_video',
+  MARK_WATCHED = 'mark_watched',
+  UPDATE_LISTS = 'update_lists',
+  CHANGE_WATCH_STATUS = 'change_watch_status',
+  EDIT_SHOW_NOTES = 'edit_show_notes',
+  RATE = 'rate',
+  EXPORT_WATCHLIST = 'export_watchlist',
+  IMPORT_WATCHLIST = 'import_watchlist',
   SET_NOTIFICATION = 'set_notification',
   CHANGE_THEME = 'change_theme',
   CHANGE_SETTINGS = 'change_settings',
@@ -138,6 +155,27 @@ class AnalyticsService {
       case 'settings':
         eventType = EventType.VIEW_SETTINGS;
         break;
+      case 'discover':
+        eventType = EventType.VIEW_DISCOVER;
+        break;
+      case 'show-list':
+        eventType = EventType.VIEW_SHOW_LIST;
+        break;
+      case 'person-details':
+        eventType = EventType.VIEW_PERSON_DETAILS;
+        break;
+      case 'episode-details':
+        eventType = EventType.VIEW_EPISODE_DETAILS;
+        break;
+      case 'up-next':
+        eventType = EventType.VIEW_UP_NEXT;
+        break;
+      case 'my-ratings':
+        eventType = EventType.VIEW_MY_RATINGS;
+        break;
+      case 'import-shows':
+        eventType = EventType.VIEW_IMPORT_SHOWS;
+        break;
       default:
         eventType = EventType.VIEW_HOME;
     }
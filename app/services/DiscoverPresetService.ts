@@ -0,0 +1,75 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DiscoverFilters } from './TMDBService';
+
+const DISCOVER_PRESETS_KEY = '@EpisodeAlerts:discoverPresets';
+
+export interface DiscoverPreset {
+  id: string;
+  name: string;
+  filters: DiscoverFilters;
+  createdAt: string;
+}
+
+class DiscoverPresetService {
+  private static instance: DiscoverPresetService;
+
+  private constructor() {}
+
+  public static getInstance(): DiscoverPresetService {
+    if (!DiscoverPresetService.instance) {
+      DiscoverPresetService.instance = new DiscoverPresetService();
+    }
+    return DiscoverPresetService.instance;
+  }
+
+  async getPresets(): Promise<DiscoverPreset[]> {
+    try {
+      const presetsJson = await AsyncStorage.getItem(DISCOVER_PRESETS_KEY);
+      return presetsJson ? JSON.parse(presetsJson) : [];
+    } catch (error) {
+      console.error('Error getting discover presets:', error);
+      return [];
+    }
+  }
+
+  // Saving under an existing name replaces that preset's filters
+  async savePreset(name: string, filters: DiscoverFilters): Promise<DiscoverPreset | null> {
+    try {
+      const trimmedName = name.trim();
+      const presets = await this.getPresets();
+      const existing = presets.find(preset => preset.name.toLowerCase() === trimmedName.toLowerCase());
+
+      const preset: DiscoverPreset = {
+        id: existing?.id ?? `preset_${Date.now()}`,
+        name: trimmedName,
+        filters,
+        createdAt: existing?.createdAt ?? new Date().toISOString(),
+      };
+
+      const updatedPresets = existing
+        ? presets.map(item => (item.id === existing.id ? preset : item))
+        : [...presets, preset];
+
+      await AsyncStorage.setItem(DISCOVER_PRESETS_KEY, JSON.stringify(updatedPresets));
+      return preset;
+    } catch (error) {
+      console.error('Error saving discover preset:', error);
+      return null;
+    }
+  }
+
+  async deletePreset(id: string): Promise<boolean> {
+    try {
+      const presets = await this.getPresets();
+      const updatedPresets = presets.filter(preset => preset.id !== id);
+
+      await AsyncStorage.setItem(DISCOVER_PRESETS_KEY, JSON.stringify(updatedPresets));
+      return true;
+    } catch (error) {
+      console.error('Error deleting discover preset:', error);
+      return false;
+    }
+  }
+}
+
+export default DiscoverPresetService.getInstance();
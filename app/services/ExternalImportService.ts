@@ -0,0 +1,151 @@
+import TMDBService, { ExternalSource, TVShow } from './TMDBService';
+import MetadataService from './MetadataService';
+import { isTMDBError } from './TMDBError';
+import WatchlistService, { WATCHLIST_VERSION, WatchlistEntry } from './WatchlistService';
+import WatchProgressService from './WatchProgressService';
+import { ExternalImporter, ExternalImporterId, ExternalShow, ExternalShowIds } from './importers/ExternalImporter';
+import { TraktImporter } from './importers/TraktImporter';
+import { TVTimeImporter } from './importers/TVTimeImporter';
+import { IMDbImporter } from './importers/IMDbImporter';
+
+export const EXTERNAL_IMPORTERS: ExternalImporter[] = [TraktImporter, TVTimeImporter, IMDbImporter];
+
+export const getImporter = (id: ExternalImporterId): ExternalImporter =>
+  EXTERNAL_IMPORTERS.find(importer => importer.id === id)!;
+
+export interface ShowMatch {
+  external: ExternalShow;
+  show: TVShow;
+}
+
+export interface MatchResult {
+  matched: ShowMatch[];
+  // Shows TMDB has no entry for under any of their ids, left for the user to search for
+  unmatched: ExternalShow[];
+}
+
+export interface ExternalImportResult {
+  added: number;
+  updated: number;
+  episodes: number;
+}
+
+// Without a date from the source, the first watched episode is the best guess at when the show was added
+const getAddedAt = (external: ExternalShow, now: string): string => {
+  const times = [external.addedAt, ...external.watched.map(episode => episode.watchedAt)].filter(
+    (time): time is string => !!time
+  );
+  return times.length > 0 ? times.reduce((earliest, time) => (time < earliest ? time : earliest)) : now;
+};
+
+// The entry is dated no later than the show was added, so merging never overrides a status
+// the user has set here since. Without refreshedAt, the snapshot is refreshed on the next sync.
+export const toWatchlistEntry = (match: ShowMatch, now = new Date().toISOString()): WatchlistEntry => {
+  const addedAt = getAddedAt(match.external, now);
+  return {
+    show: match.show,
+    addedAt,
+    updatedAt: addedAt,
+    source: 'import',
+    user: { status: match.external.status ?? 'watching', tags: [] },
+    listIds: [],
+  };
+};
+
+class ExternalImportService {
+  private static instance: ExternalImportService;
+
+  private constructor() {}
+
+  public static getInstance(): ExternalImportService {
+    if (!ExternalImportService.instance) {
+      ExternalImportService.instance = new ExternalImportService();
+    }
+    return ExternalImportService.instance;
+  }
+
+  // Tries the TMDB id first, then TMDB's /find with the IMDb and TheTVDB ids.
+  // Returns null when nothing matches; network and auth errors are thrown.
+  async findShow(ids: ExternalShowIds): Promise<TVShow | null> {
+    if (ids.tmdb) {
+      try {
+        return await MetadataService.getTVShowDetails(ids.tmdb);
+      } catch (error) {
+        if (!isTMDBError(error) || error.kind !== 'not-found') throw error;
+      }
+    }
+
+    const candidates: Array<[string, ExternalSource]> = [];
+    if (ids.imdb) {
+      candidates.push([ids.imdb, 'imdb_id']);
+    }
+    if (ids.tvdb) {
+      candidates.push([String(ids.tvdb), 'tvdb_id']);
+    }
+
+    for (const [externalId, source] of candidates) {
+      const response = await TMDBService.findByExternalId(externalId, source);
+      const match = response.tv_results[0];
+      if (match) {
+        return match;
+      }
+    }
+
+    return null;
+  }
+
+  // One show at a time so a long export doesn't trip TMDB's rate limit
+  async matchShows(
+    shows: ExternalShow[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<MatchResult> {
+    const result: MatchResult = { matched: [], unmatched: [] };
+
+    for (const [index, external] of shows.entries()) {
+      const show = await this.findShow(external.ids);
+      if (show) {
+        result.matched.push({ external, show });
+      } else {
+        result.unmatched.push(external);
+      }
+      onProgress?.(index + 1, shows.length);
+    }
+
+    return result;
+  }
+
+  // Merges the shows into the watchlist, then adds their watch history
+  async importMatches(matches: ShowMatch[]): Promise<ExternalImportResult | null> {
+    try {
+      const currentIds = new Set((await WatchlistService.getEntries()).map(entry => entry.show.id));
+      const now = new Date().toISOString();
+      const entries = matches.map(match => toWatchlistEntry(match, now));
+
+      const imported = await WatchlistService.importWatchlist(
+        { version: WATCHLIST_VERSION, entries, lists: [] },
+        'merge'
+      );
+      if (!imported) return null;
+
+      let episodes = 0;
+      for (const { external, show } of matches) {
+        if (external.watched.length === 0) continue;
+        if (await WatchProgressService.markEpisodes(show.id, external.watched)) {
+          episodes += external.watched.length;
+        }
+      }
+
+      const importedIds = new Set(matches.map(match => match.show.id));
+      return {
+        added: [...importedIds].filter(id => !currentIds.has(id)).length,
+        updated: [...importedIds].filter(id => currentIds.has(id)).length,
+        episodes,
+      };
+    } catch (error) {
+      console.error('Error importing shows:', error);
+      return null;
+    }
+  }
+}
+
+export default ExternalImportService.getInstance();
@@ -0,0 +1,177 @@
+import { NETWORK_CONFIG } from '../../constants/Config';
+
+export type RetryReason = 'network' | 'server' | 'rate-limit';
+
+export interface RetryEvent {
+  attempt: number;
+  delay: number;
+  reason: RetryReason;
+  status?: number;
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  // Injectable for tests so no real time passes
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
+  beforeAttempt?: () => Promise<void>;
+  onRetry?: (event: RetryEvent) => void;
+  // Stops retrying (and waiting between retries) once aborted
+  signal?: AbortSignal;
+}
+
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+
+const defaultSleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+
+    signal?.addEventListener('abort', done);
+  });
+};
+
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw signal.reason ?? new Error('The request was aborted');
+  }
+};
+
+// Exponential backoff with full jitter: a random delay between 0 and base * 2^attempt
+export const getBackoffDelay = (
+  attempt: number,
+  baseDelay: number = NETWORK_CONFIG.RETRY.BASE_DELAY,
+  maxDelay: number = NETWORK_CONFIG.RETRY.MAX_DELAY,
+  random: () => number = Math.random
+): number => {
+  const ceiling = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+  return Math.floor(random() * ceiling);
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null, now: number = Date.now()): number | null => {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return null;
+};
+
+export const fetchWithRetry = async (
+  doFetch: () => Promise<Response>,
+  options: RetryOptions = {}
+): Promise<Response> => {
+  const maxRetries = options.maxRetries ?? NETWORK_CONFIG.RETRY.MAX_RETRIES;
+  const baseDelay = options.baseDelay ?? NETWORK_CONFIG.RETRY.BASE_DELAY;
+  const maxDelay = options.maxDelay ?? NETWORK_CONFIG.RETRY.MAX_DELAY;
+  const sleep = options.sleep ?? defaultSleep;
+  const random = options.random ?? Math.random;
+  const now = options.now ?? Date.now;
+  const { signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    await options.beforeAttempt?.();
+    throwIfAborted(signal);
+
+    let response: Response;
+    try {
+      response = await doFetch();
+    } catch (error) {
+      if (signal?.aborted || attempt >= maxRetries) {
+        throw error;
+      }
+
+      const delay = getBackoffDelay(attempt, baseDelay, maxDelay, random);
+      options.onRetry?.({ attempt: attempt + 1, delay, reason: 'network' });
+      await sleep(delay, signal);
+      continue;
+    }
+
+    const isRateLimited = response.status === 429;
+    const isServerError = RETRYABLE_STATUSES.includes(response.status);
+
+    if ((!isRateLimited && !isServerError) || attempt >= maxRetries) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'), now());
+    // Waiting longer than the policy allows would stall every queued request; the caller
+    // turns the response into a rate-limit error that carries the Retry-After instead
+    if (retryAfter !== null && retryAfter > maxDelay) {
+      return response;
+    }
+    const delay = retryAfter ?? getBackoffDelay(attempt, baseDelay, maxDelay, random);
+
+    options.onRetry?.({
+      attempt: attempt + 1,
+      delay,
+      reason: isRateLimited ? 'rate-limit' : 'server',
+      status: response.status,
+    });
+    await sleep(delay, signal);
+  }
+};
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private capacity: number = NETWORK_CONFIG.RATE_LIMIT.BURST,
+    private refillPerSecond: number = NETWORK_CONFIG.RATE_LIMIT.REQUESTS_PER_SECOND,
+    private now: () => number = Date.now,
+    private sleep: (ms: number) => Promise<void> = defaultSleep
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+  }
+
+  // Reserves a token, waiting if the bucket is empty. Returns the time waited in ms.
+  public async take(): Promise<number> {
+    this.refill();
+    this.tokens -= 1;
+
+    if (this.tokens >= 0) {
+      return 0;
+    }
+
+    const wait = Math.ceil((-this.tokens / this.refillPerSecond) * 1000);
+    await this.sleep(wait);
+    return wait;
+  }
+
+  // Holds back every caller for at least delay ms, e.g. after a 429
+  public penalize(delay: number): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, -(delay / 1000) * this.refillPerSecond);
+  }
+
+  public getAvailableTokens(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  private refill(): void {
+    const current = this.now();
+    const elapsed = (current - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.lastRefill = current;
+  }
+}
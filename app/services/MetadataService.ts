@@ -0,0 +1,277 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_METADATA_PROVIDER } from '../../constants/Config';
+import TMDBService, {
+  AggregateCredits,
+  APIResponse,
+  ChangedShow,
+  ChangeGroup,
+  ChangesWindow,
+  DiscoverFilters,
+  EpisodeCredits,
+  EpisodeDetails,
+  EpisodeImagesResponse,
+  Genre,
+  ImageFile,
+  Person,
+  PersonTVCredits,
+  RequestOptions,
+  Season,
+  ShowChangesResponse,
+  TVShow,
+  Video,
+  VideosResponse,
+  WatchProvider,
+  WatchProvidersByRegion,
+  WatchProvidersResponse,
+} from './TMDBService';
+import { FixtureMetadataProvider } from './providers/FixtureMetadataProvider';
+import { TVmazeMetadataProvider } from './providers/TVmazeMetadataProvider';
+import type { MetadataProvider, MetadataProviderId } from './providers/MetadataProvider';
+
+const METADATA_PROVIDER_KEY = '@EpisodeAlerts:metadataProvider';
+const SHOW_PROVIDERS_KEY = '@EpisodeAlerts:showProviders';
+
+// Entry point screens use for show data. Delegates to the provider picked globally
+// or for a single show, or to the bundled fixtures when demo mode is on.
+class MetadataService implements MetadataProvider {
+  private static instance: MetadataService;
+  private providers: Record<MetadataProviderId, MetadataProvider> = {
+    tmdb: TMDBService,
+    tvmaze: new TVmazeMetadataProvider({ fallback: TMDBService, externalIds: TMDBService }),
+    fixtures: new FixtureMetadataProvider(),
+  };
+  private providerId: MetadataProviderId = DEFAULT_METADATA_PROVIDER;
+  private showProviders: Record<string, MetadataProviderId> = {};
+  private providerLoaded = false;
+  private callbacks: Array<(providerId: MetadataProviderId) => void> = [];
+
+  private constructor() {}
+
+  public static getInstance(): MetadataService {
+    if (!MetadataService.instance) {
+      MetadataService.instance = new MetadataService();
+    }
+    return MetadataService.instance;
+  }
+
+  public get id(): MetadataProviderId {
+    return this.providerId;
+  }
+
+  private async getProvider(): Promise<MetadataProvider> {
+    await this.loadProvider();
+    return this.providers[this.providerId];
+  }
+
+  // Demo mode wins over per-show choices so it never touches the network
+  private async getProviderForShow(showId: number): Promise<MetadataProvider> {
+    await this.loadProvider();
+    if (this.providerId === 'fixtures') {
+      return this.providers.fixtures;
+    }
+    return this.providers[this.showProviders[showId] ?? this.providerId];
+  }
+
+  private async loadProvider(): Promise<void> {
+    if (this.providerLoaded) return;
+
+    try {
+      const storedId = await AsyncStorage.getItem(METADATA_PROVIDER_KEY);
+      if (storedId && storedId in this.providers) {
+        this.providerId = storedId as MetadataProviderId;
+      }
+
+      const storedShowProviders = await AsyncStorage.getItem(SHOW_PROVIDERS_KEY);
+      if (storedShowProviders) {
+        this.showProviders = JSON.parse(storedShowProviders);
+      }
+    } catch (error) {
+      console.error('Error loading metadata provider:', error);
+    } finally {
+      this.providerLoaded = true;
+    }
+  }
+
+  public async getProviderId(): Promise<MetadataProviderId> {
+    await this.loadProvider();
+    return this.providerId;
+  }
+
+  public async setProvider(providerId: MetadataProviderId): Promise<void> {
+    try {
+      await AsyncStorage.setItem(METADATA_PROVIDER_KEY, providerId);
+      this.providerId = providerId;
+      this.providerLoaded = true;
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error saving metadata provider:', error);
+      throw error;
+    }
+  }
+
+  // Null means the show follows the global provider
+  public async getShowProviderId(showId: number): Promise<MetadataProviderId | null> {
+    await this.loadProvider();
+    return this.showProviders[showId] ?? null;
+  }
+
+  public async setShowProvider(showId: number, providerId: MetadataProviderId | null): Promise<void> {
+    await this.loadProvider();
+
+    try {
+      if (providerId) {
+        this.showProviders[showId] = providerId;
+      } else {
+        delete this.showProviders[showId];
+      }
+      await AsyncStorage.setItem(SHOW_PROVIDERS_KEY, JSON.stringify(this.showProviders));
+    } catch (error) {
+      console.error('Error saving show provider:', error);
+      throw error;
+    }
+  }
+
+  public async isDemoMode(): Promise<boolean> {
+    return (await this.getProviderId()) === 'fixtures';
+  }
+
+  // Screens reload their data when the provider changes
+  public subscribe(callback: (providerId: MetadataProviderId) => void): () => void {
+    this.callbacks.push(callback);
+
+    return () => {
+      this.callbacks = this.callbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  private notifyListeners(): void {
+    for (const callback of this.callbacks) {
+      callback(this.providerId);
+    }
+  }
+
+  public async getPopularTVShows(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return (await this.getProvider()).getPopularTVShows(page, options);
+  }
+
+  public async getTopRatedTVShows(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return (await this.getProvider()).getTopRatedTVShows(page, options);
+  }
+
+  public async getTVShowsAiringToday(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return (await this.getProvider()).getTVShowsAiringToday(page, options);
+  }
+
+  public async getTVShowDetails(id: number, options?: RequestOptions<TVShow>): Promise<TVShow> {
+    return (await this.getProviderForShow(id)).getTVShowDetails(id, options);
+  }
+
+  public async getSeasonDetails(tvId: number, seasonNumber: number, options?: RequestOptions<Season>): Promise<Season> {
+    return (await this.getProviderForShow(tvId)).getSeasonDetails(tvId, seasonNumber, options);
+  }
+
+  public async getEpisodeDetails(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeDetails>
+  ): Promise<EpisodeDetails> {
+    return (await this.getProviderForShow(tvId)).getEpisodeDetails(tvId, seasonNumber, episodeNumber, options);
+  }
+
+  public async getEpisodeCredits(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeCredits>
+  ): Promise<EpisodeCredits> {
+    return (await this.getProviderForShow(tvId)).getEpisodeCredits(tvId, seasonNumber, episodeNumber, options);
+  }
+
+  public async getEpisodeImages(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeImagesResponse>
+  ): Promise<ImageFile[]> {
+    return (await this.getProviderForShow(tvId)).getEpisodeImages(tvId, seasonNumber, episodeNumber, options);
+  }
+
+  public async searchTVShows(query: string, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return (await this.getProvider()).searchTVShows(query, page, options);
+  }
+
+  public async discoverTVShows(
+    filters: DiscoverFilters,
+    page = 1,
+    options?: RequestOptions<APIResponse<TVShow>>
+  ): Promise<APIResponse<TVShow>> {
+    return (await this.getProvider()).discoverTVShows(filters, page, options);
+  }
+
+  public async getRecommendations(id: number, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return (await this.getProviderForShow(id)).getRecommendations(id, page, options);
+  }
+
+  public async getSimilarTVShows(id: number, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return (await this.getProviderForShow(id)).getSimilarTVShows(id, page, options);
+  }
+
+  public async getAggregateCredits(id: number, options?: RequestOptions<AggregateCredits>): Promise<AggregateCredits> {
+    return (await this.getProviderForShow(id)).getAggregateCredits(id, options);
+  }
+
+  public async getPersonDetails(id: number, options?: RequestOptions<Person>): Promise<Person> {
+    return (await this.getProvider()).getPersonDetails(id, options);
+  }
+
+  public async getPersonTVCredits(id: number, options?: RequestOptions<PersonTVCredits>): Promise<PersonTVCredits> {
+    return (await this.getProvider()).getPersonTVCredits(id, options);
+  }
+
+  public async getVideos(id: number, options?: RequestOptions<VideosResponse>): Promise<Video[]> {
+    return (await this.getProviderForShow(id)).getVideos(id, options);
+  }
+
+  public async getSeasonVideos(tvId: number, seasonNumber: number, options?: RequestOptions<VideosResponse>): Promise<Video[]> {
+    return (await this.getProviderForShow(tvId)).getSeasonVideos(tvId, seasonNumber, options);
+  }
+
+  public async getWatchProviders(id: number, options?: RequestOptions<WatchProvidersResponse>): Promise<WatchProvidersByRegion> {
+    return (await this.getProviderForShow(id)).getWatchProviders(id, options);
+  }
+
+  public async getRegionWatchProviders(region: string, options?: RequestOptions<{ results: WatchProvider[] }>): Promise<WatchProvider[]> {
+    return (await this.getProvider()).getRegionWatchProviders(region, options);
+  }
+
+  public async getChangedShows(
+    window: ChangesWindow,
+    page?: number,
+    options?: RequestOptions<APIResponse<ChangedShow>>
+  ): Promise<APIResponse<ChangedShow>> {
+    return (await this.getProvider()).getChangedShows(window, page, options);
+  }
+
+  public async getShowChanges(
+    id: number,
+    window: ChangesWindow,
+    options?: RequestOptions<ShowChangesResponse>
+  ): Promise<ChangeGroup[]> {
+    return (await this.getProviderForShow(id)).getShowChanges(id, window, options);
+  }
+
+  public async getTVGenres(options?: RequestOptions<{ genres: Genre[] }>): Promise<Genre[]> {
+    return (await this.getProvider()).getTVGenres(options);
+  }
+
+  // Saved shows can come from any provider, and TVmaze stores full image URLs
+  public getImageUrl(path: string, size: string): string {
+    if (/^https?:\/\//.test(path)) {
+      return path;
+    }
+    return this.providers.tmdb.getImageUrl(path, size);
+  }
+}
+
+export default MetadataService.getInstance();
@@ -3,6 +3,7 @@ import * as Device from 'expo-device';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import { TVShow } from './TMDBService';
+import WatchlistService from './WatchlistService';
 
 const NOTIFICATIONS_ENABLED_KEY = '@EpisodeAlerts:notificationsEnabled';
 const NOTIFICATION_SCHEDULE_KEY = '@EpisodeAlerts:notificationSchedule';
@@ -120,8 +121,14 @@ class NotificationService {
       return null;
     }
 
+    // Shows that are only in muted lists stay quiet
+    if (await WatchlistService.isNotificationMuted(show.id)) {
+      return null;
+    }
+
     try {
-      const airDate = new Date(show.next_episode_to_air.air_date);
+      const { airstamp } = show.next_episode_to_air;
+      const airDate = new Date(airstamp || show.next_episode_to_air.air_date);
       const now = new Date();
 
       if (airDate < now) {
@@ -129,15 +136,21 @@ class NotificationService {
         return null;
       }
 
-      // Schedule notification 1 day before air date
-      const notificationDate = new Date(airDate);
-      notificationDate.setDate(notificationDate.getDate() - 1);
-      notificationDate.setHours(18, 0, 0, 0); // 6:00 PM
-      
-      // If the notification date has already passed, use the air date itself
-      if (notificationDate < now) {
-        notificationDate.setTime(airDate.getTime());
-        notificationDate.setHours(9, 0, 0, 0); // 9:00 AM on air date
+      let notificationDate: Date;
+      if (airstamp) {
+        // The exact air time is known, so notify when the episode starts
+        notificationDate = new Date(airDate);
+      } else {
+        // Schedule notification 1 day before air date
+        notificationDate = new Date(airDate);
+        notificationDate.setDate(notificationDate.getDate() - 1);
+        notificationDate.setHours(18, 0, 0, 0); // 6:00 PM
+        
+        // If the notification date has already passed, use the air date itself
+        if (notificationDate < now) {
+          notificationDate.setTime(airDate.getTime());
+          notificationDate.setHours(9, 0, 0, 0); // 9:00 AM on air date
+        }
       }
 
       const scheduledNotifications = await this.getScheduledNotifications();
@@ -208,6 +221,25 @@ class NotificationService {
     }
   }
 
+  // Brings alerts in line with list mutes after a list is muted or unmuted, or a show changes lists.
+  // Shows only in muted lists lose their pending alerts; the rest are scheduled again.
+  public async syncMutedShows(shows: TVShow[]): Promise<void> {
+    if (!this.isEnabled) return;
+
+    try {
+      const mutedIds = new Set(await WatchlistService.getMutedShowIds());
+      for (const show of shows) {
+        if (mutedIds.has(show.id)) {
+          await this.cancelShowNotifications(show.id);
+        } else {
+          await this.scheduleEpisodeNotification(show);
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing muted show notifications:', error);
+    }
+  }
+
   public async cancelAllNotifications(): Promise<void> {
     try {
       await Notifications.cancelAllScheduledNotificationsAsync();
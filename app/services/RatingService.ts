@@ -0,0 +1,227 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const RATINGS_STORAGE_KEY = '@EpisodeAlerts:ratings';
+
+// Scores are whole numbers from 1 to 10, which is also five stars in half-star steps
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+
+export type RatingTargetType = 'show' | 'season' | 'episode';
+
+export interface RatingTarget {
+  type: RatingTargetType;
+  showId: number;
+  seasonNumber?: number;
+  episodeNumber?: number;
+}
+
+// Names are saved with the rating so My Ratings can list them without fetching every show
+export interface RatingLabels {
+  showName: string;
+  posterPath?: string | null;
+  // The season or episode name, for those targets
+  name?: string;
+}
+
+export interface RatingChange {
+  score: number;
+  ratedAt: string;
+}
+
+export interface Rating extends RatingTarget, RatingLabels {
+  score: number;
+  ratedAt: string;
+  // Earlier scores for the same target, oldest first
+  history: RatingChange[];
+}
+
+export type RatingSort = 'score_desc' | 'score_asc' | 'recent';
+
+export const ratingKey = (target: RatingTarget): string => {
+  switch (target.type) {
+    case 'show':
+      return `show:${target.showId}`;
+    case 'season':
+      return `season:${target.showId}:${target.seasonNumber}`;
+    case 'episode':
+      return `episode:${target.showId}:${target.seasonNumber}:${target.episodeNumber}`;
+  }
+};
+
+export const clampScore = (score: number): number =>
+  Math.min(MAX_SCORE, Math.max(MIN_SCORE, Math.round(score)));
+
+// e.g. 7 -> "★★★½" for the half-star display
+export const formatStars = (score: number): string => {
+  const fullStars = Math.floor(score / 2);
+  return '★'.repeat(fullStars) + (score % 2 === 1 ? '½' : '');
+};
+
+export const sortRatings = (ratings: Rating[], sort: RatingSort): Rating[] => {
+  return [...ratings].sort((a, b) => {
+    switch (sort) {
+      case 'score_desc':
+        return b.score - a.score || b.ratedAt.localeCompare(a.ratedAt);
+      case 'score_asc':
+        return a.score - b.score || b.ratedAt.localeCompare(a.ratedAt);
+      case 'recent':
+        return b.ratedAt.localeCompare(a.ratedAt);
+    }
+  });
+};
+
+// When a backup and the device both rated the same thing, the more recent rating wins
+export const isNewerRating = (rating: Rating, current: Rating | undefined): boolean =>
+  !current || rating.ratedAt > current.ratedAt;
+
+// A show's rated episodes in airing order, for charting how the show held up
+export const getEpisodeRatings = (ratings: Rating[], showId: number): Rating[] => {
+  return ratings
+    .filter(rating => rating.type === 'episode' && rating.showId === showId)
+    .sort((a, b) => a.seasonNumber! - b.seasonNumber! || a.episodeNumber! - b.episodeNumber!);
+};
+
+// All ratings live under one key; there are few enough that one read serves every screen
+class RatingService {
+  private static instance: RatingService;
+  private cache: Record<string, Rating> | null = null;
+  // The latest pending write; each one waits for the one before it
+  private writes: Promise<void> = Promise.resolve();
+  private callbacks: Array<(target: RatingTarget) => void> = [];
+
+  private constructor() {}
+
+  public static getInstance(): RatingService {
+    if (!RatingService.instance) {
+      RatingService.instance = new RatingService();
+    }
+    return RatingService.instance;
+  }
+
+  subscribe(callback: (target: RatingTarget) => void): () => void {
+    this.callbacks.push(callback);
+
+    return () => {
+      this.callbacks = this.callbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  async getRatings(): Promise<Rating[]> {
+    try {
+      return Object.values(await this.load());
+    } catch (error) {
+      console.error('Error getting ratings:', error);
+      return [];
+    }
+  }
+
+  async getRating(target: RatingTarget): Promise<Rating | null> {
+    try {
+      return (await this.load())[ratingKey(target)] ?? null;
+    } catch (error) {
+      console.error('Error getting rating:', error);
+      return null;
+    }
+  }
+
+  // Ratings for a show itself, its seasons and its episodes
+  async getRatingsForShow(showId: number): Promise<Rating[]> {
+    const ratings = await this.getRatings();
+    return ratings.filter(rating => rating.showId === showId);
+  }
+
+  async setRating(target: RatingTarget, score: number, labels: RatingLabels): Promise<boolean> {
+    try {
+      await this.enqueue(async () => {
+        const ratings = await this.load();
+        const key = ratingKey(target);
+        const previous = ratings[key];
+        const clamped = clampScore(score);
+
+        if (previous?.score === clamped) return;
+
+        const rating: Rating = {
+          ...target,
+          ...labels,
+          score: clamped,
+          ratedAt: new Date().toISOString(),
+          history: previous
+            ? [...previous.history, { score: previous.score, ratedAt: previous.ratedAt }]
+            : [],
+        };
+
+        await this.save({ ...ratings, [key]: rating }, [target]);
+      });
+      return true;
+    } catch (error) {
+      console.error('Error saving rating:', error);
+      return false;
+    }
+  }
+
+  async removeRating(target: RatingTarget): Promise<boolean> {
+    try {
+      await this.enqueue(async () => {
+        const { [ratingKey(target)]: _removed, ...rest } = await this.load();
+        await this.save(rest, [target]);
+      });
+      return true;
+    } catch (error) {
+      console.error('Error removing rating:', error);
+      return false;
+    }
+  }
+
+  // Restores ratings from a backup without dropping ones made since
+  async importRatings(imported: Rating[]): Promise<boolean> {
+    try {
+      await this.enqueue(async () => {
+        const ratings = { ...(await this.load()) };
+        const changed = imported.filter(rating => {
+          const key = ratingKey(rating);
+          if (!isNewerRating(rating, ratings[key])) return false;
+          ratings[key] = rating;
+          return true;
+        });
+
+        if (changed.length > 0) {
+          await this.save(ratings, changed);
+        }
+      });
+      return true;
+    } catch (error) {
+      console.error('Error importing ratings:', error);
+      return false;
+    }
+  }
+
+  // Every rating shares one key, so changes made close together (e.g. rating several
+  // episodes quickly) run one at a time instead of each saving over the others
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writes.catch(() => undefined).then(write);
+    this.writes = next;
+    return next;
+  }
+
+  private async load(): Promise<Record<string, Rating>> {
+    if (!this.cache) {
+      const ratingsJson = await AsyncStorage.getItem(RATINGS_STORAGE_KEY);
+      this.cache = ratingsJson ? JSON.parse(ratingsJson) : {};
+    }
+    return this.cache!;
+  }
+
+  private async save(ratings: Record<string, Rating>, changed: RatingTarget[]): Promise<void> {
+    await AsyncStorage.setItem(RATINGS_STORAGE_KEY, JSON.stringify(ratings));
+    this.cache = ratings;
+    changed.forEach(target => this.notifyListeners(target));
+  }
+
+  private notifyListeners(target: RatingTarget): void {
+    for (const callback of this.callbacks) {
+      callback(target);
+    }
+  }
+}
+
+export default RatingService.getInstance();
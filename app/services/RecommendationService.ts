@@ -0,0 +1,103 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import MetadataService from './MetadataService';
+import { RequestOptions, TVShow } from './TMDBService';
+import { isAbortError } from './TMDBError';
+
+const DISMISSED_RECOMMENDATIONS_KEY = '@EpisodeAlerts:dismissedRecommendations';
+const MAX_RECOMMENDATIONS = 20;
+
+class RecommendationService {
+  private static instance: RecommendationService;
+  // The latest pending write; each one waits for the one before it
+  private writes: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  public static getInstance(): RecommendationService {
+    if (!RecommendationService.instance) {
+      RecommendationService.instance = new RecommendationService();
+    }
+    return RecommendationService.instance;
+  }
+
+  // TMDB recommendations come first since they're based on what viewers watched next;
+  // similar shows (matched on genres and keywords) fill the row when there are few.
+  async getMoreLikeThis(showId: number, options?: Omit<RequestOptions, 'onRevalidate'>): Promise<TVShow[]> {
+    const [recommendations, similar] = await Promise.allSettled([
+      MetadataService.getRecommendations(showId, 1, options),
+      MetadataService.getSimilarTVShows(showId, 1, options),
+    ]);
+
+    if (recommendations.status === 'rejected' && similar.status === 'rejected') {
+      throw recommendations.reason;
+    }
+    for (const result of [recommendations, similar]) {
+      if (result.status === 'rejected' && !isAbortError(result.reason)) {
+        console.error('Error loading related shows:', result.reason);
+      }
+    }
+
+    const dismissedIds = new Set(await this.getDismissedIds());
+    const seen = new Set<number>([showId]);
+    const shows: TVShow[] = [];
+
+    for (const result of [recommendations, similar]) {
+      if (result.status !== 'fulfilled') continue;
+
+      for (const show of result.value.results) {
+        if (seen.has(show.id) || dismissedIds.has(show.id)) continue;
+        seen.add(show.id);
+        shows.push(show);
+      }
+    }
+
+    return shows.slice(0, MAX_RECOMMENDATIONS);
+  }
+
+  async getDismissedIds(): Promise<number[]> {
+    try {
+      const dismissedJson = await AsyncStorage.getItem(DISMISSED_RECOMMENDATIONS_KEY);
+      return dismissedJson ? JSON.parse(dismissedJson) : [];
+    } catch (error) {
+      console.error('Error getting dismissed recommendations:', error);
+      return [];
+    }
+  }
+
+  async dismiss(showId: number): Promise<boolean> {
+    try {
+      await this.enqueue(async () => {
+        // Read directly rather than through getDismissedIds, whose empty fallback would wipe the list
+        const dismissedJson = await AsyncStorage.getItem(DISMISSED_RECOMMENDATIONS_KEY);
+        const dismissedIds: number[] = dismissedJson ? JSON.parse(dismissedJson) : [];
+        if (dismissedIds.includes(showId)) return;
+
+        await AsyncStorage.setItem(DISMISSED_RECOMMENDATIONS_KEY, JSON.stringify([...dismissedIds, showId]));
+      });
+      return true;
+    } catch (error) {
+      console.error('Error dismissing recommendation:', error);
+      return false;
+    }
+  }
+
+  async clearDismissed(): Promise<boolean> {
+    try {
+      await this.enqueue(() => AsyncStorage.removeItem(DISMISSED_RECOMMENDATIONS_KEY));
+      return true;
+    } catch (error) {
+      console.error('Error clearing dismissed recommendations:', error);
+      return false;
+    }
+  }
+
+  // Cards disappear as soon as they're dismissed, so dismissals can come quickly one after
+  // another; each waits for the last to be saved so none of them are dropped
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writes.catch(() => undefined).then(write);
+    this.writes = next;
+    return next;
+  }
+}
+
+export default RecommendationService.getInstance();
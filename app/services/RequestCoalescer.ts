@@ -0,0 +1,86 @@
+interface InflightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+  settled: boolean;
+}
+
+// Shares one underlying request between every caller asking for the same key at the same time.
+// Each caller can cancel with its own signal; the shared request is only aborted once nobody is waiting.
+export class RequestCoalescer {
+  private inflight = new Map<string, InflightRequest<unknown>>();
+
+  constructor(private createAbortError: (key: string) => Error) {}
+
+  public run<T>(key: string, start: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(this.createAbortError(key));
+    }
+
+    let entry = this.inflight.get(key) as InflightRequest<T> | undefined;
+
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InflightRequest<T> = {
+        promise: start(controller.signal).finally(() => {
+          created.settled = true;
+          if (this.inflight.get(key) === created) {
+            this.inflight.delete(key);
+          }
+        }),
+        controller,
+        waiters: 0,
+        settled: false,
+      };
+
+      this.inflight.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.waiters++;
+
+    return new Promise<T>((resolve, reject) => {
+      let done = false;
+
+      const finish = () => {
+        done = true;
+        shared.waiters--;
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onAbort = () => {
+        if (done) return;
+        finish();
+
+        if (shared.waiters === 0 && !shared.settled) {
+          shared.controller.abort();
+          if (this.inflight.get(key) === shared) {
+            this.inflight.delete(key);
+          }
+        }
+
+        reject(this.createAbortError(key));
+      };
+
+      signal?.addEventListener('abort', onAbort);
+
+      shared.promise.then(
+        (value) => {
+          if (done) return;
+          finish();
+          resolve(value);
+        },
+        (error) => {
+          if (done) return;
+          finish();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  public getInflightCount(): number {
+    return this.inflight.size;
+  }
+}
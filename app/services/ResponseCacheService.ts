@@ -0,0 +1,167 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CACHE_CONFIG } from '../../constants/Config';
+
+const CACHE_KEY_PREFIX = '@EpisodeAlerts:apiCache:';
+// How many persisted entries the sweep reads at a time
+const SWEEP_BATCH_SIZE = 50;
+
+export type CachePolicy = 'stale-while-revalidate' | 'cache-only' | 'network-only';
+
+export interface CacheEntry<T> {
+  data: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+class ResponseCacheService {
+  private static instance: ResponseCacheService;
+  private memoryCache = new Map<string, CacheEntry<unknown>>();
+  private sweep: Promise<void> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ResponseCacheService {
+    if (!ResponseCacheService.instance) {
+      ResponseCacheService.instance = new ResponseCacheService();
+    }
+    return ResponseCacheService.instance;
+  }
+
+  public async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    // Not awaited: the first read of a launch shouldn't wait for the whole cache to be scanned
+    this.sweepTooOld();
+
+    const memoryEntry = this.memoryCache.get(key) as CacheEntry<T> | undefined;
+    if (memoryEntry) {
+      if (this.isTooOld(memoryEntry)) {
+        await this.remove(key);
+        return null;
+      }
+      this.remember(key, memoryEntry);
+      return memoryEntry;
+    }
+
+    try {
+      const entryJson = await AsyncStorage.getItem(CACHE_KEY_PREFIX + key);
+      if (!entryJson) {
+        return null;
+      }
+
+      const entry: CacheEntry<T> = JSON.parse(entryJson);
+      if (this.isTooOld(entry)) {
+        await this.remove(key);
+        return null;
+      }
+
+      this.remember(key, entry);
+      return entry;
+    } catch (error) {
+      console.error('Error reading cached response:', error);
+      return null;
+    }
+  }
+
+  public async set<T>(key: string, data: T, ttl: number): Promise<CacheEntry<T>> {
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      data,
+      storedAt: now,
+      expiresAt: now + ttl,
+    };
+
+    this.remember(key, entry);
+
+    try {
+      await AsyncStorage.setItem(CACHE_KEY_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      console.error('Error persisting cached response:', error);
+    }
+
+    return entry;
+  }
+
+  public isExpired(entry: CacheEntry<unknown>): boolean {
+    return Date.now() >= entry.expiresAt;
+  }
+
+  public async remove(key: string): Promise<void> {
+    this.memoryCache.delete(key);
+
+    try {
+      await AsyncStorage.removeItem(CACHE_KEY_PREFIX + key);
+    } catch (error) {
+      console.error('Error removing cached response:', error);
+    }
+  }
+
+  public async clear(): Promise<void> {
+    this.memoryCache.clear();
+
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const cacheKeys = keys.filter(key => key.startsWith(CACHE_KEY_PREFIX));
+      if (cacheKeys.length > 0) {
+        await AsyncStorage.multiRemove(cacheKeys);
+      }
+    } catch (error) {
+      console.error('Error clearing response cache:', error);
+      throw error;
+    }
+  }
+
+  // Persisted entries are otherwise only dropped when they're read again, so entries for
+  // requests that are never repeated would pile up. Runs once per launch.
+  public sweepTooOld(): Promise<void> {
+    if (!this.sweep) {
+      this.sweep = this.removeTooOld();
+    }
+    return this.sweep;
+  }
+
+  private async removeTooOld(): Promise<void> {
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(CACHE_KEY_PREFIX));
+
+      for (let start = 0; start < keys.length; start += SWEEP_BATCH_SIZE) {
+        const stored = await AsyncStorage.multiGet(keys.slice(start, start + SWEEP_BATCH_SIZE));
+        const tooOld = stored
+          .filter(([storageKey, entryJson]) => {
+            // Entries in memory were written or checked this launch
+            if (!entryJson || this.memoryCache.has(storageKey.slice(CACHE_KEY_PREFIX.length))) return false;
+            try {
+              return this.isTooOld(JSON.parse(entryJson));
+            } catch {
+              return true;
+            }
+          })
+          .map(([storageKey]) => storageKey);
+
+        if (tooOld.length > 0) {
+          await AsyncStorage.multiRemove(tooOld);
+        }
+      }
+    } catch (error) {
+      console.error('Error sweeping response cache:', error);
+    }
+  }
+
+  // Entries past the stale limit are dropped instead of being served offline
+  private isTooOld(entry: CacheEntry<unknown>): boolean {
+    return Date.now() - entry.storedAt > CACHE_CONFIG.MAX_STALE_AGE;
+  }
+
+  // Keep the in-memory layer bounded, evicting the least recently used entry
+  private remember(key: string, entry: CacheEntry<unknown>): void {
+    this.memoryCache.delete(key);
+    this.memoryCache.set(key, entry);
+
+    if (this.memoryCache.size > CACHE_CONFIG.MAX_MEMORY_ENTRIES) {
+      const oldestKey = this.memoryCache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.memoryCache.delete(oldestKey);
+      }
+    }
+  }
+}
+
+export default ResponseCacheService.getInstance();
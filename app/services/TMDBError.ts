@@ -0,0 +1,130 @@
+export type TMDBErrorKind =
+  | 'auth'
+  | 'not-found'
+  | 'rate-limited'
+  | 'server'
+  | 'network'
+  | 'parse'
+  | 'cache-miss'
+  | 'aborted'
+  | 'unknown';
+
+interface TMDBErrorDetails {
+  endpoint: string;
+  statusCode?: number;
+  tmdbStatusCode?: number;
+  cause?: unknown;
+}
+
+// Body TMDB sends with failed requests, e.g. { status_code: 7, status_message: 'Invalid API key' }
+export interface TMDBErrorBody {
+  status_code?: number;
+  status_message?: string;
+  success?: boolean;
+}
+
+export class TMDBError extends Error {
+  public readonly kind: TMDBErrorKind;
+  public readonly endpoint: string;
+  public readonly statusCode?: number;
+  public readonly tmdbStatusCode?: number;
+  public readonly cause?: unknown;
+
+  constructor(kind: TMDBErrorKind, message: string, details: TMDBErrorDetails) {
+    super(message);
+    // Keep instanceof working when classes are compiled down for Hermes
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.kind = kind;
+    this.endpoint = details.endpoint;
+    this.statusCode = details.statusCode;
+    this.tmdbStatusCode = details.tmdbStatusCode;
+    this.cause = details.cause;
+  }
+}
+
+export class TMDBAuthError extends TMDBError {
+  constructor(message: string, details: TMDBErrorDetails) {
+    super('auth', message, details);
+  }
+}
+
+export class TMDBNotFoundError extends TMDBError {
+  constructor(message: string, details: TMDBErrorDetails) {
+    super('not-found', message, details);
+  }
+}
+
+export class TMDBRateLimitError extends TMDBError {
+  public readonly retryAfter?: number;
+
+  constructor(message: string, details: TMDBErrorDetails & { retryAfter?: number }) {
+    super('rate-limited', message, details);
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+export class TMDBServerError extends TMDBError {
+  constructor(message: string, details: TMDBErrorDetails) {
+    super('server', message, details);
+  }
+}
+
+export class TMDBNetworkError extends TMDBError {
+  constructor(message: string, details: TMDBErrorDetails) {
+    super('network', message, details);
+  }
+}
+
+export class TMDBParseError extends TMDBError {
+  constructor(message: string, details: TMDBErrorDetails) {
+    super('parse', message, details);
+  }
+}
+
+// Thrown for cache-only requests when nothing has been cached yet
+export class TMDBCacheMissError extends TMDBError {
+  constructor(endpoint: string) {
+    super('cache-miss', `No cached response available for ${endpoint}`, { endpoint });
+  }
+}
+
+// Thrown when the caller's AbortSignal cancels a request; screens should ignore it
+export class TMDBAbortError extends TMDBError {
+  constructor(endpoint: string) {
+    super('aborted', `Request for ${endpoint} was cancelled`, { endpoint });
+  }
+}
+
+export const createHTTPError = (
+  statusCode: number,
+  endpoint: string,
+  body: TMDBErrorBody | null,
+  retryAfter?: number
+): TMDBError => {
+  const details = { endpoint, statusCode, tmdbStatusCode: body?.status_code };
+  const message = body?.status_message || `Request failed with status ${statusCode}`;
+
+  if (statusCode === 401 || statusCode === 403) {
+    return new TMDBAuthError(message, details);
+  }
+  if (statusCode === 404) {
+    return new TMDBNotFoundError(message, details);
+  }
+  if (statusCode === 429) {
+    return new TMDBRateLimitError(message, { ...details, retryAfter });
+  }
+  if (statusCode >= 500) {
+    return new TMDBServerError(message, details);
+  }
+
+  return new TMDBError('unknown', message, details);
+};
+
+export const isTMDBError = (error: unknown): error is TMDBError => {
+  return error instanceof TMDBError;
+};
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof TMDBAbortError;
+};
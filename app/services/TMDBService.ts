@@ -1,4 +1,20 @@
-import { TMDB_CONFIG, API_KEY } from '../../constants/Config';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TMDB_CONFIG, CACHE_CONFIG, API_KEY } from '../../constants/Config';
+import ResponseCacheService, { CachePolicy } from './ResponseCacheService';
+import { fetchWithRetry, parseRetryAfter, RetryEvent, TokenBucket } from './HttpRetry';
+import { RequestCoalescer } from './RequestCoalescer';
+import {
+  createHTTPError,
+  TMDBAbortError,
+  TMDBCacheMissError,
+  TMDBErrorBody,
+  TMDBNetworkError,
+  TMDBParseError,
+} from './TMDBError';
+import type { MetadataProvider } from './providers/MetadataProvider';
+import UserPreferencesService from './UserPreferencesService';
+
+const API_KEY_OVERRIDE_KEY = '@EpisodeAlerts:tmdbApiKey';
 
 export interface TVShow {
   id: number;
@@ -11,10 +27,16 @@ export interface TVShow {
   next_episode_to_air?: Episode;
   last_episode_to_air?: Episode;
   number_of_seasons: number;
+  number_of_episodes?: number;
   status: string;
   genres: Genre[];
   networks: Network[];
   created_by: Creator[];
+  // IANA timezone of the network, only known for TVmaze data
+  timezone?: string;
+  // Title and ISO 639-1 language the show was made in; missing for fixture and TVmaze data
+  original_name?: string;
+  original_language?: string;
 }
 
 export interface Episode {
@@ -27,6 +49,52 @@ export interface Episode {
   season_number: number;
   vote_average: number;
   runtime?: number;
+  // Exact UTC air time; TMDB only provides air_date, TVmaze provides both
+  airstamp?: string;
+}
+
+export interface EpisodeGuestStar {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  character: string;
+  order: number;
+  credit_id: string;
+}
+
+export interface EpisodeCrewMember {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  job: string;
+  department: string;
+  credit_id: string;
+}
+
+export interface EpisodeDetails extends Episode {
+  vote_count: number;
+  guest_stars: EpisodeGuestStar[];
+  crew: EpisodeCrewMember[];
+}
+
+export interface EpisodeCredits {
+  // Series regulars who appear in the episode
+  cast: EpisodeGuestStar[];
+  guest_stars: EpisodeGuestStar[];
+  crew: EpisodeCrewMember[];
+}
+
+export interface ImageFile {
+  file_path: string;
+  width: number;
+  height: number;
+  aspect_ratio: number;
+  vote_average: number;
+}
+
+export interface EpisodeImagesResponse {
+  id: number;
+  stills: ImageFile[];
 }
 
 export interface Season {
@@ -57,24 +125,308 @@ export interface Creator {
   profile_path: string;
 }
 
-interface APIResponse<T> {
+export interface CastRole {
+  credit_id: string;
+  character: string;
+  episode_count: number;
+}
+
+export interface CrewJob {
+  credit_id: string;
+  job: string;
+  episode_count: number;
+}
+
+export interface AggregateCastMember {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  roles: CastRole[];
+  total_episode_count: number;
+  order: number;
+}
+
+export interface AggregateCrewMember {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  department: string;
+  jobs: CrewJob[];
+  total_episode_count: number;
+}
+
+// Credits summed over every season, unlike /credits which only covers the latest one
+export interface AggregateCredits {
+  id: number;
+  cast: AggregateCastMember[];
+  crew: AggregateCrewMember[];
+}
+
+export interface Person {
+  id: number;
+  name: string;
+  biography: string;
+  birthday: string | null;
+  deathday: string | null;
+  place_of_birth: string | null;
+  profile_path: string | null;
+  known_for_department: string;
+}
+
+// A show the person worked on; cast credits have a character, crew credits a job
+export interface PersonTVCredit extends Pick<TVShow, 'id' | 'name' | 'poster_path' | 'first_air_date' | 'vote_average'> {
+  credit_id: string;
+  episode_count: number;
+  character?: string;
+  department?: string;
+  job?: string;
+}
+
+export interface PersonTVCredits {
+  id: number;
+  cast: PersonTVCredit[];
+  crew: PersonTVCredit[];
+}
+
+export type VideoType =
+  | 'Trailer'
+  | 'Teaser'
+  | 'Clip'
+  | 'Featurette'
+  | 'Behind the Scenes'
+  | 'Bloopers'
+  | 'Opening Credits'
+  | 'Recap';
+
+export interface Video {
+  id: string;
+  // Id on the hosting site, e.g. the YouTube video id
+  key: string;
+  name: string;
+  site: string;
+  type: VideoType;
+  official: boolean;
+  published_at: string;
+  size: number;
+  iso_639_1: string;
+}
+
+export interface VideosResponse {
+  id: number;
+  results: Video[];
+}
+
+export interface WatchProvider {
+  provider_id: number;
+  provider_name: string;
+  logo_path: string | null;
+  display_priority: number;
+}
+
+export interface WatchProviderRegion {
+  // TMDB's page for the show, which credits JustWatch and links out to each service
+  link: string;
+  flatrate?: WatchProvider[];
+  free?: WatchProvider[];
+  ads?: WatchProvider[];
+  rent?: WatchProvider[];
+  buy?: WatchProvider[];
+}
+
+// Keyed by ISO 3166-1 region code
+export type WatchProvidersByRegion = Record<string, WatchProviderRegion>;
+
+export interface WatchProvidersResponse {
+  id: number;
+  results: WatchProvidersByRegion;
+}
+
+export interface Translation {
+  iso_3166_1: string;
+  iso_639_1: string;
+  english_name: string;
+  data: {
+    name: string;
+    overview: string;
+  };
+}
+
+export interface TranslationsResponse {
+  id: number;
+  translations: Translation[];
+}
+
+// Dates are YYYY-MM-DD; TMDB accepts a window of at most 14 days
+export interface ChangesWindow {
+  startDate: string;
+  endDate: string;
+}
+
+// The /tv/changes feed only lists ids, so changed shows still have to be fetched
+export interface ChangedShow {
+  id: number;
+  adult: boolean | null;
+}
+
+export interface ChangeItem {
+  id: string;
+  action: 'added' | 'updated' | 'deleted' | 'created';
+  // e.g. '2024-03-01 12:00:00 UTC'
+  time: string;
+  iso_639_1?: string;
+  value?: unknown;
+  original_value?: unknown;
+}
+
+// Changes to one field of a show; the 'season' key's values carry { season_id, season_number }
+export interface ChangeGroup {
+  key: string;
+  items: ChangeItem[];
+}
+
+export interface ShowChangesResponse {
+  changes: ChangeGroup[];
+}
+
+export interface ContentLocale {
+  // e.g. 'en-US'
+  language: string;
+  // e.g. 'US'
+  region: string;
+}
+
+export interface ExternalIds {
+  imdb_id: string | null;
+  tvdb_id: number | null;
+}
+
+export interface FindResponse {
+  tv_results: TVShow[];
+}
+
+export type ExternalSource = 'imdb_id' | 'tvdb_id';
+
+export type DiscoverSortOption =
+  | 'popularity.desc'
+  | 'vote_average.desc'
+  | 'first_air_date.desc'
+  | 'first_air_date.asc'
+  | 'name.asc';
+
+// TMDB's numeric codes for with_status
+export const DISCOVER_STATUSES = {
+  'Returning Series': 0,
+  'Planned': 1,
+  'In Production': 2,
+  'Ended': 3,
+  'Canceled': 4,
+  'Pilot': 5,
+} as const;
+
+export type DiscoverStatus = keyof typeof DISCOVER_STATUSES;
+
+export interface DiscoverFilters {
+  // Shows matching any of these genres
+  withGenres?: number[];
+  withoutGenres?: number[];
+  // Shows on any of these networks
+  withNetworks?: number[];
+  // YYYY-MM-DD, inclusive
+  firstAirDateFrom?: string;
+  firstAirDateTo?: string;
+  minRating?: number;
+  minVoteCount?: number;
+  // ISO 639-1 code, e.g. 'en'
+  originalLanguage?: string;
+  // Episode runtime in minutes
+  minRuntime?: number;
+  maxRuntime?: number;
+  statuses?: DiscoverStatus[];
+  sortBy?: DiscoverSortOption;
+}
+
+export interface APIResponse<T> {
   page?: number;
   results: T[];
   total_pages?: number;
   total_results?: number;
 }
 
-class TMDBService {
+export interface RequestOptions<T = unknown> {
+  // Defaults to 'stale-while-revalidate'
+  cachePolicy?: CachePolicy;
+  // Called with fresh data when a stale cached response was revalidated in the background
+  onRevalidate?: (data: T) => void;
+  // Cancels this caller's interest; identical requests from other callers keep going
+  signal?: AbortSignal;
+}
+
+export interface RequestStats {
+  requests: number;
+  retries: number;
+  networkRetries: number;
+  serverRetries: number;
+  rateLimitRetries: number;
+  throttledMs: number;
+  lastRetry?: RetryEvent;
+}
+
+const EMPTY_REQUEST_STATS: RequestStats = {
+  requests: 0,
+  retries: 0,
+  networkRetries: 0,
+  serverRetries: 0,
+  rateLimitRetries: 0,
+  throttledMs: 0,
+};
+
+// Parameters are added in a fixed order so equal filters share a cache entry
+export const buildDiscoverQuery = (filters: DiscoverFilters, page = 1): string => {
+  const params: string[] = [];
+  const add = (name: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') {
+      params.push(`${name}=${encodeURIComponent(String(value))}`);
+    }
+  };
+  const join = (values: Array<string | number> | undefined, separator: string) => {
+    return values && values.length > 0 ? [...values].sort().join(separator) : undefined;
+  };
+
+  add('first_air_date.gte', filters.firstAirDateFrom);
+  add('first_air_date.lte', filters.firstAirDateTo);
+  add('page', page);
+  add('sort_by', filters.sortBy ?? 'popularity.desc');
+  add('vote_average.gte', filters.minRating);
+  add('vote_count.gte', filters.minVoteCount);
+  // TMDB treats '|' as OR and ',' as AND
+  add('with_genres', join(filters.withGenres, '|'));
+  add('with_networks', join(filters.withNetworks, '|'));
+  add('with_original_language', filters.originalLanguage);
+  add('with_runtime.gte', filters.minRuntime);
+  add('with_runtime.lte', filters.maxRuntime);
+  add('with_status', join(filters.statuses?.map(status => DISCOVER_STATUSES[status]), '|'));
+  add('without_genres', join(filters.withoutGenres, ','));
+
+  return params.join('&');
+};
+
+class TMDBService implements MetadataProvider {
   private static instance: TMDBService;
+  public readonly id = 'tmdb';
   private baseURL: string;
   private headers: HeadersInit;
+  private coalescer = new RequestCoalescer((endpoint) => new TMDBAbortError(endpoint));
+  private rateLimiter = new TokenBucket();
+  private requestStats: RequestStats = { ...EMPTY_REQUEST_STATS };
+  private apiKeyLoaded = false;
+  private hasApiKeyOverride = false;
+  private locale: ContentLocale = { language: 'en-US', region: 'US' };
+  private localeLoaded: Promise<void> | null = null;
 
   private constructor() {
     this.baseURL = TMDB_CONFIG.BASE_URL;
-    this.headers = {
-      'Authorization': `Bearer ${API_KEY}`,
-      'Content-Type': 'application/json',
-    };
+    this.headers = {};
+    this.applyApiKey(API_KEY);
   }
 
   public static getInstance(): TMDBService {
@@ -84,51 +436,492 @@ class TMDBService {
     return TMDBService.instance;
   }
 
-  private async fetchAPI<T>(endpoint: string): Promise<T> {
+  private async fetchAPI<T>(path: string, options: RequestOptions<T> = {}): Promise<T> {
+    const cachePolicy = options.cachePolicy ?? 'stale-while-revalidate';
+    const { signal } = options;
+
+    await this.loadLocale();
+    const endpoint = this.localizeEndpoint(path);
+
+    if (signal?.aborted) {
+      throw new TMDBAbortError(endpoint);
+    }
+
+    if (cachePolicy === 'network-only') {
+      return this.fetchAndCache<T>(endpoint, signal);
+    }
+
+    const cached = await ResponseCacheService.get<T>(endpoint);
+
+    if (cachePolicy === 'cache-only') {
+      if (!cached) {
+        throw new TMDBCacheMissError(endpoint);
+      }
+      return cached.data;
+    }
+
+    if (!cached) {
+      return this.fetchAndCache<T>(endpoint, signal);
+    }
+
+    if (ResponseCacheService.isExpired(cached)) {
+      this.revalidate(endpoint, options.onRevalidate);
+    }
+
+    return cached.data;
+  }
+
+  // Identical requests in flight at the same time share a single network call
+  private fetchAndCache<T>(endpoint: string, signal?: AbortSignal): Promise<T> {
+    return this.coalescer.run(
+      endpoint,
+      async (sharedSignal) => {
+        const data = await this.request<T>(endpoint, sharedSignal);
+        await ResponseCacheService.set(endpoint, data, this.getCacheTTL(endpoint, data));
+        return data;
+      },
+      signal
+    );
+  }
+
+  private revalidate<T>(endpoint: string, onRevalidate?: (data: T) => void): void {
+    this.fetchAndCache<T>(endpoint)
+      .then(data => onRevalidate?.(data))
+      .catch(error => console.error(`Error revalidating ${endpoint}:`, error));
+  }
+
+  private async request<T>(endpoint: string, signal?: AbortSignal): Promise<T> {
+    await this.loadApiKey();
+
+    const url = `${this.baseURL}${endpoint}`;
+    let response: Response;
+
     try {
-      const url = `${this.baseURL}${endpoint}`;
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: this.headers,
+      response = await fetchWithRetry(
+        () => {
+          this.requestStats.requests++;
+          return fetch(url, {
+            method: 'GET',
+            headers: this.headers,
+            signal,
+          });
+        },
+        {
+          signal,
+          beforeAttempt: async () => {
+            this.requestStats.throttledMs += await this.rateLimiter.take();
+          },
+          onRetry: (event) => this.recordRetry(event),
+        }
+      );
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new TMDBAbortError(endpoint);
+      }
+
+      const networkError = new TMDBNetworkError('Unable to reach TMDB. Check your internet connection.', {
+        endpoint,
+        cause: error,
       });
+      console.error('API fetch error:', networkError);
+      throw networkError;
+    }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        throw new Error(`HTTP error! status: ${response.status}, message: ${errorData?.status_message || 'Unknown error'}`);
-      }
+    if (!response.ok) {
+      const errorData: TMDBErrorBody | null = await response.json().catch(() => null);
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After')) ?? undefined;
+      const httpError = createHTTPError(response.status, endpoint, errorData, retryAfter);
+      console.error('API fetch error:', httpError);
+      throw httpError;
+    }
 
+    try {
       return await response.json();
     } catch (error) {
-      console.error('API fetch error:', error);
+      if (signal?.aborted) {
+        throw new TMDBAbortError(endpoint);
+      }
+
+      const parseError = new TMDBParseError('TMDB returned a response that could not be read', {
+        endpoint,
+        statusCode: response.status,
+        cause: error,
+      });
+      console.error('API fetch error:', parseError);
+      throw parseError;
+    }
+  }
+
+  private async loadApiKey(): Promise<void> {
+    if (this.apiKeyLoaded) return;
+
+    try {
+      const storedKey = await AsyncStorage.getItem(API_KEY_OVERRIDE_KEY);
+      if (storedKey) {
+        this.applyApiKey(storedKey);
+        this.hasApiKeyOverride = true;
+      }
+    } catch (error) {
+      console.error('Error loading TMDB API key:', error);
+    } finally {
+      this.apiKeyLoaded = true;
+    }
+  }
+
+  // Follows the language and region preferences, including changes made later in settings
+  private loadLocale(): Promise<void> {
+    if (!this.localeLoaded) {
+      this.localeLoaded = (async () => {
+        try {
+          this.applyLocale(await UserPreferencesService.initialize());
+          UserPreferencesService.subscribe(preferences => this.applyLocale(preferences));
+        } catch (error) {
+          console.error('Error loading content locale:', error);
+        }
+      })();
+    }
+    return this.localeLoaded;
+  }
+
+  private applyLocale({ language, region }: ContentLocale): void {
+    this.locale = { language, region };
+  }
+
+  public getLocale(): ContentLocale {
+    return { ...this.locale };
+  }
+
+  // Locale params become part of the endpoint, so each language and region is cached separately
+  private localizeEndpoint(endpoint: string): string {
+    const { language, region } = this.locale;
+    const path = endpoint.split('?')[0];
+    const params = [`language=${language}`, `region=${region}`];
+
+    // Without these, videos and images are limited to the chosen language and most shows have none
+    if (/\/videos$/.test(path)) {
+      params.push(`include_video_language=${language.split('-')[0]},en,null`);
+    }
+    if (/\/images$/.test(path)) {
+      params.push(`include_image_language=${language.split('-')[0]},null`);
+    }
+    // TMDB decides what airs "today" in New York time unless told otherwise
+    if (path === '/tv/airing_today') {
+      params.push(`timezone=${encodeURIComponent(Intl.DateTimeFormat().resolvedOptions().timeZone)}`);
+    }
+
+    return `${endpoint}${endpoint.includes('?') ? '&' : '?'}${params.join('&')}`;
+  }
+
+  private applyApiKey(key: string): void {
+    this.headers = {
+      'Authorization': `Bearer ${key}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  // Overrides the key from .env; an empty key reverts to it
+  public async setApiKey(key: string): Promise<void> {
+    const trimmedKey = key.trim();
+
+    try {
+      if (trimmedKey) {
+        await AsyncStorage.setItem(API_KEY_OVERRIDE_KEY, trimmedKey);
+        this.applyApiKey(trimmedKey);
+      } else {
+        await AsyncStorage.removeItem(API_KEY_OVERRIDE_KEY);
+        this.applyApiKey(API_KEY);
+      }
+
+      this.hasApiKeyOverride = !!trimmedKey;
+      this.apiKeyLoaded = true;
+    } catch (error) {
+      console.error('Error saving TMDB API key:', error);
       throw error;
     }
   }
 
-  public async getPopularTVShows(page = 1): Promise<APIResponse<TVShow>> {
-    return this.fetchAPI<APIResponse<TVShow>>(`/tv/popular?page=${page}`);
+  public async hasCustomApiKey(): Promise<boolean> {
+    await this.loadApiKey();
+    return this.hasApiKeyOverride;
+  }
+
+  private recordRetry(event: RetryEvent): void {
+    this.requestStats.retries++;
+    this.requestStats.lastRetry = event;
+
+    switch (event.reason) {
+      case 'network':
+        this.requestStats.networkRetries++;
+        break;
+      case 'server':
+        this.requestStats.serverRetries++;
+        break;
+      case 'rate-limit':
+        this.requestStats.rateLimitRetries++;
+        // Slow down every queued request, not just the one that was rejected
+        this.rateLimiter.penalize(event.delay);
+        break;
+    }
+  }
+
+  public getRequestStats(): RequestStats {
+    return { ...this.requestStats };
+  }
+
+  public resetRequestStats(): void {
+    this.requestStats = { ...EMPTY_REQUEST_STATS };
+  }
+
+  private getCacheTTL(endpoint: string, data: unknown): number {
+    const { TTL } = CACHE_CONFIG;
+    const path = endpoint.split('?')[0];
+
+    if (path === '/tv/popular' || path === '/tv/top_rated') {
+      return TTL.LISTS;
+    }
+    if (path === '/discover/tv' || /^\/tv\/\d+\/(recommendations|similar)$/.test(path)) {
+      return TTL.LISTS;
+    }
+    if (path === '/genre/tv/list') {
+      return TTL.GENRES;
+    }
+    if (/^\/tv\/\d+\/aggregate_credits$/.test(path) || path.startsWith('/person/')) {
+      return TTL.PEOPLE;
+    }
+    if (/^\/tv\/\d+(\/season\/\d+)?\/videos$/.test(path)) {
+      return TTL.VIDEOS;
+    }
+    if (/^\/tv\/\d+\/translations$/.test(path)) {
+      return TTL.TRANSLATIONS;
+    }
+    if (/^\/tv\/\d+\/watch\/providers$/.test(path) || path === '/watch/providers/tv') {
+      return TTL.WATCH_PROVIDERS;
+    }
+    if (path === '/tv/airing_today') {
+      return TTL.AIRING_TODAY;
+    }
+    if (path.startsWith('/search/')) {
+      return TTL.SEARCH;
+    }
+    if (path.startsWith('/find/') || /^\/tv\/\d+\/external_ids$/.test(path)) {
+      return TTL.EXTERNAL_IDS;
+    }
+    if (/^\/tv\/\d+\/season\/\d+\/episode\/\d+(\/(credits|images))?$/.test(path)) {
+      return TTL.EPISODE_DETAILS;
+    }
+    if (path === '/tv/changes' || /^\/tv\/\d+\/changes$/.test(path)) {
+      return TTL.CHANGES;
+    }
+    if (/^\/tv\/\d+\/season\/\d+$/.test(path)) {
+      const episodes = (data as Season).episodes || [];
+      return episodes.some(episode => this.isAiringSoon(episode.air_date))
+        ? TTL.SEASON_DETAILS_AIRING_SOON
+        : TTL.SEASON_DETAILS;
+    }
+    if (/^\/tv\/\d+$/.test(path)) {
+      return this.isAiringSoon((data as TVShow).next_episode_to_air?.air_date)
+        ? TTL.SHOW_DETAILS_AIRING_SOON
+        : TTL.SHOW_DETAILS;
+    }
+
+    return TTL.DEFAULT;
+  }
+
+  private isAiringSoon(airDate?: string): boolean {
+    if (!airDate) return false;
+    const timeUntilAir = new Date(airDate).getTime() - Date.now();
+    return timeUntilAir > -CACHE_CONFIG.AIRING_SOON_WINDOW && timeUntilAir < CACHE_CONFIG.AIRING_SOON_WINDOW;
+  }
+
+  public async clearCache(): Promise<void> {
+    await ResponseCacheService.clear();
+  }
+
+  public async getPopularTVShows(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.fetchAPI<APIResponse<TVShow>>(`/tv/popular?page=${page}`, options);
+  }
+
+  public async getTVShowDetails(id: number, options: RequestOptions<TVShow> = {}): Promise<TVShow> {
+    const { onRevalidate } = options;
+    const details = await this.fetchAPI<TVShow>(`/tv/${id}`, {
+      ...options,
+      onRevalidate: onRevalidate && (data => {
+        this.withOriginalLanguageFallback(data).then(onRevalidate);
+      }),
+    });
+    return this.withOriginalLanguageFallback(details, options.signal);
+  }
+
+  public async getChangedShows(
+    window: ChangesWindow,
+    page = 1,
+    options?: RequestOptions<APIResponse<ChangedShow>>
+  ): Promise<APIResponse<ChangedShow>> {
+    return this.fetchAPI<APIResponse<ChangedShow>>(
+      `/tv/changes?start_date=${window.startDate}&end_date=${window.endDate}&page=${page}`,
+      options
+    );
+  }
+
+  public async getShowChanges(
+    id: number,
+    window: ChangesWindow,
+    options?: RequestOptions<ShowChangesResponse>
+  ): Promise<ChangeGroup[]> {
+    const response = await this.fetchAPI<ShowChangesResponse>(
+      `/tv/${id}/changes?start_date=${window.startDate}&end_date=${window.endDate}`,
+      options
+    );
+    return response.changes;
+  }
+
+  public async getTranslations(id: number, options?: RequestOptions<TranslationsResponse>): Promise<Translation[]> {
+    const response = await this.fetchAPI<TranslationsResponse>(`/tv/${id}/translations`, options);
+    return response.translations;
+  }
+
+  // TMDB leaves the overview empty when a show has no translation in the preferred
+  // language, so the text from the show's original language is used instead
+  private async withOriginalLanguageFallback(show: TVShow, signal?: AbortSignal): Promise<TVShow> {
+    const preferredLanguage = this.locale.language.split('-')[0];
+    if (show.overview || !show.original_language || show.original_language === preferredLanguage) {
+      return show;
+    }
+
+    try {
+      const translations = await this.getTranslations(show.id, { signal });
+      const original = translations.find(translation =>
+        translation.iso_639_1 === show.original_language && translation.data.overview
+      );
+      if (!original) return show;
+
+      return {
+        ...show,
+        name: show.name || original.data.name,
+        overview: original.data.overview,
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error loading translations:', error);
+      return show;
+    }
+  }
+
+  public async searchTVShows(query: string, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.fetchAPI<APIResponse<TVShow>>(`/search/tv?query=${encodeURIComponent(query)}&page=${page}`, options);
+  }
+
+  public async getTopRatedTVShows(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.fetchAPI<APIResponse<TVShow>>(`/tv/top_rated?page=${page}`, options);
+  }
+
+  public async getTVShowsAiringToday(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.fetchAPI<APIResponse<TVShow>>(`/tv/airing_today?page=${page}`, options);
+  }
+
+  public async getSeasonDetails(tvId: number, seasonNumber: number, options?: RequestOptions<Season>): Promise<Season> {
+    return this.fetchAPI<Season>(`/tv/${tvId}/season/${seasonNumber}`, options);
+  }
+
+  public async getEpisodeDetails(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeDetails>
+  ): Promise<EpisodeDetails> {
+    return this.fetchAPI<EpisodeDetails>(`/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}`, options);
+  }
+
+  public async getEpisodeCredits(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeCredits>
+  ): Promise<EpisodeCredits> {
+    return this.fetchAPI<EpisodeCredits>(`/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}/credits`, options);
+  }
+
+  public async getEpisodeImages(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeImagesResponse>
+  ): Promise<ImageFile[]> {
+    const response = await this.fetchAPI<EpisodeImagesResponse>(
+      `/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}/images`,
+      options
+    );
+    return response.stills;
+  }
+
+  public async discoverTVShows(
+    filters: DiscoverFilters,
+    page = 1,
+    options?: RequestOptions<APIResponse<TVShow>>
+  ): Promise<APIResponse<TVShow>> {
+    return this.fetchAPI<APIResponse<TVShow>>(`/discover/tv?${buildDiscoverQuery(filters, page)}`, options);
+  }
+
+  public async getRecommendations(id: number, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.fetchAPI<APIResponse<TVShow>>(`/tv/${id}/recommendations?page=${page}`, options);
+  }
+
+  public async getSimilarTVShows(id: number, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.fetchAPI<APIResponse<TVShow>>(`/tv/${id}/similar?page=${page}`, options);
+  }
+
+  public async getAggregateCredits(id: number, options?: RequestOptions<AggregateCredits>): Promise<AggregateCredits> {
+    return this.fetchAPI<AggregateCredits>(`/tv/${id}/aggregate_credits`, options);
+  }
+
+  public async getPersonDetails(id: number, options?: RequestOptions<Person>): Promise<Person> {
+    return this.fetchAPI<Person>(`/person/${id}`, options);
+  }
+
+  public async getPersonTVCredits(id: number, options?: RequestOptions<PersonTVCredits>): Promise<PersonTVCredits> {
+    return this.fetchAPI<PersonTVCredits>(`/person/${id}/tv_credits`, options);
+  }
+
+  public async getVideos(id: number, options?: RequestOptions<VideosResponse>): Promise<Video[]> {
+    const response = await this.fetchAPI<VideosResponse>(`/tv/${id}/videos`, options);
+    return response.results;
+  }
+
+  public async getSeasonVideos(tvId: number, seasonNumber: number, options?: RequestOptions<VideosResponse>): Promise<Video[]> {
+    const response = await this.fetchAPI<VideosResponse>(`/tv/${tvId}/season/${seasonNumber}/videos`, options);
+    return response.results;
   }
 
-  public async getTVShowDetails(id: number): Promise<TVShow> {
-    return this.fetchAPI<TVShow>(`/tv/${id}`);
+  public async getWatchProviders(id: number, options?: RequestOptions<WatchProvidersResponse>): Promise<WatchProvidersByRegion> {
+    const response = await this.fetchAPI<WatchProvidersResponse>(`/tv/${id}/watch/providers`, options);
+    return response.results;
   }
 
-  public async searchTVShows(query: string, page = 1): Promise<APIResponse<TVShow>> {
-    return this.fetchAPI<APIResponse<TVShow>>(`/search/tv?query=${encodeURIComponent(query)}&page=${page}`);
+  // Every service TMDB knows about in a region, for picking subscriptions in settings
+  public async getRegionWatchProviders(region: string, options?: RequestOptions<{ results: WatchProvider[] }>): Promise<WatchProvider[]> {
+    const response = await this.fetchAPI<{ results: WatchProvider[] }>(
+      `/watch/providers/tv?watch_region=${encodeURIComponent(region)}`,
+      options
+    );
+    return response.results;
   }
 
-  public async getTopRatedTVShows(page = 1): Promise<APIResponse<TVShow>> {
-    return this.fetchAPI<APIResponse<TVShow>>(`/tv/top_rated?page=${page}`);
+  public async getTVGenres(options?: RequestOptions<{ genres: Genre[] }>): Promise<Genre[]> {
+    const response = await this.fetchAPI<{ genres: Genre[] }>('/genre/tv/list', options);
+    return response.genres;
   }
 
-  public async getTVShowsAiringToday(page = 1): Promise<APIResponse<TVShow>> {
-    return this.fetchAPI<APIResponse<TVShow>>(`/tv/airing_today?page=${page}`);
+  public async getExternalIds(id: number, options?: RequestOptions<ExternalIds>): Promise<ExternalIds> {
+    return this.fetchAPI<ExternalIds>(`/tv/${id}/external_ids`, options);
   }
 
-  public async getSeasonDetails(tvId: number, seasonNumber: number): Promise<Season> {
-    return this.fetchAPI<Season>(`/tv/${tvId}/season/${seasonNumber}`);
+  public async findByExternalId(externalId: string, source: ExternalSource, options?: RequestOptions<FindResponse>): Promise<FindResponse> {
+    return this.fetchAPI<FindResponse>(`/find/${encodeURIComponent(externalId)}?external_source=${source}`, options);
   }
 
+  // Shows without artwork (and TVmaze shows without a backdrop) have an empty path
   public getImageUrl(path: string, size: string): string {
+    if (!path) return '';
     return `${TMDB_CONFIG.IMAGE_BASE_URL}/${size}${path}`;
   }
 }
@@ -0,0 +1,108 @@
+import MetadataService from './MetadataService';
+import WatchProgressService, { EpisodeRef, summarizeProgress } from './WatchProgressService';
+import { Episode, RequestOptions, TVShow } from './TMDBService';
+import { TMDBNotFoundError, isAbortError } from './TMDBError';
+
+export type UpNextSort = 'recently_watched' | 'oldest_backlog';
+
+export interface UpNextItem {
+  show: TVShow;
+  episode: Episode;
+  // When the episode before this one was marked; null for shows not started yet
+  lastWatchedAt: string | null;
+}
+
+type UpNextRequestOptions = Omit<RequestOptions, 'onRevalidate'>;
+
+const hasAired = (episode: Episode, now: number) => !!episode.air_date && new Date(episode.air_date).getTime() <= now;
+
+// Recently watched puts shows that haven't been started last; oldest backlog puts the
+// episode that's been waiting longest first
+export const sortUpNext = (items: UpNextItem[], sort: UpNextSort): UpNextItem[] => {
+  return [...items].sort((a, b) => {
+    if (sort === 'recently_watched') {
+      return (b.lastWatchedAt || '').localeCompare(a.lastWatchedAt || '');
+    }
+    return a.episode.air_date.localeCompare(b.episode.air_date);
+  });
+};
+
+class UpNextService {
+  private static instance: UpNextService;
+
+  private constructor() {}
+
+  public static getInstance(): UpNextService {
+    if (!UpNextService.instance) {
+      UpNextService.instance = new UpNextService();
+    }
+    return UpNextService.instance;
+  }
+
+  // The episode after the furthest one watched, crossing into later seasons as needed.
+  // Returns null once the user has caught up with everything that has aired.
+  async getNextEpisode(
+    show: Pick<TVShow, 'id' | 'number_of_seasons'>,
+    after: EpisodeRef | null,
+    options?: UpNextRequestOptions
+  ): Promise<Episode | null> {
+    const now = Date.now();
+    let seasonNumber = after?.season ?? 1;
+    let afterEpisode = after?.episode ?? 0;
+
+    while (!show.number_of_seasons || seasonNumber <= show.number_of_seasons) {
+      let episodes: Episode[];
+      try {
+        episodes = (await MetadataService.getSeasonDetails(show.id, seasonNumber, options)).episodes || [];
+      } catch (error) {
+        // Snapshots saved from list results don't know how many seasons there are
+        if (error instanceof TMDBNotFoundError) return null;
+        throw error;
+      }
+      if (episodes.length === 0) return null;
+
+      const next = [...episodes]
+        .sort((a, b) => a.episode_number - b.episode_number)
+        .find(episode => episode.episode_number > afterEpisode);
+
+      if (next) {
+        return hasAired(next, now) ? next : null;
+      }
+
+      seasonNumber++;
+      afterEpisode = 0;
+    }
+
+    return null;
+  }
+
+  async getUpNext(show: TVShow, options?: UpNextRequestOptions): Promise<UpNextItem | null> {
+    const { lastWatched } = summarizeProgress(await WatchProgressService.getWatchedEpisodes(show.id));
+    const episode = await this.getNextEpisode(show, lastWatched, options);
+    if (!episode) return null;
+
+    return { show, episode, lastWatchedAt: lastWatched?.watchedAt ?? null };
+  }
+
+  // Shows that fail to load are left out rather than failing the whole queue
+  async getQueue(shows: TVShow[], options?: UpNextRequestOptions): Promise<UpNextItem[]> {
+    const results = await Promise.allSettled(shows.map(show => this.getUpNext(show, options)));
+    const items: UpNextItem[] = [];
+
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        if (!isAbortError(result.reason)) {
+          console.error('Error loading next episode:', result.reason);
+        }
+        return;
+      }
+      if (result.value) {
+        items.push(result.value);
+      }
+    });
+
+    return items;
+  }
+}
+
+export default UpNextService.getInstance();
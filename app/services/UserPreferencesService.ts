@@ -7,6 +7,10 @@ const NOTIFICATIONS_ENABLED_KEY = '@EpisodeAlerts:notificationsEnabled';
 const USER_ID_KEY = '@EpisodeAlerts:userId';
 const FIRST_LAUNCH_KEY = '@EpisodeAlerts:firstLaunch';
 const LAST_OPEN_DATE_KEY = '@EpisodeAlerts:lastOpenDate';
+const LANGUAGE_KEY = '@EpisodeAlerts:language';
+const REGION_KEY = '@EpisodeAlerts:region';
+const SHOW_ORIGINAL_TITLES_KEY = '@EpisodeAlerts:showOriginalTitles';
+const SUBSCRIBED_PROVIDERS_KEY = '@EpisodeAlerts:subscribedProviders';
 
 export type ThemeType = 'dark' | 'light' | 'system';
 
@@ -17,6 +21,13 @@ export interface UserPreferences {
   userId: string;
   isFirstLaunch: boolean;
   lastOpenDate: string;
+  // BCP 47 tag such as 'en-US', sent to TMDB as the language of titles and overviews
+  language: string;
+  // ISO 3166-1 code used for regional listings and streaming availability
+  region: string;
+  showOriginalTitles: boolean;
+  // TMDB provider ids of the streaming services the user pays for
+  subscribedProviders: number[];
 }
 
 const DEFAULT_PREFERENCES: UserPreferences = {
@@ -26,6 +37,10 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   userId: '',
   isFirstLaunch: true,
   lastOpenDate: new Date().toISOString(),
+  language: 'en-US',
+  region: 'US',
+  showOriginalTitles: false,
+  subscribedProviders: [],
 };
 
 // Generate a random user ID for analytics
@@ -87,6 +102,24 @@ class UserPreferencesService {
         await AsyncStorage.setItem(FIRST_LAUNCH_KEY, 'false');
       }
 
+      const language = await AsyncStorage.getItem(LANGUAGE_KEY);
+      if (language) {
+        this.preferences.language = language;
+      }
+
+      const region = await AsyncStorage.getItem(REGION_KEY);
+      if (region) {
+        this.preferences.region = region;
+      }
+
+      const showOriginalTitles = await AsyncStorage.getItem(SHOW_ORIGINAL_TITLES_KEY);
+      this.preferences.showOriginalTitles = showOriginalTitles === 'true';
+
+      const subscribedProviders = await AsyncStorage.getItem(SUBSCRIBED_PROVIDERS_KEY);
+      if (subscribedProviders) {
+        this.preferences.subscribedProviders = JSON.parse(subscribedProviders);
+      }
+
       this.preferences.lastOpenDate = new Date().toISOString();
       await AsyncStorage.setItem(LAST_OPEN_DATE_KEY, this.preferences.lastOpenDate);
 
@@ -145,6 +178,51 @@ class UserPreferencesService {
     }
   }
 
+  public async setLanguage(language: string): Promise<void> {
+    try {
+      this.preferences.language = language;
+      await AsyncStorage.setItem(LANGUAGE_KEY, language);
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error setting language:', error);
+      throw error;
+    }
+  }
+
+  public async setRegion(region: string): Promise<void> {
+    try {
+      this.preferences.region = region;
+      await AsyncStorage.setItem(REGION_KEY, region);
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error setting region:', error);
+      throw error;
+    }
+  }
+
+  public async setShowOriginalTitles(enabled: boolean): Promise<void> {
+    try {
+      this.preferences.showOriginalTitles = enabled;
+      await AsyncStorage.setItem(SHOW_ORIGINAL_TITLES_KEY, enabled.toString());
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error setting original titles:', error);
+      throw error;
+    }
+  }
+
+  // Provider ids are the same in every region, so subscriptions carry over when the region changes
+  public async setSubscribedProviders(providerIds: number[]): Promise<void> {
+    try {
+      this.preferences.subscribedProviders = [...new Set(providerIds)];
+      await AsyncStorage.setItem(SUBSCRIBED_PROVIDERS_KEY, JSON.stringify(this.preferences.subscribedProviders));
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error setting subscribed providers:', error);
+      throw error;
+    }
+  }
+
   public getTheme(): ThemeType {
     return this.preferences.theme;
   }
@@ -171,6 +249,10 @@ class UserPreferencesService {
       
       await AsyncStorage.setItem(THEME_KEY, this.preferences.theme);
       await AsyncStorage.setItem(ANALYTICS_ENABLED_KEY, this.preferences.analyticsEnabled.toString());
+      await AsyncStorage.setItem(LANGUAGE_KEY, this.preferences.language);
+      await AsyncStorage.setItem(REGION_KEY, this.preferences.region);
+      await AsyncStorage.setItem(SHOW_ORIGINAL_TITLES_KEY, this.preferences.showOriginalTitles.toString());
+      await AsyncStorage.setItem(SUBSCRIBED_PROVIDERS_KEY, JSON.stringify(this.preferences.subscribedProviders));
       await NotificationService.setEnabled(this.preferences.notificationsEnabled);
       await AsyncStorage.setItem(NOTIFICATIONS_ENABLED_KEY, this.preferences.notificationsEnabled.toString());
       
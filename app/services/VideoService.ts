@@ -0,0 +1,90 @@
+import * as WebBrowser from 'expo-web-browser';
+import MetadataService from './MetadataService';
+import { RequestOptions, Video, VideoType } from './TMDBService';
+
+export interface VideoGroup {
+  type: VideoType;
+  videos: Video[];
+}
+
+// The order groups appear in on the details screens
+const GROUPED_TYPES: VideoType[] = ['Trailer', 'Teaser', 'Clip', 'Featurette'];
+const PLAYABLE_SITES = ['YouTube', 'Vimeo'];
+
+type VideoRequestOptions = Omit<RequestOptions, 'onRevalidate'>;
+
+const isPlayable = (video: Video) => PLAYABLE_SITES.includes(video.site);
+
+// Official uploads first, then the newest
+const compareVideos = (a: Video, b: Video) => {
+  if (a.official !== b.official) return a.official ? -1 : 1;
+  return (b.published_at || '').localeCompare(a.published_at || '');
+};
+
+export const groupVideos = (videos: Video[]): VideoGroup[] => {
+  return GROUPED_TYPES
+    .map(type => ({
+      type,
+      videos: videos.filter(video => video.type === type && isPlayable(video)).sort(compareVideos),
+    }))
+    .filter(group => group.videos.length > 0);
+};
+
+// Falls back to a teaser for shows that haven't released a full trailer yet
+export const pickTrailer = (videos: Video[]): Video | null => {
+  for (const type of ['Trailer', 'Teaser'] as VideoType[]) {
+    const candidates = videos.filter(video => video.type === type && isPlayable(video)).sort(compareVideos);
+    if (candidates.length > 0) {
+      return candidates[0];
+    }
+  }
+  return null;
+};
+
+class VideoService {
+  private static instance: VideoService;
+
+  private constructor() {}
+
+  public static getInstance(): VideoService {
+    if (!VideoService.instance) {
+      VideoService.instance = new VideoService();
+    }
+    return VideoService.instance;
+  }
+
+  async getShowVideoGroups(showId: number, options?: VideoRequestOptions): Promise<VideoGroup[]> {
+    return groupVideos(await MetadataService.getVideos(showId, options));
+  }
+
+  async getSeasonVideoGroups(showId: number, seasonNumber: number, options?: VideoRequestOptions): Promise<VideoGroup[]> {
+    return groupVideos(await MetadataService.getSeasonVideos(showId, seasonNumber, options));
+  }
+
+  async getTrailer(showId: number, options?: VideoRequestOptions): Promise<Video | null> {
+    return pickTrailer(await MetadataService.getVideos(showId, options));
+  }
+
+  getWatchUrl(video: Video): string {
+    return video.site === 'Vimeo'
+      ? `https://vimeo.com/${video.key}`
+      : `https://www.youtube.com/watch?v=${video.key}`;
+  }
+
+  getThumbnailUrl(video: Video): string | null {
+    // Vimeo thumbnails need an API call, so those cards show a placeholder instead
+    return video.site === 'YouTube' ? `https://img.youtube.com/vi/${video.key}/hqdefault.jpg` : null;
+  }
+
+  async play(video: Video): Promise<boolean> {
+    try {
+      await WebBrowser.openBrowserAsync(this.getWatchUrl(video));
+      return true;
+    } catch (error) {
+      console.error('Error opening video:', error);
+      return false;
+    }
+  }
+}
+
+export default VideoService.getInstance();
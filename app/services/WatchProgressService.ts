@@ -0,0 +1,305 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import MetadataService from './MetadataService';
+import { isAbortError } from './TMDBError';
+import { Episode, RequestOptions, TVShow } from './TMDBService';
+
+const PROGRESS_KEY_PREFIX = '@EpisodeAlerts:progress:';
+
+// Watched timestamps (ISO strings) keyed by season number, then episode number
+export type WatchedEpisodes = Record<number, Record<number, string>>;
+
+export interface EpisodeRef {
+  season: number;
+  episode: number;
+}
+
+export interface ShowProgress {
+  watchedCount: number;
+  // Zero when the show's episode count isn't known
+  totalCount: number;
+  percentComplete: number;
+  // The furthest episode watched, which isn't necessarily the most recent one
+  lastWatched: (EpisodeRef & { watchedAt: string }) | null;
+}
+
+type ProgressRequestOptions = Omit<RequestOptions, 'onRevalidate'>;
+
+const compareEpisodes = (a: EpisodeRef, b: EpisodeRef) => a.season - b.season || a.episode - b.episode;
+
+// Specials (season 0) aren't part of the main run, so they never count toward progress
+export const summarizeProgress = (watched: WatchedEpisodes, totalCount = 0): ShowProgress => {
+  let watchedCount = 0;
+  let lastWatched: ShowProgress['lastWatched'] = null;
+
+  for (const [seasonKey, episodes] of Object.entries(watched)) {
+    const season = Number(seasonKey);
+    if (season === 0) continue;
+
+    for (const [episodeKey, watchedAt] of Object.entries(episodes)) {
+      const ref = { season, episode: Number(episodeKey) };
+      watchedCount++;
+      if (!lastWatched || compareEpisodes(ref, lastWatched) > 0) {
+        lastWatched = { ...ref, watchedAt };
+      }
+    }
+  }
+
+  return {
+    watchedCount,
+    totalCount,
+    percentComplete: totalCount > 0 ? Math.min(100, Math.round((watchedCount / totalCount) * 100)) : 0,
+    lastWatched,
+  };
+};
+
+export const formatProgress = (progress: ShowProgress): string => {
+  if (!progress.lastWatched) return '';
+
+  const { season, episode } = progress.lastWatched;
+  return progress.totalCount > 0
+    ? `S${season}E${episode} · ${progress.percentComplete}% complete`
+    : `S${season}E${episode}`;
+};
+
+const hasAired = (episode: Episode, now: number) => !!episode.air_date && new Date(episode.air_date).getTime() <= now;
+
+// Each show is stored under its own key, so marking a long show rewrites one small entry
+// instead of the progress for every show.
+class WatchProgressService {
+  private static instance: WatchProgressService;
+  private cache = new Map<number, WatchedEpisodes>();
+  // The latest pending write for each show
+  private writes = new Map<number, Promise<void>>();
+  private callbacks: Array<(showId: number) => void> = [];
+
+  private constructor() {}
+
+  public static getInstance(): WatchProgressService {
+    if (!WatchProgressService.instance) {
+      WatchProgressService.instance = new WatchProgressService();
+    }
+    return WatchProgressService.instance;
+  }
+
+  subscribe(callback: (showId: number) => void): () => void {
+    this.callbacks.push(callback);
+
+    return () => {
+      this.callbacks = this.callbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  async getWatchedEpisodes(showId: number): Promise<WatchedEpisodes> {
+    const cached = this.cache.get(showId);
+    if (cached) return cached;
+
+    try {
+      const progressJson = await AsyncStorage.getItem(`${PROGRESS_KEY_PREFIX}${showId}`);
+      const watched: WatchedEpisodes = progressJson ? JSON.parse(progressJson) : {};
+      this.cache.set(showId, watched);
+      return watched;
+    } catch (error) {
+      console.error('Error getting watch progress:', error);
+      return {};
+    }
+  }
+
+  // Every show with at least one watched episode, for backups. Throws on storage errors so a
+  // backup never silently leaves progress out.
+  async getAllWatchedEpisodes(): Promise<Record<number, WatchedEpisodes>> {
+    const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(PROGRESS_KEY_PREFIX));
+    const stored = await AsyncStorage.multiGet(keys);
+    const progress: Record<number, WatchedEpisodes> = {};
+
+    stored.forEach(([key, progressJson]) => {
+      const showId = Number(key.slice(PROGRESS_KEY_PREFIX.length));
+      const watched: WatchedEpisodes = this.cache.get(showId) ?? (progressJson ? JSON.parse(progressJson) : {});
+      if (Object.keys(watched).length > 0) {
+        progress[showId] = watched;
+      }
+    });
+    return progress;
+  }
+
+  async isWatched(showId: number, seasonNumber: number, episodeNumber: number): Promise<boolean> {
+    const watched = await this.getWatchedEpisodes(showId);
+    return !!watched[seasonNumber]?.[episodeNumber];
+  }
+
+  async getProgress(show: Pick<TVShow, 'id' | 'number_of_episodes'>): Promise<ShowProgress> {
+    return summarizeProgress(await this.getWatchedEpisodes(show.id), show.number_of_episodes);
+  }
+
+  async getProgressForShows(shows: Pick<TVShow, 'id' | 'number_of_episodes'>[]): Promise<Record<number, ShowProgress>> {
+    const entries = await Promise.all(shows.map(async show => [show.id, await this.getProgress(show)] as const));
+    return Object.fromEntries(entries);
+  }
+
+  async markEpisode(showId: number, seasonNumber: number, episodeNumber: number, watched = true): Promise<boolean> {
+    return this.markEpisodes(showId, [{ season: seasonNumber, episode: episodeNumber }], watched);
+  }
+
+  // Applies every change in memory and writes the show once. Episodes can carry their own
+  // watch time, e.g. from an import; episodes already marked keep the time they have.
+  async markEpisodes(
+    showId: number,
+    episodes: (EpisodeRef & { watchedAt?: string })[],
+    watched = true
+  ): Promise<boolean> {
+    try {
+      await this.enqueue(showId, async () => {
+        const current = await this.getWatchedEpisodes(showId);
+        const updated: WatchedEpisodes = { ...current };
+        // Each touched season is copied once rather than once per episode
+        const copiedSeasons = new Set<number>();
+        const watchedAt = new Date().toISOString();
+
+        for (const { season, episode, watchedAt: episodeWatchedAt } of episodes) {
+          if (!copiedSeasons.has(season)) {
+            updated[season] = { ...updated[season] };
+            copiedSeasons.add(season);
+          }
+
+          if (watched) {
+            updated[season][episode] = updated[season][episode] ?? episodeWatchedAt ?? watchedAt;
+          } else {
+            delete updated[season][episode];
+          }
+        }
+
+        for (const season of copiedSeasons) {
+          if (Object.keys(updated[season]).length === 0) {
+            delete updated[season];
+          }
+        }
+
+        await this.save(showId, updated);
+      });
+      return true;
+    } catch (error) {
+      console.error('Error updating watch progress:', error);
+      return false;
+    }
+  }
+
+  // Only aired episodes are marked as watched; unmarking clears the whole season
+  async markSeason(
+    showId: number,
+    seasonNumber: number,
+    watched = true,
+    options?: ProgressRequestOptions
+  ): Promise<boolean> {
+    try {
+      if (!watched) {
+        await this.enqueue(showId, async () => {
+          const updated = { ...(await this.getWatchedEpisodes(showId)) };
+          delete updated[seasonNumber];
+          await this.save(showId, updated);
+        });
+        return true;
+      }
+
+      const season = await MetadataService.getSeasonDetails(showId, seasonNumber, options);
+      const now = Date.now();
+      const episodes = (season.episodes || [])
+        .filter(episode => hasAired(episode, now))
+        .map(episode => ({ season: seasonNumber, episode: episode.episode_number }));
+
+      return this.markEpisodes(showId, episodes, true);
+    } catch (error) {
+      console.error('Error marking season:', error);
+      return false;
+    }
+  }
+
+  // Marks every aired episode of the main run up to and including the given one. Earlier
+  // seasons that fail to load (e.g. missing from the provider) are skipped.
+  async markUpTo(
+    showId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: ProgressRequestOptions
+  ): Promise<boolean> {
+    try {
+      const seasonNumbers = Array.from({ length: seasonNumber }, (_, index) => index + 1);
+      const results = await Promise.allSettled(
+        seasonNumbers.map(number => MetadataService.getSeasonDetails(showId, number, options))
+      );
+
+      const seasons = results.flatMap((result, index) => {
+        if (result.status === 'fulfilled') {
+          return [result.value];
+        }
+        // Without the chosen episode's own season there's nothing sensible to mark
+        if (seasonNumbers[index] === seasonNumber || isAbortError(result.reason)) {
+          throw result.reason;
+        }
+        console.error(`Error loading season ${seasonNumbers[index]}:`, result.reason);
+        return [];
+      });
+
+      const now = Date.now();
+      const target = { season: seasonNumber, episode: episodeNumber };
+      const episodes: EpisodeRef[] = [];
+
+      for (const episode of seasons.flatMap(season => season.episodes || [])) {
+        const ref = { season: episode.season_number, episode: episode.episode_number };
+        const order = compareEpisodes(ref, target);
+        // The chosen episode counts even when its air date is missing
+        if ((order < 0 && hasAired(episode, now)) || order === 0) {
+          episodes.push(ref);
+        }
+      }
+
+      return this.markEpisodes(showId, episodes, true);
+    } catch (error) {
+      console.error('Error marking episodes up to here:', error);
+      return false;
+    }
+  }
+
+  async clearShow(showId: number): Promise<boolean> {
+    try {
+      await this.enqueue(showId, async () => {
+        this.cache.delete(showId);
+        await AsyncStorage.removeItem(`${PROGRESS_KEY_PREFIX}${showId}`);
+        this.notifyListeners(showId);
+      });
+      return true;
+    } catch (error) {
+      console.error('Error clearing watch progress:', error);
+      return false;
+    }
+  }
+
+  // Writes to a show run one at a time, each starting from what the last one saved, so
+  // overlapping marks can't read the same progress and overwrite each other
+  private enqueue(showId: number, write: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(showId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(write)
+      .finally(() => {
+        if (this.writes.get(showId) === next) {
+          this.writes.delete(showId);
+        }
+      });
+
+    this.writes.set(showId, next);
+    return next;
+  }
+
+  private async save(showId: number, watched: WatchedEpisodes): Promise<void> {
+    await AsyncStorage.setItem(`${PROGRESS_KEY_PREFIX}${showId}`, JSON.stringify(watched));
+    this.cache.set(showId, watched);
+    this.notifyListeners(showId);
+  }
+
+  private notifyListeners(showId: number): void {
+    for (const callback of this.callbacks) {
+      callback(showId);
+    }
+  }
+}
+
+export default WatchProgressService.getInstance();
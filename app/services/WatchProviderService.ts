@@ -0,0 +1,105 @@
+import MetadataService from './MetadataService';
+import { RequestOptions, WatchProvider, WatchProviderRegion } from './TMDBService';
+import { isAbortError } from './TMDBError';
+
+export type WatchOptionType = 'stream' | 'free' | 'rent' | 'buy';
+
+export interface WatchOptionGroup {
+  type: WatchOptionType;
+  providers: WatchProvider[];
+}
+
+type WatchProviderRequestOptions = Omit<RequestOptions, 'onRevalidate'>;
+
+const byDisplayPriority = (a: WatchProvider, b: WatchProvider) => a.display_priority - b.display_priority;
+
+// Ad-supported services are free to the viewer, so they're listed with the free ones
+export const groupWatchOptions = (availability: WatchProviderRegion | null | undefined): WatchOptionGroup[] => {
+  if (!availability) return [];
+
+  const groups: WatchOptionGroup[] = [
+    { type: 'stream', providers: availability.flatrate ?? [] },
+    { type: 'free', providers: [...(availability.free ?? []), ...(availability.ads ?? [])] },
+    { type: 'rent', providers: availability.rent ?? [] },
+    { type: 'buy', providers: availability.buy ?? [] },
+  ];
+
+  return groups
+    .map(group => ({
+      type: group.type,
+      providers: group.providers
+        .filter((provider, index, all) => all.findIndex(p => p.provider_id === provider.provider_id) === index)
+        .sort(byDisplayPriority),
+    }))
+    .filter(group => group.providers.length > 0);
+};
+
+// Only counts options that come with a subscription; renting or buying on a
+// service the user subscribes to still costs extra
+export const isAvailableOnProviders = (
+  availability: WatchProviderRegion | null | undefined,
+  providerIds: number[]
+): boolean => {
+  if (!availability || providerIds.length === 0) return false;
+
+  return [...(availability.flatrate ?? []), ...(availability.free ?? []), ...(availability.ads ?? [])]
+    .some(provider => providerIds.includes(provider.provider_id));
+};
+
+class WatchProviderService {
+  private static instance: WatchProviderService;
+
+  private constructor() {}
+
+  public static getInstance(): WatchProviderService {
+    if (!WatchProviderService.instance) {
+      WatchProviderService.instance = new WatchProviderService();
+    }
+    return WatchProviderService.instance;
+  }
+
+  async getShowAvailability(
+    showId: number,
+    region: string,
+    options?: WatchProviderRequestOptions
+  ): Promise<WatchProviderRegion | null> {
+    const regions = await MetadataService.getWatchProviders(showId, options);
+    return regions[region] ?? null;
+  }
+
+  async getRegionProviders(region: string, options?: WatchProviderRequestOptions): Promise<WatchProvider[]> {
+    const providers = await MetadataService.getRegionWatchProviders(region, options);
+    return [...providers].sort(byDisplayPriority);
+  }
+
+  // Shows whose availability can't be loaded are left out rather than failing the whole filter
+  async getAvailableShowIds(
+    showIds: number[],
+    region: string,
+    providerIds: number[],
+    options?: WatchProviderRequestOptions
+  ): Promise<Set<number>> {
+    const available = new Set<number>();
+    if (providerIds.length === 0) return available;
+
+    const results = await Promise.allSettled(
+      showIds.map(showId => this.getShowAvailability(showId, region, options))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        if (!isAbortError(result.reason)) {
+          console.error('Error loading watch providers:', result.reason);
+        }
+        return;
+      }
+      if (isAvailableOnProviders(result.value, providerIds)) {
+        available.add(showIds[index]);
+      }
+    });
+
+    return available;
+  }
+}
+
+export default WatchProviderService.getInstance();
@@ -0,0 +1,555 @@
+import * as FileSystem from 'expo-file-system';
+import WatchlistService, {
+  CustomList,
+  ImportMode,
+  StoredWatchlist,
+  WATCH_STATUSES,
+  WATCH_STATUS_LABELS,
+  WATCHLIST_VERSION,
+  WatchStatus,
+  WatchlistEntry,
+  migrateWatchlist,
+  mergeWatchlists,
+} from './WatchlistService';
+import MetadataService from './MetadataService';
+import WatchProgressService, { EpisodeRef, WatchedEpisodes } from './WatchProgressService';
+import RatingService, { Rating, RatingTargetType, clampScore, isNewerRating, ratingKey } from './RatingService';
+
+const BACKUP_DIR = FileSystem.documentDirectory + 'backups/';
+const BACKUP_FILE_PREFIX = 'episode-alerts-watchlist';
+
+// Identifies our JSON documents; bump BACKUP_VERSION if the envelope itself changes.
+// The watchlist inside carries its own version and is migrated like stored data on import.
+// Version 2 added watched episodes and ratings.
+export const BACKUP_FORMAT = 'episode-alerts-watchlist';
+export const BACKUP_VERSION = 2;
+
+export const CSV_COLUMNS = ['title', 'tmdb_id', 'added_at', 'status'] as const;
+
+export type BackupFileType = 'json' | 'csv';
+
+// Everything a JSON backup restores. CSVs and version 1 backups only have the watchlist.
+export interface BackupContents {
+  watchlist: StoredWatchlist;
+  // Watched episodes keyed by show id
+  progress: Record<number, WatchedEpisodes>;
+  ratings: Rating[];
+}
+
+export interface WatchlistBackup extends BackupContents {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+}
+
+export interface BackupFile {
+  name: string;
+  uri: string;
+  type: BackupFileType;
+  modifiedAt: number;
+}
+
+// A CSV only names the shows, so their details are fetched before the import is previewed
+export interface CsvRow {
+  showId: number;
+  title: string;
+  addedAt?: string;
+  status?: WatchStatus;
+}
+
+export type ParsedImport =
+  | ({ type: 'json'; skipped: number } & BackupContents)
+  | { type: 'csv'; rows: CsvRow[]; skipped: number };
+
+export interface PreparedImport extends BackupContents {
+  type: BackupFileType;
+  // Rows that were malformed or whose show couldn't be found
+  skipped: number;
+}
+
+export interface ImportDiff {
+  added: WatchlistEntry[];
+  updated: WatchlistEntry[];
+  removed: WatchlistEntry[];
+  unchanged: number;
+  addedLists: CustomList[];
+  removedLists: CustomList[];
+  // Episodes in the file that aren't marked watched yet
+  watchedEpisodes: number;
+  // Ratings in the file that are new or more recent than the saved ones
+  ratings: number;
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    // Keep instanceof working when classes are compiled down for Hermes
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+  }
+}
+
+export const buildBackup = (contents: BackupContents, now = new Date()): WatchlistBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: now.toISOString(),
+  ...contents,
+});
+
+// Quotes fields containing commas, quotes or line breaks, doubling any quotes inside
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (entries: WatchlistEntry[]): string => {
+  const rows = entries.map(entry =>
+    [entry.show.name, entry.show.id.toString(), entry.addedAt, entry.user.status].map(escapeCsvField).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// Splits CSV text into rows of fields, handling quoted fields that span lines
+export const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines come through as a single empty field
+  return records.filter(fields => fields.some(value => value.trim()));
+};
+
+// Accepts the stored key ("plan_to_watch") or its label ("Plan to Watch")
+const parseStatus = (value: string | undefined): WatchStatus | undefined => {
+  const needle = value?.trim().toLowerCase();
+  if (!needle) return undefined;
+  return WATCH_STATUSES.find(status => status === needle || WATCH_STATUS_LABELS[status].toLowerCase() === needle);
+};
+
+const parseDate = (value: string | undefined): string | undefined => {
+  const time = value ? Date.parse(value) : NaN;
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+export const parseCsv = (text: string): { rows: CsvRow[]; skipped: number } => {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+  const idColumn = columns.indexOf('tmdb_id');
+  if (idColumn === -1) {
+    throw new BackupFormatError('The CSV needs a tmdb_id column');
+  }
+
+  const column = (record: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index === -1 ? undefined : record[index];
+  };
+
+  const rows: CsvRow[] = [];
+  let skipped = 0;
+  records.forEach(record => {
+    const showId = Number(record[idColumn]?.trim());
+    if (!Number.isInteger(showId) || showId <= 0 || rows.some(row => row.showId === showId)) {
+      skipped++;
+      return;
+    }
+    rows.push({
+      showId,
+      title: column(record, 'title')?.trim() || `TMDB #${showId}`,
+      addedAt: parseDate(column(record, 'added_at')),
+      status: parseStatus(column(record, 'status')),
+    });
+  });
+
+  return { rows, skipped };
+};
+
+// Only the fields the rest of the import relies on are checked; the others are filled in below
+const isValidEntry = (value: unknown): value is WatchlistEntry =>
+  typeof value === 'object' && value !== null && 'show' in value &&
+  typeof value.show === 'object' && value.show !== null &&
+  'id' in value.show && typeof value.show.id === 'number' &&
+  'name' in value.show && typeof value.show.name === 'string';
+
+const isValidList = (value: unknown): value is CustomList =>
+  typeof value === 'object' && value !== null &&
+  'id' in value && typeof value.id === 'string' &&
+  'name' in value && typeof value.name === 'string';
+
+const RATING_TYPES: RatingTargetType[] = ['show', 'season', 'episode'];
+
+const isValidRating = (value: unknown): value is Rating =>
+  typeof value === 'object' && value !== null &&
+  'type' in value && RATING_TYPES.some(type => type === value.type) &&
+  'showId' in value && typeof value.showId === 'number' &&
+  'showName' in value && typeof value.showName === 'string' &&
+  'score' in value && typeof value.score === 'number' &&
+  'ratedAt' in value && typeof value.ratedAt === 'string' &&
+  (value.type === 'show' || ('seasonNumber' in value && typeof value.seasonNumber === 'number')) &&
+  (value.type !== 'episode' || ('episodeNumber' in value && typeof value.episodeNumber === 'number'));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keeps the episodes with a valid season, episode number and watch time
+const parseProgress = (value: unknown): Record<number, WatchedEpisodes> => {
+  const progress: Record<number, WatchedEpisodes> = {};
+  if (!isRecord(value)) return progress;
+
+  Object.entries(value).forEach(([showKey, seasons]) => {
+    const showId = Number(showKey);
+    if (!Number.isInteger(showId) || showId <= 0 || !isRecord(seasons)) return;
+
+    const watched: WatchedEpisodes = {};
+    Object.entries(seasons).forEach(([seasonKey, episodes]) => {
+      const season = Number(seasonKey);
+      if (!Number.isInteger(season) || season < 0 || !isRecord(episodes)) return;
+
+      Object.entries(episodes).forEach(([episodeKey, watchedAt]) => {
+        const episode = Number(episodeKey);
+        const time = typeof watchedAt === 'string' ? parseDate(watchedAt) : undefined;
+        if (Number.isInteger(episode) && episode > 0 && time) {
+          watched[season] = { ...watched[season], [episode]: time };
+        }
+      });
+    });
+
+    if (Object.keys(watched).length > 0) {
+      progress[showId] = watched;
+    }
+  });
+  return progress;
+};
+
+const parseRatings = (value: unknown): Rating[] => {
+  const ratings: unknown[] = Array.isArray(value) ? value : [];
+  const now = new Date().toISOString();
+
+  return ratings.filter(isValidRating).map(rating => ({
+    type: rating.type,
+    showId: rating.showId,
+    seasonNumber: rating.type === 'show' ? undefined : rating.seasonNumber,
+    episodeNumber: rating.type === 'episode' ? rating.episodeNumber : undefined,
+    showName: rating.showName,
+    posterPath: typeof rating.posterPath === 'string' ? rating.posterPath : null,
+    name: typeof rating.name === 'string' ? rating.name : undefined,
+    score: clampScore(rating.score),
+    ratedAt: parseDate(rating.ratedAt) ?? now,
+    history: Array.isArray(rating.history)
+      ? rating.history.filter(change => typeof change?.score === 'number' && typeof change?.ratedAt === 'string')
+      : [],
+  }));
+};
+
+export const parseBackupJson = (data: unknown): BackupContents & { skipped: number } => {
+  if (typeof data !== 'object' || data === null || !('format' in data) || data.format !== BACKUP_FORMAT) {
+    throw new BackupFormatError("This isn't an Episode Alerts watchlist backup");
+  }
+  if (!('version' in data) || typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new BackupFormatError('This backup was made by a newer version of the app');
+  }
+
+  const stored = 'watchlist' in data ? data.watchlist : undefined;
+  if (typeof stored !== 'object' || stored === null || !('entries' in stored) || !Array.isArray(stored.entries)) {
+    throw new BackupFormatError('The backup has no watchlist');
+  }
+  if ('version' in stored && typeof stored.version === 'number' && stored.version > WATCHLIST_VERSION) {
+    throw new BackupFormatError('This backup was made by a newer version of the app');
+  }
+
+  const storedEntries: unknown[] = stored.entries;
+  const entries = storedEntries.filter(isValidEntry);
+  const storedLists: unknown[] = 'lists' in stored && Array.isArray(stored.lists) ? stored.lists : [];
+  const lists = storedLists.filter(isValidList).map(list => ({
+    id: list.id,
+    name: list.name,
+    muted: !!list.muted,
+    createdAt: parseDate(list.createdAt) ?? new Date().toISOString(),
+  }));
+  const watchlist = migrateWatchlist({ ...stored, entries, lists });
+
+  // Drop duplicate shows, fill in fields a hand-edited file may have lost and list ids that point nowhere
+  const listIds = new Set(watchlist.lists.map(list => list.id));
+  const now = new Date().toISOString();
+  const uniqueEntries: WatchlistEntry[] = [];
+  watchlist.entries.forEach(entry => {
+    if (uniqueEntries.some(existing => existing.show.id === entry.show.id)) return;
+    const addedAt = parseDate(entry.addedAt) ?? now;
+    uniqueEntries.push({
+      ...entry,
+      addedAt,
+      updatedAt: parseDate(entry.updatedAt) ?? addedAt,
+      source: entry.source ?? 'import',
+      user: {
+        status: parseStatus(entry.user?.status) ?? 'watching',
+        tags: Array.isArray(entry.user?.tags) ? entry.user.tags.filter(tag => typeof tag === 'string') : [],
+        notes: typeof entry.user?.notes === 'string' ? entry.user.notes : undefined,
+      },
+      listIds: Array.isArray(entry.listIds) ? entry.listIds.filter(listId => listIds.has(listId)) : [],
+    });
+  });
+
+  return {
+    watchlist: { ...watchlist, entries: uniqueEntries },
+    // Version 1 backups don't have these, which reads the same as having none
+    progress: parseProgress('progress' in data ? data.progress : undefined),
+    ratings: parseRatings('ratings' in data ? data.ratings : undefined),
+    skipped: storedEntries.length - uniqueEntries.length,
+  };
+};
+
+// Works out the type from the content, so pasted text and files are handled the same way
+export const parseImport = (text: string): ParsedImport => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new BackupFormatError('The file is empty');
+  }
+
+  if (trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new BackupFormatError("The file isn't valid JSON");
+    }
+    return { type: 'json', ...parseBackupJson(data) };
+  }
+
+  return { type: 'csv', ...parseCsv(trimmed) };
+};
+
+const entryChanged = (before: WatchlistEntry, after: WatchlistEntry): boolean =>
+  before.user.status !== after.user.status ||
+  (before.user.notes ?? '') !== (after.user.notes ?? '') ||
+  before.user.tags.join('\n') !== after.user.tags.join('\n') ||
+  before.listIds.join('\n') !== after.listIds.join('\n');
+
+const toEpisodeRefs = (watched: WatchedEpisodes): (EpisodeRef & { watchedAt: string })[] =>
+  Object.entries(watched).flatMap(([season, episodes]) =>
+    Object.entries(episodes).map(([episode, watchedAt]) => ({ season: Number(season), episode: Number(episode), watchedAt }))
+  );
+
+// What importing would change, worked out from the result of the merge itself. Watched episodes
+// and ratings are always added to the saved ones, whichever mode the watchlist uses.
+export const diffImport = (current: BackupContents, imported: BackupContents, mode: ImportMode): ImportDiff => {
+  const result = mergeWatchlists(current.watchlist, imported.watchlist, mode);
+  const currentRatings = new Map(current.ratings.map(rating => [ratingKey(rating), rating]));
+  const currentById = new Map(current.watchlist.entries.map(entry => [entry.show.id, entry]));
+  const resultIds = new Set(result.entries.map(entry => entry.show.id));
+  const currentLists = current.watchlist.lists;
+
+  const diff: ImportDiff = {
+    added: [],
+    updated: [],
+    removed: current.watchlist.entries.filter(entry => !resultIds.has(entry.show.id)),
+    unchanged: 0,
+    addedLists: result.lists.filter(list => !currentLists.some(existing => existing.id === list.id)),
+    removedLists: currentLists.filter(list => !result.lists.some(existing => existing.id === list.id)),
+    watchedEpisodes: Object.entries(imported.progress).reduce(
+      (count, [showId, watched]) => count + toEpisodeRefs(watched).filter(
+        ({ season, episode }) => !current.progress[Number(showId)]?.[season]?.[episode]
+      ).length,
+      0
+    ),
+    ratings: imported.ratings.filter(rating => isNewerRating(rating, currentRatings.get(ratingKey(rating)))).length,
+  };
+
+  result.entries.forEach(entry => {
+    const before = currentById.get(entry.show.id);
+    if (!before) {
+      diff.added.push(entry);
+    } else if (entryChanged(before, entry)) {
+      diff.updated.push(entry);
+    } else {
+      diff.unchanged++;
+    }
+  });
+
+  return diff;
+};
+
+const backupFileName = (type: BackupFileType, now: Date) =>
+  `${BACKUP_FILE_PREFIX}-${now.toISOString().slice(0, 19).replace(/[T:]/g, '-')}.${type}`;
+
+class WatchlistBackupService {
+  private static instance: WatchlistBackupService;
+
+  private constructor() {}
+
+  public static getInstance(): WatchlistBackupService {
+    if (!WatchlistBackupService.instance) {
+      WatchlistBackupService.instance = new WatchlistBackupService();
+    }
+    return WatchlistBackupService.instance;
+  }
+
+  // Writes the watchlist to a file in the app's documents and returns its uri for sharing
+  async exportWatchlist(type: BackupFileType): Promise<string | null> {
+    try {
+      const watchlist = await WatchlistService.getStoredWatchlist();
+      if (!watchlist) return null;
+
+      const now = new Date();
+      const contents = type === 'json'
+        ? JSON.stringify(buildBackup(await this.getCurrentContents(watchlist), now), null, 2)
+        : toCsv(watchlist.entries);
+
+      await this.ensureBackupDir();
+      const uri = BACKUP_DIR + backupFileName(type, now);
+      await FileSystem.writeAsStringAsync(uri, contents);
+      return uri;
+    } catch (error) {
+      console.error('Error exporting watchlist:', error);
+      return null;
+    }
+  }
+
+  // Earlier exports, newest first
+  async getBackups(): Promise<BackupFile[]> {
+    try {
+      await this.ensureBackupDir();
+      const names = await FileSystem.readDirectoryAsync(BACKUP_DIR);
+      const files = await Promise.all(
+        names
+          .filter(name => name.endsWith('.json') || name.endsWith('.csv'))
+          .map(async name => {
+            const uri = BACKUP_DIR + name;
+            const info = await FileSystem.getInfoAsync(uri);
+            return {
+              name,
+              uri,
+              type: (name.endsWith('.json') ? 'json' : 'csv') as BackupFileType,
+              modifiedAt: info.exists ? info.modificationTime * 1000 : 0,
+            };
+          })
+      );
+      return files.sort((a, b) => b.modifiedAt - a.modifiedAt);
+    } catch (error) {
+      console.error('Error listing backups:', error);
+      return [];
+    }
+  }
+
+  async readBackup(uri: string): Promise<string> {
+    return FileSystem.readAsStringAsync(uri);
+  }
+
+  // Validates the text and, for CSVs, fetches the shows it names. Throws BackupFormatError when invalid.
+  async prepareImport(text: string): Promise<PreparedImport> {
+    const parsed = parseImport(text);
+    if (parsed.type === 'json') {
+      return parsed;
+    }
+
+    const current = await WatchlistService.getEntries();
+    const now = new Date().toISOString();
+    const entries: WatchlistEntry[] = [];
+    let skipped = parsed.skipped;
+
+    // One at a time so a long CSV doesn't trip TMDB's rate limit
+    for (const row of parsed.rows) {
+      const existing = current.find(entry => entry.show.id === row.showId);
+      let show = existing?.show;
+      if (!show) {
+        try {
+          show = await MetadataService.getTVShowDetails(row.showId);
+        } catch (error) {
+          console.error(`Error fetching imported show ${row.showId}:`, error);
+          skipped++;
+          continue;
+        }
+      }
+
+      // A CSV doesn't say when the status last changed, so it only wins over entries older than the row
+      const addedAt = row.addedAt ?? now;
+      entries.push({
+        show,
+        addedAt,
+        updatedAt: addedAt,
+        refreshedAt: existing ? existing.refreshedAt : now,
+        source: 'import',
+        user: { status: row.status ?? 'watching', tags: [] },
+        listIds: [],
+      });
+    }
+
+    return {
+      type: 'csv',
+      watchlist: { version: WATCHLIST_VERSION, entries, lists: [] },
+      progress: {},
+      ratings: [],
+      skipped,
+    };
+  }
+
+  async previewImport(prepared: PreparedImport, mode: ImportMode): Promise<ImportDiff | null> {
+    try {
+      const watchlist = await WatchlistService.getStoredWatchlist();
+      return watchlist ? diffImport(await this.getCurrentContents(watchlist), prepared, mode) : null;
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      return null;
+    }
+  }
+
+  // Episodes already marked keep their watch time, and ratings made since the backup are kept
+  async applyImport(prepared: PreparedImport, mode: ImportMode): Promise<boolean> {
+    if (!(await WatchlistService.importWatchlist(prepared.watchlist, mode))) {
+      return false;
+    }
+
+    const progressSaved = await Promise.all(
+      Object.entries(prepared.progress).map(([showId, watched]) =>
+        WatchProgressService.markEpisodes(Number(showId), toEpisodeRefs(watched), true)
+      )
+    );
+    const ratingsSaved = prepared.ratings.length === 0 || (await RatingService.importRatings(prepared.ratings));
+    return progressSaved.every(Boolean) && ratingsSaved;
+  }
+
+  private async getCurrentContents(watchlist: StoredWatchlist): Promise<BackupContents> {
+    const [progress, ratings] = await Promise.all([
+      WatchProgressService.getAllWatchedEpisodes(),
+      RatingService.getRatings(),
+    ]);
+    return { watchlist, progress, ratings };
+  }
+
+  private async ensureBackupDir(): Promise<void> {
+    const dirInfo = await FileSystem.getInfoAsync(BACKUP_DIR);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(BACKUP_DIR, { intermediates: true });
+    }
+  }
+}
+
+export default WatchlistBackupService.getInstance();
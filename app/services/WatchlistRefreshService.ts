@@ -0,0 +1,374 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import MetadataService from './MetadataService';
+import WatchlistService, { WatchlistEntry } from './WatchlistService';
+import { ChangeGroup, ChangesWindow, TVShow } from './TMDBService';
+import { isAbortError } from './TMDBError';
+import { WATCHLIST_REFRESH_CONFIG } from '../../constants/Config';
+
+// When the last sync that covered every watchlist show started
+const CHANGES_CHECKPOINT_KEY = '@EpisodeAlerts:changesCheckpoint';
+
+export type ShowChangeType = 'new_next_episode' | 'status' | 'new_season';
+
+export interface ShowChange {
+  type: ShowChangeType;
+  // The refreshed snapshot, for reading the new episode, status or season count
+  show: TVShow;
+  previous: TVShow;
+}
+
+export interface RefreshResult {
+  // Shows that were fetched, or attempted
+  checked: number;
+  refreshed: number;
+  failed: number;
+  // Shows left alone because nothing about them changed
+  skipped: number;
+  seasonsRefreshed: number;
+  // Whether TMDB's change feed decided which shows to fetch
+  incremental: boolean;
+  changes: ShowChange[];
+}
+
+export interface RefreshOptions {
+  // Refreshes every show, not just the stale ones
+  force?: boolean;
+  signal?: AbortSignal;
+}
+
+const ENDED_STATUSES = ['Ended', 'Canceled'];
+
+// Shows airing soon go stale fastest; ended shows hardly ever change
+export const getRefreshInterval = (show: TVShow, now = Date.now()): number => {
+  const { INTERVAL, AIRING_SOON_WINDOW, AIRING_THIS_WEEK_WINDOW } = WATCHLIST_REFRESH_CONFIG;
+
+  if (ENDED_STATUSES.includes(show.status)) {
+    return INTERVAL.ENDED;
+  }
+
+  const airDate = show.next_episode_to_air?.air_date;
+  if (airDate) {
+    // An air date in the past means the saved next episode has already aired
+    const untilAir = new Date(airDate).getTime() - now;
+    if (untilAir <= AIRING_SOON_WINDOW) return INTERVAL.AIRING_SOON;
+    if (untilAir <= AIRING_THIS_WEEK_WINDOW) return INTERVAL.AIRING_THIS_WEEK;
+  }
+
+  return INTERVAL.RETURNING;
+};
+
+// Entries that were never refreshed are as old as the snapshot taken when they were added
+const getSnapshotTime = (entry: WatchlistEntry): number => new Date(entry.refreshedAt ?? entry.addedAt).getTime();
+
+export const isRefreshDue = (entry: WatchlistEntry, now = Date.now()): boolean => {
+  return now - getSnapshotTime(entry) >= getRefreshInterval(entry.show, now);
+};
+
+// With the change feed, unchanged shows are skipped. A saved next episode that has since aired
+// still needs a fetch, because TMDB moves it to last_episode_to_air without logging a change.
+export const isSyncDue = (entry: WatchlistEntry, changedIds: Set<number>, now = Date.now()): boolean => {
+  if (changedIds.has(entry.show.id)) return true;
+
+  const airDate = entry.show.next_episode_to_air?.air_date;
+  if (airDate && new Date(airDate).getTime() <= now) return true;
+
+  return now - getSnapshotTime(entry) >= WATCHLIST_REFRESH_CONFIG.MAX_SNAPSHOT_AGE;
+};
+
+// Seasons whose episodes were added, edited or removed in the window
+export const getChangedSeasonNumbers = (changes: ChangeGroup[]): number[] => {
+  const seasonNumbers = new Set<number>();
+
+  for (const group of changes) {
+    if (group.key !== 'season') continue;
+    for (const item of group.items) {
+      const value = (item.value ?? item.original_value) as { season_number?: number } | undefined;
+      if (typeof value?.season_number === 'number') {
+        seasonNumbers.add(value.season_number);
+      }
+    }
+  }
+
+  return [...seasonNumbers].sort((a, b) => a - b);
+};
+
+const toChangesDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+export const describeRefresh = (result: RefreshResult): string => {
+  if (result.checked === 0) {
+    return 'Everything is up to date';
+  }
+
+  const parts = [`Checked ${result.checked} of ${result.checked + result.skipped} shows`];
+  if (result.changes.length > 0) {
+    parts.push(`${result.changes.length} ${result.changes.length === 1 ? 'update' : 'updates'}`);
+  }
+  if (result.failed > 0) {
+    parts.push(`${result.failed} failed`);
+  }
+  return parts.join(' · ');
+};
+
+export const diffShow = (previous: TVShow, show: TVShow): ShowChange[] => {
+  const changes: ShowChange[] = [];
+
+  if (show.next_episode_to_air && show.next_episode_to_air.id !== previous.next_episode_to_air?.id) {
+    changes.push({ type: 'new_next_episode', show, previous });
+  }
+  if (previous.status && show.status && show.status !== previous.status) {
+    changes.push({ type: 'status', show, previous });
+  }
+  if (previous.number_of_seasons && show.number_of_seasons > previous.number_of_seasons) {
+    changes.push({ type: 'new_season', show, previous });
+  }
+
+  return changes;
+};
+
+export const describeChange = (change: ShowChange): string => {
+  const { show } = change;
+
+  switch (change.type) {
+    case 'new_next_episode': {
+      const episode = show.next_episode_to_air!;
+      return `${show.name}: S${episode.season_number}E${episode.episode_number} airs ${episode.air_date}`;
+    }
+    case 'status':
+      return `${show.name} is now ${show.status}`;
+    case 'new_season':
+      return `${show.name} has a new season`;
+  }
+};
+
+// Runs at most `limit` tasks at a time, settling each one like Promise.allSettled
+const settleWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+class WatchlistRefreshService {
+  private static instance: WatchlistRefreshService;
+  private inFlight: Promise<RefreshResult> | null = null;
+  private inFlightForced = false;
+  private callbacks: Array<(result: RefreshResult) => void> = [];
+
+  private constructor() {}
+
+  public static getInstance(): WatchlistRefreshService {
+    if (!WatchlistRefreshService.instance) {
+      WatchlistRefreshService.instance = new WatchlistRefreshService();
+    }
+    return WatchlistRefreshService.instance;
+  }
+
+  // Called after every refresh that saved new snapshots
+  subscribe(callback: (result: RefreshResult) => void): () => void {
+    this.callbacks.push(callback);
+
+    return () => {
+      this.callbacks = this.callbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  // Overlapping calls share a single run. A forced refresh that arrives during a partial
+  // one waits for it and then checks every show.
+  refresh(options: RefreshOptions = {}): Promise<RefreshResult> {
+    if (this.inFlight && (this.inFlightForced || !options.force)) {
+      return this.inFlight;
+    }
+
+    const previous = this.inFlight ?? Promise.resolve();
+    const run = previous
+      .catch(() => undefined)
+      .then(() => this.runRefresh(options))
+      .finally(() => {
+        if (this.inFlight === run) {
+          this.inFlight = null;
+          this.inFlightForced = false;
+        }
+      });
+
+    this.inFlight = run;
+    this.inFlightForced = !!options.force;
+    return run;
+  }
+
+  private async runRefresh({ force = false, signal }: RefreshOptions): Promise<RefreshResult> {
+    const now = Date.now();
+    const entries = await WatchlistService.getEntries();
+    const window = force ? null : await this.getChangesWindow(entries, now);
+    const changedIds = window ? await this.getChangedShowIds(window, signal) : null;
+
+    const due = entries.filter(entry => {
+      if (force) return true;
+      return changedIds ? isSyncDue(entry, changedIds, now) : isRefreshDue(entry, now);
+    });
+
+    let seasonsRefreshed = 0;
+    let seasonsFailed = false;
+    const results = await settleWithConcurrency(due, WATCHLIST_REFRESH_CONFIG.CONCURRENCY, async entry => {
+      const show = await MetadataService.getTVShowDetails(entry.show.id, { cachePolicy: 'network-only', signal });
+      if (window && changedIds?.has(show.id)) {
+        const refreshedSeasons = await this.refreshChangedSeasons(show.id, window, signal);
+        if (refreshedSeasons === null) {
+          seasonsFailed = true;
+        } else {
+          seasonsRefreshed += refreshedSeasons;
+        }
+      }
+      return show;
+    });
+
+    const refreshedShows: TVShow[] = [];
+    const changes: ShowChange[] = [];
+    let failed = 0;
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        if (!isAbortError(result.reason)) {
+          console.error('Error refreshing watchlist show:', result.reason);
+        }
+        failed++;
+        return;
+      }
+      refreshedShows.push(result.value);
+      changes.push(...diffShow(due[index].show, result.value));
+    });
+
+    const result: RefreshResult = {
+      checked: due.length,
+      refreshed: refreshedShows.length,
+      failed,
+      skipped: entries.length - due.length,
+      seasonsRefreshed,
+      incremental: !!changedIds,
+      changes,
+    };
+
+    if (signal?.aborted) {
+      return result;
+    }
+
+    if (refreshedShows.length > 0) {
+      await WatchlistService.updateShows(refreshedShows);
+      this.notifyListeners(result);
+    }
+
+    // A partial refresh by interval leaves shows whose changes the next sync would miss, and
+    // seasons that failed would fall outside the next window, so neither moves the checkpoint
+    if (failed === 0 && !seasonsFailed && (force || changedIds)) {
+      await this.saveCheckpoint(now);
+    }
+
+    return result;
+  }
+
+  // Before the first full sync, the oldest snapshot is as far back as the feed needs to go
+  private async getChangesWindow(entries: WatchlistEntry[], now: number): Promise<ChangesWindow | null> {
+    if (entries.length === 0) return null;
+
+    let start: number;
+    try {
+      const checkpoint = await AsyncStorage.getItem(CHANGES_CHECKPOINT_KEY);
+      start = checkpoint
+        ? new Date(checkpoint).getTime()
+        : Math.min(...entries.map(getSnapshotTime));
+    } catch (error) {
+      console.error('Error loading sync checkpoint:', error);
+      return null;
+    }
+
+    if (now - start > WATCHLIST_REFRESH_CONFIG.CHANGES_MAX_WINDOW) {
+      return null;
+    }
+    return { startDate: toChangesDate(start), endDate: toChangesDate(now) };
+  }
+
+  // Null when the feed can't be used, so the caller falls back to refresh intervals
+  private async getChangedShowIds(window: ChangesWindow, signal?: AbortSignal): Promise<Set<number> | null> {
+    const options = { cachePolicy: 'network-only' as const, signal };
+
+    try {
+      const firstPage = await MetadataService.getChangedShows(window, 1, options);
+      const totalPages = firstPage.total_pages ?? 1;
+      if (totalPages > WATCHLIST_REFRESH_CONFIG.CHANGES_MAX_PAGES) {
+        return null;
+      }
+
+      const remainingPages = Array.from({ length: totalPages - 1 }, (_, index) => index + 2);
+      const results = await settleWithConcurrency(remainingPages, WATCHLIST_REFRESH_CONFIG.CONCURRENCY, page =>
+        MetadataService.getChangedShows(window, page, options)
+      );
+
+      const changedIds = new Set(firstPage.results.map(item => item.id));
+      for (const result of results) {
+        // A missing page could hide a changed show
+        if (result.status === 'rejected') throw result.reason;
+        result.value.results.forEach(item => changedIds.add(item.id));
+      }
+      return changedIds;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Error loading TV changes:', error);
+      }
+      return null;
+    }
+  }
+
+  // Re-fetches only the seasons TMDB reports as changed, so cached episode lists stay current.
+  // Returns null when any of them couldn't be fetched.
+  private async refreshChangedSeasons(
+    showId: number,
+    window: ChangesWindow,
+    signal?: AbortSignal
+  ): Promise<number | null> {
+    try {
+      const changes = await MetadataService.getShowChanges(showId, window, { cachePolicy: 'network-only', signal });
+      const seasonNumbers = getChangedSeasonNumbers(changes);
+
+      await Promise.all(seasonNumbers.map(seasonNumber =>
+        MetadataService.getSeasonDetails(showId, seasonNumber, { cachePolicy: 'network-only', signal })
+      ));
+      return seasonNumbers.length;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Error refreshing changed seasons:', error);
+      }
+      return null;
+    }
+  }
+
+  private async saveCheckpoint(time: number): Promise<void> {
+    try {
+      await AsyncStorage.setItem(CHANGES_CHECKPOINT_KEY, new Date(time).toISOString());
+    } catch (error) {
+      console.error('Error saving sync checkpoint:', error);
+    }
+  }
+
+  private notifyListeners(result: RefreshResult): void {
+    for (const callback of this.callbacks) {
+      callback(result);
+    }
+  }
+}
+
+export default WatchlistRefreshService.getInstance();
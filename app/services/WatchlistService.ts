@@ -1,79 +1,716 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { TVShow } from './TMDBService';
+import type { ShowProgress } from './WatchProgressService';
 
 const WATCHLIST_STORAGE_KEY = '@EpisodeAlerts:watchlist';
 
+// Version 1 was a bare TVShow[]. Bump this, type the old shape and add a step to MIGRATIONS when the stored shape changes.
+export const WATCHLIST_VERSION = 5;
+
+// Where a show was added from. Shows saved before entries existed are 'legacy'.
+export type WatchlistSource = 'home' | 'show_details' | 'recommendation' | 'search' | 'import' | 'legacy';
+
+// Where the user is with a show; separate from TMDB's own status (Returning Series, Ended, ...)
+export type WatchStatus = 'watching' | 'plan_to_watch' | 'completed' | 'on_hold' | 'dropped';
+
+export const WATCH_STATUSES: WatchStatus[] = ['watching', 'plan_to_watch', 'completed', 'on_hold', 'dropped'];
+
+export const WATCH_STATUS_LABELS: Record<WatchStatus, string> = {
+  watching: 'Watching',
+  plan_to_watch: 'Plan to Watch',
+  completed: 'Completed',
+  on_hold: 'On Hold',
+  dropped: 'Dropped',
+};
+
+// Fields only the user edits, kept apart from the show snapshot so refreshing it never touches them
+export interface WatchlistUserFields {
+  status: WatchStatus;
+  // Free-form labels such as "sci-fi-comfort", shared across shows
+  tags: string[];
+  notes?: string;
+}
+
+const defaultUserFields = (): WatchlistUserFields => ({ status: 'watching', tags: [] });
+
+export interface WatchlistEntry {
+  show: TVShow;
+  addedAt: string;
+  // When the user fields or lists last changed; merging a backup keeps the newer side's edits
+  updatedAt: string;
+  // When the show snapshot was last fetched; missing until the first refresh
+  refreshedAt?: string;
+  source: WatchlistSource;
+  user: WatchlistUserFields;
+  // Custom lists the show is in; every entry is in the watchlist itself regardless
+  listIds: string[];
+}
+
+// A user-named group of watchlist shows, e.g. "Weekend binge"
+export interface CustomList {
+  id: string;
+  name: string;
+  // Shows that are only in muted lists don't get episode notifications
+  muted: boolean;
+  createdAt: string;
+}
+
+export interface StoredWatchlist {
+  version: number;
+  entries: WatchlistEntry[];
+  // In the order the user arranged them
+  lists: CustomList[];
+}
+
+// What earlier versions stored, so each migration step is typed from one version to the next
+type WatchlistV1 = TVShow[];
+
+interface WatchlistEntryV2 {
+  show: TVShow;
+  addedAt: string;
+  updatedAt: string;
+  refreshedAt?: string;
+  source: WatchlistSource;
+  user: Partial<WatchlistUserFields>;
+}
+
+interface WatchlistEntryV3 extends WatchlistEntryV2 {
+  listIds: string[];
+}
+
+interface WatchlistEntryV4 extends WatchlistEntryV3 {
+  user: Partial<WatchlistUserFields> & { status: WatchStatus };
+}
+
+// Version 2 was the first to store entries; some were saved before the version field was written
+interface WatchlistV2 {
+  version?: 2;
+  entries: WatchlistEntryV2[];
+}
+
+interface WatchlistV3 {
+  version: 3;
+  entries: WatchlistEntryV3[];
+  lists: CustomList[];
+}
+
+interface WatchlistV4 {
+  version: 4;
+  entries: WatchlistEntryV4[];
+  lists: CustomList[];
+}
+
+type VersionedWatchlist = WatchlistV2 | WatchlistV3 | WatchlistV4 | (StoredWatchlist & { version: typeof WATCHLIST_VERSION });
+
+// Each step upgrades data stored at the version it's keyed by to the next version
+const MIGRATIONS = {
+  // The old format has no dates, so legacy entries get one millisecond apart in their saved
+  // order; sorting by date added then keeps the order shows were added in.
+  1: (shows: WatchlistV1, now: number): WatchlistV2 => ({
+    version: 2,
+    entries: shows.map((show, index) => {
+      const timestamp = new Date(now - (shows.length - index)).toISOString();
+      return { show, addedAt: timestamp, updatedAt: timestamp, source: 'legacy', user: {} };
+    }),
+  }),
+  2: (stored: WatchlistV2): WatchlistV3 => ({
+    version: 3,
+    entries: stored.entries.map(entry => ({ ...entry, listIds: [] })),
+    lists: [],
+  }),
+  // Shows saved before statuses existed are ones the user was already following
+  3: (stored: WatchlistV3): WatchlistV4 => ({
+    ...stored,
+    version: 4,
+    entries: stored.entries.map(entry => ({
+      ...entry,
+      user: { ...entry.user, status: entry.user.status ?? 'watching' },
+    })),
+  }),
+  4: (stored: WatchlistV4): StoredWatchlist => ({
+    ...stored,
+    version: 5,
+    entries: stored.entries.map(entry => ({
+      ...entry,
+      user: { ...entry.user, tags: entry.user.tags ?? [] },
+    })),
+  }),
+};
+
+const isVersionedWatchlist = (value: unknown): value is VersionedWatchlist =>
+  typeof value === 'object' && value !== null && 'entries' in value && Array.isArray(value.entries);
+
+const upgrade = (stored: VersionedWatchlist): StoredWatchlist => {
+  switch (stored.version) {
+    case undefined:
+    case 2:
+      return upgrade(MIGRATIONS[2](stored));
+    case 3:
+      return upgrade(MIGRATIONS[3](stored));
+    case 4:
+      return MIGRATIONS[4](stored);
+    default:
+      return stored;
+  }
+};
+
+export const migrateWatchlist = (stored: unknown, now = Date.now()): StoredWatchlist => {
+  if (Array.isArray(stored)) {
+    return upgrade(MIGRATIONS[1](stored, now));
+  }
+  if (isVersionedWatchlist(stored)) {
+    return upgrade(stored);
+  }
+  return { version: WATCHLIST_VERSION, entries: [], lists: [] };
+};
+
+// A show with no custom lists is still in the watchlist, which can't be muted
+export const isEntryMuted = (entry: WatchlistEntry, lists: CustomList[]): boolean => {
+  return entry.listIds.length > 0 &&
+    entry.listIds.every(listId => lists.find(list => list.id === listId)?.muted);
+};
+
+// A show the user has caught up on that won't get any more episodes
+export const shouldSuggestCompleted = (
+  show: TVShow,
+  status: WatchStatus,
+  progress: ShowProgress | undefined
+): boolean => {
+  if (status === 'completed' || status === 'dropped') return false;
+  if (show.status !== 'Ended' && show.status !== 'Canceled') return false;
+  return !!progress && progress.totalCount > 0 && progress.watchedCount >= progress.totalCount;
+};
+
+// Tags match regardless of case, so "Sci-Fi" and "sci-fi" are the same tag
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, ' ');
+
+export const isSameTag = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const addTag = (tags: string[], tag: string): string[] =>
+  tags.some(existing => isSameTag(existing, tag)) ? tags : [...tags, tag];
+
+// Every tag in use with how many shows have it, most used first
+export const collectTags = (entries: WatchlistEntry[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, { tag: string; count: number }>();
+  entries.forEach(entry => {
+    entry.user.tags.forEach(tag => {
+      const key = tag.toLowerCase();
+      const current = counts.get(key);
+      counts.set(key, { tag: current?.tag ?? tag, count: (current?.count ?? 0) + 1 });
+    });
+  });
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Existing tags starting with the query come before ones that only contain it
+export const suggestTags = (allTags: string[], query: string, exclude: string[] = [], limit = 5): string[] => {
+  const needle = normalizeTag(query).toLowerCase();
+  const candidates = allTags.filter(tag => !exclude.some(excluded => isSameTag(excluded, tag)));
+  if (!needle) return candidates.slice(0, limit);
+
+  const prefixed = candidates.filter(tag => tag.toLowerCase().startsWith(needle));
+  const containing = candidates.filter(tag => !prefixed.includes(tag) && tag.toLowerCase().includes(needle));
+  return [...prefixed, ...containing].slice(0, limit);
+};
+
+// Merge keeps everything already saved; replace swaps the whole watchlist for the imported one
+export type ImportMode = 'merge' | 'replace';
+
+const getSnapshotTime = (entry: WatchlistEntry): string => entry.refreshedAt ?? entry.addedAt;
+
+// Combines two entries for the same show without losing either side's tags, notes or lists.
+// The most recently edited side wins the status and notes; the fresher snapshot wins the show.
+const mergeEntries = (current: WatchlistEntry, imported: WatchlistEntry): WatchlistEntry => {
+  const newer = imported.updatedAt > current.updatedAt ? imported : current;
+  const older = newer === imported ? current : imported;
+  const snapshot = getSnapshotTime(imported) > getSnapshotTime(current) ? imported : current;
+
+  return {
+    ...current,
+    show: snapshot.show,
+    refreshedAt: snapshot.refreshedAt,
+    addedAt: imported.addedAt < current.addedAt ? imported.addedAt : current.addedAt,
+    updatedAt: newer.updatedAt,
+    user: {
+      status: newer.user.status,
+      tags: imported.user.tags.reduce(addTag, current.user.tags),
+      notes: newer.user.notes || older.user.notes,
+    },
+    listIds: [...new Set([...current.listIds, ...imported.listIds])],
+  };
+};
+
+// Imported lists are matched to saved ones by id, then by name, so re-importing a backup doesn't duplicate them
+export const mergeWatchlists = (
+  current: StoredWatchlist,
+  imported: StoredWatchlist,
+  mode: ImportMode
+): StoredWatchlist => {
+  if (mode === 'replace') {
+    return { version: WATCHLIST_VERSION, entries: imported.entries, lists: imported.lists };
+  }
+
+  const listIdMap = new Map<string, string>();
+  const lists = [...current.lists];
+  imported.lists.forEach(list => {
+    const match = current.lists.find(existing => existing.id === list.id) ??
+      current.lists.find(existing => existing.name.toLowerCase() === list.name.toLowerCase());
+    listIdMap.set(list.id, match?.id ?? list.id);
+    if (!match) {
+      lists.push(list);
+    }
+  });
+
+  const entries = [...current.entries];
+  imported.entries.forEach(importedEntry => {
+    const entry = {
+      ...importedEntry,
+      listIds: importedEntry.listIds.flatMap(listId => (listIdMap.has(listId) ? [listIdMap.get(listId)!] : [])),
+    };
+    const index = entries.findIndex(existing => existing.show.id === entry.show.id);
+    if (index === -1) {
+      entries.push(entry);
+    } else {
+      entries[index] = mergeEntries(entries[index], entry);
+    }
+  });
+
+  return { version: WATCHLIST_VERSION, entries, lists };
+};
+
+export const countByStatus = (statuses: WatchStatus[]): Record<WatchStatus, number> => {
+  const counts = Object.fromEntries(WATCH_STATUSES.map(status => [status, 0])) as Record<WatchStatus, number>;
+  statuses.forEach(status => {
+    counts[status]++;
+  });
+  return counts;
+};
+
 class WatchlistService {
   private static instance: WatchlistService;
-  
+  // Resolves once stored data is in the current format, so the upgrade runs once per launch
+  private migration: Promise<void> | null = null;
+  // The latest pending write
+  private writes: Promise<unknown> = Promise.resolve();
+
   private constructor() {}
-  
+
   public static getInstance(): WatchlistService {
     if (!WatchlistService.instance) {
       WatchlistService.instance = new WatchlistService();
     }
     return WatchlistService.instance;
   }
-  
-  async getWatchlist(): Promise<TVShow[]> {
+
+  async getEntries(): Promise<WatchlistEntry[]> {
     try {
-      const watchlistJson = await AsyncStorage.getItem(WATCHLIST_STORAGE_KEY);
-      return watchlistJson ? JSON.parse(watchlistJson) : [];
+      return (await this.load()).entries;
     } catch (error) {
       console.error('Error getting watchlist:', error);
       return [];
     }
   }
-  
-  async addToWatchlist(show: TVShow): Promise<boolean> {
+
+  async getEntry(showId: number): Promise<WatchlistEntry | null> {
+    const entries = await this.getEntries();
+    return entries.find(entry => entry.show.id === showId) ?? null;
+  }
+
+  async getWatchlist(): Promise<TVShow[]> {
+    const entries = await this.getEntries();
+    return entries.map(entry => entry.show);
+  }
+
+  async addToWatchlist(show: TVShow, source: WatchlistSource = 'show_details'): Promise<boolean> {
     try {
-      const currentWatchlist = await this.getWatchlist();
-      
-      if (currentWatchlist.some(item => item.id === show.id)) {
-        return false;
-      }
-      
-      const updatedWatchlist = [...currentWatchlist, show];
-      await AsyncStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(updatedWatchlist));
-      return true;
+      return await this.enqueue(async () => {
+        const stored = await this.load();
+
+        if (stored.entries.some(entry => entry.show.id === show.id)) {
+          return false;
+        }
+
+        const now = new Date().toISOString();
+        const entry: WatchlistEntry = {
+          show,
+          addedAt: now,
+          updatedAt: now,
+          source,
+          user: defaultUserFields(),
+          listIds: [],
+        };
+        await this.save({ ...stored, entries: [...stored.entries, entry] });
+        return true;
+      });
     } catch (error) {
       console.error('Error adding to watchlist:', error);
       return false;
     }
   }
-  
+
+  // Replaces the saved snapshot with fresher show data, keeping the user's own fields
+  async updateShow(show: TVShow): Promise<boolean> {
+    return this.updateShows([show]);
+  }
+
+  // Saves a batch of refreshed snapshots in one write. Shows removed in the meantime are skipped.
+  async updateShows(shows: TVShow[]): Promise<boolean> {
+    try {
+      return await this.enqueue(async () => {
+        const refreshed = new Map(shows.map(show => [show.id, show]));
+        const now = new Date().toISOString();
+        const stored = await this.load();
+
+        await this.save({
+          ...stored,
+          entries: stored.entries.map(entry => {
+            const show = refreshed.get(entry.show.id);
+            return show ? { ...entry, show, refreshedAt: now } : entry;
+          }),
+        });
+        return true;
+      });
+    } catch (error) {
+      console.error('Error updating watchlist shows:', error);
+      return false;
+    }
+  }
+
+  async updateUserFields(showId: number, fields: Partial<WatchlistUserFields>): Promise<boolean> {
+    return this.updateEntry(showId, entry => ({ ...entry, user: { ...entry.user, ...fields } }));
+  }
+
+  async setStatus(showId: number, status: WatchStatus): Promise<boolean> {
+    return this.updateUserFields(showId, { status });
+  }
+
+  async setTags(showId: number, tags: string[]): Promise<boolean> {
+    const cleaned = tags.map(normalizeTag).filter(Boolean).reduce(addTag, [] as string[]);
+    return this.updateUserFields(showId, { tags: cleaned });
+  }
+
+  async setNotes(showId: number, notes: string): Promise<boolean> {
+    return this.updateUserFields(showId, { notes: notes.trim() || undefined });
+  }
+
+  async getTags(): Promise<{ tag: string; count: number }[]> {
+    return collectTags(await this.getEntries());
+  }
+
+  // Renaming a tag to one that already exists merges the two on every show
+  async renameTag(from: string, to: string): Promise<boolean> {
+    return this.mergeTags([from], to);
+  }
+
+  async mergeTags(tags: string[], into: string): Promise<boolean> {
+    const target = normalizeTag(into);
+    if (!target) return false;
+
+    try {
+      return await this.enqueue(async () => {
+        const stored = await this.load();
+        const now = new Date().toISOString();
+        const isMerged = (tag: string) => tags.some(source => isSameTag(normalizeTag(source), tag));
+
+        await this.save({
+          ...stored,
+          entries: stored.entries.map(entry => {
+            if (!entry.user.tags.some(isMerged)) return entry;
+
+            // Drops the merged tags and any differently-cased copy of the target, then adds the target once
+            const tags = entry.user.tags.filter(tag => !isMerged(tag) && !isSameTag(tag, target));
+            return { ...entry, updatedAt: now, user: { ...entry.user, tags: [...tags, target] } };
+          }),
+        });
+        return true;
+      });
+    } catch (error) {
+      console.error('Error merging tags:', error);
+      return false;
+    }
+  }
+
   async removeFromWatchlist(showId: number): Promise<boolean> {
     try {
-      const currentWatchlist = await this.getWatchlist();
-      const updatedWatchlist = currentWatchlist.filter(show => show.id !== showId);
-      
-      await AsyncStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(updatedWatchlist));
-      return true;
+      return await this.enqueue(async () => {
+        const stored = await this.load();
+        await this.save({ ...stored, entries: stored.entries.filter(entry => entry.show.id !== showId) });
+        return true;
+      });
     } catch (error) {
       console.error('Error removing from watchlist:', error);
       return false;
     }
   }
-  
+
   async isInWatchlist(showId: number): Promise<boolean> {
     try {
-      const watchlist = await this.getWatchlist();
-      return watchlist.some(show => show.id === showId);
+      const entries = await this.getEntries();
+      return entries.some(entry => entry.show.id === showId);
     } catch (error) {
       console.error('Error checking watchlist:', error);
       return false;
     }
   }
-  
+
+  // The whole stored watchlist, for backups
+  async getStoredWatchlist(): Promise<StoredWatchlist | null> {
+    try {
+      return await this.load();
+    } catch (error) {
+      console.error('Error getting watchlist:', error);
+      return null;
+    }
+  }
+
+  async importWatchlist(imported: StoredWatchlist, mode: ImportMode): Promise<boolean> {
+    try {
+      return await this.enqueue(async () => {
+        const stored = await this.load();
+        await this.save(mergeWatchlists(stored, imported, mode));
+        return true;
+      });
+    } catch (error) {
+      console.error('Error importing watchlist:', error);
+      return false;
+    }
+  }
+
+  // Keeps custom lists; only the shows are removed
   async clearWatchlist(): Promise<boolean> {
     try {
-      await AsyncStorage.removeItem(WATCHLIST_STORAGE_KEY);
-      return true;
+      return await this.enqueue(async () => {
+        const stored = await this.load();
+        await this.save({ ...stored, entries: [] });
+        return true;
+      });
     } catch (error) {
       console.error('Error clearing watchlist:', error);
       return false;
     }
   }
+
+  async getLists(): Promise<CustomList[]> {
+    try {
+      return (await this.load()).lists;
+    } catch (error) {
+      console.error('Error getting lists:', error);
+      return [];
+    }
+  }
+
+  async createList(name: string): Promise<CustomList | null> {
+    try {
+      return await this.enqueue(async () => {
+        const stored = await this.load();
+        // Lists created within the same millisecond would otherwise share an id
+        let timestamp = Date.now();
+        while (stored.lists.some(list => list.id === `list_${timestamp}`)) {
+          timestamp++;
+        }
+
+        const list: CustomList = {
+          id: `list_${timestamp}`,
+          name: name.trim(),
+          muted: false,
+          createdAt: new Date().toISOString(),
+        };
+
+        await this.save({ ...stored, lists: [...stored.lists, list] });
+        return list;
+      });
+    } catch (error) {
+      console.error('Error creating list:', error);
+      return null;
+    }
+  }
+
+  async renameList(listId: string, name: string): Promise<boolean> {
+    return this.updateList(listId, list => ({ ...list, name: name.trim() }));
+  }
+
+  async setListMuted(listId: string, muted: boolean): Promise<boolean> {
+    return this.updateList(listId, list => ({ ...list, muted }));
+  }
+
+  // Deleting a list keeps its shows in the watchlist
+  async deleteList(listId: string): Promise<boolean> {
+    try {
+      return await this.enqueue(async () => {
+        const stored = await this.load();
+        await this.save({
+          ...stored,
+          lists: stored.lists.filter(list => list.id !== listId),
+          entries: stored.entries.map(entry =>
+            entry.listIds.includes(listId)
+              ? { ...entry, listIds: entry.listIds.filter(id => id !== listId) }
+              : entry
+          ),
+        });
+        return true;
+      });
+    } catch (error) {
+      console.error('Error deleting list:', error);
+      return false;
+    }
+  }
+
+  // Lists missing from listIds keep their relative order after the ones given
+  async reorderLists(listIds: string[]): Promise<boolean> {
+    try {
+      return await this.enqueue(async () => {
+        const stored = await this.load();
+        const position = (list: CustomList) => {
+          const index = listIds.indexOf(list.id);
+          return index === -1 ? listIds.length : index;
+        };
+
+        await this.save({ ...stored, lists: [...stored.lists].sort((a, b) => position(a) - position(b)) });
+        return true;
+      });
+    } catch (error) {
+      console.error('Error reordering lists:', error);
+      return false;
+    }
+  }
+
+  // Puts a show in exactly these lists, adding it to the watchlist first if needed
+  async setShowLists(show: TVShow, listIds: string[], source: WatchlistSource = 'show_details'): Promise<boolean> {
+    try {
+      return await this.enqueue(async () => {
+        const stored = await this.load();
+        const knownIds = listIds.filter(listId => stored.lists.some(list => list.id === listId));
+        const now = new Date().toISOString();
+        const existing = stored.entries.find(entry => entry.show.id === show.id);
+
+        const entries = existing
+          ? stored.entries.map(entry =>
+              entry.show.id === show.id ? { ...entry, listIds: knownIds, updatedAt: now } : entry
+            )
+          : [
+              ...stored.entries,
+              { show, addedAt: now, updatedAt: now, source, user: defaultUserFields(), listIds: knownIds },
+            ];
+
+        await this.save({ ...stored, entries });
+        return true;
+      });
+    } catch (error) {
+      console.error('Error updating show lists:', error);
+      return false;
+    }
+  }
+
+  async isNotificationMuted(showId: number): Promise<boolean> {
+    try {
+      const stored = await this.load();
+      const entry = stored.entries.find(item => item.show.id === showId);
+      return !!entry && isEntryMuted(entry, stored.lists);
+    } catch (error) {
+      console.error('Error checking muted lists:', error);
+      return false;
+    }
+  }
+
+  async getMutedShowIds(): Promise<number[]> {
+    try {
+      const stored = await this.load();
+      return stored.entries.filter(entry => isEntryMuted(entry, stored.lists)).map(entry => entry.show.id);
+    } catch (error) {
+      console.error('Error checking muted lists:', error);
+      return [];
+    }
+  }
+
+  private async updateEntry(
+    showId: number,
+    update: (entry: WatchlistEntry) => WatchlistEntry
+  ): Promise<boolean> {
+    try {
+      return await this.enqueue(async () => {
+        const stored = await this.load();
+        if (!stored.entries.some(entry => entry.show.id === showId)) {
+          return false;
+        }
+
+        const now = new Date().toISOString();
+        await this.save({
+          ...stored,
+          entries: stored.entries.map(entry =>
+            entry.show.id === showId ? { ...update(entry), updatedAt: now } : entry
+          ),
+        });
+        return true;
+      });
+    } catch (error) {
+      console.error('Error updating watchlist entry:', error);
+      return false;
+    }
+  }
+
+  private async updateList(listId: string, update: (list: CustomList) => CustomList): Promise<boolean> {
+    try {
+      return await this.enqueue(async () => {
+        const stored = await this.load();
+        if (!stored.lists.some(list => list.id === listId)) {
+          return false;
+        }
+
+        await this.save({
+          ...stored,
+          lists: stored.lists.map(list => (list.id === listId ? update(list) : list)),
+        });
+        return true;
+      });
+    } catch (error) {
+      console.error('Error updating list:', error);
+      return false;
+    }
+  }
+
+  // Every write reads and saves the whole watchlist, so writes run one at a time and each
+  // starts from what the last one saved; otherwise overlapping calls drop each other's changes
+  private enqueue<T>(write: () => Promise<T>): Promise<T> {
+    const next = this.writes.catch(() => undefined).then(write);
+    this.writes = next;
+    return next;
+  }
+
+  // Throws on storage errors so writes never start from an empty fallback and wipe the watchlist
+  private async load(): Promise<StoredWatchlist> {
+    await this.migrate();
+    const watchlistJson = await AsyncStorage.getItem(WATCHLIST_STORAGE_KEY);
+    return migrateWatchlist(watchlistJson ? JSON.parse(watchlistJson) : null);
+  }
+
+  private async save(stored: StoredWatchlist): Promise<void> {
+    await AsyncStorage.setItem(
+      WATCHLIST_STORAGE_KEY,
+      JSON.stringify({ version: WATCHLIST_VERSION, entries: stored.entries, lists: stored.lists })
+    );
+  }
+
+  private migrate(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.runMigration().catch(error => {
+        console.error('Error migrating watchlist:', error);
+        // Try again on the next read rather than leaving the old format in place
+        this.migration = null;
+      });
+    }
+    return this.migration;
+  }
+
+  private async runMigration(): Promise<void> {
+    const watchlistJson = await AsyncStorage.getItem(WATCHLIST_STORAGE_KEY);
+    if (!watchlistJson) return;
+
+    const stored = JSON.parse(watchlistJson);
+    // Data written by a newer version of the app is left alone
+    if (stored?.version >= WATCHLIST_VERSION) return;
+
+    await this.save(migrateWatchlist(stored));
+  }
 }
 
-export default WatchlistService.getInstance(); 
\ No newline at end of file
+export default WatchlistService.getInstance();
@@ -0,0 +1,107 @@
+import type { EpisodeRef } from '../WatchProgressService';
+import type { WatchStatus } from '../WatchlistService';
+import { BackupFormatError, parseCsvRecords } from '../WatchlistBackupService';
+
+export type ExternalImporterId = 'trakt' | 'tvtime' | 'imdb';
+
+// Whatever ids the other app gave us; any one of them is enough to find the show on TMDB
+export interface ExternalShowIds {
+  tmdb?: number;
+  imdb?: string;
+  tvdb?: number;
+}
+
+export interface ImportedEpisode extends EpisodeRef {
+  watchedAt: string;
+}
+
+export interface ExternalShow {
+  title: string;
+  year?: number;
+  ids: ExternalShowIds;
+  addedAt?: string;
+  // Left out when the source doesn't say, so the show gets the usual default
+  status?: WatchStatus;
+  watched: ImportedEpisode[];
+}
+
+// Turns another tracker's export into shows. Throws BackupFormatError when the text isn't one.
+export interface ExternalImporter {
+  readonly id: ExternalImporterId;
+  readonly name: string;
+  // Which file in the other app's export to use
+  readonly fileHint: string;
+  parse(text: string): ExternalShow[];
+}
+
+export const parseTimestamp = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+export const parsePositiveInt = (value: unknown): number | undefined => {
+  const number = typeof value === 'number' ? value : Number(String(value ?? '').trim());
+  return Number.isInteger(number) && number > 0 ? number : undefined;
+};
+
+const showKey = (show: ExternalShow): string =>
+  show.ids.tmdb ? `tmdb:${show.ids.tmdb}` :
+  show.ids.imdb ? `imdb:${show.ids.imdb}` :
+  show.ids.tvdb ? `tvdb:${show.ids.tvdb}` :
+  `title:${show.title.toLowerCase()}`;
+
+// Exports often list a show once per episode; this folds them into one show per id,
+// keeping the earliest date added and watch time for each episode
+export const mergeExternalShows = (shows: ExternalShow[]): ExternalShow[] => {
+  const merged = new Map<string, ExternalShow>();
+
+  shows.forEach(show => {
+    const key = showKey(show);
+    const current = merged.get(key);
+    if (!current) {
+      merged.set(key, { ...show, watched: [...show.watched] });
+      return;
+    }
+
+    current.ids = { ...show.ids, ...current.ids };
+    current.year = current.year ?? show.year;
+    current.status = current.status ?? show.status;
+    if (show.addedAt && (!current.addedAt || show.addedAt < current.addedAt)) {
+      current.addedAt = show.addedAt;
+    }
+    show.watched.forEach(episode => {
+      const index = current.watched.findIndex(
+        existing => existing.season === episode.season && existing.episode === episode.episode
+      );
+      if (index === -1) {
+        current.watched.push(episode);
+      } else if (episode.watchedAt < current.watched[index].watchedAt) {
+        current.watched[index] = episode;
+      }
+    });
+  });
+
+  return [...merged.values()];
+};
+
+// Rows as objects keyed by lower-cased header, for exports whose column order isn't fixed
+export const parseCsvTable = (text: string, requiredColumns: string[]): Record<string, string>[] => {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+
+  const missing = requiredColumns.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new BackupFormatError(`The CSV is missing the ${missing.join(', ')} column${missing.length === 1 ? '' : 's'}`);
+  }
+
+  return records.map(record => Object.fromEntries(columns.map((column, index) => [column, record[index] ?? ''])));
+};
+
+export const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BackupFormatError("The file isn't valid JSON");
+  }
+};
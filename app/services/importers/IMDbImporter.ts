@@ -0,0 +1,40 @@
+import {
+  ExternalImporter,
+  ExternalShow,
+  mergeExternalShows,
+  parseCsvTable,
+  parsePositiveInt,
+  parseTimestamp,
+} from './ExternalImporter';
+
+// IMDb lists mix films and series; only these title types are shows
+const TV_TITLE_TYPES = ['tv series', 'tv mini series', 'tvseries', 'tvminiseries'];
+
+// An IMDb list or watchlist export. Lists don't record what was watched, so shows come in as Plan to Watch.
+export const IMDbImporter: ExternalImporter = {
+  id: 'imdb',
+  name: 'IMDb',
+  fileHint: 'A list or watchlist exported as CSV from IMDb',
+  parse(text) {
+    const rows = parseCsvTable(text, ['const', 'title']);
+
+    const shows = rows.flatMap((row): ExternalShow[] => {
+      const imdb = row['const'].trim();
+      const titleType = (row['title type'] ?? '').trim().toLowerCase();
+      if (!/^tt\d+$/.test(imdb) || (titleType && !TV_TITLE_TYPES.includes(titleType))) {
+        return [];
+      }
+
+      return [{
+        title: row['title'].trim() || imdb,
+        year: parsePositiveInt(row['year']),
+        ids: { imdb },
+        addedAt: parseTimestamp(row['created']),
+        status: 'plan_to_watch',
+        watched: [],
+      }];
+    });
+
+    return mergeExternalShows(shows);
+  },
+};
@@ -0,0 +1,57 @@
+import { BackupFormatError } from '../WatchlistBackupService';
+import {
+  ExternalImporter,
+  ExternalShow,
+  mergeExternalShows,
+  parseCsvTable,
+  parsePositiveInt,
+  parseTimestamp,
+} from './ExternalImporter';
+
+// Column names differ between TV Time's GDPR files and over the years, so each field has a few candidates
+const COLUMNS = {
+  id: ['tv_show_id', 'show_id', 'tvdb_id'],
+  name: ['tv_show_name', 'show_name', 'series_name'],
+  season: ['episode_season_number', 'season_number'],
+  episode: ['episode_number'],
+  time: ['created_at', 'updated_at', 'watched_at'],
+};
+
+const pick = (row: Record<string, string>, names: string[]): string | undefined =>
+  names.map(name => row[name]?.trim()).find(value => !!value);
+
+// TV Time's show ids are TheTVDB ids. Rows with season and episode numbers come from
+// seen_episode.csv; rows without are followed shows.
+export const TVTimeImporter: ExternalImporter = {
+  id: 'tvtime',
+  name: 'TV Time',
+  fileHint: 'followed_tv_show.csv or seen_episode.csv from your TV Time GDPR data export',
+  parse(text) {
+    const rows = parseCsvTable(text, []);
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+    if (rows.length > 0 && ![...COLUMNS.name, ...COLUMNS.id].some(column => columns.includes(column))) {
+      throw new BackupFormatError("This isn't a TV Time export; it needs a tv_show_name or tv_show_id column");
+    }
+
+    const now = new Date().toISOString();
+    const shows = rows.flatMap((row): ExternalShow[] => {
+      const tvdb = parsePositiveInt(pick(row, COLUMNS.id));
+      const title = pick(row, COLUMNS.name);
+      if (!tvdb && !title) return [];
+
+      const season = Number(pick(row, COLUMNS.season));
+      const episode = parsePositiveInt(pick(row, COLUMNS.episode));
+      const time = parseTimestamp(pick(row, COLUMNS.time));
+      const isEpisode = Number.isInteger(season) && season >= 0 && !!episode && !!pick(row, COLUMNS.season);
+
+      return [{
+        title: title || `TheTVDB #${tvdb}`,
+        ids: { tvdb },
+        addedAt: isEpisode ? undefined : time,
+        watched: isEpisode ? [{ season, episode: episode!, watchedAt: time ?? now }] : [],
+      }];
+    });
+
+    return mergeExternalShows(shows);
+  },
+};
@@ -0,0 +1,89 @@
+import { BackupFormatError } from '../WatchlistBackupService';
+import {
+  ExternalImporter,
+  ExternalShow,
+  ImportedEpisode,
+  mergeExternalShows,
+  parseJson,
+  parsePositiveInt,
+  parseTimestamp,
+} from './ExternalImporter';
+
+interface TraktShow {
+  title?: string;
+  year?: number;
+  ids?: { tmdb?: number | null; imdb?: string | null; tvdb?: number | null };
+}
+
+// One shape covers the files we read: watched-shows (show + seasons), the watchlist
+// (type 'show' + listed_at) and history (type 'episode' + watched_at)
+interface TraktItem {
+  type?: string;
+  listed_at?: string;
+  watched_at?: string;
+  last_watched_at?: string;
+  show?: TraktShow;
+  episode?: { season?: number; number?: number };
+  seasons?: { number?: number; episodes?: { number?: number; last_watched_at?: string }[] }[];
+}
+
+const toShow = (show: TraktShow, fields: Partial<ExternalShow>): ExternalShow => ({
+  title: show.title || 'Untitled Show',
+  year: show.year,
+  ids: {
+    tmdb: parsePositiveInt(show.ids?.tmdb),
+    imdb: show.ids?.imdb || undefined,
+    tvdb: parsePositiveInt(show.ids?.tvdb),
+  },
+  watched: [],
+  ...fields,
+});
+
+const episode = (season: unknown, number: unknown, watchedAt: unknown): ImportedEpisode[] => {
+  const seasonNumber = typeof season === 'number' && season >= 0 ? season : undefined;
+  const episodeNumber = parsePositiveInt(number);
+  const time = parseTimestamp(watchedAt);
+  return seasonNumber !== undefined && episodeNumber && time
+    ? [{ season: seasonNumber, episode: episodeNumber, watchedAt: time }]
+    : [];
+};
+
+const parseItem = (item: TraktItem): ExternalShow[] => {
+  if (!item?.show || (item.type && item.type !== 'show' && item.type !== 'episode')) {
+    return [];
+  }
+
+  if (item.type === 'episode') {
+    return [toShow(item.show, { watched: episode(item.episode?.season, item.episode?.number, item.watched_at) })];
+  }
+
+  if (Array.isArray(item.seasons)) {
+    const watched = item.seasons.flatMap(season =>
+      (season.episodes ?? []).flatMap(ep => episode(season.number, ep.number, ep.last_watched_at ?? item.last_watched_at))
+    );
+    return [toShow(item.show, { watched })];
+  }
+
+  // Anything else with a show is a watchlist or list entry
+  return [toShow(item.show, { addedAt: parseTimestamp(item.listed_at), status: 'plan_to_watch' })];
+};
+
+export const TraktImporter: ExternalImporter = {
+  id: 'trakt',
+  name: 'Trakt',
+  fileHint: 'watched-shows.json, watchlist-shows.json or a history file from your Trakt data export',
+  parse(text) {
+    const data = parseJson(text);
+    // Some export tools bundle every file into one object of arrays
+    const items = Array.isArray(data)
+      ? data
+      : data && typeof data === 'object'
+        ? Object.values(data).filter(Array.isArray).flat()
+        : null;
+
+    if (!items) {
+      throw new BackupFormatError("This isn't a Trakt export");
+    }
+    return mergeExternalShows((items as TraktItem[]).flatMap(parseItem));
+  },
+};
@@ -0,0 +1,355 @@
+import { TMDB_CONFIG } from '../../../constants/Config';
+import type {
+  AggregateCredits,
+  APIResponse,
+  ChangedShow,
+  ChangeGroup,
+  ChangesWindow,
+  DiscoverFilters,
+  EpisodeCredits,
+  EpisodeDetails,
+  EpisodeImagesResponse,
+  Genre,
+  ImageFile,
+  Person,
+  PersonTVCredits,
+  RequestOptions,
+  Season,
+  ShowChangesResponse,
+  TVShow,
+  Video,
+  VideosResponse,
+  WatchProvider,
+  WatchProvidersByRegion,
+  WatchProvidersResponse,
+} from '../TMDBService';
+import { TMDBAbortError, TMDBNotFoundError } from '../TMDBError';
+import type { MetadataProvider } from './MetadataProvider';
+import listsFixture from '../../../assets/fixtures/lists.json';
+import showsFixture from '../../../assets/fixtures/shows.json';
+import seasonsFixture from '../../../assets/fixtures/seasons.json';
+
+const PAGE_SIZE = 20;
+
+interface FixtureLists {
+  popular: number[];
+  top_rated: number[];
+  airing_today: number[];
+}
+
+interface FixtureSeason extends Season {
+  show_id: number;
+}
+
+export interface FixtureData {
+  lists: FixtureLists;
+  shows: TVShow[];
+  seasons: FixtureSeason[];
+}
+
+const BUNDLED_FIXTURES = {
+  lists: listsFixture,
+  shows: showsFixture,
+  seasons: seasonsFixture,
+} as unknown as FixtureData;
+
+// Serves the JSON in assets/fixtures so every screen works offline and without a TMDB key.
+// Responses mirror TMDB's shapes, including 404s for unknown shows and seasons.
+export class FixtureMetadataProvider implements MetadataProvider {
+  public readonly id = 'fixtures';
+
+  constructor(private data: FixtureData = BUNDLED_FIXTURES) {}
+
+  public async getPopularTVShows(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    this.throwIfAborted('/tv/popular', options?.signal);
+    return this.paginate(this.resolveList(this.data.lists.popular), page);
+  }
+
+  public async getTopRatedTVShows(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    this.throwIfAborted('/tv/top_rated', options?.signal);
+    return this.paginate(this.resolveList(this.data.lists.top_rated), page);
+  }
+
+  public async getTVShowsAiringToday(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    this.throwIfAborted('/tv/airing_today', options?.signal);
+    return this.paginate(this.resolveList(this.data.lists.airing_today), page);
+  }
+
+  public async getTVShowDetails(id: number, options?: RequestOptions<TVShow>): Promise<TVShow> {
+    const endpoint = `/tv/${id}`;
+    this.throwIfAborted(endpoint, options?.signal);
+
+    const show = this.data.shows.find(item => item.id === id);
+    if (!show) {
+      throw new TMDBNotFoundError('The resource you requested could not be found.', { endpoint, statusCode: 404 });
+    }
+    return show;
+  }
+
+  public async getSeasonDetails(tvId: number, seasonNumber: number, options?: RequestOptions<Season>): Promise<Season> {
+    const endpoint = `/tv/${tvId}/season/${seasonNumber}`;
+    this.throwIfAborted(endpoint, options?.signal);
+
+    const season = this.data.seasons.find(item => item.show_id === tvId && item.season_number === seasonNumber);
+    if (!season) {
+      throw new TMDBNotFoundError('The resource you requested could not be found.', { endpoint, statusCode: 404 });
+    }
+
+    const { show_id, ...details } = season;
+    return details;
+  }
+
+  // Fixture seasons only carry the basic episode fields, so there are no guest stars or crew
+  public async getEpisodeDetails(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeDetails>
+  ): Promise<EpisodeDetails> {
+    const endpoint = `/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}`;
+    const season = await this.getSeasonDetails(tvId, seasonNumber, { signal: options?.signal });
+
+    const episode = season.episodes?.find(item => item.episode_number === episodeNumber);
+    if (!episode) {
+      throw new TMDBNotFoundError('The resource you requested could not be found.', { endpoint, statusCode: 404 });
+    }
+
+    return { ...episode, vote_count: 0, guest_stars: [], crew: [] };
+  }
+
+  public async getEpisodeCredits(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeCredits>
+  ): Promise<EpisodeCredits> {
+    await this.getEpisodeDetails(tvId, seasonNumber, episodeNumber, { signal: options?.signal });
+    return { cast: [], guest_stars: [], crew: [] };
+  }
+
+  public async getEpisodeImages(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeImagesResponse>
+  ): Promise<ImageFile[]> {
+    const episode = await this.getEpisodeDetails(tvId, seasonNumber, episodeNumber, { signal: options?.signal });
+    if (!episode.still_path) return [];
+
+    return [{ file_path: episode.still_path, width: 1920, height: 1080, aspect_ratio: 16 / 9, vote_average: 0 }];
+  }
+
+  public async searchTVShows(query: string, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    this.throwIfAborted('/search/tv', options?.signal);
+
+    const normalizedQuery = query.trim().toLowerCase();
+    const matches = this.data.shows.filter(show => show.name.toLowerCase().includes(normalizedQuery));
+    return this.paginate(matches, page);
+  }
+
+  // Language, runtime and vote count filters are ignored because the fixtures do not include them
+  public async discoverTVShows(
+    filters: DiscoverFilters,
+    page = 1,
+    options?: RequestOptions<APIResponse<TVShow>>
+  ): Promise<APIResponse<TVShow>> {
+    this.throwIfAborted('/discover/tv', options?.signal);
+
+    const hasAny = (ids: number[] | undefined, show: TVShow) => {
+      return !!ids && show.genres.some(genre => ids.includes(genre.id));
+    };
+
+    const matches = this.resolveList(this.data.lists.popular).filter(show => {
+      if (filters.withGenres?.length && !hasAny(filters.withGenres, show)) return false;
+      if (hasAny(filters.withoutGenres, show)) return false;
+      if (filters.withNetworks?.length && !show.networks.some(network => filters.withNetworks!.includes(network.id))) {
+        return false;
+      }
+      if (filters.firstAirDateFrom && show.first_air_date < filters.firstAirDateFrom) return false;
+      if (filters.firstAirDateTo && show.first_air_date > filters.firstAirDateTo) return false;
+      if (filters.minRating !== undefined && show.vote_average < filters.minRating) return false;
+      if (filters.statuses?.length && !filters.statuses.some(status => status === show.status)) return false;
+      return true;
+    });
+
+    switch (filters.sortBy) {
+      case 'vote_average.desc':
+        matches.sort((a, b) => b.vote_average - a.vote_average);
+        break;
+      case 'first_air_date.desc':
+        matches.sort((a, b) => b.first_air_date.localeCompare(a.first_air_date));
+        break;
+      case 'first_air_date.asc':
+        matches.sort((a, b) => a.first_air_date.localeCompare(b.first_air_date));
+        break;
+      case 'name.asc':
+        matches.sort((a, b) => a.name.localeCompare(b.name));
+        break;
+    }
+
+    return this.paginate(matches, page);
+  }
+
+  // Fixtures have no viewing data, so recommendations and similar shows both rank by shared genres
+  public async getRecommendations(id: number, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    this.throwIfAborted(`/tv/${id}/recommendations`, options?.signal);
+    return this.paginate(this.findRelated(id), page);
+  }
+
+  public async getSimilarTVShows(id: number, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    this.throwIfAborted(`/tv/${id}/similar`, options?.signal);
+    return this.paginate(this.findRelated(id), page);
+  }
+
+  // The fixtures only know each show's creators, so they double as its whole crew
+  public async getAggregateCredits(id: number, options?: RequestOptions<AggregateCredits>): Promise<AggregateCredits> {
+    const show = await this.getTVShowDetails(id, { signal: options?.signal });
+
+    return {
+      id,
+      cast: [],
+      crew: show.created_by.map(creator => ({
+        id: creator.id,
+        name: creator.name,
+        profile_path: creator.profile_path || null,
+        department: 'Creator',
+        jobs: [{ credit_id: `${id}-${creator.id}`, job: 'Creator', episode_count: 0 }],
+        total_episode_count: 0,
+      })),
+    };
+  }
+
+  public async getPersonDetails(id: number, options?: RequestOptions<Person>): Promise<Person> {
+    const endpoint = `/person/${id}`;
+    this.throwIfAborted(endpoint, options?.signal);
+
+    const creator = this.findCreatedShows(id)[0]?.created_by.find(item => item.id === id);
+    if (!creator) {
+      throw new TMDBNotFoundError('The resource you requested could not be found.', { endpoint, statusCode: 404 });
+    }
+
+    return {
+      id,
+      name: creator.name,
+      biography: '',
+      birthday: null,
+      deathday: null,
+      place_of_birth: null,
+      profile_path: creator.profile_path || null,
+      known_for_department: 'Writing',
+    };
+  }
+
+  public async getPersonTVCredits(id: number, options?: RequestOptions<PersonTVCredits>): Promise<PersonTVCredits> {
+    this.throwIfAborted(`/person/${id}/tv_credits`, options?.signal);
+
+    return {
+      id,
+      cast: [],
+      crew: this.findCreatedShows(id).map(show => ({
+        id: show.id,
+        name: show.name,
+        poster_path: show.poster_path,
+        first_air_date: show.first_air_date,
+        vote_average: show.vote_average,
+        credit_id: `${show.id}-${id}`,
+        episode_count: 0,
+        department: 'Creator',
+        job: 'Creator',
+      })),
+    };
+  }
+
+  // Videos are streamed from YouTube, so demo mode has none to offer
+  public async getVideos(id: number, options?: RequestOptions<VideosResponse>): Promise<Video[]> {
+    await this.getTVShowDetails(id, { signal: options?.signal });
+    return [];
+  }
+
+  public async getSeasonVideos(tvId: number, seasonNumber: number, options?: RequestOptions<VideosResponse>): Promise<Video[]> {
+    await this.getSeasonDetails(tvId, seasonNumber, { signal: options?.signal });
+    return [];
+  }
+
+  // Availability comes from JustWatch via TMDB, so demo mode lists no services
+  public async getWatchProviders(id: number, options?: RequestOptions<WatchProvidersResponse>): Promise<WatchProvidersByRegion> {
+    await this.getTVShowDetails(id, { signal: options?.signal });
+    return {};
+  }
+
+  public async getRegionWatchProviders(region: string, options?: RequestOptions<{ results: WatchProvider[] }>): Promise<WatchProvider[]> {
+    this.throwIfAborted('/watch/providers/tv', options?.signal);
+    return [];
+  }
+
+  // Fixture data never changes
+  public async getChangedShows(
+    window: ChangesWindow,
+    page = 1,
+    options?: RequestOptions<APIResponse<ChangedShow>>
+  ): Promise<APIResponse<ChangedShow>> {
+    this.throwIfAborted('/tv/changes', options?.signal);
+    return { page, results: [], total_pages: 1, total_results: 0 };
+  }
+
+  public async getShowChanges(
+    id: number,
+    window: ChangesWindow,
+    options?: RequestOptions<ShowChangesResponse>
+  ): Promise<ChangeGroup[]> {
+    await this.getTVShowDetails(id, { signal: options?.signal });
+    return [];
+  }
+
+  public async getTVGenres(options?: RequestOptions<{ genres: Genre[] }>): Promise<Genre[]> {
+    this.throwIfAborted('/genre/tv/list', options?.signal);
+
+    const genres = new Map<number, Genre>();
+    this.data.shows.forEach(show => show.genres.forEach(genre => genres.set(genre.id, genre)));
+    return [...genres.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Fixture shows use real TMDB image paths, so artwork still loads when a network is available
+  public getImageUrl(path: string, size: string): string {
+    return `${TMDB_CONFIG.IMAGE_BASE_URL}/${size}${path}`;
+  }
+
+  private resolveList(ids: number[]): TVShow[] {
+    return ids
+      .map(id => this.data.shows.find(show => show.id === id))
+      .filter((show): show is TVShow => !!show);
+  }
+
+  private findCreatedShows(personId: number): TVShow[] {
+    return this.data.shows.filter(show => show.created_by.some(creator => creator.id === personId));
+  }
+
+  private findRelated(id: number): TVShow[] {
+    const show = this.data.shows.find(item => item.id === id);
+    if (!show) return [];
+
+    const genreIds = show.genres.map(genre => genre.id);
+    const sharedGenres = (other: TVShow) => other.genres.filter(genre => genreIds.includes(genre.id)).length;
+
+    return this.data.shows
+      .filter(other => other.id !== id && sharedGenres(other) > 0)
+      .sort((a, b) => sharedGenres(b) - sharedGenres(a) || b.vote_average - a.vote_average);
+  }
+
+  private paginate<T>(items: T[], page: number): APIResponse<T> {
+    const start = (page - 1) * PAGE_SIZE;
+
+    return {
+      page,
+      results: items.slice(start, start + PAGE_SIZE),
+      total_pages: Math.max(1, Math.ceil(items.length / PAGE_SIZE)),
+      total_results: items.length,
+    };
+  }
+
+  private throwIfAborted(endpoint: string, signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new TMDBAbortError(endpoint);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import type {
+  AggregateCredits,
+  APIResponse,
+  ChangedShow,
+  ChangeGroup,
+  ChangesWindow,
+  DiscoverFilters,
+  EpisodeCredits,
+  EpisodeDetails,
+  EpisodeImagesResponse,
+  Genre,
+  ImageFile,
+  Person,
+  PersonTVCredits,
+  RequestOptions,
+  Season,
+  ShowChangesResponse,
+  TVShow,
+  Video,
+  VideosResponse,
+  WatchProvider,
+  WatchProvidersByRegion,
+  WatchProvidersResponse,
+} from '../TMDBService';
+
+export type MetadataProviderId = 'tmdb' | 'tvmaze' | 'fixtures';
+
+// Everything the screens need to browse shows. TMDB is the default source;
+// the fixture provider serves bundled JSON so the app runs without a network or API key.
+export interface MetadataProvider {
+  readonly id: MetadataProviderId;
+  getPopularTVShows(page?: number, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>>;
+  getTopRatedTVShows(page?: number, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>>;
+  getTVShowsAiringToday(page?: number, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>>;
+  getTVShowDetails(id: number, options?: RequestOptions<TVShow>): Promise<TVShow>;
+  getSeasonDetails(tvId: number, seasonNumber: number, options?: RequestOptions<Season>): Promise<Season>;
+  getEpisodeDetails(tvId: number, seasonNumber: number, episodeNumber: number, options?: RequestOptions<EpisodeDetails>): Promise<EpisodeDetails>;
+  getEpisodeCredits(tvId: number, seasonNumber: number, episodeNumber: number, options?: RequestOptions<EpisodeCredits>): Promise<EpisodeCredits>;
+  getEpisodeImages(tvId: number, seasonNumber: number, episodeNumber: number, options?: RequestOptions<EpisodeImagesResponse>): Promise<ImageFile[]>;
+  searchTVShows(query: string, page?: number, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>>;
+  discoverTVShows(filters: DiscoverFilters, page?: number, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>>;
+  getRecommendations(id: number, page?: number, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>>;
+  getSimilarTVShows(id: number, page?: number, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>>;
+  getAggregateCredits(id: number, options?: RequestOptions<AggregateCredits>): Promise<AggregateCredits>;
+  getPersonDetails(id: number, options?: RequestOptions<Person>): Promise<Person>;
+  getPersonTVCredits(id: number, options?: RequestOptions<PersonTVCredits>): Promise<PersonTVCredits>;
+  getVideos(id: number, options?: RequestOptions<VideosResponse>): Promise<Video[]>;
+  getSeasonVideos(tvId: number, seasonNumber: number, options?: RequestOptions<VideosResponse>): Promise<Video[]>;
+  getWatchProviders(id: number, options?: RequestOptions<WatchProvidersResponse>): Promise<WatchProvidersByRegion>;
+  getRegionWatchProviders(region: string, options?: RequestOptions<{ results: WatchProvider[] }>): Promise<WatchProvider[]>;
+  getChangedShows(window: ChangesWindow, page?: number, options?: RequestOptions<APIResponse<ChangedShow>>): Promise<APIResponse<ChangedShow>>;
+  getShowChanges(id: number, window: ChangesWindow, options?: RequestOptions<ShowChangesResponse>): Promise<ChangeGroup[]>;
+  getTVGenres(options?: RequestOptions<{ genres: Genre[] }>): Promise<Genre[]>;
+  getImageUrl(path: string, size: string): string;
+}
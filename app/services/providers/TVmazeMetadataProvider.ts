@@ -0,0 +1,612 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CACHE_CONFIG, TVMAZE_CONFIG } from '../../../constants/Config';
+import type {
+  AggregateCredits,
+  APIResponse,
+  ChangedShow,
+  ChangeGroup,
+  ChangesWindow,
+  DiscoverFilters,
+  EpisodeCredits,
+  EpisodeDetails,
+  EpisodeImagesResponse,
+  Episode,
+  ExternalIds,
+  ExternalSource,
+  FindResponse,
+  Genre,
+  ImageFile,
+  Network,
+  Person,
+  PersonTVCredits,
+  RequestOptions,
+  Season,
+  ShowChangesResponse,
+  TVShow,
+  Video,
+  VideosResponse,
+  WatchProvider,
+  WatchProvidersByRegion,
+  WatchProvidersResponse,
+} from '../TMDBService';
+import ResponseCacheService from '../ResponseCacheService';
+import { fetchWithRetry, parseRetryAfter, TokenBucket } from '../HttpRetry';
+import { RequestCoalescer } from '../RequestCoalescer';
+import {
+  createHTTPError,
+  isTMDBError,
+  TMDBAbortError,
+  TMDBCacheMissError,
+  TMDBNetworkError,
+  TMDBNotFoundError,
+  TMDBParseError,
+} from '../TMDBError';
+import type { MetadataProvider } from './MetadataProvider';
+
+const TVMAZE_IDS_KEY = '@EpisodeAlerts:tvmazeIds';
+// Keeps TVmaze responses apart from TMDB ones in the shared response cache
+const CACHE_KEY_PREFIX = 'tvmaze:';
+const MISSING_ID_KEY_PREFIX = CACHE_KEY_PREFIX + 'missing:';
+
+interface TVmazeImage {
+  medium: string;
+  original: string;
+}
+
+interface TVmazeChannel {
+  id: number;
+  name: string;
+  country: { timezone: string } | null;
+}
+
+interface TVmazeEpisode {
+  id: number;
+  name: string;
+  season: number;
+  // null for specials
+  number: number | null;
+  airdate: string;
+  airstamp: string | null;
+  runtime: number | null;
+  rating: { average: number | null };
+  image: TVmazeImage | null;
+  summary: string | null;
+}
+
+interface TVmazeSeason {
+  id: number;
+  number: number;
+  name: string;
+  episodeOrder: number | null;
+  premiereDate: string | null;
+  summary: string | null;
+  image: TVmazeImage | null;
+}
+
+interface TVmazeShow {
+  id: number;
+  name: string;
+  summary: string | null;
+  status: string;
+  premiered: string | null;
+  genres: string[];
+  rating: { average: number | null };
+  network: TVmazeChannel | null;
+  webChannel: TVmazeChannel | null;
+  image: TVmazeImage | null;
+  externals: { thetvdb: number | null; imdb: string | null };
+  _embedded?: {
+    seasons?: TVmazeSeason[];
+    nextepisode?: TVmazeEpisode;
+    previousepisode?: TVmazeEpisode;
+  };
+}
+
+// The TMDB lookups needed to translate between TMDB and TVmaze ids
+export interface ExternalIdSource {
+  getExternalIds(id: number, options?: RequestOptions<ExternalIds>): Promise<ExternalIds>;
+  findByExternalId(externalId: string, source: ExternalSource): Promise<FindResponse>;
+}
+
+export interface TVmazeProviderOptions {
+  // Serves the lists, search and discover, which TVmaze has no equivalent for
+  fallback: MetadataProvider;
+  externalIds: ExternalIdSource;
+  baseURL?: string;
+  fetch?: typeof fetch;
+}
+
+const GENRES: Record<string, Genre> = {
+  'Action': { id: 10759, name: 'Action & Adventure' },
+  'Adventure': { id: 10759, name: 'Action & Adventure' },
+  'Anime': { id: 16, name: 'Animation' },
+  'Children': { id: 10762, name: 'Kids' },
+  'Comedy': { id: 35, name: 'Comedy' },
+  'Crime': { id: 80, name: 'Crime' },
+  'Documentary': { id: 99, name: 'Documentary' },
+  'Drama': { id: 18, name: 'Drama' },
+  'Family': { id: 10751, name: 'Family' },
+  'Fantasy': { id: 10765, name: 'Sci-Fi & Fantasy' },
+  'Mystery': { id: 9648, name: 'Mystery' },
+  'Science-Fiction': { id: 10765, name: 'Sci-Fi & Fantasy' },
+  'Supernatural': { id: 10765, name: 'Sci-Fi & Fantasy' },
+  'War': { id: 10768, name: 'War & Politics' },
+  'Western': { id: 37, name: 'Western' },
+};
+
+const STATUSES: Record<string, string> = {
+  'Running': 'Returning Series',
+  'Ended': 'Ended',
+  'To Be Determined': 'In Production',
+  'In Development': 'Planned',
+};
+
+const stripHtml = (html: string | null): string => {
+  return html ? html.replace(/<[^>]*>/g, '').trim() : '';
+};
+
+// Genres are mapped onto TMDB's ids so genre filters keep working
+const mapGenres = (genres: string[]): Genre[] => {
+  const mapped = genres.map(name => GENRES[name]).filter((genre): genre is Genre => !!genre);
+  return mapped.filter((genre, index) => mapped.findIndex(item => item.id === genre.id) === index);
+};
+
+const mapEpisode = (episode: TVmazeEpisode): Episode => ({
+  id: episode.id,
+  name: episode.name,
+  overview: stripHtml(episode.summary),
+  still_path: episode.image?.original ?? '',
+  air_date: episode.airdate,
+  episode_number: episode.number ?? 0,
+  season_number: episode.season,
+  vote_average: episode.rating.average ?? 0,
+  runtime: episode.runtime ?? undefined,
+  airstamp: episode.airstamp ?? undefined,
+});
+
+const mapSeason = (season: TVmazeSeason, episodes: TVmazeEpisode[] = []): Season => {
+  const regularEpisodes = episodes.filter(episode => episode.number !== null);
+
+  return {
+    id: season.id,
+    name: season.name || `Season ${season.number}`,
+    overview: stripHtml(season.summary),
+    poster_path: season.image?.original ?? '',
+    air_date: season.premiereDate ?? '',
+    season_number: season.number,
+    episode_count: season.episodeOrder ?? regularEpisodes.length,
+    episodes: regularEpisodes.map(mapEpisode),
+  };
+};
+
+// Keeps the TMDB id so watchlist entries, routes and notifications stay keyed the same way
+const mapShow = (tmdbId: number, show: TVmazeShow): TVShow => {
+  const channel = show.network ?? show.webChannel;
+  const networks: Network[] = channel ? [{ id: channel.id, name: channel.name, logo_path: '' }] : [];
+  const { seasons = [], nextepisode, previousepisode } = show._embedded ?? {};
+
+  return {
+    id: tmdbId,
+    name: show.name,
+    overview: stripHtml(show.summary),
+    poster_path: show.image?.original ?? '',
+    // TVmaze only has posters; screens show their no-backdrop fallback instead of a stretched poster
+    backdrop_path: '',
+    vote_average: show.rating.average ?? 0,
+    first_air_date: show.premiered ?? '',
+    next_episode_to_air: nextepisode ? mapEpisode(nextepisode) : undefined,
+    last_episode_to_air: previousepisode ? mapEpisode(previousepisode) : undefined,
+    number_of_seasons: seasons.length,
+    status: STATUSES[show.status] ?? show.status,
+    genres: mapGenres(show.genres),
+    networks,
+    created_by: [],
+    timezone: channel?.country?.timezone,
+  };
+};
+
+// Show and season data from TVmaze, which publishes exact air times and network timezones.
+// Shows are still addressed by TMDB id; the matching TVmaze id is resolved through
+// TMDB's external ids and remembered on the device.
+export class TVmazeMetadataProvider implements MetadataProvider {
+  public readonly id = 'tvmaze';
+  private baseURL: string;
+  private fetchImpl: typeof fetch;
+  private coalescer = new RequestCoalescer((endpoint) => new TMDBAbortError(endpoint));
+  private rateLimiter = new TokenBucket(TVMAZE_CONFIG.RATE_LIMIT.BURST, TVMAZE_CONFIG.RATE_LIMIT.REQUESTS_PER_SECOND);
+  private tvmazeIds: Record<string, number> = {};
+  private idsLoaded = false;
+
+  constructor(private options: TVmazeProviderOptions) {
+    this.baseURL = options.baseURL ?? TVMAZE_CONFIG.BASE_URL;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  public async getPopularTVShows(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.options.fallback.getPopularTVShows(page, options);
+  }
+
+  public async getTopRatedTVShows(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.options.fallback.getTopRatedTVShows(page, options);
+  }
+
+  public async getTVShowsAiringToday(page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.options.fallback.getTVShowsAiringToday(page, options);
+  }
+
+  public async searchTVShows(query: string, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.options.fallback.searchTVShows(query, page, options);
+  }
+
+  public async discoverTVShows(
+    filters: DiscoverFilters,
+    page = 1,
+    options?: RequestOptions<APIResponse<TVShow>>
+  ): Promise<APIResponse<TVShow>> {
+    return this.options.fallback.discoverTVShows(filters, page, options);
+  }
+
+  public async getTVGenres(options?: RequestOptions<{ genres: Genre[] }>): Promise<Genre[]> {
+    return this.options.fallback.getTVGenres(options);
+  }
+
+  // Show ids stay TMDB ids, so TMDB's recommendations work for TVmaze-backed shows too
+  public async getRecommendations(id: number, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.options.fallback.getRecommendations(id, page, options);
+  }
+
+  public async getSimilarTVShows(id: number, page = 1, options?: RequestOptions<APIResponse<TVShow>>): Promise<APIResponse<TVShow>> {
+    return this.options.fallback.getSimilarTVShows(id, page, options);
+  }
+
+  public async getAggregateCredits(id: number, options?: RequestOptions<AggregateCredits>): Promise<AggregateCredits> {
+    return this.options.fallback.getAggregateCredits(id, options);
+  }
+
+  // Person routes use TMDB person ids, which TVmaze has no lookup for
+  public async getPersonDetails(id: number, options?: RequestOptions<Person>): Promise<Person> {
+    return this.options.fallback.getPersonDetails(id, options);
+  }
+
+  public async getPersonTVCredits(id: number, options?: RequestOptions<PersonTVCredits>): Promise<PersonTVCredits> {
+    return this.options.fallback.getPersonTVCredits(id, options);
+  }
+
+  public async getVideos(id: number, options?: RequestOptions<VideosResponse>): Promise<Video[]> {
+    return this.options.fallback.getVideos(id, options);
+  }
+
+  public async getSeasonVideos(tvId: number, seasonNumber: number, options?: RequestOptions<VideosResponse>): Promise<Video[]> {
+    return this.options.fallback.getSeasonVideos(tvId, seasonNumber, options);
+  }
+
+  // TVmaze only knows the original network, not current streaming availability
+  public async getWatchProviders(id: number, options?: RequestOptions<WatchProvidersResponse>): Promise<WatchProvidersByRegion> {
+    return this.options.fallback.getWatchProviders(id, options);
+  }
+
+  public async getRegionWatchProviders(region: string, options?: RequestOptions<{ results: WatchProvider[] }>): Promise<WatchProvider[]> {
+    return this.options.fallback.getRegionWatchProviders(region, options);
+  }
+
+  // Shows keep their TMDB ids, so TMDB's change feed still covers them
+  public async getChangedShows(
+    window: ChangesWindow,
+    page?: number,
+    options?: RequestOptions<APIResponse<ChangedShow>>
+  ): Promise<APIResponse<ChangedShow>> {
+    return this.options.fallback.getChangedShows(window, page, options);
+  }
+
+  public async getShowChanges(
+    id: number,
+    window: ChangesWindow,
+    options?: RequestOptions<ShowChangesResponse>
+  ): Promise<ChangeGroup[]> {
+    return this.options.fallback.getShowChanges(id, window, options);
+  }
+
+  // TVmaze episodes have no guest stars, crew or stills, and TMDB ids are kept for every show
+  public async getEpisodeDetails(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeDetails>
+  ): Promise<EpisodeDetails> {
+    return this.options.fallback.getEpisodeDetails(tvId, seasonNumber, episodeNumber, options);
+  }
+
+  public async getEpisodeCredits(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeCredits>
+  ): Promise<EpisodeCredits> {
+    return this.options.fallback.getEpisodeCredits(tvId, seasonNumber, episodeNumber, options);
+  }
+
+  public async getEpisodeImages(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions<EpisodeImagesResponse>
+  ): Promise<ImageFile[]> {
+    return this.options.fallback.getEpisodeImages(tvId, seasonNumber, episodeNumber, options);
+  }
+
+  public async getTVShowDetails(id: number, options: RequestOptions<TVShow> = {}): Promise<TVShow> {
+    const tvmazeId = await this.resolveTVmazeId(id, options.signal);
+    if (tvmazeId === null) {
+      return this.options.fallback.getTVShowDetails(id, options);
+    }
+
+    const { onRevalidate } = options;
+    const show = await this.fetchAPI<TVmazeShow>(
+      `/shows/${tvmazeId}?embed[]=seasons&embed[]=nextepisode&embed[]=previousepisode`,
+      {
+        cachePolicy: options.cachePolicy,
+        signal: options.signal,
+        onRevalidate: onRevalidate && (data => onRevalidate(mapShow(id, data))),
+      }
+    );
+
+    return mapShow(id, show);
+  }
+
+  public async getSeasonDetails(tvId: number, seasonNumber: number, options: RequestOptions<Season> = {}): Promise<Season> {
+    const tvmazeId = await this.resolveTVmazeId(tvId, options.signal);
+    if (tvmazeId === null) {
+      return this.options.fallback.getSeasonDetails(tvId, seasonNumber, options);
+    }
+
+    const { cachePolicy, signal, onRevalidate } = options;
+    const seasonsEndpoint = `/shows/${tvmazeId}/seasons`;
+    const seasons = await this.fetchAPI<TVmazeSeason[]>(seasonsEndpoint, { cachePolicy, signal });
+    const season = seasons.find(item => item.number === seasonNumber);
+
+    if (!season) {
+      throw new TMDBNotFoundError(`Season ${seasonNumber} is not listed on TVmaze`, { endpoint: seasonsEndpoint });
+    }
+
+    const episodes = await this.fetchAPI<TVmazeEpisode[]>(`/seasons/${season.id}/episodes`, {
+      cachePolicy,
+      signal,
+      onRevalidate: onRevalidate && (data => onRevalidate(mapSeason(season, data))),
+    });
+
+    return mapSeason(season, episodes);
+  }
+
+  // TVmaze serves full image URLs rather than TMDB-style paths
+  public getImageUrl(path: string, size: string): string {
+    return path;
+  }
+
+  // Returns null when the show is not on TVmaze
+  public async resolveTVmazeId(tmdbId: number, signal?: AbortSignal): Promise<number | null> {
+    await this.loadIds();
+
+    const knownId = this.tvmazeIds[tmdbId];
+    if (knownId !== undefined) {
+      return knownId;
+    }
+
+    // Saves repeating the TMDB and TVmaze lookups every time a show TVmaze doesn't have is opened
+    const missing = await ResponseCacheService.get<boolean>(MISSING_ID_KEY_PREFIX + tmdbId);
+    if (missing && !ResponseCacheService.isExpired(missing)) {
+      return null;
+    }
+
+    const externalIds = await this.options.externalIds.getExternalIds(tmdbId, { signal });
+    let show: TVmazeShow | null = null;
+
+    if (externalIds.tvdb_id) {
+      show = await this.lookup(`thetvdb=${externalIds.tvdb_id}`, signal);
+    }
+    if (!show && externalIds.imdb_id) {
+      show = await this.lookup(`imdb=${encodeURIComponent(externalIds.imdb_id)}`, signal);
+    }
+    if (!show) {
+      await ResponseCacheService.set(MISSING_ID_KEY_PREFIX + tmdbId, true, CACHE_CONFIG.TTL.MISSING_IDS);
+      return null;
+    }
+
+    await this.saveId(tmdbId, show.id);
+    return show.id;
+  }
+
+  // Returns null when TMDB has no show with the same TheTVDB or IMDb id
+  public async resolveTMDBId(tvmazeId: number, signal?: AbortSignal): Promise<number | null> {
+    await this.loadIds();
+
+    const knownId = Object.keys(this.tvmazeIds).find(tmdbId => this.tvmazeIds[tmdbId] === tvmazeId);
+    if (knownId !== undefined) {
+      return Number(knownId);
+    }
+
+    const show = await this.fetchAPI<TVmazeShow>(`/shows/${tvmazeId}`, { signal });
+    const candidates: Array<[string, ExternalSource]> = [];
+
+    if (show.externals.thetvdb) {
+      candidates.push([String(show.externals.thetvdb), 'tvdb_id']);
+    }
+    if (show.externals.imdb) {
+      candidates.push([show.externals.imdb, 'imdb_id']);
+    }
+
+    for (const [externalId, source] of candidates) {
+      const response = await this.options.externalIds.findByExternalId(externalId, source);
+      const match = response.tv_results[0];
+      if (match) {
+        await this.saveId(match.id, tvmazeId);
+        return match.id;
+      }
+    }
+
+    return null;
+  }
+
+  private async lookup(query: string, signal?: AbortSignal): Promise<TVmazeShow | null> {
+    try {
+      return await this.fetchAPI<TVmazeShow>(`/lookup/shows?${query}`, { signal });
+    } catch (error) {
+      if (isTMDBError(error) && error.kind === 'not-found') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async loadIds(): Promise<void> {
+    if (this.idsLoaded) return;
+
+    try {
+      const storedIds = await AsyncStorage.getItem(TVMAZE_IDS_KEY);
+      if (storedIds) {
+        this.tvmazeIds = { ...JSON.parse(storedIds), ...this.tvmazeIds };
+      }
+    } catch (error) {
+      console.error('Error loading TVmaze ids:', error);
+    } finally {
+      this.idsLoaded = true;
+    }
+  }
+
+  private async saveId(tmdbId: number, tvmazeId: number): Promise<void> {
+    this.tvmazeIds[tmdbId] = tvmazeId;
+
+    try {
+      await AsyncStorage.setItem(TVMAZE_IDS_KEY, JSON.stringify(this.tvmazeIds));
+    } catch (error) {
+      console.error('Error saving TVmaze ids:', error);
+    }
+  }
+
+  private async fetchAPI<T>(endpoint: string, options: RequestOptions<T> = {}): Promise<T> {
+    const cachePolicy = options.cachePolicy ?? 'stale-while-revalidate';
+    const cacheKey = CACHE_KEY_PREFIX + endpoint;
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      throw new TMDBAbortError(endpoint);
+    }
+
+    if (cachePolicy === 'network-only') {
+      return this.fetchAndCache<T>(endpoint, signal);
+    }
+
+    const cached = await ResponseCacheService.get<T>(cacheKey);
+
+    if (cachePolicy === 'cache-only') {
+      if (!cached) {
+        throw new TMDBCacheMissError(endpoint);
+      }
+      return cached.data;
+    }
+
+    if (!cached) {
+      return this.fetchAndCache<T>(endpoint, signal);
+    }
+
+    if (ResponseCacheService.isExpired(cached)) {
+      this.fetchAndCache<T>(endpoint)
+        .then(data => options.onRevalidate?.(data))
+        .catch(error => console.error(`Error revalidating ${endpoint}:`, error));
+    }
+
+    return cached.data;
+  }
+
+  private fetchAndCache<T>(endpoint: string, signal?: AbortSignal): Promise<T> {
+    return this.coalescer.run(
+      endpoint,
+      async (sharedSignal) => {
+        const data = await this.request<T>(endpoint, sharedSignal);
+        await ResponseCacheService.set(CACHE_KEY_PREFIX + endpoint, data, this.getCacheTTL(endpoint, data));
+        return data;
+      },
+      signal
+    );
+  }
+
+  private async request<T>(endpoint: string, signal?: AbortSignal): Promise<T> {
+    const url = `${this.baseURL}${endpoint}`;
+    let response: Response;
+
+    try {
+      response = await fetchWithRetry(
+        () => this.fetchImpl(url, { method: 'GET', signal }),
+        {
+          signal,
+          beforeAttempt: async () => {
+            await this.rateLimiter.take();
+          },
+          onRetry: (event) => {
+            if (event.reason === 'rate-limit') {
+              this.rateLimiter.penalize(event.delay);
+            }
+          },
+        }
+      );
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new TMDBAbortError(endpoint);
+      }
+
+      const networkError = new TMDBNetworkError('Unable to reach TVmaze. Check your internet connection.', {
+        endpoint,
+        cause: error,
+      });
+      console.error('TVmaze fetch error:', networkError);
+      throw networkError;
+    }
+
+    if (!response.ok) {
+      // TVmaze errors look like { name, message, code, status }
+      const errorData: { message?: string } | null = await response.json().catch(() => null);
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After')) ?? undefined;
+      const httpError = createHTTPError(response.status, endpoint, { status_message: errorData?.message }, retryAfter);
+      if (response.status !== 404) {
+        console.error('TVmaze fetch error:', httpError);
+      }
+      throw httpError;
+    }
+
+    try {
+      return await response.json();
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new TMDBAbortError(endpoint);
+      }
+
+      const parseError = new TMDBParseError('TVmaze returned a response that could not be read', {
+        endpoint,
+        statusCode: response.status,
+        cause: error,
+      });
+      console.error('TVmaze fetch error:', parseError);
+      throw parseError;
+    }
+  }
+
+  private getCacheTTL(endpoint: string, data: unknown): number {
+    const { TTL } = CACHE_CONFIG;
+    const path = endpoint.split('?')[0];
+
+    if (path.startsWith('/lookup/')) {
+      return TTL.EXTERNAL_IDS;
+    }
+    if (/^\/shows\/\d+$/.test(path)) {
+      const nextEpisode = (data as TVmazeShow)._embedded?.nextepisode;
+      const airTime = nextEpisode ? new Date(nextEpisode.airstamp ?? nextEpisode.airdate).getTime() : NaN;
+      return Math.abs(airTime - Date.now()) < CACHE_CONFIG.AIRING_SOON_WINDOW
+        ? TTL.SHOW_DETAILS_AIRING_SOON
+        : TTL.SHOW_DETAILS;
+    }
+    if (/^\/shows\/\d+\/seasons$/.test(path) || /^\/seasons\/\d+\/episodes$/.test(path)) {
+      return TTL.SEASON_DETAILS;
+    }
+
+    return TTL.DEFAULT;
+  }
+}
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import {
   StyleSheet,
   View,
@@ -14,21 +14,66 @@ import {
   Pressable,
 } from 'react-native';
 import { useLocalSearchParams, Stack, Link, router } from 'expo-router';
-import TMDBService, { TVShow, Season, Episode } from '@/app/services/TMDBService';
+import MetadataService from '@/app/services/MetadataService';
+import { TVShow, Season, Episode, AggregateCredits, AggregateCrewMember } from '@/app/services/TMDBService';
+import { CachePolicy } from '@/app/services/ResponseCacheService';
+import { isAbortError } from '@/app/services/TMDBError';
+import type { MetadataProviderId } from '@/app/services/providers/MetadataProvider';
 import WatchlistService from '@/app/services/WatchlistService';
+import RecommendationService from '@/app/services/RecommendationService';
 import NotificationService from '@/app/services/NotificationService';
 import AnalyticsService, { EventType } from '@/app/services/AnalyticsService';
-import { TMDB_CONFIG } from '@/constants/Config';
+import { TMDB_CONFIG, WATCH_PROVIDER_CONFIG } from '@/constants/Config';
 import { LinearGradient } from 'expo-linear-gradient';
 import CachedImage from '@/components/CachedImage';
+import ShowCard from '@/components/ShowCard';
 import { useTheme } from '@/app/context/ThemeContext';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
 import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
 import { SkeletonDetails } from '@/app/components/SkeletonLoader';
 import EpisodeCountdown from '@/app/components/EpisodeCountdown';
+import ErrorState from '@/app/components/ErrorState';
+import ListPickerModal from '@/app/components/ListPickerModal';
+import ShowNotesEditor from '@/app/components/ShowNotesEditor';
+import RatingModal from '@/app/components/RatingModal';
+import EpisodeRatingsChart from '@/app/components/EpisodeRatingsChart';
+import { formatStars, getEpisodeRatings } from '@/app/services/RatingService';
+import { useShowRatings } from '@/components/useShowRatings';
+import VideoRow from '@/app/components/VideoRow';
+import VideoService, { VideoGroup } from '@/app/services/VideoService';
+import WatchProviderService, { groupWatchOptions, WatchOptionGroup, WatchOptionType } from '@/app/services/WatchProviderService';
+import UserPreferencesService from '@/app/services/UserPreferencesService';
+import WatchProgressService, { WatchedEpisodes } from '@/app/services/WatchProgressService';
+import * as WebBrowser from 'expo-web-browser';
 import Toast from 'react-native-toast-message';
 
 const { width } = Dimensions.get('window');
+const MAX_CAST_MEMBERS = 20;
+const COLLAPSED_CREW_DEPARTMENTS = 2;
+const MAX_CREW_PER_DEPARTMENT = 6;
+
+const WATCH_OPTION_LABELS: Record<WatchOptionType, string> = {
+  stream: 'Stream',
+  free: 'Free',
+  rent: 'Rent',
+  buy: 'Buy',
+};
+
+// Departments come back in no particular order; people who worked on more episodes lead
+const groupCrewByDepartment = (crew: AggregateCrewMember[]) => {
+  const departments = new Map<string, AggregateCrewMember[]>();
+
+  for (const member of crew) {
+    departments.set(member.department, [...(departments.get(member.department) || []), member]);
+  }
+
+  return [...departments.entries()]
+    .map(([department, members]) => ({
+      department,
+      members: [...members].sort((a, b) => b.total_episode_count - a.total_episode_count),
+    }))
+    .sort((a, b) => a.department.localeCompare(b.department));
+};
 
 export default function ShowDetailsScreen() {
   const { theme } = useTheme();
@@ -39,13 +84,44 @@ export default function ShowDetailsScreen() {
   const [seasonEpisodes, setSeasonEpisodes] = useState<Record<number, Episode[]>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [isInWatchlist, setIsInWatchlist] = useState(false);
+  const [isListPickerVisible, setIsListPickerVisible] = useState(false);
+  const [isRatingVisible, setIsRatingVisible] = useState(false);
+  const { ratings: showRatings, getScore } = useShowRatings(id ? parseInt(id) : null);
+  const userScore = show ? getScore({ type: 'show', showId: show.id }) : null;
   const [notificationEnabled, setNotificationEnabled] = useState(false);
+  const [showProviderId, setShowProviderId] = useState<MetadataProviderId | null>(null);
+  const [moreLikeThis, setMoreLikeThis] = useState<TVShow[]>([]);
+  const [credits, setCredits] = useState<AggregateCredits | null>(null);
+  const [videoGroups, setVideoGroups] = useState<VideoGroup[]>([]);
+  const [watchOptions, setWatchOptions] = useState<WatchOptionGroup[]>([]);
+  const [watchLink, setWatchLink] = useState<string | null>(null);
+  const [isCrewExpanded, setIsCrewExpanded] = useState(false);
+  const [watchlistIds, setWatchlistIds] = useState<number[]>([]);
+  const [watchedEpisodes, setWatchedEpisodes] = useState<WatchedEpisodes>({});
+  // Cancels in-flight requests when the screen unmounts
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const loadData = useCallback(async () => {
+  useEffect(() => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  // Picks up episodes marked on the season and episode screens
+  useEffect(() => {
+    const showId = parseInt(id);
+    return WatchProgressService.subscribe(async (changedShowId) => {
+      if (changedShowId === showId) {
+        setWatchedEpisodes(await WatchProgressService.getWatchedEpisodes(showId));
+      }
+    });
+  }, [id]);
+
+  const loadData = useCallback(async (cachePolicy: CachePolicy = 'stale-while-revalidate') => {
     if (!id) {
-      setError('Show ID is missing. Please go back and try again.');
+      setError(new Error('Show ID is missing. Please go back and try again.'));
       setIsLoading(false);
       setIsRefreshing(false);
       return;
@@ -63,7 +139,11 @@ export default function ShowDetailsScreen() {
         setIsLoading(true);
       }
 
-      const details = await TMDBService.getTVShowDetails(showId);
+      const details = await MetadataService.getTVShowDetails(showId, {
+        cachePolicy,
+        onRevalidate: setShow,
+        signal: abortControllerRef.current?.signal,
+      });
       setShow(details);
       
       await AnalyticsService.trackScreenView('show_details', { 
@@ -88,27 +168,46 @@ export default function ShowDetailsScreen() {
         
         if (details.last_episode_to_air) {
           const latestSeasonNumber = details.last_episode_to_air.season_number;
-          await loadSeasonEpisodes(showId, latestSeasonNumber);
+          await loadSeasonEpisodes(showId, latestSeasonNumber, cachePolicy);
           setExpandedSeason(latestSeasonNumber);
         }
       }
 
-      const status = await WatchlistService.isInWatchlist(showId);
-      setIsInWatchlist(status);
+      // Credits and related shows are secondary, so they load without holding up the screen
+      loadCredits(showId, cachePolicy);
+      loadVideos(showId, cachePolicy);
+      loadWatchOptions(showId, cachePolicy);
+      loadMoreLikeThis(showId, cachePolicy);
+
+      setWatchedEpisodes(await WatchProgressService.getWatchedEpisodes(showId));
+
+      const watchlist = await WatchlistService.getWatchlist();
+      setWatchlistIds(watchlist.map(item => item.id));
+      setIsInWatchlist(watchlist.some(item => item.id === showId));
+
+      setShowProviderId(await MetadataService.getShowProviderId(showId));
 
       setNotificationEnabled(NotificationService.isNotificationsEnabled());
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Error loading show details:', err);
-      setError('Failed to load show details. Please try again.');
+      setError(err);
     } finally {
       setIsLoading(false);
       setIsRefreshing(false);
     }
   }, [id]);
 
-  const loadSeasonEpisodes = async (showId: number, seasonNumber: number) => {
+  const loadSeasonEpisodes = async (
+    showId: number,
+    seasonNumber: number,
+    cachePolicy: CachePolicy = 'stale-while-revalidate'
+  ) => {
     try {
-      const seasonDetails = await TMDBService.getSeasonDetails(showId, seasonNumber);
+      const seasonDetails = await MetadataService.getSeasonDetails(showId, seasonNumber, {
+        cachePolicy,
+        signal: abortControllerRef.current?.signal,
+      });
       if (seasonDetails && seasonDetails.episodes) {
         setSeasonEpisodes(prev => ({
           ...prev,
@@ -116,17 +215,77 @@ export default function ShowDetailsScreen() {
         }));
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(`Error loading season ${seasonNumber} episodes:`, error);
     }
   };
 
+  const loadCredits = async (showId: number, cachePolicy: CachePolicy) => {
+    try {
+      const aggregateCredits = await MetadataService.getAggregateCredits(showId, {
+        cachePolicy,
+        onRevalidate: setCredits,
+        signal: abortControllerRef.current?.signal,
+      });
+      setCredits(aggregateCredits);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error loading credits:', error);
+      setCredits(null);
+    }
+  };
+
+  const loadVideos = async (showId: number, cachePolicy: CachePolicy) => {
+    try {
+      setVideoGroups(await VideoService.getShowVideoGroups(showId, {
+        cachePolicy,
+        signal: abortControllerRef.current?.signal,
+      }));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error loading videos:', error);
+      setVideoGroups([]);
+    }
+  };
+
+  const loadWatchOptions = async (showId: number, cachePolicy: CachePolicy) => {
+    try {
+      const availability = await WatchProviderService.getShowAvailability(
+        showId,
+        UserPreferencesService.getPreferences().region,
+        { cachePolicy, signal: abortControllerRef.current?.signal }
+      );
+      setWatchOptions(groupWatchOptions(availability));
+      setWatchLink(availability?.link ?? null);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error loading watch providers:', error);
+      setWatchOptions([]);
+      setWatchLink(null);
+    }
+  };
+
+  const loadMoreLikeThis = async (showId: number, cachePolicy: CachePolicy) => {
+    try {
+      const shows = await RecommendationService.getMoreLikeThis(showId, {
+        cachePolicy,
+        signal: abortControllerRef.current?.signal,
+      });
+      setMoreLikeThis(shows);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error loading recommendations:', error);
+      setMoreLikeThis([]);
+    }
+  };
+
   useEffect(() => {
     loadData();
   }, [loadData]);
 
   const handleRefresh = () => {
     setIsRefreshing(true);
-    loadData();
+    loadData('network-only');
   };
 
   const handleWatchlistToggle = async () => {
@@ -184,6 +343,70 @@ export default function ShowDetailsScreen() {
     }
   };
 
+  const handleRecommendationWatchlistToggle = async (item: TVShow) => {
+    try {
+      if (watchlistIds.includes(item.id)) {
+        const success = await WatchlistService.removeFromWatchlist(item.id);
+        if (!success) return;
+
+        setWatchlistIds(prev => prev.filter(showId => showId !== item.id));
+        await NotificationService.cancelShowNotifications(item.id);
+        Toast.show({
+          type: 'success',
+          text1: 'Removed from Watchlist',
+          text2: `${item.name} has been removed from your watchlist`,
+          position: 'bottom',
+        });
+        await AnalyticsService.trackEvent(EventType.REMOVE_FROM_WATCHLIST, { showId: item.id, showName: item.name });
+      } else {
+        const success = await WatchlistService.addToWatchlist(item, 'recommendation');
+        if (!success) return;
+
+        setWatchlistIds(prev => [...prev, item.id]);
+        Toast.show({
+          type: 'success',
+          text1: 'Added to Watchlist',
+          text2: `${item.name} has been added to your watchlist`,
+          position: 'bottom',
+        });
+        await AnalyticsService.trackEvent(EventType.ADD_TO_WATCHLIST, {
+          showId: item.id,
+          showName: item.name,
+          source: 'recommendation',
+        });
+      }
+    } catch (err) {
+      console.error('Error toggling watchlist:', err);
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Failed to update watchlist. Please try again.',
+        position: 'bottom',
+      });
+    }
+  };
+
+  const handleDismissRecommendation = async (item: TVShow) => {
+    setMoreLikeThis(prev => prev.filter(related => related.id !== item.id));
+
+    const success = await RecommendationService.dismiss(item.id);
+    if (!success) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Failed to hide this show. Please try again.',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    await AnalyticsService.trackEvent(EventType.DISMISS_RECOMMENDATION, {
+      showId: item.id,
+      showName: item.name,
+      fromShowId: show?.id,
+    });
+  };
+
   const scheduleNotification = async () => {
     if (!show || !show.next_episode_to_air) return;
     
@@ -199,12 +422,12 @@ export default function ShowDetailsScreen() {
 
   const getPosterUrl = (path: string | null) => {
     if (!path) return '';
-    return `${TMDB_CONFIG.IMAGE_BASE_URL}/${TMDB_CONFIG.POSTER_SIZES.LARGE}${path}`;
+    return MetadataService.getImageUrl(path, TMDB_CONFIG.POSTER_SIZES.LARGE);
   };
 
   const getBackdropUrl = (path: string | null) => {
     if (!path) return '';
-    return `${TMDB_CONFIG.IMAGE_BASE_URL}/${TMDB_CONFIG.BACKDROP_SIZES.LARGE}${path}`;
+    return MetadataService.getImageUrl(path, TMDB_CONFIG.BACKDROP_SIZES.LARGE);
   };
 
   const toggleSeason = async (seasonNumber: number) => {
@@ -223,6 +446,98 @@ export default function ShowDetailsScreen() {
     router.back();
   };
 
+  const isEpisodeWatched = (episode: Episode) => !!watchedEpisodes[episode.season_number]?.[episode.episode_number];
+
+  const handleToggleWatched = async (episode: Episode) => {
+    if (!show) return;
+
+    const watched = !isEpisodeWatched(episode);
+    const success = await WatchProgressService.markEpisode(show.id, episode.season_number, episode.episode_number, watched);
+    if (!success) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not update watched episodes',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    AnalyticsService.trackEvent(EventType.MARK_WATCHED, {
+      showId: show.id,
+      seasonNumber: episode.season_number,
+      episodeNumber: episode.episode_number,
+      scope: 'episode',
+      watched,
+    });
+  };
+
+  const handleMarkUpTo = async (episode: Episode) => {
+    if (!show) return;
+
+    const success = await WatchProgressService.markUpTo(show.id, episode.season_number, episode.episode_number, {
+      signal: abortControllerRef.current?.signal,
+    });
+    Toast.show(success ? {
+      type: 'success',
+      text1: 'Marked as Watched',
+      text2: `Everything up to S${episode.season_number}E${episode.episode_number} is marked as watched`,
+      position: 'bottom',
+    } : {
+      type: 'error',
+      text1: 'Error',
+      text2: 'Could not update watched episodes',
+      position: 'bottom',
+    });
+
+    if (success) {
+      AnalyticsService.trackEvent(EventType.MARK_WATCHED, {
+        showId: show.id,
+        seasonNumber: episode.season_number,
+        episodeNumber: episode.episode_number,
+        scope: 'up_to',
+        watched: true,
+      });
+    }
+  };
+
+  const handleWatchedLongPress = (episode: Episode) => {
+    Alert.alert(
+      'Mark as Watched',
+      `Mark every episode up to S${episode.season_number}E${episode.episode_number} as watched?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Mark All', onPress: () => handleMarkUpTo(episode) },
+      ]
+    );
+  };
+
+  const handleToggleSeasonWatched = async (seasonNumber: number) => {
+    if (!show) return;
+
+    const episodes = seasonEpisodes[seasonNumber] || [];
+    const watched = !(episodes.length > 0 && episodes.every(isEpisodeWatched));
+    const success = await WatchProgressService.markSeason(show.id, seasonNumber, watched, {
+      signal: abortControllerRef.current?.signal,
+    });
+    if (!success) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not update watched episodes',
+        position: 'bottom',
+      });
+      return;
+    }
+
+    AnalyticsService.trackEvent(EventType.MARK_WATCHED, {
+      showId: show.id,
+      seasonNumber,
+      scope: 'season',
+      watched,
+    });
+  };
+
   const formatDate = (dateString: string) => {
     if (!dateString) return 'TBA';
     const date = new Date(dateString);
@@ -233,6 +548,42 @@ export default function ShowDetailsScreen() {
     });
   };
 
+  // Includes the time of day when the provider knows the exact air time
+  const formatAirDate = (episode: Episode) => {
+    if (!episode.airstamp) return formatDate(episode.air_date);
+    return new Date(episode.airstamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  const handleProviderChange = async (providerId: MetadataProviderId | null) => {
+    if (!show || providerId === showProviderId) return;
+
+    try {
+      await MetadataService.setShowProvider(show.id, providerId);
+      setShowProviderId(providerId);
+      await loadData();
+
+      AnalyticsService.trackEvent(EventType.CHANGE_SETTINGS, {
+        setting: 'showProvider',
+        showId: show.id,
+        provider: providerId ?? 'default',
+      });
+    } catch (error) {
+      console.error('Error changing show provider:', error);
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Could not change the data source for this show',
+        position: 'bottom',
+      });
+    }
+  };
+
   const formatRuntime = (minutes?: number) => {
     if (!minutes) return '';
     const hours = Math.floor(minutes / 60);
@@ -262,7 +613,7 @@ export default function ShowDetailsScreen() {
           <View key={network.id} style={styles.networkItem}>
             {network.logo_path ? (
               <CachedImage
-                uri={`${TMDB_CONFIG.IMAGE_BASE_URL}/w92${network.logo_path}`}
+                uri={MetadataService.getImageUrl(network.logo_path, 'w92')}
                 style={styles.networkLogo}
                 resizeMode="contain"
               />
@@ -308,7 +659,7 @@ export default function ShowDetailsScreen() {
           </Text>
           <View style={styles.countdownContainer}>
             <Ionicons name="time-outline" size={18} color={theme.colors.primary} />
-            <EpisodeCountdown airDate={episode.air_date} />
+            <EpisodeCountdown airDate={episode.air_date} airstamp={episode.airstamp} />
           </View>
         </View>
         
@@ -321,13 +672,13 @@ export default function ShowDetailsScreen() {
               {episode.name}
             </Text>
             <Text style={[styles.nextEpisodeDate, { color: theme.colors.textSecondary }]}>
-              Airs on {formatDate(episode.air_date)}
+              Airs on {formatAirDate(episode)}
             </Text>
           </View>
           
           {episode.still_path && (
             <CachedImage
-              uri={`${TMDB_CONFIG.IMAGE_BASE_URL}/w300${episode.still_path}`}
+              uri={MetadataService.getImageUrl(episode.still_path, 'w300')}
               style={styles.nextEpisodeImage}
               resizeMode="cover"
             />
@@ -372,7 +723,7 @@ export default function ShowDetailsScreen() {
           
           {episode.still_path && (
             <CachedImage
-              uri={`${TMDB_CONFIG.IMAGE_BASE_URL}/w300${episode.still_path}`}
+              uri={MetadataService.getImageUrl(episode.still_path, 'w300')}
               style={styles.lastEpisodeImage}
               resizeMode="cover"
             />
@@ -412,8 +763,24 @@ export default function ShowDetailsScreen() {
                 </Text>
                 <Text style={[styles.episodeCount, { color: theme.colors.textSecondary }]}>
                   {seasonEpisodes[season.season_number]?.length || ''} Episodes
+                  {watchedEpisodes[season.season_number]
+                    ? ` · ${Object.keys(watchedEpisodes[season.season_number]).length} watched`
+                    : ''}
                 </Text>
               </View>
+              <TouchableOpacity
+                style={styles.watchedButton}
+                onPress={() => handleToggleSeasonWatched(season.season_number)}
+              >
+                <Ionicons
+                  name="checkmark-done-circle-outline"
+                  size={26}
+                  color={seasonEpisodes[season.season_number]?.length &&
+                    seasonEpisodes[season.season_number].every(isEpisodeWatched)
+                    ? theme.colors.primary
+                    : theme.colors.textSecondary}
+                />
+              </TouchableOpacity>
               <Ionicons 
                 name={expandedSeason === season.season_number ? "chevron-up" : "chevron-down"}
                 size={24}
@@ -425,44 +792,68 @@ export default function ShowDetailsScreen() {
               <View style={[styles.episodeList, { backgroundColor: theme.colors.background }]}>
                 {seasonEpisodes[season.season_number] ? (
                   seasonEpisodes[season.season_number].map((episode) => (
-                    <View 
+                    <Link
                       key={episode.id}
-                      style={[styles.episodeItem, { borderBottomColor: theme.colors.border }]}
+                      href={{
+                        pathname: '/episode-details',
+                        params: {
+                          id: show.id.toString(),
+                          season: episode.season_number.toString(),
+                          episode: episode.episode_number.toString(),
+                        },
+                      }}
+                      asChild
                     >
-                      <View style={styles.episodeContent}>
-                        <View style={styles.episodeMainInfo}>
-                          <Text style={[styles.episodeNumber, { color: theme.colors.textSecondary }]}>
-                            {episode.episode_number}
-                          </Text>
-                          <View style={styles.episodeDetails}>
-                            <Text style={[styles.episodeName, { color: theme.colors.text }]}>
-                              {episode.name}
-                            </Text>
-                            <Text style={[styles.episodeAirDate, { color: theme.colors.textSecondary }]}>
-                              {formatDate(episode.air_date)}
-                              {episode.runtime ? ` · ${formatRuntime(episode.runtime)}` : ''}
+                      <TouchableOpacity 
+                        style={[styles.episodeItem, { borderBottomColor: theme.colors.border }]}
+                      >
+                        <View style={styles.episodeContent}>
+                          <View style={styles.episodeMainInfo}>
+                            <Text style={[styles.episodeNumber, { color: theme.colors.textSecondary }]}>
+                              {episode.episode_number}
                             </Text>
+                            <View style={styles.episodeDetails}>
+                              <Text style={[styles.episodeName, { color: theme.colors.text }]}>
+                                {episode.name}
+                              </Text>
+                              <Text style={[styles.episodeAirDate, { color: theme.colors.textSecondary }]}>
+                                {formatDate(episode.air_date)}
+                                {episode.runtime ? ` · ${formatRuntime(episode.runtime)}` : ''}
+                              </Text>
+                            </View>
                           </View>
-                        </View>
                         
-                        {episode.still_path && (
-                          <CachedImage
-                            uri={`${TMDB_CONFIG.IMAGE_BASE_URL}/w300${episode.still_path}`}
-                            style={styles.episodeImage}
-                            resizeMode="cover"
-                          />
-                        )}
-                      </View>
+                          {episode.still_path && (
+                            <CachedImage
+                              uri={MetadataService.getImageUrl(episode.still_path, 'w300')}
+                              style={styles.episodeImage}
+                              resizeMode="cover"
+                            />
+                          )}
+
+                          <TouchableOpacity
+                            style={styles.watchedButton}
+                            onPress={() => handleToggleWatched(episode)}
+                            onLongPress={() => handleWatchedLongPress(episode)}
+                          >
+                            <Ionicons
+                              name={isEpisodeWatched(episode) ? 'checkmark-circle' : 'ellipse-outline'}
+                              size={26}
+                              color={isEpisodeWatched(episode) ? theme.colors.primary : theme.colors.textSecondary}
+                            />
+                          </TouchableOpacity>
+                        </View>
                       
-                      {episode.overview ? (
-                        <Text 
-                          style={[styles.episodeOverview, { color: theme.colors.textSecondary }]}
-                          numberOfLines={3}
-                        >
-                          {episode.overview}
-                        </Text>
-                      ) : null}
-                    </View>
+                        {episode.overview ? (
+                          <Text 
+                            style={[styles.episodeOverview, { color: theme.colors.textSecondary }]}
+                            numberOfLines={3}
+                          >
+                            {episode.overview}
+                          </Text>
+                        ) : null}
+                      </TouchableOpacity>
+                    </Link>
                   ))
                 ) : (
                   <View style={styles.loadingEpisodes}>
@@ -490,26 +881,264 @@ export default function ShowDetailsScreen() {
         <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Created By</Text>
         <View style={hasAnyCreatorImages ? styles.creatorsContent : styles.creatorsTextContent}>
           {show.created_by.map((creator) => (
-            <View key={creator.id} style={styles.creatorItem}>
-              {creator.profile_path ? (
-                <CachedImage
-                  uri={`${TMDB_CONFIG.IMAGE_BASE_URL}/w185${creator.profile_path}`}
-                  style={styles.creatorImage}
-                  resizeMode="cover"
-                />
-              ) : (
-                <View style={[styles.creatorPlaceholder, { backgroundColor: theme.colors.card }]}>
-                  <Ionicons name="person" size={32} color={theme.colors.textSecondary} />
-                </View>
-              )}
-              <Text style={[styles.creatorName, { color: theme.colors.text }]}>{creator.name}</Text>
-            </View>
+            <Link
+              key={creator.id}
+              href={{ pathname: '/person-details', params: { id: creator.id.toString() } }}
+              asChild
+            >
+              <TouchableOpacity style={styles.creatorItem}>
+                {creator.profile_path ? (
+                  <CachedImage
+                    uri={MetadataService.getImageUrl(creator.profile_path, 'w185')}
+                    style={styles.creatorImage}
+                    resizeMode="cover"
+                  />
+                ) : (
+                  <View style={[styles.creatorPlaceholder, { backgroundColor: theme.colors.card }]}>
+                    <Ionicons name="person" size={32} color={theme.colors.textSecondary} />
+                  </View>
+                )}
+                <Text style={[styles.creatorName, { color: theme.colors.text }]}>{creator.name}</Text>
+              </TouchableOpacity>
+            </Link>
           ))}
         </View>
       </Animated.View>
     );
   };
 
+  const renderCast = () => {
+    if (!credits || credits.cast.length === 0) return null;
+
+    const cast = [...credits.cast].sort((a, b) => a.order - b.order).slice(0, MAX_CAST_MEMBERS);
+
+    return (
+      <Animated.View
+        style={styles.creatorsContainer}
+        entering={FadeInDown.duration(500).delay(650)}
+      >
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Cast</Text>
+        <FlatList
+          horizontal
+          data={cast}
+          keyExtractor={(item) => item.id.toString()}
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.castList}
+          renderItem={({ item }) => (
+            <Link href={{ pathname: '/person-details', params: { id: item.id.toString() } }} asChild>
+              <TouchableOpacity style={styles.creatorItem}>
+                {item.profile_path ? (
+                  <CachedImage
+                    uri={MetadataService.getImageUrl(item.profile_path, 'w185')}
+                    style={styles.creatorImage}
+                    resizeMode="cover"
+                  />
+                ) : (
+                  <View style={[styles.creatorPlaceholder, { backgroundColor: theme.colors.card }]}>
+                    <Ionicons name="person" size={32} color={theme.colors.textSecondary} />
+                  </View>
+                )}
+                <Text style={[styles.creatorName, { color: theme.colors.text }]} numberOfLines={2}>
+                  {item.name}
+                </Text>
+                {item.roles[0]?.character ? (
+                  <Text style={[styles.castCharacter, { color: theme.colors.textSecondary }]} numberOfLines={2}>
+                    {item.roles[0].character}
+                  </Text>
+                ) : null}
+                <Text style={[styles.castEpisodes, { color: theme.colors.textDisabled }]}>
+                  {item.total_episode_count} ep{item.total_episode_count === 1 ? '' : 's'}
+                </Text>
+              </TouchableOpacity>
+            </Link>
+          )}
+        />
+      </Animated.View>
+    );
+  };
+
+  const renderCrew = () => {
+    if (!credits || credits.crew.length === 0) return null;
+
+    const departments = groupCrewByDepartment(credits.crew);
+    const visibleDepartments = isCrewExpanded ? departments : departments.slice(0, COLLAPSED_CREW_DEPARTMENTS);
+
+    return (
+      <Animated.View
+        style={styles.creatorsContainer}
+        entering={FadeInDown.duration(500).delay(700)}
+      >
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Crew</Text>
+        {visibleDepartments.map(({ department, members }) => (
+          <View key={department} style={styles.crewDepartment}>
+            <Text style={[styles.crewDepartmentTitle, { color: theme.colors.textSecondary }]}>{department}</Text>
+            {members.slice(0, isCrewExpanded ? undefined : MAX_CREW_PER_DEPARTMENT).map(member => (
+              <Link
+                key={member.id}
+                href={{ pathname: '/person-details', params: { id: member.id.toString() } }}
+                asChild
+              >
+                <TouchableOpacity style={[styles.crewMember, { borderBottomColor: theme.colors.divider }]}>
+                  <Text style={[styles.crewName, { color: theme.colors.text }]} numberOfLines={1}>
+                    {member.name}
+                  </Text>
+                  <Text style={[styles.crewJob, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                    {member.jobs.map(job => job.job).join(', ')}
+                    {member.total_episode_count > 0 ? ` • ${member.total_episode_count} eps` : ''}
+                  </Text>
+                </TouchableOpacity>
+              </Link>
+            ))}
+          </View>
+        ))}
+        {(departments.length > COLLAPSED_CREW_DEPARTMENTS ||
+          departments.some(({ members }) => members.length > MAX_CREW_PER_DEPARTMENT)) && (
+          <TouchableOpacity onPress={() => setIsCrewExpanded(!isCrewExpanded)}>
+            <Text style={[styles.crewToggle, { color: theme.colors.primary }]}>
+              {isCrewExpanded ? 'Show less' : 'Show full crew'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </Animated.View>
+    );
+  };
+
+  const handleOpenWatchLink = async () => {
+    if (!watchLink) return;
+
+    try {
+      await WebBrowser.openBrowserAsync(watchLink);
+    } catch (error) {
+      console.error('Error opening watch providers:', error);
+    }
+  };
+
+  const renderWhereToWatch = () => {
+    if (watchOptions.length === 0) return null;
+
+    const { region, subscribedProviders } = UserPreferencesService.getPreferences();
+
+    return (
+      <Animated.View
+        style={styles.whereToWatchContainer}
+        entering={FadeInDown.duration(500).delay(300)}
+      >
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Where to Watch</Text>
+          <Text style={[styles.seasonCount, { color: theme.colors.textSecondary }]}>{region}</Text>
+        </View>
+        {watchOptions.map(group => (
+          <View key={group.type} style={styles.watchOptionRow}>
+            <Text style={[styles.watchOptionLabel, { color: theme.colors.textSecondary }]}>
+              {WATCH_OPTION_LABELS[group.type]}
+            </Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {group.providers.map(provider => {
+                const isSubscribed = subscribedProviders.includes(provider.provider_id);
+                return (
+                  <View key={provider.provider_id} style={styles.providerItem}>
+                    {provider.logo_path ? (
+                      <CachedImage
+                        uri={MetadataService.getImageUrl(provider.logo_path, WATCH_PROVIDER_CONFIG.LOGO_SIZE)}
+                        style={[
+                          styles.providerLogo,
+                          isSubscribed && { borderColor: theme.colors.primary, borderWidth: 2 },
+                        ]}
+                        resizeMode="cover"
+                      />
+                    ) : (
+                      <View style={[styles.providerLogo, styles.providerPlaceholder, { backgroundColor: theme.colors.secondary }]}>
+                        <Ionicons name="tv-outline" size={20} color={theme.colors.textSecondary} />
+                      </View>
+                    )}
+                    <Text style={[styles.providerName, { color: theme.colors.text }]} numberOfLines={2}>
+                      {provider.provider_name}
+                    </Text>
+                  </View>
+                );
+              })}
+            </ScrollView>
+          </View>
+        ))}
+        {watchLink && (
+          <TouchableOpacity onPress={handleOpenWatchLink}>
+            <Text style={[styles.watchAttribution, { color: theme.colors.textDisabled }]}>
+              Availability data from JustWatch
+            </Text>
+          </TouchableOpacity>
+        )}
+      </Animated.View>
+    );
+  };
+
+  const renderMoreLikeThis = () => {
+    if (moreLikeThis.length === 0) return null;
+
+    return (
+      <Animated.View
+        style={styles.moreLikeThisContainer}
+        entering={FadeInDown.duration(500).delay(700)}
+      >
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>More Like This</Text>
+        <FlatList
+          horizontal
+          data={moreLikeThis}
+          keyExtractor={(item) => item.id.toString()}
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.moreLikeThisList}
+          renderItem={({ item }) => (
+            <ShowCard
+              show={item}
+              size="small"
+              isInWatchlist={watchlistIds.includes(item.id)}
+              onToggleWatchlist={handleRecommendationWatchlistToggle}
+              onDismiss={handleDismissRecommendation}
+            />
+          )}
+        />
+      </Animated.View>
+    );
+  };
+
+  const renderDataSource = () => {
+    // Demo mode ignores per-show choices
+    if (!show || MetadataService.id === 'fixtures') return null;
+
+    const options: { label: string; value: MetadataProviderId | null }[] = [
+      { label: 'Default', value: null },
+      { label: 'TMDB', value: 'tmdb' },
+      { label: 'TVmaze', value: 'tvmaze' },
+    ];
+
+    return (
+      <View style={styles.dataSourceContainer}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Data Source</Text>
+        <Text style={[styles.dataSourceDescription, { color: theme.colors.textSecondary }]}>
+          TVmaze has exact air times for episode countdowns and alerts
+        </Text>
+        <View style={styles.genresContainer}>
+          {options.map((option) => {
+            const isSelected = option.value === showProviderId;
+            return (
+              <TouchableOpacity
+                key={option.label}
+                style={[
+                  styles.genreItem,
+                  { backgroundColor: isSelected ? theme.colors.primary : theme.colors.secondary },
+                ]}
+                onPress={() => handleProviderChange(option.value)}
+              >
+                <Text style={[styles.genreText, { color: isSelected ? '#FFFFFF' : theme.colors.text }]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
   if (isLoading && !isRefreshing) {
     return (
       <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -520,20 +1149,14 @@ export default function ShowDetailsScreen() {
 
   if (error || !show) {
     return (
-      <View style={[styles.errorContainer, { backgroundColor: theme.colors.background }]}>
-        <Text style={[styles.errorText, { color: theme.colors.error }]}>{error || 'Show not found'}</Text>
-        <TouchableOpacity 
-          style={[styles.button, { backgroundColor: theme.colors.secondary }]} 
-          onPress={handleBackPress}
-        >
-          <Text style={[styles.buttonText, { color: theme.colors.text }]}>Go Back</Text>
-        </TouchableOpacity>
-        <TouchableOpacity 
-          style={[styles.button, { backgroundColor: theme.colors.primary }]} 
-          onPress={loadData}
-        >
-          <Text style={[styles.buttonText, { color: '#FFFFFF' }]}>Retry</Text>
-        </TouchableOpacity>
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <ErrorState
+          error={error}
+          fallbackMessage={error instanceof Error ? error.message : 'Show not found'}
+          onRetry={() => loadData()}
+          onGoBack={handleBackPress}
+          onWorkOffline={() => loadData('cache-only')}
+        />
       </View>
     );
   }
@@ -584,6 +1207,12 @@ export default function ShowDetailsScreen() {
               
               <View style={styles.headerInfo}>
                 <Text style={[styles.title, { color: theme.colors.text }]}>{show.name}</Text>
+                {UserPreferencesService.getPreferences().showOriginalTitles &&
+                  show.original_name && show.original_name !== show.name && (
+                  <Text style={[styles.originalTitle, { color: theme.colors.textSecondary }]}>
+                    {show.original_name}
+                  </Text>
+                )}
                 
                 <View style={styles.metaRow}>
                   {show.first_air_date && (
@@ -609,6 +1238,15 @@ export default function ShowDetailsScreen() {
                   <Text style={[styles.rating, { color: theme.colors.text }]}>
                     {show.vote_average?.toFixed(1)}
                   </Text>
+                  <TouchableOpacity style={styles.userRatingButton} onPress={() => setIsRatingVisible(true)}>
+                    {userScore !== null ? (
+                      <Text style={[styles.userRating, { color: theme.colors.text }]}>
+                        You <Text style={styles.userRatingStars}>{formatStars(userScore)}</Text> {userScore}
+                      </Text>
+                    ) : (
+                      <Text style={[styles.userRating, { color: theme.colors.primary }]}>Rate</Text>
+                    )}
+                  </TouchableOpacity>
                 </View>
                 
                 {renderGenres()}
@@ -639,6 +1277,14 @@ export default function ShowDetailsScreen() {
                       {isInWatchlist ? 'In Watchlist' : 'Add to Watchlist'}
                     </Text>
                   </TouchableOpacity>
+
+                  <TouchableOpacity
+                    style={[styles.watchlistButton, styles.listsButton, { backgroundColor: theme.colors.secondary }]}
+                    onPress={() => setIsListPickerVisible(true)}
+                  >
+                    <Ionicons name="list" size={18} color={theme.colors.text} />
+                    <Text style={[styles.watchlistButtonText, { color: theme.colors.text }]}>Lists</Text>
+                  </TouchableOpacity>
                 </View>
               </View>
             </View>
@@ -655,14 +1301,35 @@ export default function ShowDetailsScreen() {
                 </Text>
               </Animated.View>
             )}
+
+            {isInWatchlist && <ShowNotesEditor showId={show.id} />}
+            <EpisodeRatingsChart ratings={getEpisodeRatings(showRatings, show.id)} />
             
+            <VideoRow groups={videoGroups} showId={show.id} style={styles.videosContainer} />
+            {renderWhereToWatch()}
             {renderNextEpisode()}
             {renderLastEpisode()}
             {renderSeasons()}
             {renderCreators()}
+            {renderCast()}
+            {renderCrew()}
+            {renderMoreLikeThis()}
+            {renderDataSource()}
           </Animated.View>
         </ScrollView>
       </View>
+      <RatingModal
+        target={isRatingVisible && show ? { type: 'show', showId: show.id } : null}
+        labels={{ showName: show?.name ?? '', posterPath: show?.poster_path }}
+        title={`Rate ${show?.name ?? 'this show'}`}
+        onClose={() => setIsRatingVisible(false)}
+      />
+      <ListPickerModal
+        show={isListPickerVisible ? show : null}
+        source="show_details"
+        onClose={() => setIsListPickerVisible(false)}
+        onAddedToWatchlist={() => setIsInWatchlist(true)}
+      />
       <Toast />
     </>
   );
@@ -683,29 +1350,6 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 20,
-  },
-  errorText: {
-    fontSize: 18,
-    marginBottom: 20,
-    textAlign: 'center',
-  },
-  button: {
-    paddingHorizontal: 20,
-    paddingVertical: 12,
-    borderRadius: 8,
-    marginVertical: 8,
-    minWidth: 150,
-    alignItems: 'center',
-  },
-  buttonText: {
-    fontSize: 16,
-    fontWeight: 'bold',
-  },
   backdropContainer: {
     height: 250,
     width: '100%',
@@ -757,6 +1401,12 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 8,
   },
+  originalTitle: {
+    fontSize: 15,
+    fontStyle: 'italic',
+    marginTop: -4,
+    marginBottom: 8,
+  },
   metaRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -785,6 +1435,16 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginLeft: 4,
   },
+  userRatingButton: {
+    marginLeft: 16,
+  },
+  userRating: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  userRatingStars: {
+    color: '#FFD700',
+  },
   genresContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -816,6 +1476,9 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginLeft: 4,
   },
+  listsButton: {
+    marginLeft: 8,
+  },
   networksContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -953,6 +1616,10 @@ const styles = StyleSheet.create({
   seasonHeaderContent: {
     flex: 1,
   },
+  watchedButton: {
+    justifyContent: 'center',
+    paddingHorizontal: 8,
+  },
   seasonName: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -1012,6 +1679,95 @@ const styles = StyleSheet.create({
   creatorsContainer: {
     marginBottom: 24,
   },
+  castList: {
+    paddingTop: 12,
+  },
+  castCharacter: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  castEpisodes: {
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  crewDepartment: {
+    marginTop: 12,
+  },
+  crewDepartmentTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  crewMember: {
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  crewName: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  crewJob: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  crewToggle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginTop: 12,
+  },
+  videosContainer: {
+    marginBottom: 24,
+  },
+  whereToWatchContainer: {
+    marginBottom: 24,
+  },
+  watchOptionRow: {
+    marginBottom: 12,
+  },
+  watchOptionLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  providerItem: {
+    width: 64,
+    marginRight: 12,
+    alignItems: 'center',
+  },
+  providerLogo: {
+    width: 48,
+    height: 48,
+    borderRadius: 10,
+  },
+  providerPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  providerName: {
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  watchAttribution: {
+    fontSize: 12,
+  },
+  moreLikeThisContainer: {
+    marginBottom: 24,
+  },
+  moreLikeThisList: {
+    paddingTop: 12,
+  },
+  dataSourceContainer: {
+    marginBottom: 24,
+  },
+  dataSourceDescription: {
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 12,
+  },
   creatorsContent: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -0,0 +1,144 @@
+import React, { useCallback, useEffect } from 'react';
+import { StyleSheet, View, Text, FlatList, ActivityIndicator, RefreshControl } from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import MetadataService from '@/app/services/MetadataService';
+import { TVShow } from '@/app/services/TMDBService';
+import AnalyticsService from '@/app/services/AnalyticsService';
+import { useTheme } from '@/app/context/ThemeContext';
+import ErrorState from '@/app/components/ErrorState';
+import ShowCard from '@/components/ShowCard';
+import PaginatedListFooter from '@/components/PaginatedListFooter';
+import { usePaginatedList, PageFetcher } from '@/components/usePaginatedList';
+
+export type ShowListCategory = 'airing_today' | 'popular' | 'top_rated';
+
+const CATEGORIES: Record<ShowListCategory, { title: string; fetchPage: PageFetcher<TVShow> }> = {
+  airing_today: {
+    title: 'Airing Today',
+    fetchPage: (page, request) => MetadataService.getTVShowsAiringToday(page, request),
+  },
+  popular: {
+    title: 'Popular Shows',
+    fetchPage: (page, request) => MetadataService.getPopularTVShows(page, request),
+  },
+  top_rated: {
+    title: 'Top Rated',
+    fetchPage: (page, request) => MetadataService.getTopRatedTVShows(page, request),
+  },
+};
+
+export default function ShowListScreen() {
+  const { category } = useLocalSearchParams<{ category: ShowListCategory }>();
+  const { theme } = useTheme();
+  const config = CATEGORIES[category] ?? CATEGORIES.popular;
+
+  const {
+    items,
+    isLoading,
+    isLoadingMore,
+    isRefreshing,
+    error,
+    loadMoreError,
+    hasMore,
+    loadMore,
+    retryLoadMore,
+    reload,
+    refresh,
+  } = usePaginatedList(config.fetchPage);
+
+  useEffect(() => {
+    AnalyticsService.trackScreenView('show-list', { category });
+
+    // Switching demo mode in settings swaps the list
+    return MetadataService.subscribe(() => reload());
+  }, [category, reload]);
+
+  const renderItem = useCallback(({ item }: { item: TVShow }) => <ShowCard show={item} />, []);
+
+  const renderContent = () => {
+    if (error) {
+      return (
+        <ErrorState
+          error={error}
+          fallbackMessage="Failed to load shows. Please try again."
+          onRetry={() => reload()}
+          onWorkOffline={() => reload('cache-only')}
+        />
+      );
+    }
+
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={theme.colors.primary} style={styles.loader} />;
+    }
+
+    return (
+      <FlatList
+        data={items}
+        keyExtractor={(item) => item.id.toString()}
+        numColumns={2}
+        columnWrapperStyle={styles.column}
+        renderItem={renderItem}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={refresh}
+            tintColor={theme.colors.primary}
+          />
+        }
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>No shows found</Text>
+        }
+        ListFooterComponent={
+          <PaginatedListFooter
+            isLoadingMore={isLoadingMore}
+            hasMore={hasMore}
+            loadMoreError={loadMoreError}
+            onRetry={retryLoadMore}
+            itemCount={items.length}
+          />
+        }
+      />
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: config.title,
+          headerStyle: {
+            backgroundColor: theme.colors.card,
+          },
+          headerTintColor: theme.colors.text,
+        }}
+      />
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {renderContent()}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingVertical: 12,
+  },
+  column: {
+    justifyContent: 'space-around',
+    paddingHorizontal: 8,
+  },
+  loader: {
+    marginTop: 48,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 48,
+    fontSize: 16,
+  },
+});
@@ -2,6 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ImageBackground } from 'react-native';
 import { Link } from 'expo-router';
 import { TVShow } from '@/app/services/TMDBService';
+import MetadataService from '@/app/services/MetadataService';
 import { TMDB_CONFIG } from '@/constants/Config';
 import { LinearGradient } from 'expo-linear-gradient';
 import CachedImage from './CachedImage';
@@ -12,7 +13,7 @@ interface FeaturedShowProps {
 
 const FeaturedShow: React.FC<FeaturedShowProps> = ({ show }) => {
   const getBackdropUrl = (path: string) => {
-    return `${TMDB_CONFIG.IMAGE_BASE_URL}/${TMDB_CONFIG.BACKDROP_SIZES.LARGE}${path}`;
+    return MetadataService.getImageUrl(path, TMDB_CONFIG.BACKDROP_SIZES.LARGE);
   };
 
   return (
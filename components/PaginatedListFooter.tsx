@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { useTheme } from '@/app/context/ThemeContext';
+
+interface PaginatedListFooterProps {
+  isLoadingMore: boolean;
+  hasMore: boolean;
+  loadMoreError: unknown;
+  onRetry: () => void;
+  itemCount: number;
+}
+
+const PaginatedListFooter: React.FC<PaginatedListFooterProps> = ({
+  isLoadingMore,
+  hasMore,
+  loadMoreError,
+  onRetry,
+  itemCount,
+}) => {
+  const { theme } = useTheme();
+
+  if (isLoadingMore) {
+    return <ActivityIndicator color={theme.colors.primary} style={styles.container} />;
+  }
+
+  if (loadMoreError) {
+    return (
+      <View style={styles.container}>
+        <Text style={[styles.text, { color: theme.colors.textSecondary }]}>Couldn't load more shows</Text>
+        <TouchableOpacity
+          style={[styles.retryButton, { backgroundColor: theme.colors.primary }]}
+          onPress={onRetry}
+        >
+          <Text style={styles.retryText}>Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (!hasMore && itemCount > 0) {
+    return (
+      <Text style={[styles.text, styles.container, { color: theme.colors.textDisabled }]}>
+        You've reached the end
+      </Text>
+    );
+  }
+
+  return null;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 16,
+    alignItems: 'center',
+  },
+  text: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  retryText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+});
+
+export default PaginatedListFooter;
@@ -1,23 +1,40 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, NativeSyntheticEvent, ImageErrorEventData } from 'react-native';
 import { Link } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
 import { TVShow } from '@/app/services/TMDBService';
+import MetadataService from '@/app/services/MetadataService';
 import { TMDB_CONFIG } from '@/constants/Config';
 import CachedImage from './CachedImage';
 import EpisodeCountdown from '@/app/components/EpisodeCountdown';
 import { useTheme } from '@/app/context/ThemeContext';
+import { useShowRatings } from './useShowRatings';
 
 interface ShowCardProps {
   show: TVShow;
   size?: 'small' | 'medium' | 'large';
   onError?: (error: Error) => void;
   compact?: boolean;
+  isInWatchlist?: boolean;
+  // Shows a quick-add button instead of the plain watchlist badge
+  onToggleWatchlist?: (show: TVShow) => void;
+  onDismiss?: (show: TVShow) => void;
 }
 
-const ShowCard: React.FC<ShowCardProps> = ({ show, size = 'medium', onError, compact = false }) => {
+const ShowCard: React.FC<ShowCardProps> = ({
+  show,
+  size = 'medium',
+  onError,
+  compact = false,
+  isInWatchlist = false,
+  onToggleWatchlist,
+  onDismiss,
+}) => {
   const [hasError, setHasError] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const { theme } = useTheme();
+  const { getScore } = useShowRatings(show?.id);
+  const userScore = show?.id ? getScore({ type: 'show', showId: show.id }) : null;
 
   const getPosterSize = () => {
     try {
@@ -39,7 +56,7 @@ const ShowCard: React.FC<ShowCardProps> = ({ show, size = 'medium', onError, com
   const getPosterUrl = (path: string) => {
     try {
       if (!path) return '';
-      return `${TMDB_CONFIG.IMAGE_BASE_URL}/${getPosterSize()}${path}`;
+      return MetadataService.getImageUrl(path, getPosterSize());
     } catch (error) {
       setHasError(true);
       onError?.(error as Error);
@@ -89,7 +106,7 @@ const ShowCard: React.FC<ShowCardProps> = ({ show, size = 'medium', onError, com
       <TouchableOpacity 
         style={[
           styles.container, 
-          { backgroundColor: theme.colors.card },
+          { backgroundColor: theme.colors.card, width: cardStyle.width },
           compact && styles.compactContainer
         ]}
         onPress={() => setIsLoading(true)}
@@ -113,10 +130,38 @@ const ShowCard: React.FC<ShowCardProps> = ({ show, size = 'medium', onError, com
             <Text style={styles.noPosterText}>{show.name || 'No title'}</Text>
           </View>
         )}
+        {onToggleWatchlist ? (
+          <TouchableOpacity
+            style={[styles.watchlistBadge, isInWatchlist && { backgroundColor: theme.colors.primary }]}
+            onPress={() => onToggleWatchlist(show)}
+            hitSlop={8}
+          >
+            <Ionicons name={isInWatchlist ? 'bookmark' : 'add'} size={16} color="#ffffff" />
+          </TouchableOpacity>
+        ) : isInWatchlist && (
+          <View style={[styles.watchlistBadge, { backgroundColor: theme.colors.primary }]}>
+            <Ionicons name="bookmark" size={14} color="#ffffff" />
+          </View>
+        )}
+        {onDismiss && (
+          <TouchableOpacity style={styles.dismissButton} onPress={() => onDismiss(show)} hitSlop={8}>
+            <Ionicons name="close" size={16} color="#ffffff" />
+          </TouchableOpacity>
+        )}
         <View style={styles.infoContainer}>
           <Text style={[styles.title, { color: theme.colors.text }]} numberOfLines={2}>
             {show.name || 'Untitled Show'}
           </Text>
+          {(show.vote_average > 0 || userScore !== null) && (
+            <View style={styles.ratingContainer}>
+              {show.vote_average > 0 && (
+                <Text style={styles.rating}>★ {show.vote_average.toFixed(1)}</Text>
+              )}
+              {userScore !== null && (
+                <Text style={[styles.userRating, { color: theme.colors.text }]}>You {userScore}</Text>
+              )}
+            </View>
+          )}
           {!compact && (
             <>
               <Text style={[styles.overview, { color: theme.colors.textSecondary }]} numberOfLines={3}>
@@ -127,14 +172,20 @@ const ShowCard: React.FC<ShowCardProps> = ({ show, size = 'medium', onError, com
                   <Text style={[styles.nextEpisode, { color: theme.colors.textSecondary }]}>
                     Next: S{show.next_episode_to_air.season_number}E{show.next_episode_to_air.episode_number}
                   </Text>
-                  <EpisodeCountdown airDate={show.next_episode_to_air.air_date} />
+                  <EpisodeCountdown
+                    airDate={show.next_episode_to_air.air_date}
+                    airstamp={show.next_episode_to_air.airstamp}
+                  />
                 </View>
               )}
             </>
           )}
           {compact && show.next_episode_to_air && (
             <View style={styles.compactNextEpisode}>
-              <EpisodeCountdown airDate={show.next_episode_to_air.air_date} />
+              <EpisodeCountdown
+                airDate={show.next_episode_to_air.air_date}
+                airstamp={show.next_episode_to_air.airstamp}
+              />
             </View>
           )}
         </View>
@@ -187,6 +238,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: 'bold',
   },
+  userRating: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
   loadingOverlay: {
     ...StyleSheet.absoluteFillObject,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -217,6 +273,30 @@ const styles = StyleSheet.create({
   compactNextEpisode: {
     marginTop: 4,
   },
+  watchlistBadge: {
+    position: 'absolute',
+    top: 6,
+    left: 6,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 5,
+  },
+  dismissButton: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 5,
+  },
 });
 
 export default ShowCard; 
\ No newline at end of file
@@ -0,0 +1,96 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { appendUniqueById, usePaginatedList } from '../usePaginatedList';
+
+const show = (id) => ({ id, name: `Show ${id}` });
+
+const renderHook = (fetchPage) => {
+  const result = { current: null };
+  const Probe = () => {
+    result.current = usePaginatedList(fetchPage);
+    return null;
+  };
+  act(() => {
+    renderer.create(<Probe />);
+  });
+  return result;
+};
+
+const flush = () => act(async () => {});
+
+describe('appendUniqueById', () => {
+  it('drops shows that are already listed', () => {
+    expect(appendUniqueById([show(1), show(2)], [show(2), show(3), show(3)])).toEqual([show(1), show(2), show(3)]);
+  });
+});
+
+describe('usePaginatedList', () => {
+  it('loads the next page and stops at the last one', async () => {
+    const fetchPage = jest.fn(async (page) => ({
+      page,
+      results: page === 1 ? [show(1), show(2)] : [show(2), show(3)],
+      total_pages: 2,
+      total_results: 4,
+    }));
+    const result = renderHook(fetchPage);
+    await flush();
+
+    expect(result.current.items).toEqual([show(1), show(2)]);
+    expect(result.current.hasMore).toBe(true);
+
+    act(() => result.current.loadMore());
+    await flush();
+
+    expect(result.current.items).toEqual([show(1), show(2), show(3)]);
+    expect(result.current.hasMore).toBe(false);
+
+    act(() => result.current.loadMore());
+    await flush();
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps loaded shows when a later page fails and retries on request', async () => {
+    let failNextPage = true;
+    const fetchPage = jest.fn(async (page) => {
+      if (page === 2 && failNextPage) {
+        failNextPage = false;
+        throw new Error('Network request failed');
+      }
+      return { page, results: [show(page)], total_pages: 3, total_results: 3 };
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = renderHook(fetchPage);
+    await flush();
+    act(() => result.current.loadMore());
+    await flush();
+
+    expect(result.current.items).toEqual([show(1)]);
+    expect(result.current.loadMoreError).toBeInstanceOf(Error);
+
+    // onEndReached firing again must not hammer the failing page
+    act(() => result.current.loadMore());
+    await flush();
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+
+    act(() => result.current.retryLoadMore());
+    await flush();
+
+    expect(result.current.loadMoreError).toBeNull();
+    expect(result.current.items).toEqual([show(1), show(2)]);
+    console.error.mockRestore();
+  });
+
+  it('stays empty without a fetcher', async () => {
+    const result = renderHook(null);
+    await flush();
+
+    expect(result.current.items).toEqual([]);
+    expect(result.current.isLoading).toBe(false);
+  });
+});
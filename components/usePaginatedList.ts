@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { APIResponse } from '@/app/services/TMDBService';
+import { CachePolicy } from '@/app/services/ResponseCacheService';
+import { isAbortError } from '@/app/services/TMDBError';
+
+export interface PageRequest {
+  cachePolicy: CachePolicy;
+  signal: AbortSignal;
+}
+
+export type PageFetcher<T> = (page: number, request: PageRequest) => Promise<APIResponse<T>>;
+
+export interface PaginatedList<T> {
+  items: T[];
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  isRefreshing: boolean;
+  // Set when the first page fails; the list is empty in that case
+  error: unknown;
+  // Set when a later page fails; the items loaded so far stay visible
+  loadMoreError: unknown;
+  hasMore: boolean;
+  loadMore: () => void;
+  retryLoadMore: () => void;
+  reload: (cachePolicy?: CachePolicy) => void;
+  refresh: () => void;
+}
+
+// Rankings can shift between page requests, so a show may come back on the next page too
+export const appendUniqueById = <T extends { id: number }>(current: T[], incoming: T[]): T[] => {
+  const seen = new Set(current.map(item => item.id));
+  const appended = [...current];
+
+  for (const item of incoming) {
+    if (!seen.has(item.id)) {
+      seen.add(item.id);
+      appended.push(item);
+    }
+  }
+  return appended;
+};
+
+// Loads page 1 whenever fetchPage changes, so callers should memoize it.
+// Passing null clears the list, e.g. while a search query is too short.
+export function usePaginatedList<T extends { id: number }>(fetchPage: PageFetcher<T> | null): PaginatedList<T> {
+  const [items, setItems] = useState<T[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(!!fetchPage);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [loadMoreError, setLoadMoreError] = useState<unknown>(null);
+  // Only the latest request may update the list
+  const requestRef = useRef<AbortController | null>(null);
+
+  const loadPage = useCallback(async (pageToLoad: number, cachePolicy: CachePolicy) => {
+    if (!fetchPage) return;
+
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    try {
+      const response = await fetchPage(pageToLoad, { cachePolicy, signal: controller.signal });
+      if (controller.signal.aborted) return;
+
+      setItems(current => appendUniqueById(pageToLoad === 1 ? [] : current, response.results));
+      setPage(pageToLoad);
+      // An empty page also ends the list, since total_pages is only an estimate
+      setHasMore(response.results.length > 0 && pageToLoad < (response.total_pages ?? 0));
+    } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) return;
+      console.error(`Error loading page ${pageToLoad}:`, err);
+
+      if (pageToLoad === 1) {
+        setError(err);
+      } else {
+        setLoadMoreError(err);
+      }
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setIsLoading(false);
+        setIsLoadingMore(false);
+        setIsRefreshing(false);
+      }
+    }
+  }, [fetchPage]);
+
+  const reload = useCallback((cachePolicy: CachePolicy = 'stale-while-revalidate') => {
+    setIsLoading(true);
+    setError(null);
+    setLoadMoreError(null);
+    loadPage(1, cachePolicy);
+  }, [loadPage]);
+
+  const refresh = useCallback(() => {
+    setIsRefreshing(true);
+    setError(null);
+    setLoadMoreError(null);
+    loadPage(1, 'network-only');
+  }, [loadPage]);
+
+  const fetchNextPage = useCallback(() => {
+    setIsLoadingMore(true);
+    setLoadMoreError(null);
+    loadPage(page + 1, 'stale-while-revalidate');
+  }, [loadPage, page]);
+
+  // Lists call this from onEndReached, which can fire repeatedly, so a failed
+  // page waits for retryLoadMore instead of retrying on every scroll
+  const loadMore = useCallback(() => {
+    if (requestRef.current || !hasMore || loadMoreError) return;
+    fetchNextPage();
+  }, [fetchNextPage, hasMore, loadMoreError]);
+
+  const retryLoadMore = useCallback(() => {
+    if (requestRef.current || !hasMore) return;
+    fetchNextPage();
+  }, [fetchNextPage, hasMore]);
+
+  useEffect(() => {
+    setItems([]);
+    setPage(0);
+    setHasMore(false);
+    setIsLoadingMore(false);
+    setIsRefreshing(false);
+
+    if (fetchPage) {
+      reload();
+    } else {
+      requestRef.current?.abort();
+      requestRef.current = null;
+      setIsLoading(false);
+      setError(null);
+      setLoadMoreError(null);
+    }
+  }, [fetchPage, reload]);
+
+  useEffect(() => {
+    return () => requestRef.current?.abort();
+  }, []);
+
+  return {
+    items,
+    isLoading,
+    isLoadingMore,
+    isRefreshing,
+    error,
+    loadMoreError,
+    hasMore,
+    loadMore,
+    retryLoadMore,
+    reload,
+    refresh,
+  };
+}
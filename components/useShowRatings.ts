@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import RatingService, { Rating, RatingTarget, ratingKey } from '@/app/services/RatingService';
+
+export interface ShowRatings {
+  ratings: Rating[];
+  getScore: (target: RatingTarget) => number | null;
+}
+
+// The user's ratings for a show, its seasons and its episodes, kept current as they change
+export function useShowRatings(showId: number | null | undefined): ShowRatings {
+  const [ratings, setRatings] = useState<Rating[]>([]);
+
+  useEffect(() => {
+    if (!showId) {
+      setRatings([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const load = async () => {
+      const showRatings = await RatingService.getRatingsForShow(showId);
+      if (!isCancelled) {
+        setRatings(showRatings);
+      }
+    };
+
+    load();
+    const unsubscribe = RatingService.subscribe(target => {
+      if (target.showId === showId) {
+        load();
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+      unsubscribe();
+    };
+  }, [showId]);
+
+  const getScore = (target: RatingTarget) => {
+    const key = ratingKey(target);
+    return ratings.find(rating => ratingKey(rating) === key)?.score ?? null;
+  };
+
+  return { ratings, getScore };
+}
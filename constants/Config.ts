@@ -1,4 +1,4 @@
-import { TMDB_API_KEY } from '@env';
+import { TMDB_API_KEY, METADATA_PROVIDER, TVMAZE_BASE_URL } from '@env';
 
 export const TMDB_CONFIG = {
   BASE_URL: 'https://api.themoviedb.org/3',
@@ -17,8 +17,155 @@ export const TMDB_CONFIG = {
   }
 };
 
+export const TVMAZE_CONFIG = {
+  // Point TVMAZE_BASE_URL at a local stub server to test without the real API
+  BASE_URL: TVMAZE_BASE_URL || 'https://api.tvmaze.com',
+  // TVmaze allows 20 calls every 10 seconds per IP
+  RATE_LIMIT: {
+    BURST: 20,
+    REQUESTS_PER_SECOND: 2,
+  },
+};
+
+// METADATA_PROVIDER in .env picks the default data source: 'tmdb', 'tvmaze' or 'fixtures' (demo mode)
+export const DEFAULT_METADATA_PROVIDER: 'tmdb' | 'tvmaze' | 'fixtures' =
+  METADATA_PROVIDER === 'fixtures' || METADATA_PROVIDER === 'tvmaze' ? METADATA_PROVIDER : 'tmdb';
+
 export const API_KEY = TMDB_API_KEY || '';
 
-if (!API_KEY) {
+if (!API_KEY && DEFAULT_METADATA_PROVIDER !== 'fixtures') {
   console.warn('TMDB API key not found in environment variables. API requests will fail.');
-}
\ No newline at end of file
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const CACHE_CONFIG = {
+  TTL: {
+    LISTS: 6 * HOUR,
+    AIRING_TODAY: HOUR,
+    SEARCH: 30 * MINUTE,
+    SHOW_DETAILS: 6 * HOUR,
+    SHOW_DETAILS_AIRING_SOON: 15 * MINUTE,
+    SEASON_DETAILS: 12 * HOUR,
+    SEASON_DETAILS_AIRING_SOON: 30 * MINUTE,
+    EXTERNAL_IDS: 7 * DAY,
+    // How long a show another provider doesn't list is assumed to stay missing
+    MISSING_IDS: DAY,
+    GENRES: 7 * DAY,
+    PEOPLE: DAY,
+    VIDEOS: DAY,
+    WATCH_PROVIDERS: DAY,
+    TRANSLATIONS: 7 * DAY,
+    EPISODE_DETAILS: 12 * HOUR,
+    CHANGES: 15 * MINUTE,
+    DEFAULT: HOUR,
+  },
+  // An episode airing within this window makes details refresh more often
+  AIRING_SOON_WINDOW: 2 * DAY,
+  // Expired entries are still served (and revalidated) up to this age
+  MAX_STALE_AGE: 7 * DAY,
+  MAX_MEMORY_ENTRIES: 200,
+};
+
+export const NETWORK_CONFIG = {
+  RETRY: {
+    MAX_RETRIES: 3,
+    BASE_DELAY: 500,
+    MAX_DELAY: 8000,
+  },
+  // Client-side throttle that keeps watchlist fan-outs under TMDB's rate limit
+  RATE_LIMIT: {
+    BURST: 20,
+    REQUESTS_PER_SECOND: 20,
+  },
+};
+
+// How long a watchlist show's saved details are trusted before the background refresh fetches them again
+export const WATCHLIST_REFRESH_CONFIG = {
+  INTERVAL: {
+    AIRING_SOON: HOUR,
+    AIRING_THIS_WEEK: 6 * HOUR,
+    RETURNING: DAY,
+    ENDED: 7 * DAY,
+  },
+  AIRING_SOON_WINDOW: 2 * DAY,
+  AIRING_THIS_WEEK_WINDOW: 7 * DAY,
+  // Shows fetched at the same time; the TMDB rate limiter still applies on top of this
+  CONCURRENCY: 4,
+  // TMDB's /tv/changes feed covers at most 14 days; older syncs fall back to the intervals above
+  CHANGES_MAX_WINDOW: 14 * DAY,
+  // A busier feed than this costs more requests than fetching the stale shows directly
+  CHANGES_MAX_PAGES: 20,
+  // Unchanged shows are still fetched this often, in case the feed missed something
+  MAX_SNAPSHOT_AGE: 7 * DAY,
+};
+
+// TMDB has no endpoint listing networks, so Discover offers the most common ones
+export const DISCOVER_CONFIG = {
+  NETWORKS: [
+    { id: 213, name: 'Netflix' },
+    { id: 49, name: 'HBO' },
+    { id: 2552, name: 'Apple TV+' },
+    { id: 1024, name: 'Prime Video' },
+    { id: 2739, name: 'Disney+' },
+    { id: 453, name: 'Hulu' },
+    { id: 174, name: 'AMC' },
+    { id: 88, name: 'FX' },
+    { id: 4, name: 'BBC One' },
+    { id: 6, name: 'NBC' },
+    { id: 2, name: 'ABC' },
+    { id: 16, name: 'CBS' },
+  ],
+  LANGUAGES: [
+    { code: 'en', name: 'English' },
+    { code: 'es', name: 'Spanish' },
+    { code: 'fr', name: 'French' },
+    { code: 'de', name: 'German' },
+    { code: 'ja', name: 'Japanese' },
+    { code: 'ko', name: 'Korean' },
+    { code: 'hi', name: 'Hindi' },
+  ],
+};
+
+// Content languages and regions offered in settings; every TMDB request is sent in the chosen ones
+export const LOCALE_CONFIG = {
+  LANGUAGES: [
+    { code: 'en-US', name: 'English (US)' },
+    { code: 'en-GB', name: 'English (UK)' },
+    { code: 'es-ES', name: 'Español (España)' },
+    { code: 'es-MX', name: 'Español (México)' },
+    { code: 'fr-FR', name: 'Français' },
+    { code: 'de-DE', name: 'Deutsch' },
+    { code: 'it-IT', name: 'Italiano' },
+    { code: 'nl-NL', name: 'Nederlands' },
+    { code: 'pt-BR', name: 'Português (Brasil)' },
+    { code: 'ja-JP', name: '日本語' },
+    { code: 'ko-KR', name: '한국어' },
+    { code: 'hi-IN', name: 'हिन्दी' },
+  ],
+  REGIONS: [
+    { code: 'US', name: 'United States' },
+    { code: 'CA', name: 'Canada' },
+    { code: 'GB', name: 'United Kingdom' },
+    { code: 'IE', name: 'Ireland' },
+    { code: 'AU', name: 'Australia' },
+    { code: 'NZ', name: 'New Zealand' },
+    { code: 'DE', name: 'Germany' },
+    { code: 'FR', name: 'France' },
+    { code: 'ES', name: 'Spain' },
+    { code: 'IT', name: 'Italy' },
+    { code: 'NL', name: 'Netherlands' },
+    { code: 'BR', name: 'Brazil' },
+    { code: 'MX', name: 'Mexico' },
+    { code: 'IN', name: 'India' },
+    { code: 'JP', name: 'Japan' },
+    { code: 'KR', name: 'South Korea' },
+  ],
+};
+
+// Streaming availability on TMDB comes from JustWatch
+export const WATCH_PROVIDER_CONFIG = {
+  LOGO_SIZE: 'w92',
+};
@@ -1,3 +1,5 @@
 declare module '@env' {
   export const TMDB_API_KEY: string;
+  export const METADATA_PROVIDER: string | undefined;
+  export const TVMAZE_BASE_URL: string | undefined;
 } 
\ No newline at end of file